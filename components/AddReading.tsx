@@ -4,12 +4,31 @@ import { Button } from './ui/button';
 import { Input } from './ui/input';
 import { Label } from './ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
-import { Activity, ArrowLeft, Check, Loader2 } from 'lucide-react';
+import { Activity, ArrowLeft, Bluetooth, Check, FileSpreadsheet, Loader2 } from 'lucide-react';
 import { Alert, AlertDescription } from './ui/alert';
 import { Textarea } from './ui/textarea';
-import { vitalsAPI, patientsAPI } from '../utils/api';
+import { Checkbox } from './ui/checkbox';
+import { vitalsAPI, patientsAPI, type Consciousness, type TemperatureUnit, type VitalMetric } from '../utils/api';
+import { describeRange, effectiveThresholds, profileLabel } from '../supabase/functions/_shared/thresholds';
+import { formatTemperature, fromCelsius, toCelsius } from '../supabase/functions/_shared/units';
+import { useUnits } from '../utils/use-units';
+import CsvImport from './CsvImport';
+import { isBluetoothAvailable, readFromDevice, type BluetoothReading } from '../utils/bluetooth';
 import { toast } from 'sonner@2.0.3';
 
+type CapturedField = 'heartRate' | 'systolic' | 'diastolic' | 'spo2' | 'temperature';
+
+// A measurement read from a device, and the form values it filled in
+interface Capture {
+  reading: BluetoothReading;
+  values: Partial<Record<CapturedField, string>>;
+}
+
+// Device clocks are often unset or wrong; their time is only used when it is
+// plausible for a reading just taken
+const MAX_DEVICE_CLOCK_AGE_MS = 24 * 60 * 60 * 1000;
+const MAX_DEVICE_CLOCK_AHEAD_MS = 5 * 60 * 1000;
+
 interface AddReadingProps {
   user: { id: string; name: string; role: string; email: string };
   onNavigate: (page: any) => void;
@@ -24,6 +43,9 @@ export default function AddReading({ user, onNavigate, onLogout }: AddReadingPro
     diastolic: '',
     spo2: '',
     temperature: '',
+    respiratoryRate: '',
+    consciousness: '',
+    supplementalOxygen: false,
     notes: ''
   });
 
@@ -31,6 +53,13 @@ export default function AddReading({ user, onNavigate, onLogout }: AddReadingPro
   const [loading, setLoading] = useState(false);
   const [loadingPatients, setLoadingPatients] = useState(true);
   const [submitted, setSubmitted] = useState(false);
+  const [captures, setCaptures] = useState<Capture[]>([]);
+  const [readingDevice, setReadingDevice] = useState(false);
+  const [importing, setImporting] = useState(false);
+  // Set when the temperature is typed in a unit other than the preferred one
+  const [temperatureUnit, setTemperatureUnit] = useState<TemperatureUnit | null>(null);
+  const units = useUnits();
+  const entryUnit = temperatureUnit ?? units.temperature;
 
   useEffect(() => {
     loadPatients();
@@ -48,6 +77,62 @@ export default function AddReading({ user, onNavigate, onLogout }: AddReadingPro
     }
   };
 
+  const handleReadDevice = async () => {
+    setReadingDevice(true);
+    try {
+      const reading = await readFromDevice();
+      const { measurement } = reading;
+      const values: Capture['values'] = {};
+      for (const field of ['heartRate', 'systolic', 'diastolic', 'spo2', 'temperature'] as CapturedField[]) {
+        const value = measurement[field];
+        // Devices report in °C; show it in the unit being entered
+        if (value !== undefined) values[field] = String(field === 'temperature' ? fromCelsius(value, entryUnit) : value);
+      }
+      if (Object.keys(values).length === 0) {
+        toast.error('The device sent a measurement without usable values');
+        return;
+      }
+      setFormData((current) => ({ ...current, ...values }));
+      setCaptures((current) => [...current, { reading, values }]);
+      toast.success(`Read ${reading.service.toLowerCase()} measurement from ${reading.name || 'the device'}`);
+    } catch (error: any) {
+      // Closing the device chooser without picking one
+      if (error?.name === 'NotFoundError') return;
+      console.error('Error reading from device:', error);
+      toast.error(error.message || 'Failed to read from device');
+    } finally {
+      setReadingDevice(false);
+    }
+  };
+
+  // A reading keeps its device as the source only while every value read
+  // from it is unchanged and all came from the same device
+  const capturedDevice = captures.length > 0 &&
+    captures.every((capture) => capture.reading.deviceId === captures[0].reading.deviceId) &&
+    captures.every((capture) => Object.entries(capture.values).every(([field, value]) => formData[field as CapturedField] === value))
+    ? captures[0].reading
+    : null;
+
+  // Converts the temperature typed so far, and any read from a device so the
+  // reading keeps its device as the source
+  const handleTemperatureUnitChange = (unit: TemperatureUnit) => {
+    const convert = (value: string) =>
+      value.trim() && !isNaN(Number(value)) ? String(fromCelsius(toCelsius(Number(value), entryUnit), unit)) : value;
+    setFormData((current) => ({ ...current, temperature: convert(current.temperature) }));
+    setCaptures((current) => current.map((capture) =>
+      capture.values.temperature === undefined
+        ? capture
+        : { ...capture, values: { ...capture.values, temperature: convert(capture.values.temperature) } }
+    ));
+    setTemperatureUnit(unit);
+  };
+
+  const deviceTimestamp = () => {
+    const time = captures.find((capture) => capture.reading.measurement.timestamp)?.reading.measurement.timestamp?.getTime();
+    const age = time === undefined ? NaN : Date.now() - time;
+    return age <= MAX_DEVICE_CLOCK_AGE_MS && age >= -MAX_DEVICE_CLOCK_AHEAD_MS ? new Date(time!).toISOString() : undefined;
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -57,7 +142,7 @@ export default function AddReading({ user, onNavigate, onLogout }: AddReadingPro
       return;
     }
 
-    if (!formData.heartRate && !formData.systolic && !formData.spo2 && !formData.temperature) {
+    if (!formData.heartRate && !formData.systolic && !formData.spo2 && !formData.temperature && !formData.respiratoryRate) {
       toast.error('Please enter at least one vital reading');
       return;
     }
@@ -74,8 +159,15 @@ export default function AddReading({ user, onNavigate, onLogout }: AddReadingPro
         heartRate: formData.heartRate ? parseInt(formData.heartRate) : undefined,
         bloodPressure,
         oxygenLevel: formData.spo2 ? parseInt(formData.spo2) : undefined,
-        temperature: formData.temperature ? parseFloat(formData.temperature) : undefined,
-        notes: formData.notes
+        temperature: formData.temperature ? toCelsius(parseFloat(formData.temperature), entryUnit) : undefined,
+        respiratoryRate: formData.respiratoryRate ? parseInt(formData.respiratoryRate) : undefined,
+        consciousness: (formData.consciousness || undefined) as Consciousness | undefined,
+        supplementalOxygen: formData.supplementalOxygen,
+        notes: formData.notes,
+        ...(capturedDevice ? {
+          device: { deviceId: capturedDevice.deviceId, name: capturedDevice.name },
+          timestamp: deviceTimestamp()
+        } : {})
       });
 
       setSubmitted(true);
@@ -89,6 +181,7 @@ export default function AddReading({ user, onNavigate, onLogout }: AddReadingPro
       // Reset form after 2 seconds
       setTimeout(() => {
         setSubmitted(false);
+        setCaptures([]);
         setFormData({
           patientId: '',
           heartRate: '',
@@ -96,6 +189,9 @@ export default function AddReading({ user, onNavigate, onLogout }: AddReadingPro
           diastolic: '',
           spo2: '',
           temperature: '',
+          respiratoryRate: '',
+          consciousness: '',
+          supplementalOxygen: false,
           notes: ''
         });
       }, 2000);
@@ -112,6 +208,14 @@ export default function AddReading({ user, onNavigate, onLogout }: AddReadingPro
     onNavigate('dashboard');
   };
 
+  // Range hints follow the selected patient's threshold profile
+  const profile = patients.find((p) => p.id === formData.patientId)?.thresholdProfile;
+  const thresholds = effectiveThresholds(profile);
+  const rangeHint = (metrics: VitalMetric[], fallback: string) =>
+    profile && metrics.some((m) => profile.thresholds[m])
+      ? `${profileLabel(profile)} target: ${metrics.map((m) => describeRange(m, thresholds[m], { ...units, temperature: entryUnit })).join(' / ')}`
+      : fallback;
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-emerald-50">
       {/* Header */}
@@ -124,10 +228,16 @@ export default function AddReading({ user, onNavigate, onLogout }: AddReadingPro
             <div className="w-12 h-12 rounded-xl bg-gradient-to-br from-blue-500 to-emerald-500 flex items-center justify-center">
               <Activity className="w-6 h-6 text-white" />
             </div>
-            <div>
+            <div className="flex-1">
               <h1 className="text-slate-900">Add New Reading</h1>
               <p className="text-sm text-slate-600">Record patient vital signs</p>
             </div>
+            {user.role !== 'family' && (
+              <Button variant="outline" onClick={() => setImporting(true)} disabled={loadingPatients}>
+                <FileSpreadsheet className="w-4 h-4 mr-2" />
+                Import CSV
+              </Button>
+            )}
           </div>
         </div>
       </div>
@@ -182,8 +292,31 @@ export default function AddReading({ user, onNavigate, onLogout }: AddReadingPro
 
               {/* Vital Signs */}
               <div className="space-y-4">
-                <h3 className="text-slate-900">Vital Signs</h3>
-                <p className="text-sm text-slate-500">Enter at least one vital measurement</p>
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <h3 className="text-slate-900">Vital Signs</h3>
+                    <p className="text-sm text-slate-500">Enter at least one vital measurement</p>
+                  </div>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={handleReadDevice}
+                    disabled={!isBluetoothAvailable() || readingDevice}
+                    title={isBluetoothAvailable() ? 'Pair a Bluetooth cuff, oximeter, thermometer or heart rate monitor' : 'Reading from devices needs Chrome or Edge over HTTPS'}
+                  >
+                    {readingDevice ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Bluetooth className="w-4 h-4 mr-2" />}
+                    {readingDevice ? 'Waiting for Measurement...' : 'Read from Device'}
+                  </Button>
+                </div>
+
+                {captures.length > 0 && (
+                  <p className="text-sm text-blue-900 bg-blue-50 border border-blue-200 rounded-lg p-3">
+                    Read from {captures.map(({ reading }) => `${reading.name || reading.deviceId} (${reading.service})`).join(', ')}.{' '}
+                    {capturedDevice
+                      ? 'The reading will be saved with the device as its source.'
+                      : 'Values were edited or read from more than one device, so the reading will be saved as a manual entry.'}
+                  </p>
+                )}
                 
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                   <div className="space-y-2">
@@ -195,7 +328,7 @@ export default function AddReading({ user, onNavigate, onLogout }: AddReadingPro
                       value={formData.heartRate}
                       onChange={(e) => setFormData({ ...formData, heartRate: e.target.value })}
                     />
-                    <p className="text-xs text-slate-500">Normal: 60-100 bpm</p>
+                    <p className="text-xs text-slate-500">{rangeHint(['heartRate'], 'Normal: 60-100 bpm')}</p>
                   </div>
 
                   <div className="space-y-2">
@@ -209,7 +342,7 @@ export default function AddReading({ user, onNavigate, onLogout }: AddReadingPro
                       min="0"
                       max="100"
                     />
-                    <p className="text-xs text-slate-500">Normal: 95-100%</p>
+                    <p className="text-xs text-slate-500">{rangeHint(['oxygenLevel'], 'Normal: 95-100%')}</p>
                   </div>
                 </div>
 
@@ -229,20 +362,76 @@ export default function AddReading({ user, onNavigate, onLogout }: AddReadingPro
                       onChange={(e) => setFormData({ ...formData, diastolic: e.target.value })}
                     />
                   </div>
-                  <p className="text-xs text-slate-500">Normal: 90/60 - 120/80 mmHg</p>
+                  <p className="text-xs text-slate-500">{rangeHint(['systolic', 'diastolic'], 'Normal: 90/60 - 120/80 mmHg')}</p>
                 </div>
 
                 <div className="space-y-2">
-                  <Label htmlFor="temperature">Temperature (°C)</Label>
-                  <Input
-                    id="temperature"
-                    type="number"
-                    step="0.1"
-                    placeholder="e.g., 37.0"
-                    value={formData.temperature}
-                    onChange={(e) => setFormData({ ...formData, temperature: e.target.value })}
+                  <Label htmlFor="temperature">Temperature (°{entryUnit})</Label>
+                  <div className="flex gap-2">
+                    <Input
+                      id="temperature"
+                      type="number"
+                      step="0.1"
+                      placeholder={`e.g., ${fromCelsius(37, entryUnit).toFixed(1)}`}
+                      value={formData.temperature}
+                      onChange={(e) => setFormData({ ...formData, temperature: e.target.value })}
+                    />
+                    <Select value={entryUnit} onValueChange={(value) => handleTemperatureUnitChange(value as TemperatureUnit)}>
+                      <SelectTrigger className="w-24" aria-label="Temperature unit">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="C">°C</SelectItem>
+                        <SelectItem value="F">°F</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <p className="text-xs text-slate-500">
+                    {rangeHint(['temperature'], `Normal: ${fromCelsius(36.1, entryUnit)}-${formatTemperature(37.2, entryUnit)}`)}
+                  </p>
+                </div>
+
+                {/* Used with the vitals above for the NEWS2 score */}
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                  <div className="space-y-2">
+                    <Label htmlFor="respiratoryRate">Respiration Rate (breaths/min)</Label>
+                    <Input
+                      id="respiratoryRate"
+                      type="number"
+                      placeholder="e.g., 16"
+                      value={formData.respiratoryRate}
+                      onChange={(e) => setFormData({ ...formData, respiratoryRate: e.target.value })}
+                    />
+                    <p className="text-xs text-slate-500">Normal: 12-20 breaths/min</p>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label>Level of Consciousness</Label>
+                    <Select
+                      value={formData.consciousness}
+                      onValueChange={(value) => setFormData({ ...formData, consciousness: value })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Not assessed" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="A">Alert</SelectItem>
+                        <SelectItem value="C">New confusion</SelectItem>
+                        <SelectItem value="V">Responds to voice</SelectItem>
+                        <SelectItem value="P">Responds to pain</SelectItem>
+                        <SelectItem value="U">Unresponsive</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id="supplementalOxygen"
+                    checked={formData.supplementalOxygen}
+                    onCheckedChange={(checked) => setFormData({ ...formData, supplementalOxygen: checked === true })}
                   />
-                  <p className="text-xs text-slate-500">Normal: 36.1-37.2°C</p>
+                  <Label htmlFor="supplementalOxygen">Patient is on supplemental oxygen</Label>
                 </div>
 
                 <div className="space-y-2">
@@ -295,11 +484,18 @@ export default function AddReading({ user, onNavigate, onLogout }: AddReadingPro
           <CardContent className="pt-6">
             <p className="text-sm text-blue-900">
               <strong>Note:</strong> The system automatically detects abnormal readings and creates alerts. 
-              Critical alerts are generated for: Heart rate {'<'}40 or {'>'}120 bpm, Oxygen {'<'}90%, Temperature {'<'}35°C or {'>'}38.5°C.
+              Critical alerts are generated for: Heart rate {'<'}50 or {'>'}120 bpm, Blood pressure {'>'}180/120 mmHg, Oxygen {'<'}85%, Temperature {'<'}{formatTemperature(35, entryUnit)} or ≥{formatTemperature(39.4, entryUnit)}, unless the patient's doctor has set custom thresholds. A NEWS2 score of 5 or more, or 3 points on any single parameter, also raises a critical alert.
             </p>
           </CardContent>
         </Card>
       </div>
+
+      <CsvImport
+        open={importing}
+        onClose={() => setImporting(false)}
+        patients={patients}
+        defaultPatientId={user.role === 'patient' ? user.id : undefined}
+      />
     </div>
   );
 }
@@ -0,0 +1,42 @@
+import { Siren } from 'lucide-react';
+import { type Alert } from '../utils/api';
+import { ESCALATION_TARGET_LABELS } from './EscalationSettings';
+
+interface AlertEscalationHistoryProps {
+  alert: Alert;
+}
+
+const formatTime = (timestamp: string) =>
+  new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+// The escalation tiers an alert has reached and what happens next
+export default function AlertEscalationHistory({ alert }: AlertEscalationHistoryProps) {
+  const escalation = alert.escalation;
+  if (!escalation || escalation.steps.length === 0) return null;
+
+  return (
+    <div className="mb-3 text-xs text-slate-600">
+      <div className="flex items-center gap-1 mb-1 text-slate-700">
+        <Siren className="w-3 h-3" />
+        <span>Escalation</span>
+      </div>
+      <ol className="space-y-1 pl-4">
+        {escalation.steps.map((step) => (
+          <li key={step.tier}>
+            <span className="text-slate-500">{formatTime(step.at)}</span>{' '}
+            {ESCALATION_TARGET_LABELS[step.target]}
+            {step.recipientIds.length === 0
+              ? ' - nobody to notify'
+              : ` notified (${step.recipientIds.length})`}
+          </li>
+        ))}
+        {escalation.nextAt && (
+          <li className="text-slate-500">Next tier at {formatTime(escalation.nextAt)} unless acknowledged</li>
+        )}
+        {escalation.cancelledAt && (
+          <li className="text-emerald-700">Stopped at {formatTime(escalation.cancelledAt)} when acknowledged</li>
+        )}
+      </ol>
+    </div>
+  );
+}
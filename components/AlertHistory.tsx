@@ -0,0 +1,47 @@
+import { useState } from 'react';
+import { Button } from './ui/button';
+import { ChevronDown, ChevronUp } from 'lucide-react';
+import { type Alert, type AlertStateChange } from '../utils/api';
+import { ALERT_ACTION_LABELS, ALERT_OUTCOME_LABELS } from '../supabase/functions/_shared/alert_lifecycle';
+
+interface AlertHistoryProps {
+  alert: Alert;
+}
+
+const formatTime = (timestamp: string) => new Date(timestamp).toLocaleString();
+
+const describe = (change: AlertStateChange) => [
+  change.byName && `by ${change.byName}`,
+  change.assigneeName && `to ${change.assigneeName}`,
+  change.snoozedUntil && `until ${new Date(change.snoozedUntil).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`,
+  change.outcome && `- ${ALERT_OUTCOME_LABELS[change.outcome]}`
+].filter(Boolean).join(' ');
+
+// Every state change on an alert, oldest first
+export default function AlertHistory({ alert }: AlertHistoryProps) {
+  const [open, setOpen] = useState(false);
+
+  if (!alert.history || alert.history.length === 0) return null;
+
+  return (
+    <div className="mb-3">
+      <Button variant="ghost" size="sm" className="px-0 text-slate-600" onClick={() => setOpen(!open)}>
+        {open ? <ChevronUp className="w-4 h-4 mr-1" /> : <ChevronDown className="w-4 h-4 mr-1" />}
+        History ({alert.history.length})
+      </Button>
+      {open && (
+        <ol className="text-xs text-slate-600 space-y-1">
+          {alert.history.map((change, index) => (
+            <li key={index}>
+              <div className="flex gap-3">
+                <span className="text-slate-500">{formatTime(change.at)}</span>
+                <span>{ALERT_ACTION_LABELS[change.action]} {describe(change)}</span>
+              </div>
+              {change.notes && <p className="pl-4 text-slate-500 italic">{change.notes}</p>}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,91 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { BellRing, Loader2, Save } from 'lucide-react';
+import { rulesAPI, ValidationError, type AlertPolicy } from '../utils/api';
+import { toast } from 'sonner@2.0.3';
+
+const FIELDS: { field: keyof AlertPolicy; label: string; hint: string }[] = [
+  { field: 'renotifyMinutes', label: 'Re-notify interval (minutes)', hint: 'Minimum time between notifications for the same open alert' },
+  { field: 'clearAfterReadings', label: 'Clear after normal readings', hint: 'Consecutive readings without the condition before an alert clears' },
+  { field: 'clearAfterMinutes', label: 'Clear after (minutes)', hint: 'Minimum time since the condition was last seen before clearing' },
+  { field: 'flapWindowMinutes', label: 'Flapping window (minutes)', hint: 'Period over which reopened alerts are counted' },
+  { field: 'flapThreshold', label: 'Flapping after reopens', hint: 'Reopens within the window before an alert is flagged and muted' },
+  { field: 'deviceOfflineMinutes', label: 'Device offline after (minutes)', hint: 'Time without a reading or heartbeat before a paired device is reported offline' },
+  { field: 'batteryLowPercent', label: 'Low battery below (%)', hint: 'Battery level at which a paired device raises an alert' }
+];
+
+// Organisation-wide settings for merging, clearing and re-notifying alerts
+export default function AlertPolicySettings() {
+  const [values, setValues] = useState<Record<keyof AlertPolicy, string> | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadPolicy();
+  }, []);
+
+  const loadPolicy = async () => {
+    try {
+      const { policy } = await rulesAPI.getPolicy();
+      setValues(Object.fromEntries(FIELDS.map(({ field }) => [field, String(policy[field])])) as Record<keyof AlertPolicy, string>);
+    } catch (error) {
+      console.error('Error loading alert policy:', error);
+      toast.error('Failed to load alert settings');
+    }
+  };
+
+  const handleSave = async () => {
+    if (!values) return;
+    setSaving(true);
+    try {
+      await rulesAPI.setPolicy(Object.fromEntries(FIELDS.map(({ field }) => [field, Number(values[field])])));
+      toast.success('Alert settings updated');
+    } catch (error) {
+      console.error('Error saving alert policy:', error);
+      toast.error(error instanceof ValidationError ? error.message : 'Failed to save alert settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card className="border-slate-200 shadow-sm">
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <BellRing className="w-5 h-5 text-blue-600" />
+          <CardTitle className="text-slate-900">Alert Handling</CardTitle>
+        </div>
+        <CardDescription>How repeated alerts are merged, cleared and re-notified, and when devices raise alerts, for all patients</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!values ? (
+          <Loader2 className="w-6 h-6 animate-spin text-blue-600" />
+        ) : (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {FIELDS.map(({ field, label, hint }) => (
+                <div key={field} className="space-y-2">
+                  <Label htmlFor={field}>{label}</Label>
+                  <Input
+                    id={field}
+                    type="number"
+                    min="0"
+                    value={values[field]}
+                    onChange={(e) => setValues({ ...values, [field]: e.target.value })}
+                  />
+                  <p className="text-xs text-slate-500">{hint}</p>
+                </div>
+              ))}
+            </div>
+            <Button onClick={handleSave} disabled={saving} className="bg-blue-600 hover:bg-blue-700">
+              {saving ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Save className="w-4 h-4 mr-2" />}
+              Save Alert Settings
+            </Button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,72 @@
+import { useState } from 'react';
+import { Button } from './ui/button';
+import { ChevronDown, ChevronUp, Loader2 } from 'lucide-react';
+import { vitalsAPI, type Alert, type UnitPreferences, type VitalReading } from '../utils/api';
+import { formatTemperature } from '../supabase/functions/_shared/units';
+import { useUnits } from '../utils/use-units';
+import { toast } from 'sonner@2.0.3';
+
+interface AlertReadingsProps {
+  alert: Alert;
+}
+
+const summarize = (vital: VitalReading, units: UnitPreferences) => [
+  vital.heartRate !== undefined && `HR ${vital.heartRate} bpm`,
+  vital.bloodPressure && `BP ${vital.bloodPressure} mmHg`,
+  vital.oxygenLevel !== undefined && `SpO₂ ${vital.oxygenLevel}%`,
+  vital.temperature !== undefined && `Temp ${formatTemperature(vital.temperature, units.temperature)}`,
+  vital.device && `via ${vital.device.name ?? vital.device.deviceId}`
+].filter(Boolean).join(' · ');
+
+// The readings behind a trend alert, loaded when first expanded
+export default function AlertReadings({ alert }: AlertReadingsProps) {
+  const [open, setOpen] = useState(false);
+  const [readings, setReadings] = useState<VitalReading[] | null>(null);
+  const [loading, setLoading] = useState(false);
+  const units = useUnits();
+
+  if (!alert.vitalIds || alert.vitalIds.length === 0) return null;
+
+  const handleToggle = async () => {
+    setOpen(!open);
+    if (readings || loading) return;
+    setLoading(true);
+    try {
+      const results = await Promise.all(alert.vitalIds!.map((id) => vitalsAPI.get(alert.patientId, id).catch(() => null)));
+      setReadings(results.flatMap((result) => result ? [result.vital] : []));
+    } catch (error) {
+      console.error('Error loading alert readings:', error);
+      toast.error('Failed to load readings');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="mb-3">
+      <Button variant="ghost" size="sm" className="px-0 text-slate-600" onClick={handleToggle}>
+        {open ? <ChevronUp className="w-4 h-4 mr-1" /> : <ChevronDown className="w-4 h-4 mr-1" />}
+        {alert.vitalIds.length} readings involved
+      </Button>
+      {open && (
+        loading ? (
+          <Loader2 className="w-4 h-4 animate-spin text-blue-600" />
+        ) : (
+          <ul className="text-xs text-slate-600 space-y-1">
+            {(readings || []).map((vital) => (
+              <li key={vital.id} className="flex gap-3">
+                <span className="text-slate-500">{new Date(vital.timestamp).toLocaleString()}</span>
+                <span>{summarize(vital, units)}</span>
+              </li>
+            ))}
+            {readings && readings.length < alert.vitalIds.length && (
+              <li className="text-slate-400">
+                {alert.vitalIds.length - readings.length} reading(s) have since been deleted
+              </li>
+            )}
+          </ul>
+        )
+      )}
+    </div>
+  );
+}
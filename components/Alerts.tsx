@@ -1,59 +1,109 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
 import { Button } from './ui/button';
 import { Badge } from './ui/badge';
-import { Activity, ArrowLeft, AlertTriangle, Check, Clock, Heart, Droplet, Loader2 } from 'lucide-react';
-import { alertsAPI } from '../utils/api';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from './ui/dropdown-menu';
+import { Activity, ArrowLeft, AlertTriangle, BellOff, Check, CheckCircle2, Clock, Heart, Droplet, Loader2, UserCheck } from 'lucide-react';
+import {
+  alertsAPI,
+  AuthError,
+  NetworkError,
+  ValidationError,
+  type Alert,
+  type AlertSeverity,
+  type AlertState,
+  type LiveEvent
+} from '../utils/api';
+import { useLiveUpdates } from '../utils/use-live-updates';
+import {
+  ALERT_OUTCOME_LABELS,
+  ALERT_STATE_LABELS,
+  alertState,
+  canTransition,
+  isEscalationRecipient,
+  isSnoozed
+} from '../supabase/functions/_shared/alert_lifecycle';
+import { formatTemperature, localizeTemperatures } from '../supabase/functions/_shared/units';
+import { useUnits } from '../utils/use-units';
+import AlertEscalationHistory from './AlertEscalationHistory';
+import AlertHistory from './AlertHistory';
+import AlertReadings from './AlertReadings';
+import LiveIndicator from './LiveIndicator';
+import ResolveAlertDialog from './ResolveAlertDialog';
 import { toast } from 'sonner@2.0.3';
 
+const severityStyles: Record<AlertSeverity, { card: string; iconBg: string; icon: string; badge: string; label: string }> = {
+  critical: {
+    card: 'border-red-300 bg-red-50',
+    iconBg: 'bg-red-200',
+    icon: 'text-red-700',
+    badge: 'bg-red-100 text-red-700 border-red-300',
+    label: 'Critical'
+  },
+  warning: {
+    card: 'border-orange-300 bg-orange-50',
+    iconBg: 'bg-orange-200',
+    icon: 'text-orange-700',
+    badge: 'bg-orange-100 text-orange-700 border-orange-300',
+    label: 'Warning'
+  },
+  info: {
+    card: 'border-blue-300 bg-blue-50',
+    iconBg: 'bg-blue-200',
+    icon: 'text-blue-700',
+    badge: 'bg-blue-100 text-blue-700 border-blue-300',
+    label: 'Info'
+  }
+};
+
+const stateStyles: Record<AlertState, string> = {
+  open: 'bg-white text-slate-700',
+  claimed: 'bg-blue-100 text-blue-700 border-blue-300',
+  acknowledged: 'bg-amber-100 text-amber-700 border-amber-300',
+  resolved: 'bg-emerald-100 text-emerald-700 border-emerald-200'
+};
+
+const SNOOZE_OPTIONS = [
+  { minutes: 15, label: '15 minutes' },
+  { minutes: 30, label: '30 minutes' },
+  { minutes: 60, label: '1 hour' },
+  { minutes: 240, label: '4 hours' }
+];
+
 interface AlertsProps {
   user: { id: string; name: string; role: string; email: string };
   onNavigate: (page: any) => void;
   onLogout: () => void;
 }
 
-interface Alert {
-  id: string;
-  patientId: string;
-  patientName?: string;
-  patientAge?: number | null;
-  patientEmail?: string;
-  type: string;
-  severity: 'critical' | 'warning';
-  value: number;
-  message: string;
-  timestamp: string;
-  acknowledged: boolean;
-  acknowledgedBy?: string;
-  acknowledgedAt?: string;
-}
-
 export default function Alerts({ user, onNavigate, onLogout }: AlertsProps) {
   const [alerts, setAlerts] = useState<Alert[]>([]);
   const [loading, setLoading] = useState(true);
+  const [resolving, setResolving] = useState<Alert | null>(null);
+  const units = useUnits();
 
   useEffect(() => {
     loadAlerts();
-    // Auto-refresh every 30 seconds
-    const interval = setInterval(loadAlerts, 30000);
-    return () => clearInterval(interval);
   }, [user.id, user.role]);
 
   const loadAlerts = async () => {
     try {
-      let data;
-      if (user.role === 'doctor') {
-        // Doctors see all alerts
-        data = await alertsAPI.getAll();
-      } else {
-        // Patients see only their own alerts
-        data = await alertsAPI.getForPatient(user.id);
-      }
-      
+      // Doctors see all alerts; patients their own, and family members those
+      // of the patients they are linked to
+      const data = await alertsAPI.getAll();
       setAlerts(data.alerts || []);
-    } catch (error: any) {
+      notifyEscalations(data.alerts || []);
+    } catch (error) {
       console.error('Error loading alerts:', error);
-      if (error.message !== 'API request failed') {
+      if (error instanceof AuthError) {
+        toast.error('Your session has expired. Please log in again.');
+      } else if (!(error instanceof NetworkError)) {
         toast.error('Failed to load alerts');
       }
     } finally {
@@ -61,6 +111,40 @@ export default function Alerts({ user, onNavigate, onLogout }: AlertsProps) {
     }
   };
 
+  // notifiedAt of each escalation already shown, so a tier is only announced once
+  const notified = useRef(new Map<string, string | undefined>());
+
+  // Escalation tiers reach family members here, as pushed alert events;
+  // doctors are notified from their dashboard
+  const notifyEscalations = (changed: Alert[]) => {
+    if (user.role === 'doctor') return;
+    changed
+      .filter((alert) =>
+        !alert.acknowledged && isEscalationRecipient(alert, user) &&
+        (!notified.current.has(alert.id) || notified.current.get(alert.id) !== alert.notifiedAt)
+      )
+      .forEach((alert) => {
+        notified.current.set(alert.id, alert.notifiedAt);
+        const message = `${alert.patientName ?? 'Patient'}: ${localizeTemperatures(alert.message, units.temperature)}`;
+        toast.error(`Alert not yet answered by the care team - ${message}`, { duration: 10000 });
+        if ('Notification' in window && Notification.permission === 'granted') {
+          new Notification('Patient Alert', { body: message, tag: alert.id });
+        }
+      });
+  };
+
+  // New alerts and state changes are pushed; polling covers dropped streams
+  const handleLiveEvent = (event: LiveEvent) => {
+    if (event.type === 'alert') {
+      notifyEscalations([event.alert]);
+      setAlerts((current) => [event.alert, ...current.filter((a) => a.id !== event.alert.id)]
+        .sort((a, b) => b.timestamp.localeCompare(a.timestamp)));
+    } else if (event.type === 'alert-deleted') {
+      setAlerts((current) => current.filter((a) => a.id !== event.alertId));
+    }
+  };
+  const liveStatus = useLiveUpdates(handleLiveEvent, loadAlerts);
+
   const handleAcknowledge = async (alertId: string) => {
     try {
       await alertsAPI.acknowledge(alertId);
@@ -72,6 +156,35 @@ export default function Alerts({ user, onNavigate, onLogout }: AlertsProps) {
     }
   };
 
+  const handleClaim = async (alertId: string) => {
+    try {
+      await alertsAPI.claim(alertId);
+      toast.success('Alert claimed');
+      loadAlerts();
+    } catch (error) {
+      console.error('Error claiming alert:', error);
+      toast.error(error instanceof ValidationError ? error.message : 'Failed to claim alert');
+    }
+  };
+
+  const handleSnooze = async (alertId: string, minutes: number) => {
+    try {
+      await alertsAPI.snooze(alertId, minutes);
+      toast.success(minutes ? 'Alert snoozed' : 'Snooze ended');
+      loadAlerts();
+    } catch (error) {
+      console.error('Error snoozing alert:', error);
+      toast.error(error instanceof ValidationError ? error.message : 'Failed to snooze alert');
+    }
+  };
+
+  // Who the alert is claimed by, from the latest claim in its history
+  const claimedByName = (alert: Alert) => {
+    const claim = [...(alert.history || [])].reverse().find((change) => change.action === 'claimed');
+    if (alert.claimedBy === user.id) return 'you';
+    return claim?.assigneeName || claim?.byName;
+  };
+
   const getTimeAgo = (timestamp: string) => {
     const now = new Date();
     const then = new Date(timestamp);
@@ -83,8 +196,9 @@ export default function Alerts({ user, onNavigate, onLogout }: AlertsProps) {
     return `${Math.floor(diff / 86400)} days ago`;
   };
 
-  const activeAlerts = alerts.filter(a => !a.acknowledged);
-  const resolvedAlerts = alerts.filter(a => a.acknowledged);
+  const activeAlerts = alerts.filter(a => alertState(a) !== 'resolved');
+  const resolvedAlerts = alerts.filter(a => alertState(a) === 'resolved')
+    .sort((a, b) => (b.resolvedAt || '').localeCompare(a.resolvedAt || ''));
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-emerald-50">
@@ -102,9 +216,10 @@ export default function Alerts({ user, onNavigate, onLogout }: AlertsProps) {
               <h1 className="text-slate-900">Alert Notifications</h1>
               <p className="text-sm text-slate-600">Monitor critical patient alerts</p>
             </div>
-            {loading && (
-              <Loader2 className="w-5 h-5 animate-spin text-blue-600 ml-auto" />
-            )}
+            <div className="ml-auto flex items-center gap-3">
+              {loading && <Loader2 className="w-5 h-5 animate-spin text-blue-600" />}
+              <LiveIndicator status={liveStatus} />
+            </div>
           </div>
         </div>
       </div>
@@ -128,7 +243,7 @@ export default function Alerts({ user, onNavigate, onLogout }: AlertsProps) {
             </CardHeader>
             <CardContent>
               <p className="text-emerald-900">{resolvedAlerts.length}</p>
-              <p className="text-xs text-emerald-700 mt-1">Successfully handled</p>
+              <p className="text-xs text-emerald-700 mt-1">Closed with an outcome</p>
             </CardContent>
           </Card>
 
@@ -170,27 +285,17 @@ export default function Alerts({ user, onNavigate, onLogout }: AlertsProps) {
               activeAlerts.map((alert) => (
                 <Card 
                   key={alert.id} 
-                  className={`border-2 ${
-                    alert.severity === 'critical' 
-                      ? 'border-red-300 bg-red-50' 
-                      : 'border-orange-300 bg-orange-50'
-                  }`}
+                  className={`border-2 ${severityStyles[alert.severity].card}`}
                 >
                   <CardContent className="pt-6">
                     <div className="flex items-start justify-between gap-4">
                       <div className="flex-1">
                         <div className="flex items-center gap-3 mb-3">
-                          <div className={`w-10 h-10 rounded-lg flex items-center justify-center ${
-                            alert.severity === 'critical' ? 'bg-red-200' : 'bg-orange-200'
-                          }`}>
+                          <div className={`w-10 h-10 rounded-lg flex items-center justify-center ${severityStyles[alert.severity].iconBg}`}>
                             {alert.type.includes('Heart') ? (
-                              <Heart className={`w-5 h-5 ${
-                                alert.severity === 'critical' ? 'text-red-700' : 'text-orange-700'
-                              }`} />
+                              <Heart className={`w-5 h-5 ${severityStyles[alert.severity].icon}`} />
                             ) : (
-                              <AlertTriangle className={`w-5 h-5 ${
-                                alert.severity === 'critical' ? 'text-red-700' : 'text-orange-700'
-                              }`} />
+                              <AlertTriangle className={`w-5 h-5 ${severityStyles[alert.severity].icon}`} />
                             )}
                           </div>
                           <div className="flex-1">
@@ -200,43 +305,117 @@ export default function Alerts({ user, onNavigate, onLogout }: AlertsProps) {
                                   ? alert.patientName 
                                   : 'Your Health Alert'}
                               </h3>
-                              <Badge 
-                                variant="outline" 
-                                className={
-                                  alert.severity === 'critical' 
-                                    ? 'bg-red-100 text-red-700 border-red-300' 
-                                    : 'bg-orange-100 text-orange-700 border-orange-300'
-                                }
-                              >
-                                {alert.severity === 'critical' ? 'Critical' : 'Warning'}
+                              <Badge variant="outline" className={severityStyles[alert.severity].badge}>
+                                {severityStyles[alert.severity].label}
                               </Badge>
+                              {alert.occurrences && alert.occurrences > 1 && (
+                                <Badge variant="outline" className="bg-white text-slate-700" title="Repeats merged into this alert">
+                                  ×{alert.occurrences}
+                                </Badge>
+                              )}
+                              {alert.flapping && (
+                                <Badge variant="outline" className="bg-purple-100 text-purple-700 border-purple-300" title="Repeatedly clearing and returning; notifications are paused">
+                                  Flapping
+                                </Badge>
+                              )}
+                              {alert.clearedAt && (
+                                <Badge variant="outline" className="bg-emerald-100 text-emerald-700 border-emerald-200">
+                                  Condition cleared
+                                </Badge>
+                              )}
+                              <Badge variant="outline" className={stateStyles[alertState(alert)]}>
+                                {ALERT_STATE_LABELS[alertState(alert)]}
+                                {alertState(alert) === 'claimed' && claimedByName(alert) && ` by ${claimedByName(alert)}`}
+                              </Badge>
+                              {isSnoozed(alert) && (
+                                <Badge variant="outline" className="bg-slate-100 text-slate-700 border-slate-300">
+                                  <BellOff className="w-3 h-3 mr-1" />
+                                  Snoozed until {new Date(alert.snoozedUntil!).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                                </Badge>
+                              )}
                             </div>
                             <p className="text-sm text-slate-600">
                               {alert.patientAge && user.role === 'doctor' && `Age: ${alert.patientAge} | `}
-                              {alert.type}: {alert.value} - {alert.message}
+                              {alert.type}: {alert.type === 'Temperature' ? formatTemperature(alert.value, units.temperature) : alert.value} - {localizeTemperatures(alert.message, units.temperature)}
                             </p>
                           </div>
                         </div>
                         
                         <div className="bg-white rounded-lg p-3 mb-3">
-                          <p className="text-sm text-slate-700">{alert.message}</p>
+                          <p className="text-sm text-slate-700">{localizeTemperatures(alert.reason || alert.message, units.temperature)}</p>
                         </div>
 
+                        <AlertReadings alert={alert} />
+
+                        <AlertEscalationHistory alert={alert} />
+
+                        <AlertHistory alert={alert} />
+
                         <div className="flex items-center gap-2 text-xs text-slate-500">
                           <Clock className="w-3 h-3" />
                           <span>{getTimeAgo(alert.timestamp)}</span>
+                          {alert.lastSeenAt && alert.lastSeenAt !== alert.timestamp && (
+                            <span>· last seen {getTimeAgo(alert.lastSeenAt)}</span>
+                          )}
                         </div>
                       </div>
 
                       <div className="flex flex-col gap-2">
-                        <Button 
-                          size="sm"
-                          variant="outline"
-                          onClick={() => handleAcknowledge(alert.id)}
-                        >
-                          <Check className="w-4 h-4 mr-1" />
-                          Acknowledge
-                        </Button>
+                        {user.role === 'doctor' && canTransition(alert, 'claimed') && alert.claimedBy !== user.id && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => handleClaim(alert.id)}
+                          >
+                            <UserCheck className="w-4 h-4 mr-1" />
+                            Claim
+                          </Button>
+                        )}
+                        {user.role === 'doctor' && !alert.acknowledged && (
+                          <Button 
+                            size="sm"
+                            variant="outline"
+                            onClick={() => handleAcknowledge(alert.id)}
+                          >
+                            <Check className="w-4 h-4 mr-1" />
+                            Acknowledge
+                          </Button>
+                        )}
+                        {user.role === 'doctor' && (
+                          <>
+                            <DropdownMenu>
+                              <DropdownMenuTrigger asChild>
+                                <Button size="sm" variant="outline">
+                                  <BellOff className="w-4 h-4 mr-1" />
+                                  Snooze
+                                </Button>
+                              </DropdownMenuTrigger>
+                              <DropdownMenuContent align="end">
+                                {SNOOZE_OPTIONS.map(({ minutes, label }) => (
+                                  <DropdownMenuItem key={minutes} onClick={() => handleSnooze(alert.id, minutes)}>
+                                    {label}
+                                  </DropdownMenuItem>
+                                ))}
+                                {isSnoozed(alert) && (
+                                  <>
+                                    <DropdownMenuSeparator />
+                                    <DropdownMenuItem onClick={() => handleSnooze(alert.id, 0)}>
+                                      End snooze
+                                    </DropdownMenuItem>
+                                  </>
+                                )}
+                              </DropdownMenuContent>
+                            </DropdownMenu>
+                            <Button
+                              size="sm"
+                              className="bg-emerald-600 hover:bg-emerald-700"
+                              onClick={() => setResolving(alert)}
+                            >
+                              <CheckCircle2 className="w-4 h-4 mr-1" />
+                              Resolve
+                            </Button>
+                          </>
+                        )}
                       </div>
                     </div>
                   </CardContent>
@@ -264,14 +443,23 @@ export default function Alerts({ user, onNavigate, onLogout }: AlertsProps) {
                               : 'Your Alert'}
                           </p>
                           <p className="text-sm text-slate-600">
-                            {alert.type} - {alert.message}
+                            {alert.type} - {localizeTemperatures(alert.message, units.temperature)}
                           </p>
+                          {alert.resolutionNotes && (
+                            <p className="text-sm text-slate-500 italic mt-1">{alert.resolutionNotes}</p>
+                          )}
+                          {alert.resolvedAt && (
+                            <p className="text-xs text-slate-500 mt-1">Resolved {getTimeAgo(alert.resolvedAt)}</p>
+                          )}
                         </div>
                       </div>
                       <Badge variant="outline" className="bg-emerald-100 text-emerald-700 border-emerald-200">
-                        Resolved
+                        {alert.outcome ? ALERT_OUTCOME_LABELS[alert.outcome] : 'Resolved'}
                       </Badge>
                     </div>
+                    <div className="mt-2">
+                      <AlertHistory alert={alert} />
+                    </div>
                   </CardContent>
                 </Card>
               ))}
@@ -279,6 +467,8 @@ export default function Alerts({ user, onNavigate, onLogout }: AlertsProps) {
           </div>
         )}
       </div>
+
+      <ResolveAlertDialog alert={resolving} onClose={() => setResolving(null)} onResolved={loadAlerts} />
     </div>
   );
 }
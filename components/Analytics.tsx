@@ -2,7 +2,7 @@ import { useState, useEffect } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
 import { Button } from './ui/button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
-import { Activity, ArrowLeft, Download, TrendingUp, Users, Loader2 } from 'lucide-react';
+import { Activity, ArrowLeft, Download, FileSpreadsheet, TrendingUp, Users, Loader2 } from 'lucide-react';
 import { 
   LineChart, 
   Line, 
@@ -17,7 +17,11 @@ import {
   Legend,
   ResponsiveContainer 
 } from 'recharts';
-import { analyticsAPI } from '../utils/api';
+import { analyticsAPI, AuthError, NetworkError, ValidationError, type AnalyticsPeriod, type AnalyticsResult } from '../utils/api';
+import { downloadCsv, downloadXlsx, type ExportMetric } from '../utils/export';
+import { formatTemperature, fromCelsius } from '../supabase/functions/_shared/units';
+import { useUnits } from '../utils/use-units';
+import ExportReadingsDialog from './ExportReadingsDialog';
 import { toast } from 'sonner@2.0.3';
 
 interface AnalyticsProps {
@@ -27,10 +31,13 @@ interface AnalyticsProps {
 }
 
 export default function Analytics({ user, onNavigate, onLogout }: AnalyticsProps) {
-  const [selectedPeriod, setSelectedPeriod] = useState('7days');
-  const [selectedMetric, setSelectedMetric] = useState('all');
+  const [selectedPeriod, setSelectedPeriod] = useState<AnalyticsPeriod>('7days');
+  const [selectedMetric, setSelectedMetric] = useState<ExportMetric>('all');
   const [loading, setLoading] = useState(true);
-  const [analyticsData, setAnalyticsData] = useState<any>(null);
+  const [analyticsData, setAnalyticsData] = useState<AnalyticsResult | null>(null);
+  const [exportFormat, setExportFormat] = useState<'csv' | 'xlsx' | null>(null);
+  const [exporting, setExporting] = useState(false);
+  const units = useUnits();
 
   useEffect(() => {
     loadAnalytics();
@@ -39,16 +46,18 @@ export default function Analytics({ user, onNavigate, onLogout }: AnalyticsProps
   const loadAnalytics = async () => {
     setLoading(true);
     try {
-      let data;
+      let data: AnalyticsResult;
       if (user.role === 'doctor') {
         data = await analyticsAPI.getAggregate(selectedPeriod);
       } else {
         data = await analyticsAPI.getForPatient(user.id, selectedPeriod);
       }
       setAnalyticsData(data);
-    } catch (error: any) {
+    } catch (error) {
       console.error('Error loading analytics:', error);
-      if (error.message !== 'API request failed') {
+      if (error instanceof AuthError) {
+        toast.error('Your session has expired. Please log in again.');
+      } else if (!(error instanceof NetworkError)) {
         toast.error('Failed to load analytics');
       }
     } finally {
@@ -115,6 +124,12 @@ export default function Analytics({ user, onNavigate, onLogout }: AnalyticsProps
           doc.text(`Average Oxygen Level: ${analyticsData.stats.avgOxygenLevel}%`, 20, yPos);
           yPos += 7;
         }
+
+        const avgTemperature = averageTemperature();
+        if (avgTemperature !== null) {
+          doc.text(`Average Temperature: ${formatTemperature(avgTemperature, units.temperature)}`, 20, yPos);
+          yPos += 7;
+        }
       }
       
       // Add footer
@@ -130,66 +145,78 @@ export default function Analytics({ user, onNavigate, onLogout }: AnalyticsProps
     }
   };
 
+  // Every reading behind the charts, for the selected period and vital type
+  const exportReadings = async (format: 'csv' | 'xlsx', patientIds: string[]) => {
+    try {
+      const data = await analyticsAPI.export(selectedPeriod, patientIds);
+      const rows = format === 'csv'
+        ? downloadCsv(data, selectedMetric, units)
+        : await downloadXlsx(data, selectedMetric, units);
+      toast.success(`Exported ${rows} readings`);
+    } catch (error) {
+      console.error('Error exporting readings:', error);
+      toast.error(error instanceof ValidationError ? error.message : 'Failed to export readings');
+    }
+  };
+
+  // Doctors choose the patients first. Everyone else exports every patient
+  // they can see: a patient themselves, a family member the linked patients.
+  const handleExport = async (format: 'csv' | 'xlsx') => {
+    if (user.role === 'doctor') {
+      setExportFormat(format);
+      return;
+    }
+    setExporting(true);
+    await exportReadings(format, []);
+    setExporting(false);
+  };
+
   const handlePrint = () => {
     window.print();
   };
 
-  // Process vitals data for charts
+  // Chart points come from the server rollups at the period's resolution
   const processChartData = () => {
-    if (!analyticsData?.vitals || analyticsData.vitals.length === 0) {
+    if (!analyticsData?.series || analyticsData.series.points.length === 0) {
       return { timeSeriesData: [], dailyData: [] };
     }
 
-    const vitals = analyticsData.vitals;
-    
-    // Group by day for time series
-    const dayMap = new Map();
-    vitals.forEach((vital: any) => {
-      const date = new Date(vital.timestamp);
-      const dayKey = date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
-      
-      if (!dayMap.has(dayKey)) {
-        dayMap.set(dayKey, {
-          day: dayKey,
-          heartRates: [],
-          oxygenLevels: [],
-          temperatures: [],
-          bpSystolic: [],
-          bpDiastolic: []
-        });
+    const { resolution, points } = analyticsData.series;
+    const formatBucket = (bucket: string) => {
+      const date = new Date(bucket);
+      if (resolution === 'hour') {
+        return date.toLocaleString('en-US', { weekday: 'short', hour: 'numeric' });
       }
-      
-      const dayData = dayMap.get(dayKey);
-      if (vital.heartRate) dayData.heartRates.push(vital.heartRate);
-      if (vital.oxygenLevel) dayData.oxygenLevels.push(vital.oxygenLevel);
-      if (vital.temperature) dayData.temperatures.push(vital.temperature);
-      if (vital.bloodPressure) {
-        const [sys, dia] = vital.bloodPressure.split('/').map((v: string) => parseInt(v));
-        dayData.bpSystolic.push(sys);
-        dayData.bpDiastolic.push(dia);
-      }
-    });
+      const day = date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+      return resolution === 'week' ? `Week of ${day}` : day;
+    };
 
-    const timeSeriesData = Array.from(dayMap.values()).map(day => ({
-      day: day.day,
-      avgHR: day.heartRates.length > 0 
-        ? Math.round(day.heartRates.reduce((a: number, b: number) => a + b, 0) / day.heartRates.length)
-        : null,
-      avgSpO2: day.oxygenLevels.length > 0
-        ? Math.round(day.oxygenLevels.reduce((a: number, b: number) => a + b, 0) / day.oxygenLevels.length)
-        : null,
-      avgTemp: day.temperatures.length > 0
-        ? (day.temperatures.reduce((a: number, b: number) => a + b, 0) / day.temperatures.length).toFixed(1)
-        : null,
-      avgBPSys: day.bpSystolic.length > 0
-        ? Math.round(day.bpSystolic.reduce((a: number, b: number) => a + b, 0) / day.bpSystolic.length)
-        : null,
-      readings: day.heartRates.length + day.oxygenLevels.length + day.temperatures.length
+    const timeSeriesData = points.map((point) => ({
+      day: formatBucket(point.bucket),
+      avgHR: point.metrics.heartRate ? Math.round(point.metrics.heartRate.mean) : null,
+      avgSpO2: point.metrics.oxygenLevel ? Math.round(point.metrics.oxygenLevel.mean) : null,
+      avgTemp: point.metrics.temperature ? fromCelsius(Math.round(point.metrics.temperature.mean * 10) / 10, units.temperature) : null,
+      avgBPSys: point.metrics.systolic ? Math.round(point.metrics.systolic.mean) : null,
+      readings: point.readings
     }));
 
     return { timeSeriesData, dailyData: timeSeriesData };
   };
 
+  // Mean of every temperature reading in the period, in °C
+  const averageTemperature = () => {
+    const summaries = (analyticsData?.series.points ?? []).flatMap((point) => point.metrics.temperature ?? []);
+    const count = summaries.reduce((sum, summary) => sum + summary.count, 0);
+    if (count === 0) return null;
+    return Math.round(summaries.reduce((sum, summary) => sum + summary.mean * summary.count, 0) / count * 10) / 10;
+  };
+
+  const activityLabel = {
+    hour: 'Number of readings per hour',
+    day: 'Number of readings per day',
+    week: 'Number of readings per week'
+  }[analyticsData?.series.resolution ?? 'day'];
+
   const { timeSeriesData } = processChartData();
 
   const stats = analyticsData?.stats || {
@@ -198,6 +225,7 @@ export default function Analytics({ user, onNavigate, onLogout }: AnalyticsProps
     totalAlerts: 0,
     criticalAlerts: 0,
     warningAlerts: 0,
+    infoAlerts: 0,
     totalPatients: 0,
     avgHeartRate: 0,
     avgOxygenLevel: 0
@@ -232,6 +260,14 @@ export default function Analytics({ user, onNavigate, onLogout }: AnalyticsProps
               <Button variant="outline" size="sm" onClick={handlePrint}>
                 Print Report
               </Button>
+              <Button variant="outline" size="sm" onClick={() => handleExport('csv')} disabled={exporting}>
+                <FileSpreadsheet className="w-4 h-4 mr-2" />
+                Export CSV
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => handleExport('xlsx')} disabled={exporting}>
+                <FileSpreadsheet className="w-4 h-4 mr-2" />
+                Export XLSX
+              </Button>
               <Button 
                 size="sm"
                 className="bg-gradient-to-r from-blue-600 to-emerald-600 hover:from-blue-700 hover:to-emerald-700"
@@ -252,7 +288,7 @@ export default function Analytics({ user, onNavigate, onLogout }: AnalyticsProps
             <div className="flex flex-wrap items-center gap-4">
               <div className="flex-1 min-w-[200px]">
                 <label className="text-sm text-slate-600 mb-2 block">Time Period</label>
-                <Select value={selectedPeriod} onValueChange={setSelectedPeriod}>
+                <Select value={selectedPeriod} onValueChange={(v) => setSelectedPeriod(v as AnalyticsPeriod)}>
                   <SelectTrigger>
                     <SelectValue />
                   </SelectTrigger>
@@ -267,7 +303,7 @@ export default function Analytics({ user, onNavigate, onLogout }: AnalyticsProps
 
               <div className="flex-1 min-w-[200px]">
                 <label className="text-sm text-slate-600 mb-2 block">Vital Type</label>
-                <Select value={selectedMetric} onValueChange={setSelectedMetric}>
+                <Select value={selectedMetric} onValueChange={(v) => setSelectedMetric(v as ExportMetric)}>
                   <SelectTrigger>
                     <SelectValue />
                   </SelectTrigger>
@@ -417,6 +453,16 @@ export default function Analytics({ user, onNavigate, onLogout }: AnalyticsProps
                             dot={{ fill: '#8b5cf6', r: 4 }}
                           />
                         )}
+                        {(selectedMetric === 'all' || selectedMetric === 'temperature') && (
+                          <Line 
+                            type="monotone" 
+                            dataKey="avgTemp" 
+                            name={`Temperature (°${units.temperature})`}
+                            stroke="#f97316" 
+                            strokeWidth={2}
+                            dot={{ fill: '#f97316', r: 4 }}
+                          />
+                        )}
                       </AreaChart>
                     </ResponsiveContainer>
                   </CardContent>
@@ -426,8 +472,8 @@ export default function Analytics({ user, onNavigate, onLogout }: AnalyticsProps
                   {/* Daily Readings Activity */}
                   <Card className="border-slate-200 shadow-sm">
                     <CardHeader>
-                      <CardTitle className="text-slate-900">Daily Activity</CardTitle>
-                      <CardDescription>Number of readings per day</CardDescription>
+                      <CardTitle className="text-slate-900">Reading Activity</CardTitle>
+                      <CardDescription>{activityLabel}</CardDescription>
                     </CardHeader>
                     <CardContent>
                       <ResponsiveContainer width="100%" height={250}>
@@ -541,6 +587,12 @@ export default function Analytics({ user, onNavigate, onLogout }: AnalyticsProps
           </>
         )}
       </div>
+
+      <ExportReadingsDialog
+        format={exportFormat}
+        onClose={() => setExportFormat(null)}
+        onExport={(patientIds) => exportReadings(exportFormat!, patientIds)}
+      />
     </div>
   );
 }
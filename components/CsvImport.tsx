@@ -0,0 +1,500 @@
+import { useState } from 'react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Badge } from './ui/badge';
+import { Checkbox } from './ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { Loader2, Upload } from 'lucide-react';
+import {
+  vitalsAPI,
+  ValidationError,
+  type ImportedReadingRow,
+  type Patient,
+  type ReadingImportReport,
+} from '../utils/api';
+import { parseCsv } from '../utils/csv';
+import {
+  formatTemperature,
+  toCelsius,
+  toMmHg,
+  toPercent,
+  type PressureUnit,
+  type SaturationUnit,
+  type TemperatureUnit,
+} from '../supabase/functions/_shared/units';
+import { useUnits } from '../utils/use-units';
+import { toast } from 'sonner@2.0.3';
+
+type ImportField =
+  | 'patient'
+  | 'timestamp'
+  | 'heartRate'
+  | 'systolic'
+  | 'diastolic'
+  | 'bloodPressure'
+  | 'spo2'
+  | 'temperature'
+  | 'respiratoryRate'
+  | 'notes';
+
+type DateFormat = 'iso' | 'dmy' | 'mdy';
+
+// In the order columns are guessed, so "Systolic BP" is taken as systolic
+// before the combined blood pressure column is looked for
+const FIELDS: { field: ImportField; label: string; guess: RegExp }[] = [
+  { field: 'patient', label: 'Patient', guess: /patient|name|e-?mail|mrn/i },
+  { field: 'timestamp', label: 'Date and time', guess: /date|time/i },
+  { field: 'heartRate', label: 'Heart rate', guess: /heart|pulse|^hr$|bpm/i },
+  { field: 'systolic', label: 'Systolic', guess: /sys/i },
+  { field: 'diastolic', label: 'Diastolic', guess: /dia/i },
+  { field: 'bloodPressure', label: 'Blood pressure (120/80)', guess: /^bp$|blood ?pressure/i },
+  { field: 'spo2', label: 'SpO₂', guess: /sp ?o2|sp ?o₂|oxygen|sat/i },
+  { field: 'temperature', label: 'Temperature', guess: /temp/i },
+  { field: 'respiratoryRate', label: 'Respiratory rate', guess: /resp|^rr$|breath/i },
+  { field: 'notes', label: 'Notes', guess: /note|comment/i }
+];
+
+const NOT_MAPPED = 'none';
+// Rows shown in the preview; the counts cover the whole file
+const PREVIEW_LIMIT = 200;
+
+interface ParsedRow {
+  // Line in the file, counting the header as line 1
+  row: number;
+  patientName?: string;
+  reading?: ImportedReadingRow;
+  problems: string[];
+}
+
+interface CsvImportProps {
+  open: boolean;
+  onClose: () => void;
+  patients: Patient[];
+  // Used for rows without a patient column; patients import for themselves
+  defaultPatientId?: string;
+}
+
+const guessMapping = (headers: string[]) => {
+  const mapping = {} as Record<ImportField, string>;
+  const used = new Set<number>();
+  for (const { field, guess } of FIELDS) {
+    const index = headers.findIndex((header, i) => !used.has(i) && guess.test(header.trim()));
+    mapping[field] = index === -1 ? NOT_MAPPED : String(index);
+    if (index !== -1) used.add(index);
+  }
+  return mapping;
+};
+
+// undefined for an empty cell and NaN for one that is not a number; decimal
+// commas are accepted
+const parseNumber = (text: string | undefined) => {
+  const value = text?.trim().replace(',', '.');
+  if (!value) return undefined;
+  return /^-?\d+(\.\d+)?$/.test(value) ? Number(value) : NaN;
+};
+
+// Dates without a UTC offset are taken as local time
+const parseTimestamp = (text: string, format: DateFormat): string | undefined => {
+  const value = text.trim();
+  let parts: number[];
+  if (format === 'iso') {
+    if (/T.*(Z|[+-]\d{2}:?\d{2})$/i.test(value)) {
+      const time = Date.parse(value);
+      return isNaN(time) ? undefined : new Date(time).toISOString();
+    }
+    const match = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T ](\d{1,2}):(\d{2})(?::(\d{2}))?)?$/);
+    if (!match) return undefined;
+    parts = match.slice(1).map((part) => Number(part ?? 0));
+  } else {
+    const match = value.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})(?:[ T,]+(\d{1,2}):(\d{2})(?::(\d{2}))?\s*(am|pm)?)?$/i);
+    if (!match) return undefined;
+    const [first, middle, year, hour, minute, seconds] = match.slice(1, 7).map((part) => Number(part ?? 0));
+    const [day, month] = format === 'dmy' ? [first, middle] : [middle, first];
+    const meridiem = match[7]?.toLowerCase();
+    if (meridiem && (hour < 1 || hour > 12)) return undefined;
+    const hour24 = meridiem === 'pm' ? (hour % 12) + 12 : meridiem === 'am' ? hour % 12 : hour;
+    parts = [year, month, day, hour24, minute, seconds];
+  }
+  const [year, month, day, hour, minute, second] = parts;
+  const date = new Date(year, month - 1, day, hour, minute, second);
+  // Rejects dates such as 31/02 that Date would roll over
+  if (date.getMonth() !== month - 1 || date.getDate() !== day || hour > 23 || minute > 59 || second > 59) {
+    return undefined;
+  }
+  return date.toISOString();
+};
+
+// Imports past readings from a spreadsheet exported by another system or
+// kept by hand. Columns are matched to vital signs by their headers and can
+// be changed; every row is checked, first here and then by the server
+// without saving, before anything is imported.
+export default function CsvImport({ open, onClose, patients, defaultPatientId }: CsvImportProps) {
+  const [fileName, setFileName] = useState('');
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [rows, setRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<Record<ImportField, string> | null>(null);
+  const units = useUnits();
+  const [temperatureUnit, setTemperatureUnit] = useState<TemperatureUnit>(units.temperature);
+  const [pressureUnit, setPressureUnit] = useState<PressureUnit>('mmHg');
+  const [saturationUnit, setSaturationUnit] = useState<SaturationUnit>('%');
+  const [dateFormat, setDateFormat] = useState<DateFormat>('iso');
+  const [patientId, setPatientId] = useState(defaultPatientId ?? '');
+  const [preview, setPreview] = useState<{ rows: ParsedRow[]; report: ReadingImportReport | null } | null>(null);
+  const [problemsOnly, setProblemsOnly] = useState(false);
+  const [loading, setLoading] = useState(false);
+
+  const reset = () => {
+    setFileName('');
+    setHeaders([]);
+    setRows([]);
+    setMapping(null);
+    setPreview(null);
+    setProblemsOnly(false);
+  };
+
+  const handleClose = () => {
+    reset();
+    onClose();
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    reset();
+    if (!file) return;
+    try {
+      const [header, ...data] = parseCsv(await file.text());
+      if (!header || data.length === 0) {
+        toast.error('The file has no rows below its header');
+        return;
+      }
+      setFileName(file.name);
+      setHeaders(header);
+      setRows(data);
+      setMapping(guessMapping(header));
+      // Files are most likely in the unit the user works in
+      setTemperatureUnit(units.temperature);
+    } catch (error) {
+      console.error('Error reading CSV file:', error);
+      toast.error('Failed to read the file');
+    }
+  };
+
+  const findPatient = (text: string): { patient?: Patient; problem?: string } => {
+    const value = text.trim().toLowerCase();
+    const byId = patients.find((p) => p.id.toLowerCase() === value);
+    if (byId) return { patient: byId };
+    const byEmail = patients.find((p) => p.email?.toLowerCase() === value);
+    if (byEmail) return { patient: byEmail };
+    const byName = patients.filter((p) => p.name.toLowerCase() === value);
+    if (byName.length > 1) return { problem: `More than one patient is named "${text.trim()}"; use their email` };
+    return byName.length === 1 ? { patient: byName[0] } : { problem: `No patient matches "${text.trim()}"` };
+  };
+
+  const parseRow = (cells: string[], index: number): ParsedRow => {
+    const cell = (field: ImportField) => (mapping![field] === NOT_MAPPED ? undefined : cells[Number(mapping![field])]?.trim());
+    const parsed: ParsedRow = { row: index + 2, problems: [] };
+    const readNumber = (field: ImportField, label: string) => {
+      const value = parseNumber(cell(field));
+      if (Number.isNaN(value)) parsed.problems.push(`${label} "${cell(field)}" is not a number`);
+      return Number.isNaN(value) ? undefined : value;
+    };
+
+    let patient = patients.find((p) => p.id === patientId);
+    if (cell('patient')) {
+      const found = findPatient(cell('patient')!);
+      patient = found.patient;
+      if (found.problem) parsed.problems.push(found.problem);
+    } else if (!patient) {
+      parsed.problems.push('No patient');
+    }
+    parsed.patientName = patient?.name;
+
+    const time = cell('timestamp');
+    const timestamp = time ? parseTimestamp(time, dateFormat) : undefined;
+    if (!time) parsed.problems.push('No date and time');
+    else if (!timestamp) parsed.problems.push(`Date and time "${time}" is not in the chosen format`);
+
+    const heartRate = readNumber('heartRate', 'Heart rate');
+    const spo2 = readNumber('spo2', 'SpO₂');
+    const temperature = readNumber('temperature', 'Temperature');
+    const respiratoryRate = readNumber('respiratoryRate', 'Respiratory rate');
+    let systolic = readNumber('systolic', 'Systolic');
+    let diastolic = readNumber('diastolic', 'Diastolic');
+    const combined = cell('bloodPressure');
+    if (combined && systolic === undefined && diastolic === undefined) {
+      const match = combined.replace(/\s/g, '').match(/^(\d+(?:[.,]\d+)?)\/(\d+(?:[.,]\d+)?)$/);
+      if (match) {
+        [systolic, diastolic] = [parseNumber(match[1]), parseNumber(match[2])];
+      } else {
+        parsed.problems.push(`Blood pressure "${combined}" is not written as systolic/diastolic`);
+      }
+    }
+    if ((systolic === undefined) !== (diastolic === undefined)) {
+      parsed.problems.push('Blood pressure needs both systolic and diastolic');
+    }
+
+    if (parsed.problems.length === 0 && patient && timestamp) {
+      const notes = cell('notes');
+      parsed.reading = {
+        row: parsed.row,
+        patientId: patient.id,
+        timestamp,
+        heartRate,
+        bloodPressure: systolic !== undefined && diastolic !== undefined
+          ? `${toMmHg(systolic, pressureUnit)}/${toMmHg(diastolic, pressureUnit)}`
+          : undefined,
+        oxygenLevel: spo2 === undefined ? undefined : toPercent(spo2, saturationUnit),
+        temperature: temperature === undefined ? undefined : toCelsius(temperature, temperatureUnit),
+        respiratoryRate,
+        notes: notes || undefined
+      };
+    }
+    return parsed;
+  };
+
+  // Checks every row here, then has the server check the rest without saving
+  // so implausible values and readings already recorded show up as well
+  const handlePreview = async () => {
+    const parsed = rows.map(parseRow);
+    const readings = parsed.flatMap((row) => (row.reading ? [row.reading] : []));
+    setLoading(true);
+    try {
+      const report = readings.length > 0 ? await vitalsAPI.import(readings, { source: fileName, dryRun: true }) : null;
+      report?.issues.forEach((issue) => {
+        const row = parsed.find((p) => p.row === issue.row);
+        row?.problems.push(issue.message);
+      });
+      setPreview({ rows: parsed, report });
+    } catch (error) {
+      console.error('Error checking CSV import:', error);
+      toast.error(error instanceof ValidationError ? error.message : 'Failed to check the readings');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleImport = async () => {
+    const readings = preview!.rows.flatMap((row) => (row.reading && row.problems.length === 0 ? [row.reading] : []));
+    setLoading(true);
+    try {
+      const report = await vitalsAPI.import(readings, { source: fileName });
+      if (report.issues.length > 0) {
+        toast.warning(`Imported ${report.created} readings; ${report.issues.length} were left out`);
+      } else {
+        toast.success(`Imported ${report.created} readings`);
+      }
+      handleClose();
+    } catch (error) {
+      console.error('Error importing CSV readings:', error);
+      toast.error(error instanceof ValidationError ? error.message : 'Import failed; nothing was saved');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const ready = preview?.rows.filter((row) => row.reading && row.problems.length === 0) ?? [];
+  const duplicates = preview?.report?.duplicates ?? 0;
+  const withProblems = (preview?.rows.length ?? 0) - ready.length - duplicates;
+  const shown = (preview?.rows ?? []).filter((row) => !problemsOnly || row.problems.length > 0).slice(0, PREVIEW_LIMIT);
+  const duplicateRows = new Set(preview?.report?.issues.filter((issue) => issue.status === 'duplicate').map((issue) => issue.row));
+
+  const unitSelect = <T extends string>(label: string, value: T, onChange: (value: T) => void, options: [T, string][]) => (
+    <div className="space-y-1">
+      <Label className="text-xs text-slate-600">{label}</Label>
+      <Select value={value} onValueChange={(next) => onChange(next as T)}>
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {options.map(([option, text]) => (
+            <SelectItem key={option} value={option}>{text}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !next && handleClose()}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-slate-900">Import Readings from CSV</DialogTitle>
+          <DialogDescription>
+            Past readings are added to the patient's history without raising alerts
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="space-y-2">
+            <Label htmlFor="csv-import-file">CSV file</Label>
+            <Input
+              id="csv-import-file"
+              type="file"
+              accept=".csv,.tsv,.txt,text/csv"
+              disabled={loading}
+              onChange={(e) => {
+                handleFile(e.target.files?.[0]);
+                e.target.value = '';
+              }}
+            />
+            {fileName && <p className="text-xs text-slate-500">{fileName}: {rows.length} rows</p>}
+          </div>
+
+          {mapping && !preview && (
+            <div className="space-y-4">
+              <div>
+                <h3 className="text-slate-900">Columns</h3>
+                <p className="text-sm text-slate-500">Choose the column holding each value; leave out what the file does not have</p>
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {FIELDS.map(({ field, label }) => (
+                  <div key={field} className="space-y-1">
+                    <Label className="text-xs text-slate-600">{label}</Label>
+                    <Select value={mapping[field]} onValueChange={(value) => setMapping({ ...mapping, [field]: value })}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NOT_MAPPED}>Not in file</SelectItem>
+                        {headers.map((header, index) => (
+                          <SelectItem key={index} value={String(index)}>{header || `Column ${index + 1}`}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+
+              {mapping.patient === NOT_MAPPED && (
+                <div className="space-y-1">
+                  <Label className="text-xs text-slate-600">Patient for every row</Label>
+                  <Select value={patientId} onValueChange={setPatientId}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Choose a patient" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {patients.map((patient) => (
+                        <SelectItem key={patient.id} value={patient.id}>
+                          {patient.name} ({patient.email})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              <div>
+                <h3 className="text-slate-900">Units and formats</h3>
+                <p className="text-sm text-slate-500">Values are stored in °C, mmHg and % when imported</p>
+              </div>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                {unitSelect('Date format', dateFormat, setDateFormat, [
+                  ['iso', '2024-03-31 14:30'],
+                  ['dmy', '31/03/2024 14:30'],
+                  ['mdy', '03/31/2024 2:30 PM']
+                ])}
+                {unitSelect('Temperature', temperatureUnit, setTemperatureUnit, [['C', '°C'], ['F', '°F']])}
+                {unitSelect('Blood pressure', pressureUnit, setPressureUnit, [['mmHg', 'mmHg'], ['kPa', 'kPa']])}
+                {unitSelect('SpO₂', saturationUnit, setSaturationUnit, [['%', 'Percent (97)'], ['fraction', 'Fraction (0.97)']])}
+              </div>
+              <p className="text-xs text-slate-500">Times without a UTC offset are read as your local time</p>
+            </div>
+          )}
+
+          {preview && (
+            <div className="space-y-3">
+              <div className="p-3 bg-blue-50 border border-blue-200 rounded-lg text-sm text-blue-900 space-y-1">
+                <p>{ready.length} readings ready to import</p>
+                {duplicates > 0 && <p>{duplicates} duplicate readings will be skipped</p>}
+                {withProblems > 0 && <p className="text-amber-800">{withProblems} rows have problems and will be left out</p>}
+              </div>
+
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="csv-problems-only"
+                  checked={problemsOnly}
+                  onCheckedChange={(checked) => setProblemsOnly(checked === true)}
+                />
+                <Label htmlFor="csv-problems-only">Show only rows with problems</Label>
+              </div>
+
+              <div className="border border-slate-200 rounded-lg overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Row</TableHead>
+                      <TableHead>Patient</TableHead>
+                      <TableHead>Date and time</TableHead>
+                      <TableHead>HR</TableHead>
+                      <TableHead>BP</TableHead>
+                      <TableHead>SpO₂</TableHead>
+                      <TableHead>Temp</TableHead>
+                      <TableHead>RR</TableHead>
+                      <TableHead>Status</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {shown.map(({ row, patientName, reading, problems }) => (
+                      <TableRow key={row} className={problems.length > 0 && !duplicateRows.has(row) ? 'bg-amber-50' : ''}>
+                        <TableCell className="text-slate-500">{row}</TableCell>
+                        <TableCell>{patientName ?? '-'}</TableCell>
+                        <TableCell className="whitespace-nowrap">
+                          {reading ? new Date(reading.timestamp).toLocaleString() : '-'}
+                        </TableCell>
+                        <TableCell>{reading?.heartRate ?? '-'}</TableCell>
+                        <TableCell>{reading?.bloodPressure ?? '-'}</TableCell>
+                        <TableCell>{reading?.oxygenLevel !== undefined ? `${reading.oxygenLevel}%` : '-'}</TableCell>
+                        <TableCell>{reading?.temperature !== undefined ? formatTemperature(reading.temperature, units.temperature) : '-'}</TableCell>
+                        <TableCell>{reading?.respiratoryRate ?? '-'}</TableCell>
+                        <TableCell>
+                          {problems.length === 0 ? (
+                            <Badge className="bg-emerald-100 text-emerald-800">Ready</Badge>
+                          ) : duplicateRows.has(row) ? (
+                            <span className="text-xs text-slate-500">Skipped: {problems.join('; ')}</span>
+                          ) : (
+                            <span className="text-xs text-amber-800">{problems.join('; ')}</span>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+              {shown.length === PREVIEW_LIMIT && (
+                <p className="text-xs text-slate-500">Showing the first {PREVIEW_LIMIT} rows</p>
+              )}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          {preview && (
+            <Button variant="outline" onClick={() => setPreview(null)} disabled={loading}>
+              Back to Columns
+            </Button>
+          )}
+          {preview ? (
+            <Button onClick={handleImport} disabled={loading || ready.length === 0} className="bg-blue-600 hover:bg-blue-700">
+              {loading ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Upload className="w-4 h-4 mr-2" />}
+              Import {ready.length} Readings
+            </Button>
+          ) : (
+            <Button onClick={handlePreview} disabled={loading || !mapping} className="bg-blue-600 hover:bg-blue-700">
+              {loading && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Check Rows
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { Button } from './ui/button';
 import { Badge } from './ui/badge';
@@ -14,7 +14,11 @@ import {
   Filter,
   UserPlus,
   Loader2,
-  Bell
+  Bell,
+  ArrowUpDown,
+  ArrowUp,
+  ArrowDown,
+  Download
 } from 'lucide-react';
 import { Input } from './ui/input';
 import {
@@ -33,7 +37,27 @@ import {
   DialogTitle,
 } from './ui/dialog';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
-import { patientsAPI, vitalsAPI, alertsAPI } from '../utils/api';
+import {
+  patientsAPI,
+  vitalsAPI,
+  alertsAPI,
+  fhirAPI,
+  AuthError,
+  NetworkError,
+  type Alert,
+  type LiveEvent,
+  type News2Score,
+  type VitalReading
+} from '../utils/api';
+import { useLiveUpdates } from '../utils/use-live-updates';
+import { isEscalationRecipient, isSnoozed } from '../supabase/functions/_shared/alert_lifecycle';
+import { NEWS2_PARAMETERS, NEWS2_RISK_LABELS } from '../supabase/functions/_shared/news2';
+import { effectiveThresholds, isOutOfRange, profileLabel } from '../supabase/functions/_shared/thresholds';
+import { formatTemperature, fromCelsius, localizeTemperatures } from '../supabase/functions/_shared/units';
+import { useUnits } from '../utils/use-units';
+import LiveIndicator from './LiveIndicator';
+import PatientDevices from './PatientDevices';
+import ThresholdProfileEditor from './ThresholdProfileEditor';
 import { toast } from 'sonner@2.0.3';
 
 interface DoctorDashboardProps {
@@ -42,6 +66,42 @@ interface DoctorDashboardProps {
   onLogout: () => void;
 }
 
+// NEWS2 colour bands: 0, 1-4, a single parameter scoring 3, 5-6 and 7+
+const news2Style = (news2: News2Score) => {
+  if (news2.risk === 'high') return 'bg-red-100 text-red-700 border-red-200';
+  if (news2.risk === 'medium') return 'bg-orange-100 text-orange-700 border-orange-200';
+  if (news2.risk === 'low-medium') return 'bg-amber-100 text-amber-800 border-amber-300';
+  if (news2.total > 0) return 'bg-yellow-50 text-yellow-700 border-yellow-200';
+  return 'bg-emerald-100 text-emerald-700 border-emerald-200';
+};
+
+const getTimeAgo = (timestamp: string) => {
+  const now = new Date();
+  const then = new Date(timestamp);
+  const diff = Math.floor((now.getTime() - then.getTime()) / 1000);
+  
+  if (diff < 60) return 'Just now';
+  if (diff < 3600) return `${Math.floor(diff / 60)} min ago`;
+  if (diff < 86400) return `${Math.floor(diff / 3600)} hours ago`;
+  return `${Math.floor(diff / 86400)} days ago`;
+};
+
+// A patient table row: the patient with their latest reading flattened in
+const toPatientRow = (patient: any, latestVital: VitalReading | null) => ({
+  ...patient,
+  heartRate: latestVital?.heartRate || 0,
+  bloodPressure: latestVital?.bloodPressure || '0/0',
+  spo2: latestVital?.oxygenLevel || 0,
+  temperature: latestVital?.temperature || 0,
+  news2: latestVital?.news2 ?? null,
+  // Set by the server's alert rules when the reading was recorded
+  status: latestVital?.status ?? 'normal',
+  latestVitalId: latestVital?.id ?? null,
+  latestTimestamp: latestVital?.timestamp ?? null,
+  latestDevice: latestVital?.device ?? null,
+  lastUpdate: latestVital ? getTimeAgo(latestVital.timestamp) : 'No data'
+});
+
 export default function DoctorDashboard({ user, onNavigate, onLogout }: DoctorDashboardProps) {
   const [patients, setPatients] = useState<any[]>([]);
   const [selectedPatient, setSelectedPatient] = useState<any>(null);
@@ -51,15 +111,12 @@ export default function DoctorDashboard({ user, onNavigate, onLogout }: DoctorDa
   const [loading, setLoading] = useState(true);
   const [alertCount, setAlertCount] = useState(0);
   const [criticalAlerts, setCriticalAlerts] = useState<any[]>([]);
+  const [news2Sort, setNews2Sort] = useState<'asc' | 'desc' | null>(null);
+  const units = useUnits();
 
   useEffect(() => {
     loadPatients();
     loadAlerts();
-    
-    // Check for new critical alerts every 30 seconds
-    const alertInterval = setInterval(loadAlerts, 30000);
-    
-    return () => clearInterval(alertInterval);
   }, []);
 
   const loadPatients = async () => {
@@ -71,55 +128,20 @@ export default function DoctorDashboard({ user, onNavigate, onLogout }: DoctorDa
         (patientsList || []).map(async (patient: any) => {
           try {
             const { vitals } = await vitalsAPI.getForPatient(patient.id, 1);
-            const latestVital = vitals && vitals.length > 0 ? vitals[0] : null;
-            
-            const getStatus = (vital: any) => {
-              if (!vital) return 'normal';
-              const hrAbnormal = vital.heartRate && (vital.heartRate < 60 || vital.heartRate > 100);
-              const o2Abnormal = vital.oxygenLevel && vital.oxygenLevel < 95;
-              const tempAbnormal = vital.temperature && (vital.temperature < 36.1 || vital.temperature > 37.2);
-              return (hrAbnormal || o2Abnormal || tempAbnormal) ? 'abnormal' : 'normal';
-            };
-
-            const getTimeAgo = (timestamp: string) => {
-              const now = new Date();
-              const then = new Date(timestamp);
-              const diff = Math.floor((now.getTime() - then.getTime()) / 1000);
-              
-              if (diff < 60) return 'Just now';
-              if (diff < 3600) return `${Math.floor(diff / 60)} min ago`;
-              if (diff < 86400) return `${Math.floor(diff / 3600)} hours ago`;
-              return `${Math.floor(diff / 86400)} days ago`;
-            };
-            
-            return {
-              ...patient,
-              heartRate: latestVital?.heartRate || 0,
-              bloodPressure: latestVital?.bloodPressure || '0/0',
-              spo2: latestVital?.oxygenLevel || 0,
-              temperature: latestVital?.temperature || 0,
-              status: getStatus(latestVital),
-              lastUpdate: latestVital ? getTimeAgo(latestVital.timestamp) : 'No data'
-            };
+            return toPatientRow(patient, vitals && vitals.length > 0 ? vitals[0] : null);
           } catch (error) {
             console.error(`Error loading vitals for patient ${patient.id}:`, error);
-            return {
-              ...patient,
-              heartRate: 0,
-              bloodPressure: '0/0',
-              spo2: 0,
-              temperature: 0,
-              status: 'normal',
-              lastUpdate: 'No data'
-            };
+            return toPatientRow(patient, null);
           }
         })
       );
 
       setPatients(patientsWithVitals);
-    } catch (error: any) {
+    } catch (error) {
       console.error('Error loading patients:', error);
-      if (error.message !== 'API request failed') {
+      if (error instanceof AuthError) {
+        toast.error('Your session has expired. Please log in again.');
+      } else if (!(error instanceof NetworkError)) {
         toast.error('Failed to load patients');
       }
     } finally {
@@ -127,43 +149,96 @@ export default function DoctorDashboard({ user, onNavigate, onLogout }: DoctorDa
     }
   };
 
+  // notifiedAt of each alert already shown, so merged repeats only notify
+  // again when the server re-notifies
+  const notified = useRef(new Map<string, string | undefined>());
+  // Unacknowledged alerts as last loaded or pushed
+  const openAlerts = useRef<Alert[]>([]);
+
   const loadAlerts = async () => {
     try {
-      const { alerts } = await alertsAPI.getAll();
-      const unacknowledgedAlerts = (alerts || []).filter((a: any) => !a.acknowledged);
-      const critical = unacknowledgedAlerts.filter((a: any) => a.severity === 'critical');
-      
-      setAlertCount(unacknowledgedAlerts.length);
+      const { alerts } = await alertsAPI.getAll({ status: 'open' });
+      showOpenAlerts(alerts);
+    } catch (error) {
+      console.error('Error loading alerts:', error);
+    }
+  };
+
+  const showOpenAlerts = (unacknowledgedAlerts: Alert[]) => {
+    openAlerts.current = unacknowledgedAlerts;
+    const critical = unacknowledgedAlerts.filter((a) => a.severity === 'critical' && !a.clearedAt);
+    
+    setAlertCount(unacknowledgedAlerts.filter((a) => !a.clearedAt).length);
+    
+    // Check for new or re-notified critical alerts and show notifications;
+    // escalating alerts notify the doctors a tier has reached, or every
+    // doctor while no tier has reached one
+    const newAlerts = critical.filter((alert) =>
+      !alert.flapping && !isSnoozed(alert) &&
+      isEscalationRecipient(alert, user) &&
+      (!notified.current.has(alert.id) || notified.current.get(alert.id) !== alert.notifiedAt)
+    );
+    newAlerts.forEach((alert) => {
+      const repeats = alert.occurrences && alert.occurrences > 1 ? ` (${alert.occurrences} times)` : '';
+      const message = localizeTemperatures(alert.message, units.temperature);
+      toast.error(`Critical Alert: ${alert.patientName} - ${message}${repeats}`, {
+        duration: 10000,
+        action: {
+          label: 'View',
+          onClick: () => onNavigate('alerts')
+        }
+      });
       
-      // Check for new critical alerts and show notifications
-      if (critical.length > criticalAlerts.length) {
-        const newAlerts = critical.slice(0, critical.length - criticalAlerts.length);
-        newAlerts.forEach((alert: any) => {
-          toast.error(`Critical Alert: ${alert.patientName} - ${alert.message}`, {
-            duration: 10000,
-            action: {
-              label: 'View',
-              onClick: () => onNavigate('alerts')
-            }
-          });
-          
-          // Show browser notification if permitted
-          if ('Notification' in window && Notification.permission === 'granted') {
-            new Notification('Critical Patient Alert', {
-              body: `${alert.patientName}: ${alert.message}`,
-              icon: '/favicon.ico',
-              tag: alert.id
-            });
-          }
+      // Show browser notification if permitted
+      if ('Notification' in window && Notification.permission === 'granted') {
+        new Notification('Critical Patient Alert', {
+          body: `${alert.patientName}: ${message}${repeats}`,
+          icon: '/favicon.ico',
+          tag: alert.id
         });
       }
-      
-      setCriticalAlerts(critical);
-    } catch (error) {
-      console.error('Error loading alerts:', error);
+    });
+    critical.forEach((alert) => notified.current.set(alert.id, alert.notifiedAt));
+    
+    setCriticalAlerts(critical);
+  };
+
+  // Pushed readings update the table row and the open detail dialog in place;
+  // pushed alerts feed the same notification check as a reload
+  const handleLiveEvent = (event: LiveEvent) => {
+    if (event.type === 'vital') {
+      const { vital } = event;
+      setPatients((current) => current.map((p) =>
+        p.id === vital.patientId && (!p.latestTimestamp || vital.timestamp >= p.latestTimestamp) ? toPatientRow(p, vital) : p
+      ));
+      setSelectedPatient((current: any) =>
+        current?.id === vital.patientId && (!current.latestTimestamp || vital.timestamp >= current.latestTimestamp)
+          ? toPatientRow(current, vital)
+          : current
+      );
+      if (selectedPatient?.id === vital.patientId) {
+        setPatientVitals((current) => [vital, ...current.filter((v) => v.id !== vital.id)]
+          .sort((a, b) => b.timestamp.localeCompare(a.timestamp))
+          .slice(0, 10));
+      }
+    } else if (event.type === 'vital-deleted') {
+      setPatientVitals((current) => current.filter((v) => v.id !== event.vitalId));
+      // The row needs the next latest reading, which only a reload can give
+      if (patients.some((p) => p.latestVitalId === event.vitalId)) loadPatients();
+    } else if (event.type === 'alert') {
+      const others = openAlerts.current.filter((a) => a.id !== event.alert.id);
+      showOpenAlerts(event.alert.acknowledged ? others : [event.alert, ...others]);
+    } else if (event.type === 'alert-deleted') {
+      showOpenAlerts(openAlerts.current.filter((a) => a.id !== event.alertId));
     }
   };
 
+  const liveStatus = useLiveUpdates(handleLiveEvent, () => {
+    loadPatients();
+    loadAlerts();
+    if (selectedPatient) loadPatientVitals(selectedPatient.id);
+  });
+
   const handleAssignDoctor = async (patientId: string) => {
     try {
       await patientsAPI.assignDoctor(patientId, user.id);
@@ -186,10 +261,26 @@ export default function DoctorDashboard({ user, onNavigate, onLogout }: DoctorDa
     }
   };
 
-  const handleViewPatientDetails = async (patient: any) => {
-    setSelectedPatient(patient);
+  // Downloads the patient's whole record as a FHIR R4 Bundle
+  const handleExportFhir = async (patient: { id: string; name: string }) => {
+    try {
+      const bundle = await fhirAPI.everything(patient.id);
+      const url = URL.createObjectURL(new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/fhir+json' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${patient.name.replace(/[^A-Za-z0-9]+/g, '-').toLowerCase()}-fhir-${new Date().toISOString().split('T')[0]}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+      toast.success(`Exported ${bundle.total} FHIR resources`);
+    } catch (error) {
+      console.error('Error exporting FHIR bundle:', error);
+      toast.error('Failed to export FHIR record');
+    }
+  };
+
+  const loadPatientVitals = async (patientId: string) => {
     try {
-      const { vitals } = await vitalsAPI.getForPatient(patient.id, 10);
+      const { vitals } = await vitalsAPI.getForPatient(patientId, 10);
       setPatientVitals(vitals || []);
     } catch (error) {
       console.error('Error loading patient vitals:', error);
@@ -197,6 +288,11 @@ export default function DoctorDashboard({ user, onNavigate, onLogout }: DoctorDa
     }
   };
 
+  const handleViewPatientDetails = (patient: any) => {
+    setSelectedPatient(patient);
+    loadPatientVitals(patient.id);
+  };
+
   // Request notification permission on mount
   useEffect(() => {
     if ('Notification' in window && Notification.permission === 'default') {
@@ -211,6 +307,18 @@ export default function DoctorDashboard({ user, onNavigate, onLogout }: DoctorDa
     patient.name.toLowerCase().includes(searchQuery.toLowerCase())
   );
 
+  // Patients without a score stay at the bottom in either direction
+  if (news2Sort) {
+    filteredPatients.sort((a, b) => {
+      if (!a.news2 || !b.news2) return (a.news2 ? 0 : 1) - (b.news2 ? 0 : 1);
+      return news2Sort === 'asc' ? a.news2.total - b.news2.total : b.news2.total - a.news2.total;
+    });
+  }
+
+  const toggleNews2Sort = () => {
+    setNews2Sort(news2Sort === 'desc' ? 'asc' : news2Sort === 'asc' ? null : 'desc');
+  };
+
   // Process patient vitals for chart
   const patientDetailData = patientVitals.slice(0, 6).reverse().map((vital, index) => {
     const [sys, dia] = vital.bloodPressure ? vital.bloodPressure.split('/').map((v: string) => parseInt(v)) : [0, 0];
@@ -219,7 +327,7 @@ export default function DoctorDashboard({ user, onNavigate, onLogout }: DoctorDa
       hr: vital.heartRate || 0,
       bp: sys,
       spo2: vital.oxygenLevel || 0,
-      temp: vital.temperature || 0
+      temp: vital.temperature ? fromCelsius(vital.temperature, units.temperature) : 0
     };
   });
 
@@ -320,9 +428,12 @@ export default function DoctorDashboard({ user, onNavigate, onLogout }: DoctorDa
       <div className="flex-1 overflow-auto">
         <div className="p-8">
           {/* Header */}
-          <div className="mb-8">
-            <h1 className="text-slate-900 mb-2">Patient Monitoring Dashboard</h1>
-            <p className="text-slate-600">Monitor and manage patient health data in real-time</p>
+          <div className="mb-8 flex items-start justify-between gap-4">
+            <div>
+              <h1 className="text-slate-900 mb-2">Patient Monitoring Dashboard</h1>
+              <p className="text-slate-600">Monitor and manage patient health data in real-time</p>
+            </div>
+            <LiveIndicator status={liveStatus} />
           </div>
 
           {/* Stats Cards */}
@@ -419,85 +530,124 @@ export default function DoctorDashboard({ user, onNavigate, onLogout }: DoctorDa
                       <TableHead>Blood Pressure</TableHead>
                       <TableHead>SpO₂</TableHead>
                       <TableHead>Temperature</TableHead>
+                      <TableHead>
+                        <button className="flex items-center gap-1" onClick={toggleNews2Sort}>
+                          NEWS2
+                          {news2Sort === 'desc' ? (
+                            <ArrowDown className="w-3 h-3" />
+                          ) : news2Sort === 'asc' ? (
+                            <ArrowUp className="w-3 h-3" />
+                          ) : (
+                            <ArrowUpDown className="w-3 h-3 text-slate-400" />
+                          )}
+                        </button>
+                      </TableHead>
                       <TableHead>Status</TableHead>
                       <TableHead>Last Update</TableHead>
                       <TableHead>Actions</TableHead>
                     </TableRow>
                   </TableHeader>
                   <TableBody>
-                    {filteredPatients.map((patient) => (
-                      <TableRow key={patient.id}>
-                        <TableCell>{patient.name}</TableCell>
-                        <TableCell>{patient.age || 'N/A'}</TableCell>
-                        <TableCell>
-                          <span className={patient.heartRate > 100 || patient.heartRate < 60 ? 'text-red-600' : ''}>
-                            {patient.heartRate || 'N/A'} {patient.heartRate ? 'bpm' : ''}
-                          </span>
-                        </TableCell>
-                        <TableCell>
-                          <span className={patient.bloodPressure.startsWith('14') || patient.bloodPressure.startsWith('15') ? 'text-red-600' : ''}>
-                            {patient.bloodPressure}
-                          </span>
-                        </TableCell>
-                        <TableCell>
-                          <span className={patient.spo2 < 95 && patient.spo2 > 0 ? 'text-red-600' : ''}>
-                            {patient.spo2 || 'N/A'}{patient.spo2 ? '%' : ''}
-                          </span>
-                        </TableCell>
-                        <TableCell>
-                          <span className={patient.temperature > 99 ? 'text-red-600' : ''}>
-                            {patient.temperature || 'N/A'}{patient.temperature ? '°F' : ''}
-                          </span>
-                        </TableCell>
-                        <TableCell>
-                          {patient.status === 'normal' ? (
-                            <Badge variant="outline" className="bg-emerald-100 text-emerald-700 border-emerald-200">
-                              Normal
-                            </Badge>
-                          ) : (
-                            <Badge variant="outline" className="bg-red-100 text-red-700 border-red-200">
-                              <AlertTriangle className="w-3 h-3 mr-1" />
-                              Abnormal
-                            </Badge>
-                          )}
-                        </TableCell>
-                        <TableCell className="text-slate-600">{patient.lastUpdate}</TableCell>
-                        <TableCell>
-                          <div className="flex items-center gap-2">
-                            <Button 
-                              variant="outline" 
-                              size="sm"
-                              onClick={() => handleViewPatientDetails(patient)}
-                            >
-                              View
-                            </Button>
-                            {patient.assignedDoctorId === user.id ? (
-                              <Button 
-                                variant="ghost" 
-                                size="sm"
-                                onClick={() => handleUnassignDoctor(patient.id)}
-                                className="text-red-600 hover:text-red-700"
+                    {filteredPatients.map((patient) => {
+                      // Colours follow the patient's threshold profile when one is set
+                      const thresholds = effectiveThresholds(patient.thresholdProfile);
+                      const [sys, dia] = patient.bloodPressure.split('/').map((v: string) => parseInt(v));
+                      const outOfRange = (metric: keyof typeof thresholds, value: number) =>
+                        value > 0 && isOutOfRange(thresholds[metric], value);
+                      return (
+                        <TableRow key={patient.id}>
+                          <TableCell>{patient.name}</TableCell>
+                          <TableCell>{patient.age || 'N/A'}</TableCell>
+                          <TableCell>
+                            <span className={outOfRange('heartRate', patient.heartRate) ? 'text-red-600' : ''}>
+                              {patient.heartRate || 'N/A'} {patient.heartRate ? 'bpm' : ''}
+                            </span>
+                          </TableCell>
+                          <TableCell>
+                            <span className={outOfRange('systolic', sys) || outOfRange('diastolic', dia) ? 'text-red-600' : ''}>
+                              {patient.bloodPressure}
+                            </span>
+                          </TableCell>
+                          <TableCell>
+                            <span className={outOfRange('oxygenLevel', patient.spo2) ? 'text-red-600' : ''}>
+                              {patient.spo2 || 'N/A'}{patient.spo2 ? '%' : ''}
+                            </span>
+                          </TableCell>
+                          <TableCell>
+                            <span className={outOfRange('temperature', patient.temperature) ? 'text-red-600' : ''}>
+                              {patient.temperature ? formatTemperature(patient.temperature, units.temperature) : 'N/A'}
+                            </span>
+                          </TableCell>
+                          <TableCell>
+                            {patient.news2 ? (
+                              <Badge
+                                variant="outline"
+                                className={news2Style(patient.news2)}
+                                title={`${NEWS2_RISK_LABELS[patient.news2.risk]} clinical risk`}
                               >
-                                Unassign
-                              </Button>
-                            ) : !patient.assignedDoctorId ? (
+                                {patient.news2.total}
+                              </Badge>
+                            ) : (
+                              <span className="text-slate-400">N/A</span>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex items-center gap-1">
+                              {patient.status === 'normal' ? (
+                                <Badge variant="outline" className="bg-emerald-100 text-emerald-700 border-emerald-200">
+                                  Normal
+                                </Badge>
+                              ) : (
+                                <Badge variant="outline" className="bg-red-100 text-red-700 border-red-200">
+                                  <AlertTriangle className="w-3 h-3 mr-1" />
+                                  Abnormal
+                                </Badge>
+                              )}
+                              {patient.thresholdProfile && (
+                                <Badge variant="outline" className="text-xs" title="Custom alert thresholds">
+                                  {profileLabel(patient.thresholdProfile)}
+                                </Badge>
+                              )}
+                            </div>
+                          </TableCell>
+                          <TableCell className="text-slate-600">{patient.lastUpdate}</TableCell>
+                          <TableCell>
+                            <div className="flex items-center gap-2">
                               <Button 
-                                variant="ghost" 
+                                variant="outline" 
                                 size="sm"
-                                onClick={() => handleAssignDoctor(patient.id)}
+                                onClick={() => handleViewPatientDetails(patient)}
                               >
-                                <UserPlus className="w-4 h-4 mr-1" />
-                                Assign
+                                View
                               </Button>
-                            ) : (
-                              <Badge variant="outline" className="text-xs">
-                                Assigned
-                              </Badge>
-                            )}
-                          </div>
-                        </TableCell>
-                      </TableRow>
-                    ))}
+                              {patient.assignedDoctorId === user.id ? (
+                                <Button 
+                                  variant="ghost" 
+                                  size="sm"
+                                  onClick={() => handleUnassignDoctor(patient.id)}
+                                  className="text-red-600 hover:text-red-700"
+                                >
+                                  Unassign
+                                </Button>
+                              ) : !patient.assignedDoctorId ? (
+                                <Button 
+                                  variant="ghost" 
+                                  size="sm"
+                                  onClick={() => handleAssignDoctor(patient.id)}
+                                >
+                                  <UserPlus className="w-4 h-4 mr-1" />
+                                  Assign
+                                </Button>
+                              ) : (
+                                <Badge variant="outline" className="text-xs">
+                                  Assigned
+                                </Badge>
+                              )}
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
                   </TableBody>
                 </Table>
               )}
@@ -513,6 +663,7 @@ export default function DoctorDashboard({ user, onNavigate, onLogout }: DoctorDa
             <DialogTitle className="text-slate-900">Patient Details: {selectedPatient?.name}</DialogTitle>
             <DialogDescription>
               Age: {selectedPatient?.age || 'N/A'} | Last updated: {selectedPatient?.lastUpdate}
+              {selectedPatient?.latestDevice && ` via device ${selectedPatient.latestDevice.name ?? selectedPatient.latestDevice.deviceId}`}
             </DialogDescription>
           </DialogHeader>
 
@@ -534,10 +685,39 @@ export default function DoctorDashboard({ user, onNavigate, onLogout }: DoctorDa
                 </div>
                 <div className="p-4 rounded-lg bg-orange-50 border border-orange-200">
                   <p className="text-xs text-orange-900 mb-1">Temperature</p>
-                  <p className="text-orange-900">{selectedPatient.temperature || 'N/A'}{selectedPatient.temperature ? '°F' : ''}</p>
+                  <p className="text-orange-900">{selectedPatient.temperature ? formatTemperature(selectedPatient.temperature, units.temperature) : 'N/A'}</p>
                 </div>
               </div>
 
+              {/* NEWS2 Breakdown */}
+              {selectedPatient.news2 && (
+                <div>
+                  <div className="flex items-center gap-2 mb-4">
+                    <h3 className="text-slate-900">NEWS2 Score</h3>
+                    <Badge variant="outline" className={news2Style(selectedPatient.news2)}>
+                      {selectedPatient.news2.total} · {NEWS2_RISK_LABELS[selectedPatient.news2.risk]} risk
+                    </Badge>
+                    <span className="text-xs text-slate-500">SpO₂ scale {selectedPatient.news2.scale}</span>
+                  </div>
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                    {NEWS2_PARAMETERS.map(({ parameter, label }) => {
+                      const points = selectedPatient.news2.components[parameter];
+                      return (
+                        <div key={parameter} className="p-2 rounded-lg border border-slate-200 flex justify-between text-sm">
+                          <span className="text-slate-600">{label}</span>
+                          <span className={points === 3 ? 'text-red-600' : points === undefined ? 'text-slate-400' : 'text-slate-900'}>
+                            {points ?? '—'}
+                          </span>
+                        </div>
+                      );
+                    })}
+                  </div>
+                  {selectedPatient.news2.missing.length > 0 && (
+                    <p className="text-xs text-slate-500 mt-2">— not recorded with the latest reading</p>
+                  )}
+                </div>
+              )}
+
               {/* Health Chart */}
               {patientDetailData.length > 0 ? (
                 <div>
@@ -577,6 +757,24 @@ export default function DoctorDashboard({ user, onNavigate, onLogout }: DoctorDa
                 </div>
               )}
 
+              {/* Alert Thresholds */}
+              <div>
+                <h3 className="text-slate-900 mb-4">Alert Thresholds</h3>
+                <ThresholdProfileEditor
+                  patient={selectedPatient}
+                  onSaved={(patient) => {
+                    setSelectedPatient({ ...selectedPatient, ...patient });
+                    loadPatients();
+                  }}
+                />
+              </div>
+
+              {/* Devices */}
+              <div>
+                <h3 className="text-slate-900 mb-4">Devices</h3>
+                <PatientDevices patientId={selectedPatient.id} />
+              </div>
+
               {/* Action Buttons */}
               <div className="flex gap-3">
                 <Button className="flex-1 bg-blue-600 hover:bg-blue-700" onClick={() => onNavigate('add-reading')}>
@@ -585,6 +783,10 @@ export default function DoctorDashboard({ user, onNavigate, onLogout }: DoctorDa
                 <Button variant="outline" className="flex-1" onClick={() => onNavigate('analytics')}>
                   View Full Analytics
                 </Button>
+                <Button variant="outline" onClick={() => handleExportFhir(selectedPatient)}>
+                  <Download className="w-4 h-4 mr-2" />
+                  Export FHIR
+                </Button>
               </div>
             </div>
           )}
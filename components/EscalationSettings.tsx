@@ -0,0 +1,190 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Checkbox } from './ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Loader2, Plus, Save, Siren, Trash2 } from 'lucide-react';
+import {
+  authAPI,
+  rulesAPI,
+  ValidationError,
+  type AlertSeverity,
+  type EscalationPolicy,
+  type EscalationTarget,
+  type UserProfile
+} from '../utils/api';
+import { toast } from 'sonner@2.0.3';
+
+export const ESCALATION_TARGET_LABELS: Record<EscalationTarget, string> = {
+  'assigned-doctor': 'Assigned doctor',
+  'backup-doctor': 'Backup doctors',
+  family: 'Family members'
+};
+
+const SEVERITIES: AlertSeverity[] = ['critical', 'warning', 'info'];
+
+interface TierDraft {
+  afterMinutes: string;
+  target: EscalationTarget;
+}
+
+// Organisation-wide escalation tiers for unacknowledged alerts
+export default function EscalationSettings() {
+  const [policy, setPolicy] = useState<EscalationPolicy | null>(null);
+  const [tiers, setTiers] = useState<TierDraft[]>([]);
+  const [doctors, setDoctors] = useState<UserProfile[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadPolicy();
+  }, []);
+
+  const loadPolicy = async () => {
+    try {
+      const [{ policy }, { doctors }] = await Promise.all([rulesAPI.getEscalation(), authAPI.getDoctors()]);
+      setPolicy(policy);
+      setTiers(policy.tiers.map((tier) => ({ afterMinutes: String(tier.afterMinutes), target: tier.target })));
+      setDoctors(doctors);
+    } catch (error) {
+      console.error('Error loading escalation policy:', error);
+      toast.error('Failed to load escalation settings');
+    }
+  };
+
+  const updateTier = (index: number, tier: Partial<TierDraft>) => {
+    setTiers(tiers.map((t, i) => (i === index ? { ...t, ...tier } : t)));
+  };
+
+  const toggle = <T,>(list: T[], item: T, checked: boolean) =>
+    checked ? [...list, item] : list.filter((x) => x !== item);
+
+  const handleSave = async () => {
+    if (!policy) return;
+    setSaving(true);
+    try {
+      const { policy: saved } = await rulesAPI.setEscalation({
+        ...policy,
+        tiers: tiers.map((tier) => ({ afterMinutes: Number(tier.afterMinutes), target: tier.target }))
+      });
+      setPolicy(saved);
+      toast.success('Escalation settings updated');
+    } catch (error) {
+      console.error('Error saving escalation policy:', error);
+      toast.error(error instanceof ValidationError ? error.message : 'Failed to save escalation settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card className="border-slate-200 shadow-sm">
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <Siren className="w-5 h-5 text-blue-600" />
+          <CardTitle className="text-slate-900">Alert Escalation</CardTitle>
+        </div>
+        <CardDescription>Who is notified in the app, and when, while an alert stays unacknowledged</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {!policy ? (
+          <Loader2 className="w-6 h-6 animate-spin text-blue-600" />
+        ) : (
+          <>
+            <div className="space-y-2">
+              <Label>Escalate alerts of severity</Label>
+              <div className="flex gap-6">
+                {SEVERITIES.map((severity) => (
+                  <label key={severity} className="flex items-center gap-2 text-sm capitalize">
+                    <Checkbox
+                      checked={policy.severities.includes(severity)}
+                      onCheckedChange={(checked) =>
+                        setPolicy({ ...policy, severities: toggle(policy.severities, severity, checked === true) })
+                      }
+                    />
+                    {severity}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Tiers</Label>
+              {tiers.map((tier, index) => (
+                <div key={index} className="flex items-center gap-3">
+                  <span className="text-sm text-slate-600 w-12">After</span>
+                  <Input
+                    type="number"
+                    min="0"
+                    className="w-24"
+                    value={tier.afterMinutes}
+                    onChange={(e) => updateTier(index, { afterMinutes: e.target.value })}
+                  />
+                  <span className="text-sm text-slate-600">min, notify</span>
+                  <Select
+                    value={tier.target}
+                    onValueChange={(value) => updateTier(index, { target: value as EscalationTarget })}
+                  >
+                    <SelectTrigger className="w-48">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(ESCALATION_TARGET_LABELS).map(([target, label]) => (
+                        <SelectItem key={target} value={target}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setTiers(tiers.filter((_, i) => i !== index))}
+                    disabled={tiers.length === 1}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setTiers([...tiers, { afterMinutes: '', target: 'family' }])}
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                Add Tier
+              </Button>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Backup doctors</Label>
+              {doctors.length === 0 ? (
+                <p className="text-sm text-slate-500">No doctors registered</p>
+              ) : (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                  {doctors.map((doctor) => (
+                    <label key={doctor.id} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={policy.backupDoctorIds.includes(doctor.id)}
+                        onCheckedChange={(checked) =>
+                          setPolicy({ ...policy, backupDoctorIds: toggle(policy.backupDoctorIds, doctor.id, checked === true) })
+                        }
+                      />
+                      {doctor.name}
+                      <span className="text-slate-500">{doctor.email}</span>
+                    </label>
+                  ))}
+                </div>
+              )}
+              <p className="text-xs text-slate-500">The patient's assigned doctor is never notified twice as a backup</p>
+            </div>
+
+            <Button onClick={handleSave} disabled={saving} className="bg-blue-600 hover:bg-blue-700">
+              {saving ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Save className="w-4 h-4 mr-2" />}
+              Save Escalation Settings
+            </Button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,129 @@
+import { useState, useEffect } from 'react';
+import { Button } from './ui/button';
+import { Label } from './ui/label';
+import { Checkbox } from './ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+import { Download, Loader2 } from 'lucide-react';
+import { patientsAPI, type Patient } from '../utils/api';
+import { toast } from 'sonner@2.0.3';
+
+interface ExportReadingsDialogProps {
+  // The format being exported; the dialog is closed when null
+  format: 'csv' | 'xlsx' | null;
+  onClose: () => void;
+  onExport: (patientIds: string[]) => Promise<void>;
+}
+
+// Lets a doctor choose which patients go into an export. Every patient is
+// chosen to start with; an XLSX export gets one sheet per patient.
+export default function ExportReadingsDialog({ format, onClose, onExport }: ExportReadingsDialogProps) {
+  const [patients, setPatients] = useState<Patient[]>([]);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(false);
+  const [exporting, setExporting] = useState(false);
+
+  useEffect(() => {
+    if (format) loadPatients();
+  }, [format]);
+
+  const loadPatients = async () => {
+    setLoading(true);
+    try {
+      const { patients } = await patientsAPI.getAll();
+      const sorted = [...patients].sort((a, b) => a.name.localeCompare(b.name));
+      setPatients(sorted);
+      setSelected(new Set(sorted.map((patient) => patient.id)));
+    } catch (error) {
+      console.error('Error loading patients:', error);
+      toast.error('Failed to load patients');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggle = (patientId: string, checked: boolean) => {
+    const next = new Set(selected);
+    if (checked) next.add(patientId);
+    else next.delete(patientId);
+    setSelected(next);
+  };
+
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      await onExport(patients.filter((patient) => selected.has(patient.id)).map((patient) => patient.id));
+      onClose();
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const allSelected = patients.length > 0 && selected.size === patients.length;
+
+  return (
+    <Dialog open={!!format} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle className="text-slate-900">Export {format?.toUpperCase()}</DialogTitle>
+          <DialogDescription>
+            {format === 'xlsx'
+              ? 'Each patient gets a sheet with one row per reading in the selected period'
+              : 'One row per reading in the selected period, for every patient chosen'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-blue-600" />
+          </div>
+        ) : (
+          <div className="space-y-3">
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="export-all-patients"
+                checked={allSelected}
+                onCheckedChange={(checked) => setSelected(new Set(checked === true ? patients.map((p) => p.id) : []))}
+              />
+              <Label htmlFor="export-all-patients">All patients ({patients.length})</Label>
+            </div>
+            <div className="max-h-64 overflow-y-auto border border-slate-200 rounded-lg p-3 space-y-2">
+              {patients.map((patient) => (
+                <div key={patient.id} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`export-patient-${patient.id}`}
+                    checked={selected.has(patient.id)}
+                    onCheckedChange={(checked) => toggle(patient.id, checked === true)}
+                  />
+                  <Label htmlFor={`export-patient-${patient.id}`} className="font-normal">
+                    {patient.name} <span className="text-slate-500">({patient.email})</span>
+                  </Label>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={exporting}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleExport}
+            disabled={loading || exporting || selected.size === 0}
+            className="bg-blue-600 hover:bg-blue-700"
+          >
+            {exporting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Download className="w-4 h-4 mr-2" />}
+            Export {selected.size} {selected.size === 1 ? 'Patient' : 'Patients'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
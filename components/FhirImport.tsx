@@ -0,0 +1,127 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { FileUp, Loader2, Upload } from 'lucide-react';
+import { fhirAPI, ValidationError, type FhirImportReport } from '../utils/api';
+import { toast } from 'sonner@2.0.3';
+
+// Imports patients and their reading history from a FHIR R4 Bundle exported
+// by another system. The file is checked with a dry run first so the doctor
+// can see what will be created and what will be left out.
+export default function FhirImport() {
+  const [bundle, setBundle] = useState<unknown>(null);
+  const [fileName, setFileName] = useState('');
+  const [preview, setPreview] = useState<FhirImportReport | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const handleFile = async (file: File | undefined) => {
+    setBundle(null);
+    setPreview(null);
+    setFileName(file?.name ?? '');
+    if (!file) return;
+
+    setLoading(true);
+    try {
+      const parsed = JSON.parse(await file.text());
+      setPreview(await fhirAPI.import(parsed, true));
+      setBundle(parsed);
+    } catch (error) {
+      console.error('Error checking FHIR bundle:', error);
+      toast.error(
+        error instanceof SyntaxError ? 'The file is not valid JSON'
+          : error instanceof ValidationError ? error.message
+          : 'Failed to read the FHIR bundle'
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleImport = async () => {
+    setLoading(true);
+    try {
+      const report = await fhirAPI.import(bundle);
+      toast.success(
+        `Imported ${report.readings.created} readings and ${report.patients.created.length} new patients`
+      );
+      setBundle(null);
+      setPreview(null);
+      setFileName('');
+    } catch (error) {
+      console.error('Error importing FHIR bundle:', error);
+      toast.error(error instanceof ValidationError ? error.message : 'Import failed; nothing was saved');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Card className="border-slate-200 shadow-sm">
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <FileUp className="w-5 h-5 text-blue-600" />
+          <CardTitle className="text-slate-900">Import FHIR Records</CardTitle>
+        </div>
+        <CardDescription>
+          Add patients and past vital signs from a FHIR R4 Bundle (JSON) exported by another system
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="fhir-import-file">Bundle file</Label>
+          <Input
+            id="fhir-import-file"
+            type="file"
+            accept=".json,application/json,application/fhir+json"
+            disabled={loading}
+            onChange={(e) => {
+              handleFile(e.target.files?.[0]);
+              e.target.value = '';
+            }}
+          />
+          {fileName && <p className="text-xs text-slate-500">{fileName}</p>}
+        </div>
+
+        {loading && !preview && <Loader2 className="w-6 h-6 animate-spin text-blue-600" />}
+
+        {preview && (
+          <div className="space-y-3">
+            <div className="p-3 bg-blue-50 border border-blue-200 rounded-lg text-sm text-blue-900 space-y-1">
+              <p>{preview.patients.created.length} new patients, {preview.patients.matched.length} already here</p>
+              <p>
+                {preview.readings.created} readings to import
+                {preview.readings.duplicates > 0 && `, ${preview.readings.duplicates} already recorded`}
+              </p>
+            </div>
+
+            {preview.unmapped.length > 0 && (
+              <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg space-y-1">
+                <p className="text-sm text-amber-900">
+                  {preview.unmapped.length} resources will not be imported
+                </p>
+                <ul className="max-h-40 overflow-y-auto text-xs text-amber-800 space-y-0.5">
+                  {preview.unmapped.map((item, index) => (
+                    <li key={index}>
+                      <span className="font-mono">{item.resource}</span>: {item.reason}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            <Button
+              onClick={handleImport}
+              disabled={loading || (preview.readings.created === 0 && preview.patients.created.length === 0)}
+              className="bg-blue-600 hover:bg-blue-700"
+            >
+              {loading ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Upload className="w-4 h-4 mr-2" />}
+              Import
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
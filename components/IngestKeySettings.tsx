@@ -0,0 +1,140 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Badge } from './ui/badge';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Copy, KeyRound, Loader2, Plus } from 'lucide-react';
+import { ingestAPI, ValidationError, type IngestKeyInfo } from '../utils/api';
+import { toast } from 'sonner@2.0.3';
+
+const formatDate = (iso?: string) => (iso ? new Date(iso).toLocaleString() : 'Never');
+
+// Keys that let monitoring devices and gateways post readings to /ingest
+export default function IngestKeySettings() {
+  const [keys, setKeys] = useState<IngestKeyInfo[] | null>(null);
+  const [name, setName] = useState('');
+  const [creating, setCreating] = useState(false);
+  const [secret, setSecret] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadKeys();
+  }, []);
+
+  const loadKeys = async () => {
+    try {
+      const { keys } = await ingestAPI.listKeys();
+      setKeys(keys);
+    } catch (error) {
+      console.error('Error loading ingestion keys:', error);
+      toast.error('Failed to load device keys');
+    }
+  };
+
+  const handleCreate = async () => {
+    setCreating(true);
+    try {
+      const { key, secret } = await ingestAPI.createKey(name);
+      setKeys([key, ...(keys ?? [])]);
+      setSecret(secret);
+      setName('');
+      toast.success('Device key created');
+    } catch (error) {
+      console.error('Error creating ingestion key:', error);
+      toast.error(error instanceof ValidationError ? error.message : 'Failed to create device key');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleRevoke = async (keyId: string) => {
+    try {
+      const { key } = await ingestAPI.revokeKey(keyId);
+      setKeys((keys ?? []).map((k) => (k.id === key.id ? key : k)));
+      toast.success('Device key revoked');
+    } catch (error) {
+      console.error('Error revoking ingestion key:', error);
+      toast.error('Failed to revoke device key');
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!secret) return;
+    try {
+      await navigator.clipboard.writeText(secret);
+      toast.success('Key copied');
+    } catch (error) {
+      console.error('Error copying key:', error);
+      toast.error('Copy failed; select the key and copy it manually');
+    }
+  };
+
+  return (
+    <Card className="border-slate-200 shadow-sm">
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <KeyRound className="w-5 h-5 text-blue-600" />
+          <CardTitle className="text-slate-900">Device Ingestion Keys</CardTitle>
+        </div>
+        <CardDescription>Keys that let monitoring devices send readings for any patient</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex gap-3 items-end">
+          <div className="flex-1 space-y-2">
+            <Label htmlFor="ingest-key-name">Key name</Label>
+            <Input
+              id="ingest-key-name"
+              placeholder="e.g. Ward 3 gateway"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+          <Button onClick={handleCreate} disabled={creating || !name.trim()} className="bg-blue-600 hover:bg-blue-700">
+            {creating ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Plus className="w-4 h-4 mr-2" />}
+            Create Key
+          </Button>
+        </div>
+
+        {secret && (
+          <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg space-y-2">
+            <p className="text-sm text-amber-900">Copy this key now. It will not be shown again.</p>
+            <div className="flex gap-2">
+              <Input readOnly value={secret} className="font-mono text-xs" onFocus={(e) => e.target.select()} />
+              <Button variant="outline" onClick={handleCopy}>
+                <Copy className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {!keys ? (
+          <Loader2 className="w-6 h-6 animate-spin text-blue-600" />
+        ) : keys.length === 0 ? (
+          <p className="text-sm text-slate-500">No device keys yet</p>
+        ) : (
+          <div className="space-y-2">
+            {keys.map((key) => (
+              <div key={key.id} className="flex items-center justify-between p-3 border border-slate-200 rounded-lg">
+                <div>
+                  <div className="flex items-center gap-2">
+                    <p className="text-slate-900">{key.name}</p>
+                    <span className="font-mono text-xs text-slate-500">{key.prefix}…</span>
+                    {key.revokedAt && <Badge variant="outline" className="text-slate-500">Revoked</Badge>}
+                  </div>
+                  <p className="text-xs text-slate-500">
+                    Created {formatDate(key.createdAt)} · Last used {formatDate(key.lastUsedAt)}
+                  </p>
+                </div>
+                {!key.revokedAt && (
+                  <Button variant="outline" size="sm" onClick={() => handleRevoke(key.id)} className="text-red-600">
+                    Revoke
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
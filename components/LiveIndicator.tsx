@@ -0,0 +1,31 @@
+import { Badge } from './ui/badge';
+import { type LiveStatus } from '../utils/api';
+
+const styles: Record<LiveStatus, { className: string; label: string; title: string }> = {
+  live: {
+    className: 'bg-emerald-50 text-emerald-700 border-emerald-200',
+    label: 'Live',
+    title: 'Updates arrive as they happen'
+  },
+  connecting: {
+    className: 'bg-slate-50 text-slate-600 border-slate-200',
+    label: 'Connecting',
+    title: 'Connecting to live updates'
+  },
+  offline: {
+    className: 'bg-amber-50 text-amber-700 border-amber-200',
+    label: 'Polling',
+    title: 'Live updates unavailable; refreshing every 30 seconds while reconnecting'
+  }
+};
+
+// Whether the view is receiving pushed updates or polling
+export default function LiveIndicator({ status }: { status: LiveStatus }) {
+  const style = styles[status];
+  return (
+    <Badge variant="outline" className={style.className} title={style.title}>
+      <span className={`w-2 h-2 rounded-full mr-1.5 ${status === 'live' ? 'bg-emerald-500 animate-pulse' : 'bg-current opacity-60'}`} />
+      {style.label}
+    </Badge>
+  );
+}
@@ -6,7 +6,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/
 import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs';
 import { Heart, Activity, Stethoscope, Loader2 } from 'lucide-react';
 import { createClient } from '../utils/supabase/client';
-import { projectId, publicAnonKey } from '../utils/supabase/info';
+import { authAPI, ValidationError } from '../utils/api';
 import { toast } from 'sonner@2.0.3';
 
 interface LoginPageProps {
@@ -45,21 +45,11 @@ export default function LoginPage({ onLogin }: LoginPageProps) {
         // Call server to create user with role metadata
         console.log('Attempting signup:', { email, name, role: selectedRole });
         
-        const response = await fetch(`https://${projectId}.supabase.co/functions/v1/make-server-3d5bb2df/signup`, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${publicAnonKey}`
-          },
-          body: JSON.stringify({ email, password, name, role: selectedRole })
-        });
-
-        const data = await response.json();
-        console.log('Signup response:', data);
-
-        if (!response.ok) {
-          console.error('Signup error:', data.error);
-          toast.error(data.error || 'Failed to create account');
+        try {
+          await authAPI.signup({ email, password, name, role: selectedRole });
+        } catch (error) {
+          console.error('Signup error:', error);
+          toast.error(error instanceof ValidationError ? error.message : 'Failed to create account');
           setIsLoading(false);
           return;
         }
@@ -0,0 +1,203 @@
+import { useState, useEffect } from 'react';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Battery, BatteryLow, Link2, Loader2, Plus, Unlink } from 'lucide-react';
+import { devicesAPI, ValidationError, type Device, type DeviceType } from '../utils/api';
+import { toast } from 'sonner@2.0.3';
+
+interface PatientDevicesProps {
+  patientId: string;
+}
+
+export const DEVICE_TYPE_LABELS: Record<DeviceType, string> = {
+  'heart-rate': 'Heart rate monitor',
+  'blood-pressure': 'Blood pressure monitor',
+  'pulse-oximeter': 'Pulse oximeter',
+  'thermometer': 'Thermometer',
+  'multi-sensor': 'Multi-sensor wearable',
+  'gateway': 'Gateway',
+  'unknown': 'Unidentified'
+};
+
+const EMPTY_FORM = { id: '', type: 'multi-sensor' as DeviceType, serial: '' };
+
+const formatSeen = (iso?: string) => (iso ? new Date(iso).toLocaleString() : 'Never');
+
+// Devices paired with a patient, and pairing and unpairing them
+export default function PatientDevices({ patientId }: PatientDevicesProps) {
+  const [paired, setPaired] = useState<Device[] | null>(null);
+  const [available, setAvailable] = useState<Device[]>([]);
+  const [selected, setSelected] = useState('');
+  const [registering, setRegistering] = useState(false);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    loadDevices();
+  }, [patientId]);
+
+  const loadDevices = async () => {
+    try {
+      const [{ devices: own }, { devices: all }] = await Promise.all([
+        devicesAPI.getForPatient(patientId),
+        devicesAPI.getAll()
+      ]);
+      setPaired(own);
+      setAvailable(all.filter((device) => !device.patientId));
+    } catch (error) {
+      console.error('Error loading devices:', error);
+      toast.error('Failed to load devices');
+    }
+  };
+
+  const handlePair = async (deviceId: string) => {
+    setBusy(true);
+    try {
+      await devicesAPI.pair(deviceId, patientId);
+      toast.success(`Paired ${deviceId}`);
+      setSelected('');
+      await loadDevices();
+    } catch (error) {
+      console.error('Error pairing device:', error);
+      toast.error(error instanceof ValidationError ? error.message : 'Failed to pair device');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRegister = async () => {
+    setBusy(true);
+    try {
+      const { device } = await devicesAPI.register({ id: form.id.trim(), type: form.type, serial: form.serial });
+      setForm(EMPTY_FORM);
+      setRegistering(false);
+      await handlePair(device.id);
+    } catch (error) {
+      console.error('Error registering device:', error);
+      toast.error(error instanceof ValidationError ? error.message : 'Failed to register device');
+      setBusy(false);
+    }
+  };
+
+  const handleUnpair = async (deviceId: string) => {
+    setBusy(true);
+    try {
+      await devicesAPI.unpair(deviceId);
+      toast.success(`Unpaired ${deviceId}`);
+      await loadDevices();
+    } catch (error) {
+      console.error('Error unpairing device:', error);
+      toast.error('Failed to unpair device');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (!paired) {
+    return <Loader2 className="w-6 h-6 animate-spin text-blue-600" />;
+  }
+
+  return (
+    <div className="space-y-4">
+      {paired.length === 0 ? (
+        <p className="text-sm text-slate-500">No devices paired</p>
+      ) : (
+        <div className="space-y-2">
+          {paired.map((device) => (
+            <div key={device.id} className="flex items-center justify-between p-3 border border-slate-200 rounded-lg">
+              <div>
+                <div className="flex items-center gap-2">
+                  <p className="text-slate-900">{device.name || device.id}</p>
+                  <span className="text-xs text-slate-500">{DEVICE_TYPE_LABELS[device.type]}</span>
+                  <Badge variant="outline" className={device.online ? 'bg-green-50 text-green-700 border-green-200' : 'text-slate-500'}>
+                    {device.online ? 'Online' : device.lastSeenAt ? 'Offline' : 'Not seen yet'}
+                  </Badge>
+                </div>
+                <p className="text-xs text-slate-500 flex items-center gap-2">
+                  {device.battery !== undefined && (
+                    <span className="flex items-center gap-1">
+                      {device.battery < 20 ? <BatteryLow className="w-3 h-3 text-red-600" /> : <Battery className="w-3 h-3" />}
+                      {device.battery}%
+                    </span>
+                  )}
+                  <span>Last seen {formatSeen(device.lastSeenAt)}</span>
+                  {device.serial && <span>S/N {device.serial}</span>}
+                  {device.firmware && <span>FW {device.firmware}</span>}
+                </p>
+              </div>
+              <Button variant="outline" size="sm" disabled={busy} onClick={() => handleUnpair(device.id)}>
+                <Unlink className="w-4 h-4 mr-1" />
+                Unpair
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex gap-3">
+        <Select value={selected} onValueChange={setSelected}>
+          <SelectTrigger className="flex-1">
+            <SelectValue placeholder={available.length ? 'Choose an unpaired device' : 'No unpaired devices'} />
+          </SelectTrigger>
+          <SelectContent>
+            {available.map((device) => (
+              <SelectItem key={device.id} value={device.id}>
+                {device.name || device.id} · {DEVICE_TYPE_LABELS[device.type]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button disabled={!selected || busy} onClick={() => handlePair(selected)} className="bg-blue-600 hover:bg-blue-700">
+          <Link2 className="w-4 h-4 mr-2" />
+          Pair
+        </Button>
+        <Button variant="outline" onClick={() => setRegistering(!registering)}>
+          <Plus className="w-4 h-4 mr-2" />
+          New Device
+        </Button>
+      </div>
+
+      {registering && (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3 items-end p-3 border border-slate-200 rounded-lg">
+          <div className="space-y-2">
+            <Label htmlFor="device-id">Device ID</Label>
+            <Input
+              id="device-id"
+              placeholder="e.g. WATCH-ABC123"
+              value={form.id}
+              onChange={(e) => setForm({ ...form, id: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Type</Label>
+            <Select value={form.type} onValueChange={(type) => setForm({ ...form, type: type as DeviceType })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(DEVICE_TYPE_LABELS) as DeviceType[]).filter((type) => type !== 'unknown').map((type) => (
+                  <SelectItem key={type} value={type}>{DEVICE_TYPE_LABELS[type]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="device-serial">Serial number</Label>
+            <Input
+              id="device-serial"
+              value={form.serial}
+              onChange={(e) => setForm({ ...form, serial: e.target.value })}
+            />
+          </div>
+          <Button disabled={!form.id.trim() || busy} onClick={handleRegister} className="md:col-span-3 bg-blue-600 hover:bg-blue-700">
+            {busy ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Link2 className="w-4 h-4 mr-2" />}
+            Register and Pair
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+import { useState, useEffect } from 'react';
+import { Button } from './ui/button';
+import { Label } from './ui/label';
+import { Textarea } from './ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+import { Loader2 } from 'lucide-react';
+import { alertsAPI, ValidationError, type Alert, type AlertOutcome } from '../utils/api';
+import { ALERT_OUTCOME_LABELS } from '../supabase/functions/_shared/alert_lifecycle';
+import { toast } from 'sonner@2.0.3';
+
+interface ResolveAlertDialogProps {
+  alert: Alert | null;
+  onClose: () => void;
+  onResolved: () => void;
+}
+
+// Asks for the outcome and notes every resolution needs
+export default function ResolveAlertDialog({ alert, onClose, onResolved }: ResolveAlertDialogProps) {
+  const [outcome, setOutcome] = useState<AlertOutcome | ''>('');
+  const [notes, setNotes] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setOutcome('');
+    setNotes('');
+  }, [alert?.id]);
+
+  const handleResolve = async () => {
+    if (!alert || !outcome || !notes.trim()) return;
+    setSaving(true);
+    try {
+      await alertsAPI.resolve(alert.id, outcome, notes.trim());
+      toast.success('Alert resolved');
+      onResolved();
+      onClose();
+    } catch (error) {
+      console.error('Error resolving alert:', error);
+      toast.error(error instanceof ValidationError ? error.message : 'Failed to resolve alert');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!alert} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle className="text-slate-900">Resolve Alert</DialogTitle>
+          <DialogDescription>
+            {alert?.patientName ? `${alert.patientName}: ` : ''}{alert?.type} - {alert?.message}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Outcome</Label>
+            <Select value={outcome} onValueChange={(value) => setOutcome(value as AlertOutcome)}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select an outcome" />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(ALERT_OUTCOME_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="resolutionNotes">Notes</Label>
+            <Textarea
+              id="resolutionNotes"
+              placeholder="What was done, or why no action was needed"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              rows={4}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button
+            onClick={handleResolve}
+            disabled={saving || !outcome || !notes.trim()}
+            className="bg-emerald-600 hover:bg-emerald-700"
+          >
+            {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Resolve
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -7,6 +7,11 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '.
 import { Switch } from './ui/switch';
 import { Activity, ArrowLeft, Save, User, Bell, Shield, Palette } from 'lucide-react';
 import { Separator } from './ui/separator';
+import AlertPolicySettings from './AlertPolicySettings';
+import EscalationSettings from './EscalationSettings';
+import FhirImport from './FhirImport';
+import IngestKeySettings from './IngestKeySettings';
+import UnitSettings from './UnitSettings';
 
 interface SettingsProps {
   user: { id: string; name: string; role: string; email: string };
@@ -245,6 +250,21 @@ export default function Settings({ user, onNavigate, onLogout }: SettingsProps)
             </CardContent>
           </Card>
 
+          {/* Units */}
+          <UnitSettings canEditOrganisation={user.role === 'doctor'} />
+
+          {/* Alert Handling */}
+          {user.role === 'doctor' && <AlertPolicySettings />}
+
+          {/* Alert Escalation */}
+          {user.role === 'doctor' && <EscalationSettings />}
+
+          {/* Device Ingestion */}
+          {user.role === 'doctor' && <IngestKeySettings />}
+
+          {/* FHIR Import */}
+          {user.role === 'doctor' && <FhirImport />}
+
           {/* Security */}
           <Card className="border-slate-200 shadow-sm">
             <CardHeader>
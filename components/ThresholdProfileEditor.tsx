@@ -0,0 +1,234 @@
+import { useState, useEffect } from 'react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Textarea } from './ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Loader2 } from 'lucide-react';
+import {
+  patientsAPI,
+  ValidationError,
+  type ConditionTemplateId,
+  type MetricThresholds,
+  type Patient,
+  type TemperatureUnit,
+  type VitalMetric
+} from '../utils/api';
+import {
+  CONDITION_TEMPLATES,
+  DEFAULT_THRESHOLDS,
+  effectiveThresholds,
+  findTemplate,
+  METRIC_UNITS
+} from '../supabase/functions/_shared/thresholds';
+import { fromCelsius, toCelsius } from '../supabase/functions/_shared/units';
+import { useUnits } from '../utils/use-units';
+import { toast } from 'sonner@2.0.3';
+
+interface ThresholdProfileEditorProps {
+  patient: Patient;
+  onSaved: (patient: Patient) => void;
+}
+
+type Field = keyof MetricThresholds;
+type FormValues = Record<VitalMetric, Record<Field, string>>;
+
+const METRICS: { metric: VitalMetric; label: string }[] = [
+  { metric: 'heartRate', label: 'Heart rate' },
+  { metric: 'systolic', label: 'Systolic BP' },
+  { metric: 'diastolic', label: 'Diastolic BP' },
+  { metric: 'oxygenLevel', label: 'SpO₂' },
+  { metric: 'temperature', label: 'Temperature' }
+];
+
+const FIELDS: { field: Field; label: string }[] = [
+  { field: 'criticalLow', label: 'Critical low' },
+  { field: 'low', label: 'Warn below' },
+  { field: 'high', label: 'Warn above' },
+  { field: 'criticalHigh', label: 'Critical high' }
+];
+
+// Temperatures are edited in the user's unit and saved in °C
+const toForm = (thresholds: Record<VitalMetric, MetricThresholds>, unit: TemperatureUnit): FormValues =>
+  Object.fromEntries(METRICS.map(({ metric }) => [
+    metric,
+    Object.fromEntries(FIELDS.map(({ field }) => {
+      const value = thresholds[metric][field];
+      return [field, value === undefined ? '' : String(metric === 'temperature' ? fromCelsius(value, unit) : value)];
+    }))
+  ])) as FormValues;
+
+// Only metrics that differ from the defaults are sent, so the rest keep the
+// full default rules (including their info tiers).
+const fromForm = (values: FormValues, unit: TemperatureUnit) => {
+  const thresholds: Partial<Record<VitalMetric, MetricThresholds>> = {};
+  METRICS.forEach(({ metric }) => {
+    const bounds: MetricThresholds = {};
+    FIELDS.forEach(({ field }) => {
+      if (values[metric][field] === '') return;
+      const value = Number(values[metric][field]);
+      bounds[field] = metric === 'temperature' ? toCelsius(value, unit) : value;
+    });
+    const unchanged = FIELDS.every(({ field }) => bounds[field] === DEFAULT_THRESHOLDS[metric][field]);
+    if (!unchanged) thresholds[metric] = bounds;
+  });
+  return thresholds;
+};
+
+export default function ThresholdProfileEditor({ patient, onSaved }: ThresholdProfileEditorProps) {
+  const [condition, setCondition] = useState<ConditionTemplateId | 'none'>('none');
+  const units = useUnits();
+  const [values, setValues] = useState<FormValues>(() => toForm(DEFAULT_THRESHOLDS, units.temperature));
+  const [spo2Scale, setSpo2Scale] = useState<1 | 2>(1);
+  const [notes, setNotes] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setCondition(patient.thresholdProfile?.condition ?? 'none');
+    setValues(toForm(effectiveThresholds(patient.thresholdProfile), units.temperature));
+    setSpo2Scale(patient.thresholdProfile?.spo2Scale ?? 1);
+    setNotes(patient.thresholdProfile?.notes ?? '');
+  }, [patient.id, patient.thresholdProfile?.updatedAt, units.temperature]);
+
+  const handleConditionChange = (value: string) => {
+    const template = findTemplate(value as ConditionTemplateId);
+    setCondition(template ? template.id : 'none');
+    // Start from the template's thresholds; they can still be adjusted
+    setValues(toForm(effectiveThresholds(template && {
+      condition: template.id,
+      thresholds: template.thresholds,
+      updatedAt: '',
+      updatedBy: ''
+    }), units.temperature));
+    setSpo2Scale(template?.spo2Scale ?? 1);
+  };
+
+  const handleChange = (metric: VitalMetric, field: Field, value: string) => {
+    setValues({ ...values, [metric]: { ...values[metric], [field]: value } });
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const { patient: updated } = await patientsAPI.setThresholds(patient.id, {
+        condition: condition === 'none' ? null : condition,
+        thresholds: fromForm(values, units.temperature),
+        spo2Scale,
+        notes
+      });
+      toast.success('Alert thresholds updated');
+      onSaved(updated);
+    } catch (error) {
+      console.error('Error saving thresholds:', error);
+      toast.error(error instanceof ValidationError ? error.message : 'Failed to save thresholds');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleReset = async () => {
+    setSaving(true);
+    try {
+      const { patient: updated } = await patientsAPI.clearThresholds(patient.id);
+      toast.success('Default thresholds restored');
+      onSaved(updated);
+    } catch (error) {
+      console.error('Error clearing thresholds:', error);
+      toast.error('Failed to restore default thresholds');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end gap-4">
+        <div className="flex-1 min-w-[200px] space-y-2">
+          <Label>Condition template</Label>
+          <Select value={condition} onValueChange={handleConditionChange}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">None (default thresholds)</SelectItem>
+              {CONDITION_TEMPLATES.map((template) => (
+                <SelectItem key={template.id} value={template.id}>{template.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="w-[200px] space-y-2">
+          <Label>NEWS2 SpO₂ scale</Label>
+          <Select value={String(spo2Scale)} onValueChange={(value) => setSpo2Scale(value === '2' ? 2 : 1)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="1">Scale 1 (standard)</SelectItem>
+              <SelectItem value="2">Scale 2 (target 88-92%)</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+      {condition !== 'none' && (
+        <p className="text-xs text-slate-500">{findTemplate(condition)?.description}</p>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-slate-500">
+              <th className="py-2 pr-2 font-normal">Vital</th>
+              {FIELDS.map(({ field, label }) => (
+                <th key={field} className="py-2 px-1 font-normal">{label}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {METRICS.map(({ metric, label }) => (
+              <tr key={metric}>
+                <td className="py-1 pr-2 text-slate-700 whitespace-nowrap">
+                  {label} <span className="text-xs text-slate-400">({metric === 'temperature' ? `°${units.temperature}` : METRIC_UNITS[metric].trim()})</span>
+                </td>
+                {FIELDS.map(({ field }) => (
+                  <td key={field} className="py-1 px-1">
+                    <Input
+                      type="number"
+                      step={metric === 'temperature' ? '0.1' : '1'}
+                      value={values[metric][field]}
+                      onChange={(e) => handleChange(metric, field, e.target.value)}
+                      placeholder="—"
+                    />
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="threshold-notes">Notes (Optional)</Label>
+        <Textarea
+          id="threshold-notes"
+          placeholder="e.g., Target SpO₂ agreed with respiratory team"
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          rows={2}
+        />
+      </div>
+
+      <div className="flex gap-3">
+        <Button className="bg-blue-600 hover:bg-blue-700" onClick={handleSave} disabled={saving}>
+          {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          Save Thresholds
+        </Button>
+        {patient.thresholdProfile && (
+          <Button variant="outline" onClick={handleReset} disabled={saving}>
+            Restore Defaults
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
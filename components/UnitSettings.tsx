@@ -0,0 +1,114 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Label } from './ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Loader2, Thermometer } from 'lucide-react';
+import { settingsAPI, ValidationError, type TemperatureUnit, type UnitSettings as Units } from '../utils/api';
+import { setUnitSettings } from '../utils/use-units';
+import { toast } from 'sonner@2.0.3';
+
+const TEMPERATURE_LABELS: Record<TemperatureUnit, string> = {
+  C: 'Celsius (°C)',
+  F: 'Fahrenheit (°F)'
+};
+
+// Follows the organisation default rather than a fixed unit
+const DEFAULT_CHOICE = 'default';
+
+interface UnitSettingsProps {
+  canEditOrganisation: boolean;
+}
+
+// The units values are entered and shown in. Readings are stored in °C either
+// way, so changing this never alters recorded data.
+export default function UnitSettings({ canEditOrganisation }: UnitSettingsProps) {
+  const [units, setUnits] = useState<Units | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadUnits();
+  }, []);
+
+  const loadUnits = async () => {
+    try {
+      const { units } = await settingsAPI.getUnits();
+      setUnits(units);
+    } catch (error) {
+      console.error('Error loading unit settings:', error);
+      toast.error('Failed to load unit settings');
+    }
+  };
+
+  const save = async (request: () => Promise<{ units: Units }>) => {
+    setSaving(true);
+    try {
+      const { units } = await request();
+      setUnits(units);
+      setUnitSettings(units);
+      toast.success('Units updated');
+    } catch (error) {
+      console.error('Error saving unit settings:', error);
+      toast.error(error instanceof ValidationError ? error.message : 'Failed to save unit settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleUserChange = (value: string) =>
+    save(() => settingsAPI.saveUserUnits({ temperature: value === DEFAULT_CHOICE ? null : (value as TemperatureUnit) }));
+
+  const handleOrganisationChange = (value: string) =>
+    save(() => settingsAPI.saveOrganisationUnits({ temperature: value as TemperatureUnit }));
+
+  return (
+    <Card className="border-slate-200 shadow-sm">
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <Thermometer className="w-5 h-5 text-blue-600" />
+          <CardTitle className="text-slate-900">Units</CardTitle>
+        </div>
+        <CardDescription>How temperatures are entered and shown, in the app and in exports and reports</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!units ? (
+          <Loader2 className="w-6 h-6 animate-spin text-blue-600" />
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="temperature-unit">Your temperature unit</Label>
+              <Select value={units.user.temperature ?? DEFAULT_CHOICE} onValueChange={handleUserChange} disabled={saving}>
+                <SelectTrigger id="temperature-unit">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={DEFAULT_CHOICE}>
+                    Organisation default ({TEMPERATURE_LABELS[units.organisation.temperature]})
+                  </SelectItem>
+                  <SelectItem value="C">{TEMPERATURE_LABELS.C}</SelectItem>
+                  <SelectItem value="F">{TEMPERATURE_LABELS.F}</SelectItem>
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-slate-500">Applies to your account only</p>
+            </div>
+
+            {canEditOrganisation && (
+              <div className="space-y-2">
+                <Label htmlFor="organisation-temperature-unit">Organisation default</Label>
+                <Select value={units.organisation.temperature} onValueChange={handleOrganisationChange} disabled={saving}>
+                  <SelectTrigger id="organisation-temperature-unit">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="C">{TEMPERATURE_LABELS.C}</SelectItem>
+                    <SelectItem value="F">{TEMPERATURE_LABELS.F}</SelectItem>
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-slate-500">Used by everyone who has not chosen their own unit</p>
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,57 @@
+// Alert lifecycle states and the moves between them, shared by the server,
+// which enforces them, and the client, which only offers allowed actions.
+
+import type { Alert, AlertAction, AlertOutcome, AlertState } from './types.tsx';
+
+export const ALERT_STATE_LABELS: Record<AlertState, string> = {
+  open: 'Open',
+  claimed: 'Claimed',
+  acknowledged: 'Acknowledged',
+  resolved: 'Resolved',
+};
+
+export const ALERT_OUTCOME_LABELS: Record<AlertOutcome, string> = {
+  intervention: 'Intervention given',
+  'false-alarm': 'False alarm',
+  artifact: 'Artifact',
+};
+
+export const ALERT_ACTION_LABELS: Record<AlertAction, string> = {
+  opened: 'Opened',
+  claimed: 'Claimed',
+  acknowledged: 'Acknowledged',
+  snoozed: 'Snoozed',
+  unsnoozed: 'Snooze ended',
+  resolved: 'Resolved',
+};
+
+// The longest an alert can be snoozed for at once
+export const MAX_SNOOZE_MINUTES = 24 * 60;
+
+export const alertState = (alert: Pick<Alert, 'state' | 'acknowledged'>): AlertState =>
+  alert.state ?? (alert.acknowledged ? 'acknowledged' : 'open');
+
+// States each action can be taken from. Claiming a claimed alert reassigns it.
+const ALLOWED_FROM: Record<'claimed' | 'acknowledged' | 'snoozed' | 'resolved', AlertState[]> = {
+  claimed: ['open', 'claimed'],
+  acknowledged: ['open', 'claimed'],
+  snoozed: ['open', 'claimed', 'acknowledged'],
+  resolved: ['open', 'claimed', 'acknowledged'],
+};
+
+export const canTransition = (alert: Pick<Alert, 'state' | 'acknowledged'>, action: keyof typeof ALLOWED_FROM) =>
+  ALLOWED_FROM[action].includes(alertState(alert));
+
+export const isSnoozed = (alert: Pick<Alert, 'snoozedUntil'>, now: Date = new Date()) =>
+  !!alert.snoozedUntil && Date.parse(alert.snoozedUntil) > now.getTime();
+
+// Whether a user is to be told about an alert as it escalates: anyone a
+// tier named, and every doctor while no clinician tier has reached anybody
+// (a patient with no assigned doctor, or no backups configured), so a
+// critical alert is never left with no clinician notified.
+export const isEscalationRecipient = (alert: Pick<Alert, 'escalation'>, user: { id: string; role: string }) => {
+  const steps = alert.escalation?.steps ?? [];
+  if (steps.some((step) => step.recipientIds.includes(user.id))) return true;
+  return user.role === 'doctor' &&
+    steps.filter((step) => step.target !== 'family').every((step) => step.recipientIds.length === 0);
+};
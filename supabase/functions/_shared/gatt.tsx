@@ -0,0 +1,161 @@
+// Decoders for the Bluetooth GATT health measurement characteristics, used
+// by the client to read a cuff, oximeter, thermometer or heart rate strap.
+// They take the characteristic value as a DataView (little-endian, as GATT
+// specifies) and have no browser dependencies, so they can be run against
+// captured byte arrays.
+
+export interface GattMeasurement {
+  heartRate?: number;
+  systolic?: number;
+  diastolic?: number;
+  spo2?: number;
+  // °C
+  temperature?: number;
+  // When the device says it took the measurement, in the local time zone
+  timestamp?: Date;
+  // Units the device reported in, for values converted to the stored units
+  convertedFrom?: string;
+}
+
+// IEEE 11073-20601 reserved values, which mean there is no usable number
+const SFLOAT_SPECIAL = new Set([0x07fe, 0x07ff, 0x0800, 0x0801, 0x0802]);
+const FLOAT_SPECIAL = new Set([0x007ffffe, 0x007fffff, 0x00800000, 0x00800001, 0x00800002]);
+
+const toNumber = (mantissa: number, exponent: number) =>
+  Number((mantissa * 10 ** exponent).toFixed(Math.max(0, -exponent)));
+
+// 16-bit SFLOAT: a 4-bit signed exponent over a 12-bit signed mantissa.
+// NaN for NaN, NRes, ±infinity and the reserved value.
+export function readSfloat(view: DataView, offset: number): number {
+  const raw = view.getUint16(offset, true);
+  if (SFLOAT_SPECIAL.has(raw)) return NaN;
+  let mantissa = raw & 0x0fff;
+  let exponent = raw >> 12;
+  if (mantissa >= 0x0800) mantissa -= 0x1000;
+  if (exponent >= 0x8) exponent -= 0x10;
+  return toNumber(mantissa, exponent);
+}
+
+// 32-bit FLOAT: an 8-bit signed exponent over a 24-bit signed mantissa
+export function readFloat(view: DataView, offset: number): number {
+  const raw = view.getUint32(offset, true);
+  let mantissa = raw & 0x00ffffff;
+  if (FLOAT_SPECIAL.has(mantissa)) return NaN;
+  if (mantissa >= 0x00800000) mantissa -= 0x01000000;
+  return toNumber(mantissa, view.getInt8(offset + 3));
+}
+
+// Date Time (0x2A08): year, month, day, hours, minutes, seconds. Zero in the
+// year, month or day means the device does not know it.
+export function readDateTime(view: DataView, offset: number): Date | undefined {
+  const year = view.getUint16(offset, true);
+  const month = view.getUint8(offset + 2);
+  const day = view.getUint8(offset + 3);
+  if (!year || !month || !day) return undefined;
+  return new Date(year, month - 1, day, view.getUint8(offset + 4), view.getUint8(offset + 5), view.getUint8(offset + 6));
+}
+
+const DATE_TIME_LENGTH = 7;
+
+const present = (value: number) => (Number.isFinite(value) ? value : undefined);
+
+const KPA_TO_MMHG = 7.50062;
+
+// Heart Rate Measurement (0x2A37)
+export function decodeHeartRateMeasurement(view: DataView): GattMeasurement {
+  const flags = view.getUint8(0);
+  return { heartRate: flags & 0x01 ? view.getUint16(1, true) : view.getUint8(1) };
+}
+
+// Blood Pressure Measurement (0x2A35), in mmHg or kPa. The mean arterial
+// pressure is skipped; the pulse rate is optional.
+export function decodeBloodPressureMeasurement(view: DataView): GattMeasurement {
+  const flags = view.getUint8(0);
+  const kpa = (flags & 0x01) !== 0;
+  const toMmHg = (value: number) => (kpa ? Math.round(value * KPA_TO_MMHG) : value);
+  const measurement: GattMeasurement = {
+    systolic: present(toMmHg(readSfloat(view, 1))),
+    diastolic: present(toMmHg(readSfloat(view, 3))),
+  };
+  if (kpa) measurement.convertedFrom = 'kPa';
+
+  let offset = 7;
+  if (flags & 0x02) {
+    measurement.timestamp = readDateTime(view, offset);
+    offset += DATE_TIME_LENGTH;
+  }
+  if (flags & 0x04) {
+    measurement.heartRate = present(readSfloat(view, offset));
+  }
+  return measurement;
+}
+
+// Temperature Measurement (0x2A1C), in °C or °F
+export function decodeTemperatureMeasurement(view: DataView): GattMeasurement {
+  const flags = view.getUint8(0);
+  const value = readFloat(view, 1);
+  const fahrenheit = (flags & 0x01) !== 0;
+  const measurement: GattMeasurement = {
+    temperature: present(fahrenheit ? Math.round(((value - 32) * 5) / 9 * 10) / 10 : value),
+  };
+  if (fahrenheit) measurement.convertedFrom = '°F';
+  if (flags & 0x02) {
+    measurement.timestamp = readDateTime(view, 5);
+  }
+  return measurement;
+}
+
+// PLX Spot-check Measurement (0x2A5E). The timestamp is ignored when the
+// device flags its clock as not set.
+export function decodePlxSpotCheck(view: DataView): GattMeasurement {
+  const flags = view.getUint8(0);
+  const measurement: GattMeasurement = {
+    spo2: present(readSfloat(view, 1)),
+    heartRate: present(readSfloat(view, 3)),
+  };
+  if (flags & 0x01 && !(flags & 0x10)) {
+    measurement.timestamp = readDateTime(view, 5);
+  }
+  return measurement;
+}
+
+// PLX Continuous Measurement (0x2A5F); only the normal SpO2 and pulse rate
+// are read, not the fast or slow averages
+export const decodePlxContinuous = (view: DataView): GattMeasurement => ({
+  spo2: present(readSfloat(view, 1)),
+  heartRate: present(readSfloat(view, 3)),
+});
+
+export interface GattSource {
+  service: number;
+  name: string;
+  // Tried in order; the first the device offers is used
+  characteristics: { uuid: number; decode: (view: DataView) => GattMeasurement }[];
+}
+
+// The services a device is requested with, and how to read each
+export const GATT_SOURCES: GattSource[] = [
+  {
+    service: 0x1810,
+    name: 'Blood Pressure',
+    characteristics: [{ uuid: 0x2a35, decode: decodeBloodPressureMeasurement }],
+  },
+  {
+    service: 0x1822,
+    name: 'Pulse Oximeter',
+    characteristics: [
+      { uuid: 0x2a5e, decode: decodePlxSpotCheck },
+      { uuid: 0x2a5f, decode: decodePlxContinuous },
+    ],
+  },
+  {
+    service: 0x1809,
+    name: 'Health Thermometer',
+    characteristics: [{ uuid: 0x2a1c, decode: decodeTemperatureMeasurement }],
+  },
+  {
+    service: 0x180d,
+    name: 'Heart Rate',
+    characteristics: [{ uuid: 0x2a37, decode: decodeHeartRateMeasurement }],
+  },
+];
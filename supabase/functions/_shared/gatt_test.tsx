@@ -0,0 +1,97 @@
+// Run with `deno test supabase/functions/_shared/gatt_test.tsx`. The byte
+// arrays are characteristic values as devices send them.
+
+import { deepStrictEqual, equal } from 'node:assert/strict';
+import {
+  decodeBloodPressureMeasurement,
+  decodeHeartRateMeasurement,
+  decodePlxSpotCheck,
+  decodeTemperatureMeasurement,
+  readFloat,
+  readSfloat,
+} from './gatt.tsx';
+
+const bytes = (...values: number[]) => new DataView(Uint8Array.from(values).buffer);
+
+// 2024-03-05 14:30:00 as a Date Time field
+const DATE_TIME = [0xe8, 0x07, 3, 5, 14, 30, 0];
+const TAKEN_AT = new Date(2024, 2, 5, 14, 30, 0);
+
+Deno.test('readSfloat applies the exponent and sign', () => {
+  equal(readSfloat(bytes(0x62, 0x00), 0), 98);
+  equal(readSfloat(bytes(0x6d, 0xf1), 0), 36.5);
+  equal(readSfloat(bytes(0xff, 0x0f), 0), -1);
+});
+
+Deno.test('readSfloat reads NaN, NRes, ±INF and the reserved value as NaN', () => {
+  for (const [low, high] of [[0xff, 0x07], [0x00, 0x08], [0xfe, 0x07], [0x02, 0x08], [0x01, 0x08]]) {
+    equal(readSfloat(bytes(low, high), 0), NaN);
+  }
+});
+
+Deno.test('readFloat applies the exponent and sign', () => {
+  equal(readFloat(bytes(0x70, 0x01, 0x00, 0xff), 0), 36.8);
+  equal(readFloat(bytes(0xfe, 0xff, 0xff, 0x00), 0), -2);
+});
+
+Deno.test('readFloat reads NaN, NRes, ±INF and the reserved value as NaN', () => {
+  for (const mantissa of [[0xff, 0xff, 0x7f], [0x00, 0x00, 0x80], [0xfe, 0xff, 0x7f], [0x02, 0x00, 0x80], [0x01, 0x00, 0x80]]) {
+    equal(readFloat(bytes(...mantissa, 0x00), 0), NaN);
+  }
+});
+
+Deno.test('blood pressure in mmHg with a timestamp and pulse rate', () => {
+  const view = bytes(0x06, 0x78, 0x00, 0x50, 0x00, 0x5d, 0x00, ...DATE_TIME, 0x48, 0x00);
+  deepStrictEqual(decodeBloodPressureMeasurement(view), {
+    systolic: 120,
+    diastolic: 80,
+    timestamp: TAKEN_AT,
+    heartRate: 72,
+  });
+});
+
+Deno.test('blood pressure in kPa is converted to mmHg', () => {
+  // 16.0 / 10.7 kPa, mean 12.5 kPa
+  const view = bytes(0x01, 0xa0, 0xf0, 0x6b, 0xf0, 0x7d, 0xf0);
+  deepStrictEqual(decodeBloodPressureMeasurement(view), { systolic: 120, diastolic: 80, convertedFrom: 'kPa' });
+});
+
+Deno.test('blood pressure leaves out values the cuff could not measure', () => {
+  // Systolic NRes, pulse rate -INF
+  const view = bytes(0x04, 0x00, 0x08, 0x50, 0x00, 0x5d, 0x00, 0x02, 0x08);
+  deepStrictEqual(decodeBloodPressureMeasurement(view), { systolic: undefined, diastolic: 80, heartRate: undefined });
+});
+
+Deno.test('temperature in °C with a timestamp', () => {
+  const view = bytes(0x02, 0x70, 0x01, 0x00, 0xff, ...DATE_TIME);
+  deepStrictEqual(decodeTemperatureMeasurement(view), { temperature: 36.8, timestamp: TAKEN_AT });
+});
+
+Deno.test('temperature in °F is converted to °C', () => {
+  // 98.6 °F
+  const view = bytes(0x01, 0xda, 0x03, 0x00, 0xff);
+  deepStrictEqual(decodeTemperatureMeasurement(view), { temperature: 37, convertedFrom: '°F' });
+});
+
+Deno.test('temperature NaN is left out', () => {
+  deepStrictEqual(decodeTemperatureMeasurement(bytes(0x00, 0xff, 0xff, 0x7f, 0x00)), { temperature: undefined });
+});
+
+Deno.test('heart rate as uint8', () => {
+  deepStrictEqual(decodeHeartRateMeasurement(bytes(0x00, 0x48)), { heartRate: 72 });
+});
+
+Deno.test('heart rate as uint16 when flagged', () => {
+  // 300 bpm, with a contact-detected bit alongside the format bit
+  deepStrictEqual(decodeHeartRateMeasurement(bytes(0x07, 0x2c, 0x01)), { heartRate: 300 });
+});
+
+Deno.test('PLX spot-check with a timestamp', () => {
+  const view = bytes(0x01, 0x61, 0x00, 0x48, 0x00, ...DATE_TIME);
+  deepStrictEqual(decodePlxSpotCheck(view), { spo2: 97, heartRate: 72, timestamp: TAKEN_AT });
+});
+
+Deno.test('PLX spot-check ignores the timestamp when the device clock is not set', () => {
+  const view = bytes(0x11, 0x61, 0x00, 0x48, 0x00, ...DATE_TIME);
+  deepStrictEqual(decodePlxSpotCheck(view), { spo2: 97, heartRate: 72 });
+});
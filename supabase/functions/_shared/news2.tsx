@@ -0,0 +1,84 @@
+// NEWS2 (Royal College of Physicians, 2017) scoring, shared by the server,
+// which stores a score on every reading, and the client, which shows it.
+
+import type { News2Parameter, News2Risk, News2Score, VitalReading } from './types.tsx';
+
+// [upper bound inclusive, points]; the last band catches everything above
+type Bands = [number, number][];
+
+const score = (value: number, bands: Bands) =>
+  bands.find(([upper]) => value <= upper)?.[1] ?? bands[bands.length - 1][1];
+
+const RESPIRATORY_RATE: Bands = [[8, 3], [11, 1], [20, 0], [24, 2], [Infinity, 3]];
+const SPO2_SCALE_1: Bands = [[91, 3], [93, 2], [95, 1], [Infinity, 0]];
+const SPO2_SCALE_2_LOW: Bands = [[83, 3], [85, 2], [87, 1], [Infinity, 0]];
+const SPO2_SCALE_2_ON_OXYGEN: Bands = [[92, 0], [94, 1], [96, 2], [Infinity, 3]];
+const SYSTOLIC: Bands = [[90, 3], [100, 2], [110, 1], [219, 0], [Infinity, 3]];
+const PULSE: Bands = [[40, 3], [50, 1], [90, 0], [110, 1], [130, 2], [Infinity, 3]];
+// Temperature is recorded to one decimal place
+const TEMPERATURE: Bands = [[35.0, 3], [36.0, 1], [38.0, 0], [39.0, 1], [Infinity, 2]];
+
+export const NEWS2_PARAMETERS: { parameter: News2Parameter; label: string }[] = [
+  { parameter: 'respiratoryRate', label: 'Respiration rate' },
+  { parameter: 'oxygenSaturation', label: 'SpO₂' },
+  { parameter: 'supplementalOxygen', label: 'Air or oxygen' },
+  { parameter: 'systolic', label: 'Systolic BP' },
+  { parameter: 'pulse', label: 'Pulse' },
+  { parameter: 'consciousness', label: 'Consciousness' },
+  { parameter: 'temperature', label: 'Temperature' },
+];
+
+export const NEWS2_RISK_LABELS: Record<News2Risk, string> = {
+  low: 'Low',
+  'low-medium': 'Low-medium',
+  medium: 'Medium',
+  high: 'High',
+};
+
+const spo2Points = (spo2: number, scale: 1 | 2, onOxygen: boolean) => {
+  if (scale === 1) return score(spo2, SPO2_SCALE_1);
+  // Scale 2 only penalises high saturations when oxygen is being given
+  if (spo2 >= 93 && onOxygen) return score(spo2, SPO2_SCALE_2_ON_OXYGEN);
+  return score(spo2, SPO2_SCALE_2_LOW);
+};
+
+export function news2Risk(total: number, components: Partial<Record<News2Parameter, number>>): News2Risk {
+  if (total >= 7) return 'high';
+  if (total >= 5) return 'medium';
+  if (Object.values(components).some((points) => points === 3)) return 'low-medium';
+  return 'low';
+}
+
+export function scoreNews2(
+  reading: Pick<
+    VitalReading,
+    'heartRate' | 'bloodPressure' | 'oxygenLevel' | 'temperature' | 'respiratoryRate' | 'consciousness' | 'supplementalOxygen'
+  >,
+  scale: 1 | 2 = 1,
+): News2Score {
+  const components: Partial<Record<News2Parameter, number>> = {};
+  const systolic = reading.bloodPressure ? parseInt(reading.bloodPressure.split('/')[0]) : NaN;
+
+  if (reading.respiratoryRate !== undefined) components.respiratoryRate = score(reading.respiratoryRate, RESPIRATORY_RATE);
+  if (reading.oxygenLevel !== undefined) {
+    components.oxygenSaturation = spo2Points(reading.oxygenLevel, scale, reading.supplementalOxygen === true);
+  }
+  if (reading.supplementalOxygen !== undefined) components.supplementalOxygen = reading.supplementalOxygen ? 2 : 0;
+  if (!isNaN(systolic)) components.systolic = score(systolic, SYSTOLIC);
+  if (reading.heartRate !== undefined) components.pulse = score(reading.heartRate, PULSE);
+  if (reading.consciousness !== undefined) components.consciousness = reading.consciousness === 'A' ? 0 : 3;
+  if (reading.temperature !== undefined) components.temperature = score(Math.round(reading.temperature * 10) / 10, TEMPERATURE);
+
+  const total = Object.values(components).reduce((sum, points) => sum + points!, 0);
+  return {
+    total,
+    risk: news2Risk(total, components),
+    scale,
+    components,
+    missing: NEWS2_PARAMETERS.map((p) => p.parameter).filter((p) => components[p] === undefined),
+  };
+}
+
+// The NEWS2 trigger for an urgent response: an aggregate of 5 or more, or
+// 3 points on any single parameter.
+export const isNews2Critical = (news2: News2Score) => news2.risk !== 'low';
@@ -0,0 +1,143 @@
+// Run with `deno test supabase/functions/_shared/news2_test.tsx`. Each table
+// walks a parameter's bands edge by edge, as printed on the RCP NEWS2 chart.
+
+import { deepStrictEqual, equal } from 'node:assert/strict';
+import { isNews2Critical, news2Risk, scoreNews2 } from './news2.tsx';
+import type { News2Parameter } from './types.tsx';
+
+type Reading = Parameters<typeof scoreNews2>[0];
+
+const bands = (
+  parameter: News2Parameter,
+  reading: (value: number) => Reading,
+  cases: [number, number][],
+  scale: 1 | 2 = 1,
+) => {
+  for (const [value, points] of cases) {
+    equal(scoreNews2(reading(value), scale).components[parameter], points, `${parameter} ${value}`);
+  }
+};
+
+Deno.test('respiration rate bands', () => {
+  bands('respiratoryRate', (respiratoryRate) => ({ respiratoryRate }), [
+    [8, 3], [9, 1], [11, 1], [12, 0], [20, 0], [21, 2], [24, 2], [25, 3],
+  ]);
+});
+
+Deno.test('SpO2 scale 1 bands', () => {
+  const cases: [number, number][] = [[91, 3], [92, 2], [93, 2], [94, 1], [95, 1], [96, 0], [100, 0]];
+  bands('oxygenSaturation', (oxygenLevel) => ({ oxygenLevel }), cases);
+  // Scale 1 does not depend on oxygen being given
+  bands('oxygenSaturation', (oxygenLevel) => ({ oxygenLevel, supplementalOxygen: true }), cases);
+});
+
+Deno.test('SpO2 scale 2 bands on air', () => {
+  bands('oxygenSaturation', (oxygenLevel) => ({ oxygenLevel, supplementalOxygen: false }), [
+    [83, 3], [84, 2], [85, 2], [86, 1], [87, 1], [88, 0], [92, 0], [93, 0], [100, 0],
+  ], 2);
+});
+
+Deno.test('SpO2 scale 2 bands on oxygen', () => {
+  bands('oxygenSaturation', (oxygenLevel) => ({ oxygenLevel, supplementalOxygen: true }), [
+    [83, 3], [84, 2], [86, 1], [88, 0], [92, 0], [93, 1], [94, 1], [95, 2], [96, 2], [97, 3], [100, 3],
+  ], 2);
+});
+
+Deno.test('air or oxygen', () => {
+  equal(scoreNews2({ supplementalOxygen: true }).components.supplementalOxygen, 2);
+  equal(scoreNews2({ supplementalOxygen: false }).components.supplementalOxygen, 0);
+});
+
+Deno.test('systolic blood pressure bands', () => {
+  bands('systolic', (systolic) => ({ bloodPressure: `${systolic}/70` }), [
+    [90, 3], [91, 2], [100, 2], [101, 1], [110, 1], [111, 0], [219, 0], [220, 3],
+  ]);
+});
+
+Deno.test('pulse bands', () => {
+  bands('pulse', (heartRate) => ({ heartRate }), [
+    [40, 3], [41, 1], [50, 1], [51, 0], [90, 0], [91, 1], [110, 1], [111, 2], [130, 2], [131, 3],
+  ]);
+});
+
+Deno.test('temperature bands, read to one decimal place', () => {
+  bands('temperature', (temperature) => ({ temperature }), [
+    [35.0, 3], [35.1, 1], [36.0, 1], [36.04, 1], [36.1, 0], [38.0, 0], [38.1, 1], [38.96, 1], [39.0, 1], [39.1, 2],
+  ]);
+});
+
+Deno.test('consciousness other than alert scores 3', () => {
+  equal(scoreNews2({ consciousness: 'A' }).components.consciousness, 0);
+  for (const consciousness of ['C', 'V', 'P', 'U'] as const) {
+    equal(scoreNews2({ consciousness }).components.consciousness, 3, consciousness);
+  }
+});
+
+Deno.test('risk from the total and single parameters', () => {
+  equal(news2Risk(0, {}), 'low');
+  equal(news2Risk(4, { pulse: 2, temperature: 2 }), 'low');
+  // A single parameter scoring 3 calls for an urgent review even with a low total
+  equal(news2Risk(3, { respiratoryRate: 3 }), 'low-medium');
+  equal(news2Risk(4, { respiratoryRate: 3, pulse: 1 }), 'low-medium');
+  equal(news2Risk(5, { pulse: 2, temperature: 2, systolic: 1 }), 'medium');
+  equal(news2Risk(6, { respiratoryRate: 3, temperature: 2, systolic: 1 }), 'medium');
+  equal(news2Risk(7, { pulse: 3, temperature: 2, respiratoryRate: 2 }), 'high');
+});
+
+Deno.test('a single parameter scoring 3 is critical; a total of 4 without one is not', () => {
+  const single = scoreNews2({ heartRate: 72, respiratoryRate: 26, temperature: 37 });
+  equal(single.total, 3);
+  equal(single.risk, 'low-medium');
+  equal(isNews2Critical(single), true);
+
+  const spread = scoreNews2({ heartRate: 115, temperature: 39.5 });
+  equal(spread.total, 4);
+  equal(spread.risk, 'low');
+  equal(isNews2Critical(spread), false);
+});
+
+Deno.test('a full set of normal observations scores 0 with nothing missing', () => {
+  deepStrictEqual(
+    scoreNews2({
+      respiratoryRate: 16,
+      oxygenLevel: 97,
+      supplementalOxygen: false,
+      bloodPressure: '120/80',
+      heartRate: 72,
+      consciousness: 'A',
+      temperature: 36.8,
+    }),
+    {
+      total: 0,
+      risk: 'low',
+      scale: 1,
+      components: {
+        respiratoryRate: 0,
+        oxygenSaturation: 0,
+        supplementalOxygen: 0,
+        systolic: 0,
+        pulse: 0,
+        consciousness: 0,
+        temperature: 0,
+      },
+      missing: [],
+    },
+  );
+});
+
+Deno.test('missing parameters are listed and left out of the total', () => {
+  const news2 = scoreNews2({ heartRate: 135, bloodPressure: 'not taken' }, 2);
+  deepStrictEqual(news2.components, { pulse: 3 });
+  equal(news2.total, 3);
+  equal(news2.scale, 2);
+  deepStrictEqual(news2.missing, [
+    'respiratoryRate',
+    'oxygenSaturation',
+    'supplementalOxygen',
+    'systolic',
+    'consciousness',
+    'temperature',
+  ]);
+  equal(scoreNews2({}).missing.length, 7);
+  equal(scoreNews2({}).risk, 'low');
+});
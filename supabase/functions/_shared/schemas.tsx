@@ -0,0 +1,427 @@
+// Runtime checks for the shapes in types.tsx. Kept dependency-free so the
+// same module loads in Deno and in the browser bundle.
+
+import type {
+  Alert,
+  AlertEscalation,
+  AlertPolicy,
+  AlertStateChange,
+  AnalyticsResult,
+  AnalyticsSeries,
+  AnalyticsStats,
+  Device,
+  EscalationPolicy,
+  IngestKey,
+  LiveEvent,
+  MetricSummary,
+  Patient,
+  MetricThresholds,
+  News2Score,
+  ReadingExport,
+  RuleSet,
+  ThresholdProfile,
+  UnitSettings,
+  UserProfile,
+  VitalReading,
+} from './types.tsx';
+
+export class SchemaError extends Error {
+  constructor(public path: string, expected: string, received: unknown) {
+    super(`${path || 'value'}: expected ${expected}, received ${received === null ? 'null' : typeof received}`);
+    this.name = 'SchemaError';
+  }
+}
+
+export type Validator<T> = (value: unknown, path?: string) => T;
+
+const primitive = <T,>(expected: string, test: (value: unknown) => boolean): Validator<T> =>
+  (value, path = '') => {
+    if (!test(value)) throw new SchemaError(path, expected, value);
+    return value as T;
+  };
+
+export const string = primitive<string>('string', (v) => typeof v === 'string');
+export const number = primitive<number>('number', (v) => typeof v === 'number' && Number.isFinite(v));
+export const boolean = primitive<boolean>('boolean', (v) => typeof v === 'boolean');
+
+export const literal = <T extends string>(...values: T[]): Validator<T> =>
+  primitive<T>(values.map((v) => `"${v}"`).join(' | '), (v) => values.includes(v as T));
+
+export const optional = <T,>(inner: Validator<T>): Validator<T | undefined> =>
+  (value, path) => (value === undefined ? undefined : inner(value, path));
+
+export const nullable = <T,>(inner: Validator<T>): Validator<T | null> =>
+  (value, path) => (value === null ? null : inner(value, path));
+
+export const array = <T,>(item: Validator<T>): Validator<T[]> => (value, path = '') => {
+  if (!Array.isArray(value)) throw new SchemaError(path, 'array', value);
+  value.forEach((entry, i) => item(entry, `${path}[${i}]`));
+  return value as T[];
+};
+
+// Checks the listed fields and passes unknown extra fields through untouched,
+// so an older client keeps working against a newer server.
+export const object = <S extends Record<string, Validator<any>>>(
+  shape: S,
+): Validator<{ [K in keyof S]: ReturnType<S[K]> }> => (value, path = '') => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new SchemaError(path, 'object', value);
+  }
+  for (const key of Object.keys(shape)) {
+    shape[key]((value as Record<string, unknown>)[key], path ? `${path}.${key}` : key);
+  }
+  return value as { [K in keyof S]: ReturnType<S[K]> };
+};
+
+export const userRole = literal('doctor', 'patient', 'family');
+
+export const userProfileSchema: Validator<UserProfile> = object({
+  id: string,
+  email: string,
+  name: string,
+  role: userRole,
+  createdAt: string,
+});
+
+const spo2Scale = primitive<1 | 2>('1 | 2', (v) => v === 1 || v === 2);
+
+const metricThresholdsSchema: Validator<MetricThresholds> = object({
+  criticalLow: optional(number),
+  low: optional(number),
+  high: optional(number),
+  criticalHigh: optional(number),
+});
+
+export const thresholdProfileSchema: Validator<ThresholdProfile> = object({
+  condition: nullable(literal('copd', 'heart-failure', 'hypertension')),
+  thresholds: object({
+    heartRate: optional(metricThresholdsSchema),
+    systolic: optional(metricThresholdsSchema),
+    diastolic: optional(metricThresholdsSchema),
+    oxygenLevel: optional(metricThresholdsSchema),
+    temperature: optional(metricThresholdsSchema),
+  }),
+  spo2Scale: optional(spo2Scale),
+  notes: optional(string),
+  updatedAt: string,
+  updatedBy: string,
+});
+
+const patientIdentifierSchema = object({ system: optional(string), value: string });
+
+export const patientSchema: Validator<Patient> = object({
+  id: string,
+  name: string,
+  email: string,
+  age: nullable(number),
+  assignedDoctorId: nullable(string),
+  familyMemberIds: array(string),
+  thresholdProfile: optional(nullable(thresholdProfileSchema)),
+  identifiers: optional(array(patientIdentifierSchema)),
+  createdAt: string,
+  updatedAt: string,
+});
+
+const news2Parameter = literal(
+  'respiratoryRate',
+  'oxygenSaturation',
+  'supplementalOxygen',
+  'systolic',
+  'pulse',
+  'consciousness',
+  'temperature',
+);
+
+export const news2Schema: Validator<News2Score> = object({
+  total: number,
+  risk: literal('low', 'low-medium', 'medium', 'high'),
+  scale: spo2Scale,
+  components: object({
+    respiratoryRate: optional(number),
+    oxygenSaturation: optional(number),
+    supplementalOxygen: optional(number),
+    systolic: optional(number),
+    pulse: optional(number),
+    consciousness: optional(number),
+    temperature: optional(number),
+  }),
+  missing: array(news2Parameter),
+});
+
+export const vitalReadingSchema: Validator<VitalReading> = object({
+  id: string,
+  patientId: string,
+  heartRate: optional(number),
+  bloodPressure: optional(string),
+  oxygenLevel: optional(number),
+  temperature: optional(number),
+  respiratoryRate: optional(number),
+  consciousness: optional(literal('A', 'C', 'V', 'P', 'U')),
+  supplementalOxygen: optional(boolean),
+  news2: optional(news2Schema),
+  notes: optional(string),
+  status: literal('normal', 'abnormal'),
+  timestamp: string,
+  recordedBy: string,
+  source: optional(literal('manual', 'device', 'import')),
+  device: optional(object({
+    deviceId: string,
+    battery: optional(number),
+    location: optional(object({ latitude: number, longitude: number })),
+    convertedUnits: optional(object({})),
+    keyId: optional(string),
+    readingId: optional(string),
+    transport: optional(literal('bluetooth')),
+    name: optional(string),
+    receivedAt: string,
+  })),
+  imported: optional(object({
+    format: literal('fhir', 'csv'),
+    sourceIds: array(string),
+    importedAt: string,
+  })),
+});
+
+// The key hash never leaves the server
+export const ingestKeySchema: Validator<Omit<IngestKey, 'keyHash'>> = object({
+  id: string,
+  name: string,
+  prefix: string,
+  createdBy: string,
+  createdAt: string,
+  lastUsedAt: optional(string),
+  revokedAt: optional(string),
+});
+
+export const deviceType = literal(
+  'heart-rate',
+  'blood-pressure',
+  'pulse-oximeter',
+  'thermometer',
+  'multi-sensor',
+  'gateway',
+  'unknown',
+);
+
+export const deviceSchema: Validator<Device> = object({
+  id: string,
+  type: deviceType,
+  name: optional(string),
+  serial: optional(string),
+  firmware: optional(string),
+  patientId: optional(string),
+  pairedAt: optional(string),
+  pairedBy: optional(string),
+  lastSeenAt: optional(string),
+  online: optional(boolean),
+  battery: optional(number),
+  batteryAt: optional(string),
+  rssi: optional(number),
+  createdAt: string,
+});
+
+export const alertSeverity = literal('critical', 'warning', 'info');
+
+export const vitalMetric = literal('heartRate', 'systolic', 'diastolic', 'oxygenLevel', 'temperature');
+
+const escalationTarget = literal('assigned-doctor', 'backup-doctor', 'family');
+
+export const escalationPolicySchema: Validator<EscalationPolicy> = object({
+  severities: array(alertSeverity),
+  tiers: array(object({ afterMinutes: number, target: escalationTarget })),
+  backupDoctorIds: array(string),
+});
+
+const alertEscalationSchema: Validator<AlertEscalation> = object({
+  startedAt: string,
+  level: number,
+  nextAt: optional(string),
+  steps: array(object({
+    tier: number,
+    target: escalationTarget,
+    recipientIds: array(string),
+    at: string,
+  })),
+  cancelledAt: optional(string),
+  cancelledBy: optional(string),
+});
+
+export const alertState = literal('open', 'claimed', 'acknowledged', 'resolved');
+
+export const alertOutcome = literal('intervention', 'false-alarm', 'artifact');
+
+const alertStateChangeSchema: Validator<AlertStateChange> = object({
+  action: literal('opened', 'claimed', 'acknowledged', 'snoozed', 'unsnoozed', 'resolved'),
+  state: alertState,
+  at: string,
+  by: optional(string),
+  byName: optional(string),
+  assigneeId: optional(string),
+  assigneeName: optional(string),
+  snoozedUntil: optional(string),
+  outcome: optional(alertOutcome),
+  notes: optional(string),
+});
+
+export const alertSchema: Validator<Alert> = object({
+  id: string,
+  patientId: string,
+  patientName: optional(string),
+  patientAge: optional(nullable(number)),
+  patientEmail: optional(string),
+  vitalId: optional(string),
+  deviceId: optional(string),
+  type: string,
+  severity: alertSeverity,
+  value: number,
+  message: string,
+  reason: optional(string),
+  ruleId: optional(string),
+  ruleVersion: optional(number),
+  vitalIds: optional(array(string)),
+  timestamp: string,
+  occurrences: optional(number),
+  lastSeenAt: optional(string),
+  lastVitalId: optional(string),
+  notifiedAt: optional(string),
+  normalStreak: optional(number),
+  clearedAt: optional(string),
+  transitions: optional(array(string)),
+  flapping: optional(boolean),
+  escalation: optional(alertEscalationSchema),
+  state: optional(alertState),
+  claimedBy: optional(string),
+  claimedAt: optional(string),
+  snoozedUntil: optional(string),
+  acknowledged: boolean,
+  acknowledgedBy: optional(string),
+  acknowledgedAt: optional(string),
+  resolvedBy: optional(string),
+  resolvedAt: optional(string),
+  outcome: optional(alertOutcome),
+  resolutionNotes: optional(string),
+  history: optional(array(alertStateChangeSchema)),
+});
+
+export const alertPolicySchema: Validator<AlertPolicy> = object({
+  renotifyMinutes: number,
+  clearAfterReadings: number,
+  clearAfterMinutes: number,
+  flapWindowMinutes: number,
+  flapThreshold: number,
+  deviceOfflineMinutes: number,
+  batteryLowPercent: number,
+});
+
+export const analyticsStatsSchema: Validator<AnalyticsStats> = object({
+  totalPatients: optional(number),
+  totalReadings: number,
+  normalReadings: number,
+  totalAlerts: number,
+  criticalAlerts: number,
+  warningAlerts: number,
+  infoAlerts: number,
+  avgHeartRate: number,
+  avgOxygenLevel: number,
+});
+
+export const metricSummarySchema: Validator<MetricSummary> = object({
+  count: number,
+  min: number,
+  max: number,
+  mean: number,
+  p5: number,
+  p95: number,
+});
+
+export const analyticsSeriesSchema: Validator<AnalyticsSeries> = object({
+  resolution: literal('hour', 'day', 'week'),
+  points: array(object({
+    bucket: string,
+    readings: number,
+    abnormalReadings: number,
+    metrics: object({
+      heartRate: optional(metricSummarySchema),
+      systolic: optional(metricSummarySchema),
+      diastolic: optional(metricSummarySchema),
+      oxygenLevel: optional(metricSummarySchema),
+      temperature: optional(metricSummarySchema),
+    }),
+  })),
+});
+
+export const analyticsResultSchema: Validator<AnalyticsResult> = object({
+  period: literal('7days', '30days', '3months', '1year'),
+  from: string,
+  to: string,
+  stats: analyticsStatsSchema,
+  series: analyticsSeriesSchema,
+  alerts: array(alertSchema),
+});
+
+export const readingExportSchema: Validator<ReadingExport> = object({
+  period: literal('7days', '30days', '3months', '1year'),
+  from: string,
+  to: string,
+  patients: array(object({
+    patient: object({ id: string, name: string, email: string, identifiers: optional(array(patientIdentifierSchema)) }),
+    readings: array(vitalReadingSchema),
+    alerts: array(alertSchema),
+  })),
+});
+
+const temperatureUnit = literal('C', 'F');
+
+export const unitSettingsSchema: Validator<UnitSettings> = object({
+  organisation: object({ temperature: temperatureUnit }),
+  user: object({ temperature: optional(temperatureUnit) }),
+  effective: object({ temperature: temperatureUnit }),
+});
+
+const ruleCondition = object({
+  metric: vitalMetric,
+  op: literal('<', '<=', '>', '>='),
+  value: number,
+});
+
+export const ruleSetSchema: Validator<RuleSet> = object({
+  version: number,
+  createdAt: string,
+  createdBy: string,
+  notes: optional(string),
+  rules: array(object({
+    id: string,
+    type: string,
+    metric: vitalMetric,
+    bands: array(object({
+      severity: alertSeverity,
+      message: string,
+      any: array(ruleCondition),
+    })),
+  })),
+  trends: optional(array(object({
+    id: string,
+    type: string,
+    metric: vitalMetric,
+    kind: literal('sustained', 'change', 'consecutive'),
+    severity: alertSeverity,
+    message: string,
+    windowMinutes: number,
+    condition: optional(ruleCondition),
+    direction: optional(literal('rise', 'fall')),
+    amount: optional(number),
+    count: optional(number),
+  }))),
+});
+
+const liveEventShapes: { [K in LiveEvent['type']]: Validator<Extract<LiveEvent, { type: K }>> } = {
+  vital: object({ type: literal('vital'), patientId: string, vital: vitalReadingSchema }),
+  'vital-deleted': object({ type: literal('vital-deleted'), patientId: string, vitalId: string }),
+  alert: object({ type: literal('alert'), patientId: string, alert: alertSchema }),
+  'alert-deleted': object({ type: literal('alert-deleted'), patientId: string, alertId: string }),
+};
+
+export const liveEventSchema: Validator<LiveEvent> = (value, path = '') => {
+  const { type } = object({ type: literal('vital', 'vital-deleted', 'alert', 'alert-deleted') })(value, path);
+  return liveEventShapes[type](value, path);
+};
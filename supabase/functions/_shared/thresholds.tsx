@@ -0,0 +1,97 @@
+// Condition templates and default thresholds, shared by the server's alert
+// rules and the client's status colours and range hints.
+
+import type { ConditionTemplateId, MetricThresholds, ThresholdProfile, UnitPreferences, VitalMetric } from './types.tsx';
+import { DEFAULT_UNITS, fromCelsius } from './units.tsx';
+
+export interface ConditionTemplate {
+  id: ConditionTemplateId;
+  name: string;
+  description: string;
+  thresholds: Partial<Record<VitalMetric, MetricThresholds>>;
+  // NEWS2 SpO₂ scale; 2 is for confirmed hypercapnic respiratory failure
+  spo2Scale?: 1 | 2;
+}
+
+export const CONDITION_TEMPLATES: ConditionTemplate[] = [
+  {
+    id: 'copd',
+    name: 'COPD',
+    description: 'Target SpO₂ 88-92%; alerts only below 88%',
+    thresholds: {
+      oxygenLevel: { criticalLow: 85, low: 88 },
+    },
+    spo2Scale: 2,
+  },
+  {
+    id: 'heart-failure',
+    name: 'Heart failure',
+    description: 'Tolerates the lower heart rate and blood pressure seen with beta blockers and ACE inhibitors',
+    thresholds: {
+      heartRate: { criticalLow: 40, low: 50, high: 100, criticalHigh: 120 },
+      systolic: { low: 85, high: 140, criticalHigh: 180 },
+      oxygenLevel: { criticalLow: 85, low: 90 },
+    },
+  },
+  {
+    id: 'hypertension',
+    name: 'Hypertension',
+    description: 'Known hypertension under treatment; warns from 160/100 instead of 140/90',
+    thresholds: {
+      systolic: { low: 100, high: 160, criticalHigh: 180 },
+      diastolic: { low: 60, high: 100, criticalHigh: 120 },
+    },
+  },
+];
+
+// The warning and critical bounds of the default rule set.
+export const DEFAULT_THRESHOLDS: Record<VitalMetric, MetricThresholds> = {
+  heartRate: { criticalLow: 50, low: 60, high: 100, criticalHigh: 120 },
+  systolic: { low: 90, high: 140, criticalHigh: 180 },
+  diastolic: { low: 60, high: 90, criticalHigh: 120 },
+  oxygenLevel: { criticalLow: 85, low: 90 },
+  temperature: { criticalLow: 35, high: 38, criticalHigh: 39.4 },
+};
+
+export const METRIC_UNITS: Record<VitalMetric, string> = {
+  heartRate: ' bpm',
+  systolic: ' mmHg',
+  diastolic: ' mmHg',
+  oxygenLevel: '%',
+  temperature: '°C',
+};
+
+export const findTemplate = (id: ConditionTemplateId | null | undefined) =>
+  CONDITION_TEMPLATES.find((t) => t.id === id);
+
+// Short label for alert reasons and badges, e.g. "COPD" or "Custom"
+export const profileLabel = (profile: ThresholdProfile) =>
+  findTemplate(profile.condition)?.name ?? 'Custom';
+
+// Default thresholds with the patient's profile laid over them.
+export function effectiveThresholds(profile?: ThresholdProfile | null): Record<VitalMetric, MetricThresholds> {
+  const result = { ...DEFAULT_THRESHOLDS };
+  Object.entries(profile?.thresholds ?? {}).forEach(([metric, thresholds]) => {
+    result[metric as VitalMetric] = { ...result[metric as VitalMetric], ...thresholds };
+  });
+  return result;
+}
+
+// Whether a value would raise at least a warning under the thresholds.
+export function isOutOfRange(thresholds: MetricThresholds, value: number | undefined) {
+  if (value === undefined) return false;
+  return (thresholds.low !== undefined && value < thresholds.low) ||
+    (thresholds.high !== undefined && value > thresholds.high);
+}
+
+// Range hint for a form field, e.g. "88-100%" or "≥ 88%", with temperatures
+// in the given units.
+export function describeRange(metric: VitalMetric, { low, high }: MetricThresholds, units: UnitPreferences = DEFAULT_UNITS) {
+  const temperature = metric === 'temperature';
+  const unit = temperature ? `°${units.temperature}` : METRIC_UNITS[metric];
+  const show = (value: number) => (temperature ? fromCelsius(value, units.temperature) : value);
+  if (low !== undefined && high !== undefined) return `${show(low)}-${show(high)}${unit}`;
+  if (low !== undefined) return `≥ ${show(low)}${unit}`;
+  if (high !== undefined) return `≤ ${show(high)}${unit}`;
+  return 'any';
+}
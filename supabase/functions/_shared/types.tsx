@@ -0,0 +1,465 @@
+// Domain types shared by the edge function and the web client (utils/api.tsx).
+
+export type UserRole = 'doctor' | 'patient' | 'family';
+
+export interface UserProfile {
+  id: string;
+  email: string;
+  name: string;
+  role: UserRole;
+  createdAt: string;
+}
+
+export interface Patient {
+  id: string;
+  name: string;
+  email: string;
+  age: number | null;
+  assignedDoctorId: string | null;
+  familyMemberIds: string[];
+  // Set by a doctor; replaces the default alert thresholds for this patient
+  thresholdProfile?: ThresholdProfile | null;
+  // Identifiers from other systems, e.g. a clinic's record number, kept from
+  // an import so importing the same patient again finds this record
+  identifiers?: PatientIdentifier[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface PatientIdentifier {
+  system?: string;
+  value: string;
+}
+
+// Warning bounds (low/high) and critical bounds for one metric; any may be
+// left out to keep the default.
+export interface MetricThresholds {
+  criticalLow?: number;
+  low?: number;
+  high?: number;
+  criticalHigh?: number;
+}
+
+export type ConditionTemplateId = 'copd' | 'heart-failure' | 'hypertension';
+
+export interface ThresholdProfile {
+  // The template the thresholds started from, if any
+  condition: ConditionTemplateId | null;
+  thresholds: Partial<Record<VitalMetric, MetricThresholds>>;
+  // NEWS2 SpO₂ scale 2 is for confirmed hypercapnic respiratory failure
+  spo2Scale?: 1 | 2;
+  notes?: string;
+  updatedAt: string;
+  updatedBy: string;
+}
+
+// ACVPU: alert, new confusion, responds to voice, to pain, unresponsive
+export type Consciousness = 'A' | 'C' | 'V' | 'P' | 'U';
+
+export interface VitalReading {
+  id: string;
+  patientId: string;
+  heartRate?: number;
+  // Stored as "systolic/diastolic" to match the dashboard and AddReading form
+  bloodPressure?: string;
+  oxygenLevel?: number;
+  temperature?: number;
+  // Breaths per minute
+  respiratoryRate?: number;
+  consciousness?: Consciousness;
+  // True when the patient is on supplemental oxygen, false on room air
+  supplementalOxygen?: boolean;
+  news2?: News2Score;
+  notes?: string;
+  status: 'normal' | 'abnormal';
+  timestamp: string;
+  recordedBy: string;
+  // Readings saved before provenance was recorded were entered manually
+  source?: ReadingSource;
+  device?: DeviceProvenance;
+  imported?: ImportProvenance;
+}
+
+export type ReadingSource = 'manual' | 'device' | 'import';
+
+// Where an imported reading came from
+export interface ImportProvenance {
+  format: 'fhir' | 'csv';
+  // The records it was built from: FHIR Observation ids, or file:row for a
+  // spreadsheet
+  sourceIds: string[];
+  importedAt: string;
+}
+
+// Where a device-sourced reading came from, as the device reported it
+export interface DeviceProvenance {
+  deviceId: string;
+  // Battery percentage at the time of the reading
+  battery?: number;
+  location?: { latitude: number; longitude: number };
+  // Units the device sent, for the metrics converted on the way in
+  convertedUnits?: Partial<Record<VitalMetric, string>>;
+  // The ingestion key the reading arrived with
+  keyId?: string;
+  // Chosen by the sender so a retried reading is stored only once
+  readingId?: string;
+  // Set for readings the app read from the device itself over Bluetooth,
+  // with the name the device advertised
+  transport?: 'bluetooth';
+  name?: string;
+  receivedAt: string;
+}
+
+// Credential a device or gateway uses to post readings. Only a hash of the
+// secret is stored; the secret itself is shown once, on creation.
+export interface IngestKey {
+  id: string;
+  name: string;
+  keyHash: string;
+  // First characters of the secret, to tell keys apart
+  prefix: string;
+  createdBy: string;
+  createdAt: string;
+  // Accurate to about a minute
+  lastUsedAt?: string;
+  revokedAt?: string;
+}
+
+// The last status a device reported about itself, e.g. over MQTT. A device's
+// MQTT last will reports it offline when its connection drops.
+export interface DeviceStatus {
+  deviceId: string;
+  online: boolean;
+  battery?: number;
+  firmware?: string;
+  // Signal strength in dBm
+  rssi?: number;
+  // When the device took the status, or when it arrived if it sent no time
+  reportedAt: string;
+  receivedAt: string;
+  keyId?: string;
+}
+
+export type DeviceType =
+  | 'heart-rate'
+  | 'blood-pressure'
+  | 'pulse-oximeter'
+  | 'thermometer'
+  | 'multi-sensor'
+  | 'gateway'
+  | 'unknown';
+
+// A monitoring device known to the server, keyed by the deviceId it reports.
+// Devices are registered by a doctor or on first contact, and paired with at
+// most one patient at a time.
+export interface Device {
+  id: string;
+  type: DeviceType;
+  name?: string;
+  serial?: string;
+  firmware?: string;
+  patientId?: string;
+  pairedAt?: string;
+  pairedBy?: string;
+  // Heartbeat: the last reading or online status that arrived from it
+  lastSeenAt?: string;
+  // False once the device reports itself offline, e.g. through an MQTT last will
+  online?: boolean;
+  battery?: number;
+  // When the device measured that battery level
+  batteryAt?: string;
+  rssi?: number;
+  createdAt: string;
+}
+
+export type AlertSeverity = 'critical' | 'warning' | 'info';
+
+export interface Alert {
+  id: string;
+  patientId: string;
+  patientName?: string;
+  patientAge?: number | null;
+  patientEmail?: string;
+  // The reading that raised it; unset for device alerts, which no reading raised
+  vitalId?: string;
+  // The device a "device offline" or "battery low" alert is about
+  deviceId?: string;
+  type: string;
+  severity: AlertSeverity;
+  value: number;
+  message: string;
+  // Why the rule fired, e.g. "SpO₂ 82% is below 85%"
+  reason?: string;
+  ruleId?: string;
+  ruleVersion?: number;
+  // Readings behind a trend alert, oldest first
+  vitalIds?: string[];
+  // First seen; repeats of the condition update the open alert in place
+  timestamp: string;
+  occurrences?: number;
+  lastSeenAt?: string;
+  lastVitalId?: string;
+  // When the care team was last told about it, for re-notification
+  notifiedAt?: string;
+  // Consecutive readings without the condition, counted towards clearing
+  normalStreak?: number;
+  // Set once the condition has stayed away long enough to clear
+  clearedAt?: string;
+  // Times it reopened after clearing, within the flap window
+  transitions?: string[];
+  flapping?: boolean;
+  escalation?: AlertEscalation;
+  // Lifecycle state; alerts saved before it existed are open or acknowledged
+  state?: AlertState;
+  // The doctor the alert is assigned to, once claimed
+  claimedBy?: string;
+  claimedAt?: string;
+  // Notifications are held back until then
+  snoozedUntil?: string;
+  // Still true once resolved, so escalation and open-alert filters stay simple
+  acknowledged: boolean;
+  acknowledgedBy?: string;
+  acknowledgedAt?: string;
+  resolvedBy?: string;
+  resolvedAt?: string;
+  outcome?: AlertOutcome;
+  resolutionNotes?: string;
+  history?: AlertStateChange[];
+}
+
+export type AlertState = 'open' | 'claimed' | 'acknowledged' | 'resolved';
+
+export type AlertOutcome = 'intervention' | 'false-alarm' | 'artifact';
+
+export type AlertAction = 'opened' | 'claimed' | 'acknowledged' | 'snoozed' | 'unsnoozed' | 'resolved';
+
+// One entry in an alert's state history. System changes have no user.
+export interface AlertStateChange {
+  action: AlertAction;
+  state: AlertState;
+  at: string;
+  by?: string;
+  byName?: string;
+  // The doctor a claim assigned the alert to, when not the user claiming it
+  assigneeId?: string;
+  assigneeName?: string;
+  snoozedUntil?: string;
+  outcome?: AlertOutcome;
+  notes?: string;
+}
+
+export type EscalationTarget = 'assigned-doctor' | 'backup-doctor' | 'family';
+
+export interface EscalationTier {
+  // Minutes after the alert was raised
+  afterMinutes: number;
+  target: EscalationTarget;
+}
+
+// Who is told about an unacknowledged alert, and when.
+export interface EscalationPolicy {
+  severities: AlertSeverity[];
+  tiers: EscalationTier[];
+  backupDoctorIds: string[];
+}
+
+export interface EscalationStep {
+  tier: number;
+  target: EscalationTarget;
+  recipientIds: string[];
+  at: string;
+}
+
+// Progress through the escalation tiers, recorded on the alert.
+export interface AlertEscalation {
+  startedAt: string;
+  // Index of the last tier notified, -1 before the first
+  level: number;
+  // When the next tier is due; unset once finished or cancelled
+  nextAt?: string;
+  steps: EscalationStep[];
+  cancelledAt?: string;
+  cancelledBy?: string;
+}
+
+// How repeats of an alert's condition are merged, cleared and re-notified.
+export interface AlertPolicy {
+  // Minimum time between notifications for the same open alert
+  renotifyMinutes: number;
+  // Hysteresis: readings without the condition, and minutes since it was
+  // last seen, before an alert clears
+  clearAfterReadings: number;
+  clearAfterMinutes: number;
+  // An alert that reopens after clearing flapThreshold times within
+  // flapWindowMinutes is flagged as flapping and no longer re-notifies,
+  // until the window has passed over enough of those reopenings
+  flapWindowMinutes: number;
+  flapThreshold: number;
+  // A paired device that has sent nothing for this long is reported offline
+  deviceOfflineMinutes: number;
+  // Battery level, in percent, below which a paired device raises an alert
+  batteryLowPercent: number;
+}
+
+export type TemperatureUnit = 'C' | 'F';
+
+// Units values are entered and shown in. Readings are stored in °C, mmHg and
+// % whatever the preference, and converted on the way in and out.
+export interface UnitPreferences {
+  temperature: TemperatureUnit;
+}
+
+// The organisation's default units, what the user chose over them, and the
+// units that apply to the user as a result
+export interface UnitSettings {
+  organisation: UnitPreferences;
+  user: Partial<UnitPreferences>;
+  effective: UnitPreferences;
+}
+
+export type News2Parameter =
+  | 'respiratoryRate'
+  | 'oxygenSaturation'
+  | 'supplementalOxygen'
+  | 'systolic'
+  | 'pulse'
+  | 'consciousness'
+  | 'temperature';
+
+export type News2Risk = 'low' | 'low-medium' | 'medium' | 'high';
+
+export interface News2Score {
+  total: number;
+  risk: News2Risk;
+  scale: 1 | 2;
+  // Points per parameter that was measured
+  components: Partial<Record<News2Parameter, number>>;
+  // Parameters the reading did not include; the total leaves them out
+  missing: News2Parameter[];
+}
+
+export interface RuleCondition {
+  metric: VitalMetric;
+  op: '<' | '<=' | '>' | '>=';
+  value: number;
+}
+
+// A graded band of a rule; it matches when any of its conditions holds.
+export interface RuleBand {
+  severity: AlertSeverity;
+  message: string;
+  any: RuleCondition[];
+}
+
+// Bands are checked in order and the first match produces the alert.
+export interface AlertRule {
+  id: string;
+  // Alert type shown to users, e.g. "Heart Rate"
+  type: string;
+  // The metric reported as the alert value
+  metric: VitalMetric;
+  bands: RuleBand[];
+}
+
+// Trend rules look at the patient's readings within a window ending at the
+// new reading:
+// - sustained: every reading for at least windowMinutes meets the condition
+// - change: the metric moved by amount or more in direction within the window
+// - consecutive: the last count readings all moved in direction, by at least
+//   amount in total when set
+export type TrendKind = 'sustained' | 'change' | 'consecutive';
+
+export interface TrendRule {
+  id: string;
+  type: string;
+  metric: VitalMetric;
+  kind: TrendKind;
+  severity: AlertSeverity;
+  message: string;
+  windowMinutes: number;
+  condition?: RuleCondition;
+  direction?: 'rise' | 'fall';
+  amount?: number;
+  count?: number;
+}
+
+export interface RuleSet {
+  version: number;
+  createdAt: string;
+  createdBy: string;
+  notes?: string;
+  rules: AlertRule[];
+  trends?: TrendRule[];
+}
+
+export type AnalyticsPeriod = '7days' | '30days' | '3months' | '1year';
+
+export interface AnalyticsStats {
+  totalPatients?: number;
+  totalReadings: number;
+  normalReadings: number;
+  totalAlerts: number;
+  criticalAlerts: number;
+  warningAlerts: number;
+  infoAlerts: number;
+  avgHeartRate: number;
+  avgOxygenLevel: number;
+}
+
+export type VitalMetric = 'heartRate' | 'systolic' | 'diastolic' | 'oxygenLevel' | 'temperature';
+
+// Rollups are stored hourly and daily; weekly points are merged from days.
+export type RollupResolution = 'hour' | 'day' | 'week';
+
+export interface MetricSummary {
+  count: number;
+  min: number;
+  max: number;
+  mean: number;
+  p5: number;
+  p95: number;
+}
+
+export interface SeriesPoint {
+  // Start of the bucket (UTC)
+  bucket: string;
+  readings: number;
+  abnormalReadings: number;
+  metrics: Partial<Record<VitalMetric, MetricSummary>>;
+}
+
+export interface AnalyticsSeries {
+  resolution: RollupResolution;
+  points: SeriesPoint[];
+}
+
+export interface AnalyticsResult {
+  period: AnalyticsPeriod;
+  from: string;
+  to: string;
+  stats: AnalyticsStats;
+  series: AnalyticsSeries;
+  alerts: Alert[];
+}
+
+// Every reading of each patient in the period, and the alerts raised in it,
+// for spreadsheet exports
+export interface ReadingExport {
+  period: AnalyticsPeriod;
+  from: string;
+  to: string;
+  patients: {
+    patient: Pick<Patient, 'id' | 'name' | 'email' | 'identifiers'>;
+    // Oldest first
+    readings: VitalReading[];
+    alerts: Alert[];
+  }[];
+}
+
+// Changes pushed to clients over GET /events, scoped to the patients each
+// user can see.
+export type LiveEvent =
+  | { type: 'vital'; patientId: string; vital: VitalReading }
+  | { type: 'vital-deleted'; patientId: string; vitalId: string }
+  | { type: 'alert'; patientId: string; alert: Alert }
+  | { type: 'alert-deleted'; patientId: string; alertId: string };
@@ -0,0 +1,41 @@
+// Units readings may be entered and shown in, and conversions to and from the
+// units they are stored in: °C, mmHg and percent.
+
+import type { TemperatureUnit, UnitPreferences } from './types.tsx';
+
+export type { TemperatureUnit };
+export type PressureUnit = 'mmHg' | 'kPa';
+export type SaturationUnit = '%' | 'fraction';
+
+export const DEFAULT_UNITS: UnitPreferences = { temperature: 'C' };
+
+const MMHG_PER_KPA = 7.50062;
+
+const round = (value: number, decimals: number) => {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+};
+
+export const toCelsius = (value: number, unit: TemperatureUnit) =>
+  unit === 'F' ? round((value - 32) * 5 / 9, 1) : value;
+
+export const fromCelsius = (value: number, unit: TemperatureUnit) =>
+  unit === 'F' ? round(value * 9 / 5 + 32, 1) : value;
+
+export const toMmHg = (value: number, unit: PressureUnit) =>
+  unit === 'kPa' ? round(value * MMHG_PER_KPA, 0) : value;
+
+export const toPercent = (value: number, unit: SaturationUnit) =>
+  unit === 'fraction' ? round(value * 100, 1) : value;
+
+// e.g. "98.6°F" for 37
+export const formatTemperature = (celsius: number, unit: TemperatureUnit) => `${fromCelsius(celsius, unit)}°${unit}`;
+
+// Rewrites the °C temperatures in server-written text, such as alert reasons,
+// in the given unit. Changes ("up 1.5°C", "a rise of 1°C or more") are
+// converted as differences rather than as temperatures.
+export const localizeTemperatures = (text: string, unit: TemperatureUnit) =>
+  unit === 'C'
+    ? text
+    : text.replace(/(\b(?:up|down|of|by) )?(-?\d+(?:\.\d+)?)°C/g, (_, change: string | undefined, value: string) =>
+      change ? `${change}${round(Number(value) * 9 / 5, 1)}°F` : formatTemperature(Number(value), unit));
@@ -0,0 +1,172 @@
+import { type AlertFinding, readingMetrics } from './alert_rules.tsx';
+import { badRequest, type AppDeps } from './context.tsx';
+import { loadEscalationPolicy, startEscalation } from './escalation.tsx';
+import { publishAlerts } from './events.tsx';
+import { alertState } from '../_shared/alert_lifecycle.tsx';
+import type { Alert, AlertPolicy, AlertSeverity, Patient, RuleSet, VitalReading } from '../_shared/types.tsx';
+
+export const DEFAULT_ALERT_POLICY: AlertPolicy = {
+  renotifyMinutes: 30,
+  clearAfterReadings: 3,
+  clearAfterMinutes: 15,
+  flapWindowMinutes: 60,
+  flapThreshold: 3,
+  deviceOfflineMinutes: 15,
+  batteryLowPercent: 20,
+};
+
+const POLICY_LIMITS: Record<keyof AlertPolicy, [number, number]> = {
+  renotifyMinutes: [0, 1440],
+  clearAfterReadings: [1, 20],
+  clearAfterMinutes: [0, 1440],
+  flapWindowMinutes: [1, 1440],
+  flapThreshold: [2, 20],
+  deviceOfflineMinutes: [1, 1440],
+  batteryLowPercent: [1, 99],
+};
+
+const SEVERITY_RANK: Record<AlertSeverity, number> = { info: 0, warning: 1, critical: 2 };
+
+// Fields added since the policy was saved take their defaults
+export async function loadAlertPolicy(deps: AppDeps): Promise<AlertPolicy> {
+  return { ...DEFAULT_ALERT_POLICY, ...(await deps.repo.getAlertPolicy()) };
+}
+
+// Validates a policy update; fields left out keep their current value.
+export function parseAlertPolicy(body: Record<string, any>, current: AlertPolicy): AlertPolicy {
+  const policy = { ...current };
+  for (const [field, [min, max]] of Object.entries(POLICY_LIMITS) as [keyof AlertPolicy, [number, number]][]) {
+    const value = body[field];
+    if (value === undefined) continue;
+    if (!Number.isInteger(value) || value < min || value > max) {
+      throw badRequest(`${field} must be a whole number between ${min} and ${max}`);
+    }
+    policy[field] = value;
+  }
+  return policy;
+}
+
+// Alerts for the same patient and key are repeats of one condition
+export const conditionKey = (alert: Pick<Alert, 'ruleId' | 'type'>) => alert.ruleId ?? alert.type;
+
+// The conditions a reading was checked for, whether or not they fired. Only
+// these count towards clearing an open alert.
+export function checkedConditions(vital: VitalReading, rules: RuleSet): Set<string> {
+  const values = readingMetrics(vital);
+  const checked = new Set<string>();
+  rules.rules.forEach((rule) => values[rule.metric] !== undefined && checked.add(rule.id));
+  rules.trends?.forEach((trend) => values[trend.metric] !== undefined && checked.add(trend.id));
+  if (vital.news2) checked.add('news2');
+  return checked;
+}
+
+const minutesBetween = (from: string, to: string) => (Date.parse(to) - Date.parse(from)) / 60000;
+
+// Reopenings older than the flap window stop counting, and an alert stops
+// flapping once fewer than flapThreshold of them are left
+const flapState = (transitions: string[], seenAt: string, policy: AlertPolicy) => {
+  const recent = transitions.filter((t) => minutesBetween(t, seenAt) <= policy.flapWindowMinutes);
+  return { transitions: recent, flapping: recent.length >= policy.flapThreshold };
+};
+
+// Merges a reading's findings into the patient's alerts. A finding whose
+// condition already has an open alert updates it instead of adding another;
+// one whose alert cleared within the flap window reopens it. Open alerts
+// whose condition was checked and not found move towards clearing. Returns
+// the alerts the findings raised or updated; notifiedAt is set to now on
+// those the care team should hear about again.
+export async function mergeFindings(
+  deps: AppDeps,
+  patient: Patient,
+  vital: VitalReading,
+  findings: AlertFinding[],
+  checked: Set<string>,
+): Promise<Alert[]> {
+  const now = deps.now().toISOString();
+  const seenAt = vital.timestamp;
+  const policy = await loadAlertPolicy(deps);
+
+  // Newest first, so the first alert per condition is its latest. Repeats
+  // merge into acknowledged alerts too, until someone resolves them.
+  const latest = new Map<string, Alert>();
+  for (const alert of await deps.repo.listAlerts({ patientId: patient.id, resolved: false })) {
+    if (!latest.has(conditionKey(alert))) latest.set(conditionKey(alert), alert);
+  }
+
+  const raised: Alert[] = [];
+  for (const finding of findings) {
+    const key = conditionKey(finding);
+    const previous = latest.get(key);
+    latest.delete(key);
+
+    if (!previous || (previous.clearedAt && minutesBetween(previous.clearedAt, seenAt) > policy.flapWindowMinutes)) {
+      raised.push({
+        id: crypto.randomUUID(),
+        patientId: patient.id,
+        patientName: patient.name,
+        patientAge: patient.age,
+        patientEmail: patient.email,
+        vitalId: vital.id,
+        ...finding,
+        timestamp: seenAt,
+        occurrences: 1,
+        lastSeenAt: seenAt,
+        lastVitalId: vital.id,
+        notifiedAt: now,
+        normalStreak: 0,
+        state: 'open',
+        acknowledged: false,
+        history: [{ action: 'opened', state: 'open', at: now }],
+      });
+      continue;
+    }
+
+    const escalated = SEVERITY_RANK[finding.severity] > SEVERITY_RANK[previous.severity];
+    // The alert keeps the worst severity seen and that finding's wording; a
+    // backdated reading counts as an occurrence but keeps the latest details
+    const newer = seenAt >= (previous.lastSeenAt ?? previous.timestamp);
+    const alert: Alert = { ...previous, occurrences: (previous.occurrences ?? 1) + 1 };
+    if (newer) {
+      Object.assign(alert, { value: finding.value, lastSeenAt: seenAt, lastVitalId: vital.id, normalStreak: 0 });
+      if (SEVERITY_RANK[finding.severity] >= SEVERITY_RANK[previous.severity]) Object.assign(alert, finding);
+    }
+    if (previous.clearedAt) {
+      delete alert.clearedAt;
+    }
+    const transitions = previous.clearedAt ? [...(previous.transitions ?? []), seenAt] : previous.transitions;
+    if (transitions) {
+      Object.assign(alert, flapState(transitions, seenAt, policy));
+    }
+    // Flapping alerts stay quiet unless they get worse
+    const due = minutesBetween(previous.notifiedAt ?? previous.timestamp, now) >= policy.renotifyMinutes;
+    if (escalated || (due && !alert.flapping)) {
+      alert.notifiedAt = now;
+    }
+    // Getting worse ends a snooze
+    if (escalated && previous.snoozedUntil && previous.snoozedUntil > now) {
+      delete alert.snoozedUntil;
+      alert.history = [...(previous.history ?? []), { action: 'unsnoozed', state: alertState(previous), at: now }];
+    }
+    raised.push(alert);
+  }
+
+  // Hysteresis: clear only after enough normal readings and enough time
+  const settling: Alert[] = [];
+  for (const alert of latest.values()) {
+    if (alert.clearedAt || !checked.has(conditionKey(alert))) continue;
+    if (seenAt < (alert.lastSeenAt ?? alert.timestamp)) continue;
+    const normalStreak = (alert.normalStreak ?? 0) + 1;
+    const cleared = normalStreak >= policy.clearAfterReadings &&
+      minutesBetween(alert.lastSeenAt ?? alert.timestamp, seenAt) >= policy.clearAfterMinutes;
+    const settled = { ...alert, normalStreak, ...(alert.transitions && flapState(alert.transitions, seenAt, policy)) };
+    settling.push(cleared ? { ...settled, clearedAt: seenAt } : settled);
+  }
+
+  // New critical alerts, or ones that just became critical, start escalating
+  const escalation = await loadEscalationPolicy(deps);
+  const escalated = raised.map((alert) => startEscalation(alert, patient, escalation, deps.now()));
+
+  await deps.repo.saveAlerts([...escalated, ...settling]);
+  publishAlerts(deps.events, [...escalated, ...settling]);
+  return escalated;
+}
@@ -0,0 +1,123 @@
+// Run with `deno test --allow-env supabase/functions/server/alert_pipeline_test.tsx`.
+// Goes through the local server, so readings take the same path as in
+// production: POST /vitals, the rules, then mergeFindings.
+
+import { deepStrictEqual, equal } from 'node:assert/strict';
+import { createLocalServer } from './local.tsx';
+import type { Alert } from '../_shared/types.tsx';
+
+const START = Date.parse('2026-10-19T06:00:00.000Z');
+const at = (minutes: number) => new Date(START + minutes * 60_000).toISOString();
+
+async function setup() {
+  let now = new Date(START);
+  const server = createLocalServer({ now: () => now });
+  const signup = (email: string, name: string, role: string) =>
+    server.request('/signup', { method: 'POST', json: { email, password: 'secret1', name, role } });
+  await signup('doctor@example.com', 'Dr Grey', 'doctor');
+  await signup('patient@example.com', 'Ann Lee', 'patient');
+  const login = await server.request('/local/login', {
+    method: 'POST',
+    json: { email: 'doctor@example.com', password: 'secret1' },
+  });
+  const { accessToken: token } = await login.json();
+  const { patients } = await (await server.request('/patients', { token })).json();
+  const patientId = patients[0].id;
+
+  // Records a reading taken the given number of minutes after START
+  const record = async (minutes: number, vitals: Record<string, unknown>) => {
+    now = new Date(at(minutes));
+    const response = await server.request('/vitals', { method: 'POST', token, json: { patientId, ...vitals } });
+    equal(response.status, 201);
+  };
+
+  const heartRateAlerts = async (): Promise<Alert[]> => {
+    const { alerts } = await (await server.request(`/alerts/patient/${patientId}`, { token })).json();
+    return alerts.filter((alert: Alert) => alert.ruleId === 'heart-rate');
+  };
+
+  return { record, heartRateAlerts };
+}
+
+Deno.test('repeat findings merge into the open alert and renotify only when due or worse', async () => {
+  const { record, heartRateAlerts } = await setup();
+  await record(0, { heartRate: 105 });
+  await record(5, { heartRate: 107 });
+  let [alert, ...others] = await heartRateAlerts();
+  deepStrictEqual(others, []);
+  equal(alert.occurrences, 2);
+  equal(alert.severity, 'warning');
+  equal(alert.notifiedAt, at(0));
+
+  await record(10, { heartRate: 130 });
+  [alert] = await heartRateAlerts();
+  equal(alert.severity, 'critical');
+  equal(alert.notifiedAt, at(10));
+
+  await record(45, { heartRate: 104 });
+  [alert] = await heartRateAlerts();
+  equal(alert.severity, 'critical');
+  equal(alert.occurrences, 4);
+  equal(alert.notifiedAt, at(45));
+});
+
+Deno.test('an alert clears only after enough normal readings over enough time', async () => {
+  const { record, heartRateAlerts } = await setup();
+  await record(0, { heartRate: 105 });
+  for (const minutes of [2, 4, 6]) await record(minutes, { heartRate: 80 });
+  let [alert] = await heartRateAlerts();
+  equal(alert.normalStreak, 3);
+  equal(alert.clearedAt, undefined);
+
+  // A reading of something else says nothing about the heart rate
+  await record(10, { oxygenLevel: 97 });
+  [alert] = await heartRateAlerts();
+  equal(alert.normalStreak, 3);
+
+  await record(15, { heartRate: 80 });
+  [alert] = await heartRateAlerts();
+  equal(alert.normalStreak, 4);
+  equal(alert.clearedAt, at(15));
+});
+
+// Raises a heart rate alert at 0 that clears and reopens at 20, 40 and 60
+async function flapThreeTimes(record: Awaited<ReturnType<typeof setup>>['record']) {
+  await record(0, { heartRate: 105 });
+  for (let cycle = 0; cycle < 3; cycle++) {
+    const start = cycle * 20;
+    for (const minutes of [5, 10, 15]) await record(start + minutes, { heartRate: 80 });
+    await record(start + 20, { heartRate: 105 });
+  }
+}
+
+Deno.test('an alert that keeps clearing and returning is marked flapping and stays quiet', async () => {
+  const { record, heartRateAlerts } = await setup();
+  await flapThreeTimes(record);
+  const [alert, ...others] = await heartRateAlerts();
+  deepStrictEqual(others, []);
+  equal(alert.occurrences, 4);
+  equal(alert.flapping, true);
+  deepStrictEqual(alert.transitions, [at(20), at(40), at(60)]);
+  // Renotified when it came back after 40 minutes, then silenced at the third return
+  equal(alert.notifiedAt, at(40));
+});
+
+Deno.test('a flapping alert stops flapping once its reopenings leave the flap window', async () => {
+  const { record, heartRateAlerts } = await setup();
+  await flapThreeTimes(record);
+  await record(70, { heartRate: 80 });
+  let [alert] = await heartRateAlerts();
+  equal(alert.flapping, true);
+
+  // The reopening at 20 is more than an hour old by 85
+  await record(85, { heartRate: 80 });
+  [alert] = await heartRateAlerts();
+  equal(alert.flapping, false);
+  deepStrictEqual(alert.transitions, [at(40), at(60)]);
+
+  // So the care team hears about it again when the condition persists
+  await record(90, { heartRate: 105 });
+  [alert] = await heartRateAlerts();
+  equal(alert.flapping, false);
+  equal(alert.notifiedAt, at(90));
+});
@@ -0,0 +1,302 @@
+import { isNews2Critical, NEWS2_PARAMETERS, NEWS2_RISK_LABELS } from '../_shared/news2.tsx';
+import { METRIC_UNITS, profileLabel } from '../_shared/thresholds.tsx';
+import type {
+  AlertSeverity,
+  MetricThresholds,
+  News2Score,
+  RuleCondition,
+  RuleSet,
+  ThresholdProfile,
+  TrendRule,
+  VitalMetric,
+  VitalReading,
+} from '../_shared/types.tsx';
+
+export interface AlertFinding {
+  type: string;
+  severity: AlertSeverity;
+  value: number;
+  message: string;
+  reason: string;
+  ruleId: string;
+  // Unset for findings that do not come from a rule set, e.g. NEWS2
+  ruleVersion?: number;
+  vitalIds?: string[];
+}
+
+export const parseBloodPressure = (bp?: string): [number, number] | null => {
+  const match = bp?.match(/^\s*(\d{2,3})\s*\/\s*(\d{2,3})\s*$/);
+  return match ? [parseInt(match[1]), parseInt(match[2])] : null;
+};
+
+const condition = (metric: VitalMetric, op: RuleCondition['op'], value: number): RuleCondition => ({ metric, op, value });
+
+// Graded bands from TECHNICAL_GUIDE.md. Published rule sets replace this;
+// it stays active until the first one is published.
+export const DEFAULT_RULES: RuleSet = {
+  version: 1,
+  createdAt: '2025-01-01T00:00:00.000Z',
+  createdBy: 'system',
+  notes: 'Thresholds from the technical guide',
+  rules: [
+    {
+      id: 'heart-rate',
+      type: 'Heart Rate',
+      metric: 'heartRate',
+      bands: [
+        { severity: 'critical', message: 'Bradycardia - heart rate dangerously low', any: [condition('heartRate', '<', 50)] },
+        { severity: 'critical', message: 'Tachycardia - heart rate dangerously high', any: [condition('heartRate', '>', 120)] },
+        {
+          severity: 'warning',
+          message: 'Heart rate outside normal range',
+          any: [condition('heartRate', '<', 60), condition('heartRate', '>', 100)],
+        },
+      ],
+    },
+    {
+      id: 'blood-pressure',
+      type: 'Blood Pressure',
+      metric: 'systolic',
+      bands: [
+        {
+          severity: 'critical',
+          message: 'Hypertensive crisis - immediate medical attention required',
+          any: [condition('systolic', '>', 180), condition('diastolic', '>', 120)],
+        },
+        {
+          severity: 'warning',
+          message: 'Stage 2 hypertension',
+          any: [condition('systolic', '>=', 140), condition('diastolic', '>=', 90)],
+        },
+        {
+          severity: 'warning',
+          message: 'Hypotension',
+          any: [condition('systolic', '<', 90), condition('diastolic', '<', 60)],
+        },
+        {
+          severity: 'info',
+          message: 'Stage 1 hypertension',
+          any: [condition('systolic', '>=', 130), condition('diastolic', '>=', 80)],
+        },
+      ],
+    },
+    {
+      id: 'oxygen-level',
+      type: 'Oxygen Level',
+      metric: 'oxygenLevel',
+      bands: [
+        { severity: 'critical', message: 'Severe hypoxemia - administer oxygen', any: [condition('oxygenLevel', '<', 85)] },
+        { severity: 'warning', message: 'Moderate hypoxemia', any: [condition('oxygenLevel', '<', 90)] },
+        { severity: 'info', message: 'Mild hypoxemia', any: [condition('oxygenLevel', '<', 95)] },
+      ],
+    },
+    {
+      id: 'temperature',
+      type: 'Temperature',
+      metric: 'temperature',
+      bands: [
+        { severity: 'critical', message: 'Hypothermia detected', any: [condition('temperature', '<', 35)] },
+        { severity: 'critical', message: 'High fever - antipyretic medication may be needed', any: [condition('temperature', '>=', 39.4)] },
+        { severity: 'warning', message: 'Fever', any: [condition('temperature', '>', 38)] },
+        { severity: 'info', message: 'Low-grade fever', any: [condition('temperature', '>', 37.2)] },
+        { severity: 'info', message: 'Temperature below normal range', any: [condition('temperature', '<', 36.1)] },
+      ],
+    },
+  ],
+  trends: [
+    {
+      id: 'oxygen-level-falling',
+      type: 'Oxygen Level',
+      metric: 'oxygenLevel',
+      kind: 'change',
+      severity: 'warning',
+      message: 'SpO₂ falling',
+      windowMinutes: 360,
+      direction: 'fall',
+      amount: 4,
+    },
+    {
+      id: 'oxygen-level-sustained-low',
+      type: 'Oxygen Level',
+      metric: 'oxygenLevel',
+      kind: 'sustained',
+      severity: 'warning',
+      message: 'Sustained low SpO₂',
+      windowMinutes: 30,
+      condition: condition('oxygenLevel', '<', 92),
+    },
+    {
+      id: 'systolic-falling',
+      type: 'Blood Pressure',
+      metric: 'systolic',
+      kind: 'change',
+      severity: 'warning',
+      message: 'Systolic pressure falling',
+      windowMinutes: 120,
+      direction: 'fall',
+      amount: 30,
+    },
+    {
+      id: 'heart-rate-rising',
+      type: 'Heart Rate',
+      metric: 'heartRate',
+      kind: 'consecutive',
+      severity: 'warning',
+      message: 'Heart rate rising',
+      windowMinutes: 360,
+      direction: 'rise',
+      count: 4,
+      amount: 15,
+    },
+    {
+      id: 'temperature-rising',
+      type: 'Temperature',
+      metric: 'temperature',
+      kind: 'consecutive',
+      severity: 'info',
+      message: 'Temperature rising',
+      windowMinutes: 720,
+      direction: 'rise',
+      count: 3,
+      amount: 1,
+    },
+  ],
+};
+
+export const METRIC_LABELS: Record<VitalMetric, string> = {
+  heartRate: 'Heart rate',
+  systolic: 'Systolic pressure',
+  diastolic: 'Diastolic pressure',
+  oxygenLevel: 'SpO₂',
+  temperature: 'Temperature',
+};
+
+// A condition whose threshold came from the patient's profile
+export type ProfiledCondition = RuleCondition & { profile?: string };
+
+const OP_WORDS: Record<RuleCondition['op'], string> = {
+  '<': 'below',
+  '<=': 'at or below',
+  '>': 'above',
+  '>=': 'at or above',
+};
+
+export const compare = (value: number, { op, value: threshold }: RuleCondition) => {
+  switch (op) {
+    case '<': return value < threshold;
+    case '<=': return value <= threshold;
+    case '>': return value > threshold;
+    case '>=': return value >= threshold;
+  }
+};
+
+export const describeCondition = (c: ProfiledCondition, value: number) => {
+  const unit = METRIC_UNITS[c.metric];
+  const reason = `${METRIC_LABELS[c.metric]} ${value}${unit} is ${OP_WORDS[c.op]} ${c.value}${unit}`;
+  return c.profile ? `${reason} (${c.profile} thresholds)` : reason;
+};
+
+const thresholdFor = (severity: AlertSeverity, op: RuleCondition['op'], t: MetricThresholds) => {
+  const below = op === '<' || op === '<=';
+  if (severity === 'critical') return below ? t.criticalLow : t.criticalHigh;
+  if (severity === 'warning') return below ? t.low : t.high;
+  return undefined;
+};
+
+// Lays a patient's thresholds over a rule set. Each condition on a profiled
+// metric takes the bound matching its band's severity and direction; info
+// conditions on those metrics are dropped, as they were tuned for the
+// population defaults. Bands left without conditions are removed. Sustained
+// trends on a profiled metric use its warning bound, or are dropped without
+// one; change and consecutive trends are relative and kept as they are.
+export function applyProfile(ruleSet: RuleSet, profile?: ThresholdProfile | null): RuleSet {
+  if (!profile) return ruleSet;
+  const label = profileLabel(profile);
+
+  const trends = ruleSet.trends?.flatMap((trend): TrendRule[] => {
+    const thresholds = profile.thresholds[trend.metric];
+    if (trend.kind !== 'sustained' || !trend.condition || !thresholds) return [trend];
+    const value = thresholdFor('warning', trend.condition.op, thresholds);
+    if (value === undefined) return [];
+    const profiled: ProfiledCondition = { ...trend.condition, value, profile: label };
+    return [{ ...trend, condition: profiled }];
+  });
+
+  const rules = ruleSet.rules.map((rule) => ({
+    ...rule,
+    bands: rule.bands
+      .map((band) => ({
+        ...band,
+        any: band.any.flatMap((c): ProfiledCondition[] => {
+          const thresholds = profile.thresholds[c.metric];
+          if (!thresholds) return [c];
+          if (band.severity === 'info') return [];
+          const value = thresholdFor(band.severity, c.op, thresholds);
+          return [value === undefined ? c : { ...c, value, profile: label }];
+        }),
+      }))
+      .filter((band) => band.any.length > 0),
+  }));
+  return trends ? { ...ruleSet, rules, trends } : { ...ruleSet, rules };
+}
+
+export function readingMetrics(vital: VitalReading): Partial<Record<VitalMetric, number>> {
+  const values: Partial<Record<VitalMetric, number>> = {};
+  if (vital.heartRate !== undefined) values.heartRate = vital.heartRate;
+  if (vital.oxygenLevel !== undefined) values.oxygenLevel = vital.oxygenLevel;
+  if (vital.temperature !== undefined) values.temperature = vital.temperature;
+  const bp = parseBloodPressure(vital.bloodPressure);
+  if (bp) {
+    values.systolic = bp[0];
+    values.diastolic = bp[1];
+  }
+  return values;
+}
+
+// Runs every rule against the reading; each rule yields at most one finding,
+// from its first matching band.
+export function evaluateReading(vital: VitalReading, ruleSet: RuleSet = DEFAULT_RULES): AlertFinding[] {
+  const values = readingMetrics(vital);
+  return ruleSet.rules.flatMap((rule) => {
+    const value = values[rule.metric];
+    if (value === undefined) return [];
+
+    for (const band of rule.bands) {
+      const matched = band.any.filter((c) => values[c.metric] !== undefined && compare(values[c.metric]!, c));
+      if (matched.length > 0) {
+        return [{
+          type: rule.type,
+          severity: band.severity,
+          value,
+          message: band.message,
+          reason: matched.map((c) => describeCondition(c, values[c.metric]!)).join('; '),
+          ruleId: rule.id,
+          ruleVersion: ruleSet.version,
+        }];
+      }
+    }
+    return [];
+  });
+}
+
+// A critical finding when the NEWS2 score calls for an urgent response.
+export function news2Finding(news2: News2Score): AlertFinding | null {
+  if (!isNews2Critical(news2)) return null;
+  const scored = NEWS2_PARAMETERS
+    .filter(({ parameter }) => (news2.components[parameter] ?? 0) > 0)
+    .map(({ parameter, label }) => `${label} ${news2.components[parameter]}`);
+  let reason = `NEWS2 ${news2.total} (${scored.join(', ')})`;
+  if (news2.missing.length > 0) reason += `; not recorded: ${news2.missing.length} of ${NEWS2_PARAMETERS.length} parameters`;
+  return {
+    type: 'NEWS2',
+    severity: 'critical',
+    value: news2.total,
+    message: `${NEWS2_RISK_LABELS[news2.risk]} clinical risk - urgent clinical review required`,
+    reason,
+    ruleId: 'news2',
+  };
+}
+
+// Info findings are recorded but do not make a reading abnormal.
+export const readingStatus = (findings: AlertFinding[]): VitalReading['status'] =>
+  findings.some((f) => f.severity !== 'info') ? 'abnormal' : 'normal';
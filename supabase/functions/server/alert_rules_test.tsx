@@ -0,0 +1,203 @@
+// Run with `deno test supabase/functions/server/alert_rules_test.tsx`. The
+// tables walk each default rule band by band, at and either side of its bounds.
+
+import { deepStrictEqual, equal } from 'node:assert/strict';
+import { applyProfile, DEFAULT_RULES, evaluateReading, readingStatus } from './alert_rules.tsx';
+import { findTemplate } from '../_shared/thresholds.tsx';
+import type { AlertSeverity, ConditionTemplateId, RuleSet, ThresholdProfile, VitalReading } from '../_shared/types.tsx';
+
+const reading = (vitals: Partial<VitalReading>): VitalReading => ({
+  id: 'vital-1',
+  patientId: 'patient-1',
+  status: 'normal',
+  timestamp: '2026-10-19T06:00:00.000Z',
+  recordedBy: 'nurse-1',
+  ...vitals,
+});
+
+type Expected = [AlertSeverity, string] | null;
+
+// Checks the finding each value raises for one rule: its severity and
+// message, or none at all
+const bands = <T,>(
+  ruleId: string,
+  vitals: (value: T) => Partial<VitalReading>,
+  cases: [T, Expected][],
+  ruleSet?: RuleSet,
+) => {
+  for (const [value, expected] of cases) {
+    const finding = evaluateReading(reading(vitals(value)), ruleSet).find((f) => f.ruleId === ruleId);
+    deepStrictEqual(finding ? [finding.severity, finding.message] : null, expected, `${ruleId} ${value}`);
+  }
+};
+
+const BRADYCARDIA: Expected = ['critical', 'Bradycardia - heart rate dangerously low'];
+const TACHYCARDIA: Expected = ['critical', 'Tachycardia - heart rate dangerously high'];
+const HEART_RATE: Expected = ['warning', 'Heart rate outside normal range'];
+
+Deno.test('heart rate bands', () => {
+  bands('heart-rate', (heartRate: number) => ({ heartRate }), [
+    [49, BRADYCARDIA], [50, HEART_RATE], [59, HEART_RATE], [60, null], [100, null],
+    [101, HEART_RATE], [120, HEART_RATE], [121, TACHYCARDIA],
+  ]);
+});
+
+const CRISIS: Expected = ['critical', 'Hypertensive crisis - immediate medical attention required'];
+const STAGE_2: Expected = ['warning', 'Stage 2 hypertension'];
+const HYPOTENSION: Expected = ['warning', 'Hypotension'];
+const STAGE_1: Expected = ['info', 'Stage 1 hypertension'];
+
+Deno.test('blood pressure bands on either number', () => {
+  bands('blood-pressure', (bloodPressure: string) => ({ bloodPressure }), [
+    ['181/70', CRISIS], ['180/70', STAGE_2], ['120/121', CRISIS], ['120/120', STAGE_2],
+    ['140/70', STAGE_2], ['139/70', STAGE_1], ['120/90', STAGE_2], ['120/89', STAGE_1],
+    ['130/70', STAGE_1], ['129/70', null], ['120/80', STAGE_1], ['120/79', null],
+    ['90/60', null], ['89/70', HYPOTENSION], ['100/59', HYPOTENSION],
+  ]);
+});
+
+Deno.test('the most severe matching blood pressure band wins', () => {
+  // High systolic and low diastolic: stage 2 comes before hypotension
+  bands('blood-pressure', (bloodPressure: string) => ({ bloodPressure }), [['150/55', STAGE_2], ['190/55', CRISIS]]);
+  const [finding] = evaluateReading(reading({ bloodPressure: '185/125' }));
+  equal(finding.value, 185);
+  equal(
+    finding.reason,
+    'Systolic pressure 185 mmHg is above 180 mmHg; Diastolic pressure 125 mmHg is above 120 mmHg',
+  );
+});
+
+Deno.test('SpO2 bands', () => {
+  bands('oxygen-level', (oxygenLevel: number) => ({ oxygenLevel }), [
+    [84, ['critical', 'Severe hypoxemia - administer oxygen']],
+    [85, ['warning', 'Moderate hypoxemia']],
+    [89, ['warning', 'Moderate hypoxemia']],
+    [90, ['info', 'Mild hypoxemia']],
+    [94, ['info', 'Mild hypoxemia']],
+    [95, null],
+  ]);
+});
+
+const HIGH_FEVER: Expected = ['critical', 'High fever - antipyretic medication may be needed'];
+const FEVER: Expected = ['warning', 'Fever'];
+const LOW_GRADE: Expected = ['info', 'Low-grade fever'];
+const BELOW_NORMAL: Expected = ['info', 'Temperature below normal range'];
+
+Deno.test('temperature bands and fever tiers', () => {
+  bands('temperature', (temperature: number) => ({ temperature }), [
+    [34.9, ['critical', 'Hypothermia detected']], [35, BELOW_NORMAL], [36, BELOW_NORMAL], [36.1, null],
+    [37.2, null], [37.3, LOW_GRADE], [38, LOW_GRADE], [38.1, FEVER], [39.3, FEVER], [39.4, HIGH_FEVER],
+  ]);
+});
+
+Deno.test('findings name the rule, version and reason, and set the reading status', () => {
+  const findings = evaluateReading(reading({ heartRate: 130, oxygenLevel: 97, temperature: 37.5 }));
+  deepStrictEqual(findings, [
+    {
+      type: 'Heart Rate',
+      severity: 'critical',
+      value: 130,
+      message: 'Tachycardia - heart rate dangerously high',
+      reason: 'Heart rate 130 bpm is above 120 bpm',
+      ruleId: 'heart-rate',
+      ruleVersion: 1,
+    },
+    {
+      type: 'Temperature',
+      severity: 'info',
+      value: 37.5,
+      message: 'Low-grade fever',
+      reason: 'Temperature 37.5°C is above 37.2°C',
+      ruleId: 'temperature',
+      ruleVersion: 1,
+    },
+  ]);
+  equal(readingStatus(findings), 'abnormal');
+  // Info findings alone leave the reading normal
+  equal(readingStatus(findings.slice(1)), 'normal');
+  deepStrictEqual(evaluateReading(reading({ bloodPressure: 'not taken', notes: 'asleep' })), []);
+});
+
+const profile = (
+  condition: ConditionTemplateId | null,
+  thresholds = findTemplate(condition)!.thresholds,
+): ThresholdProfile => ({
+  condition,
+  thresholds,
+  updatedAt: '2026-10-19T06:00:00.000Z',
+  updatedBy: 'doctor-1',
+});
+
+const MODERATE: Expected = ['warning', 'Moderate hypoxemia'];
+const SEVERE: Expected = ['critical', 'Severe hypoxemia - administer oxygen'];
+
+Deno.test('a COPD profile alerts only below 88% and drops the mild hypoxemia band', () => {
+  const rules = applyProfile(DEFAULT_RULES, profile('copd'));
+  bands('oxygen-level', (oxygenLevel: number) => ({ oxygenLevel }), [
+    [84, SEVERE], [85, MODERATE], [87, MODERATE], [88, null], [94, null],
+  ], rules);
+  const rule = (ruleSet: RuleSet, id: string) => ruleSet.rules.find((r) => r.id === id)!;
+  deepStrictEqual(rule(rules, 'oxygen-level').bands.map((b) => b.severity), ['critical', 'warning']);
+
+  const [finding] = evaluateReading(reading({ oxygenLevel: 86 }), rules);
+  equal(finding.reason, 'SpO₂ 86% is below 88% (COPD thresholds)');
+  equal(finding.ruleVersion, 1);
+  // Other metrics keep the defaults and their plain reasons
+  deepStrictEqual(rule(rules, 'heart-rate'), rule(DEFAULT_RULES, 'heart-rate'));
+  equal(evaluateReading(reading({ heartRate: 105 }), rules)[0].reason, 'Heart rate 105 bpm is above 100 bpm');
+});
+
+Deno.test('a heart failure profile moves the heart rate and systolic bounds', () => {
+  const rules = applyProfile(DEFAULT_RULES, profile('heart-failure'));
+  bands('heart-rate', (heartRate: number) => ({ heartRate }), [
+    [39, BRADYCARDIA], [40, HEART_RATE], [49, HEART_RATE], [50, null], [100, null],
+    [101, HEART_RATE], [121, TACHYCARDIA],
+  ], rules);
+  // Diastolic is not profiled, so its conditions, stage 1 included, stay as they were
+  bands('blood-pressure', (bloodPressure: string) => ({ bloodPressure }), [
+    ['181/70', CRISIS], ['140/70', STAGE_2], ['139/70', null], ['139/80', STAGE_1], ['120/90', STAGE_2],
+    ['86/70', null], ['84/70', HYPOTENSION], ['100/59', HYPOTENSION],
+  ], rules);
+});
+
+Deno.test('a hypertension profile warns from 160/100 and still treats 180/120 as a crisis', () => {
+  const rules = applyProfile(DEFAULT_RULES, profile('hypertension'));
+  bands('blood-pressure', (bloodPressure: string) => ({ bloodPressure }), [
+    ['181/70', CRISIS], ['180/70', STAGE_2], ['120/121', CRISIS], ['160/70', STAGE_2], ['159/99', null],
+    ['120/100', STAGE_2], ['135/85', null], ['100/60', null], ['99/70', HYPOTENSION], ['110/59', HYPOTENSION],
+  ], rules);
+  equal(
+    evaluateReading(reading({ bloodPressure: '165/95' }), rules)[0].reason,
+    'Systolic pressure 165 mmHg is at or above 160 mmHg (Hypertension thresholds)',
+  );
+});
+
+Deno.test('a custom profile keeps conditions it sets no bound for and drops empty bands', () => {
+  const custom = profile(null, { temperature: { high: 38.5 }, oxygenLevel: { criticalLow: 80 } });
+  const rules = applyProfile(DEFAULT_RULES, custom);
+  bands('temperature', (temperature: number) => ({ temperature }), [
+    [34.9, ['critical', 'Hypothermia detected']], [35, null], [37.5, null], [38.5, null], [38.6, FEVER],
+    [39.4, HIGH_FEVER],
+  ], rules);
+  bands('oxygen-level', (oxygenLevel: number) => ({ oxygenLevel }), [[79, SEVERE], [80, MODERATE], [90, null]], rules);
+  equal(evaluateReading(reading({ oxygenLevel: 79 }), rules)[0].reason, 'SpO₂ 79% is below 80% (Custom thresholds)');
+});
+
+Deno.test('sustained trends take the warning bound or are dropped; relative trends are kept', () => {
+  const trend = (ruleSet: RuleSet, id: string) => ruleSet.trends!.find((t) => t.id === id);
+  const copd = applyProfile(DEFAULT_RULES, profile('copd'));
+  deepStrictEqual(trend(copd, 'oxygen-level-sustained-low')!.condition, {
+    metric: 'oxygenLevel',
+    op: '<',
+    value: 88,
+    profile: 'COPD',
+  });
+  equal(trend(copd, 'oxygen-level-falling'), trend(DEFAULT_RULES, 'oxygen-level-falling'));
+
+  const custom = applyProfile(DEFAULT_RULES, profile(null, { oxygenLevel: { criticalLow: 80 } }));
+  equal(trend(custom, 'oxygen-level-sustained-low'), undefined);
+  equal(custom.trends!.length, DEFAULT_RULES.trends!.length - 1);
+
+  equal(applyProfile(DEFAULT_RULES, null), DEFAULT_RULES);
+  equal(applyProfile({ ...DEFAULT_RULES, trends: undefined }, profile('copd')).trends, undefined);
+});
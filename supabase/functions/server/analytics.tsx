@@ -0,0 +1,64 @@
+import type {
+  Alert,
+  AnalyticsPeriod,
+  AnalyticsResult,
+  AnalyticsSeries,
+  AnalyticsStats,
+  RollupResolution,
+  SeriesPoint,
+} from '../_shared/types.tsx';
+
+export const PERIOD_DAYS: Record<AnalyticsPeriod, number> = {
+  '7days': 7,
+  '30days': 30,
+  '3months': 90,
+  '1year': 365,
+};
+
+// Keeps every chart at roughly 50-170 points
+export const PERIOD_RESOLUTION: Record<AnalyticsPeriod, RollupResolution> = {
+  '7days': 'hour',
+  '30days': 'day',
+  '3months': 'day',
+  '1year': 'week',
+};
+
+export const isAnalyticsPeriod = (value: unknown): value is AnalyticsPeriod =>
+  typeof value === 'string' && value in PERIOD_DAYS;
+
+export const periodStart = (period: AnalyticsPeriod, now: Date) =>
+  new Date(now.getTime() - PERIOD_DAYS[period] * 24 * 60 * 60 * 1000);
+
+export function computeStats(totals: Omit<SeriesPoint, 'bucket'>, alerts: Alert[]): AnalyticsStats {
+  return {
+    totalReadings: totals.readings,
+    normalReadings: totals.readings - totals.abnormalReadings,
+    totalAlerts: alerts.length,
+    criticalAlerts: alerts.filter((a) => a.severity === 'critical').length,
+    warningAlerts: alerts.filter((a) => a.severity === 'warning').length,
+    infoAlerts: alerts.filter((a) => a.severity === 'info').length,
+    avgHeartRate: Math.round(totals.metrics.heartRate?.mean ?? 0),
+    avgOxygenLevel: Math.round(totals.metrics.oxygenLevel?.mean ?? 0),
+  };
+}
+
+export function buildAnalytics(
+  period: AnalyticsPeriod,
+  now: Date,
+  series: AnalyticsSeries & { totals: Omit<SeriesPoint, 'bucket'> },
+  alerts: Alert[],
+  totalPatients?: number,
+): AnalyticsResult {
+  const stats = computeStats(series.totals, alerts);
+  if (totalPatients !== undefined) {
+    stats.totalPatients = totalPatients;
+  }
+  return {
+    period,
+    from: periodStart(period, now).toISOString(),
+    to: now.toISOString(),
+    stats,
+    series: { resolution: series.resolution, points: series.points },
+    alerts,
+  };
+}
@@ -0,0 +1,99 @@
+import { Hono } from "npm:hono@4.6.14";
+import { cors } from "npm:hono@4.6.14/cors";
+import { HTTPException } from "npm:hono@4.6.14/http-exception";
+import { logger } from "npm:hono@4.6.14/logger";
+import type { AuthProvider } from './auth.tsx';
+import type { AppDeps, AppEnv } from './context.tsx';
+import { startDeviceMonitor } from './devices.tsx';
+import { startEscalationTimer } from './escalation.tsx';
+import { createEventBus } from './events.tsx';
+import { type Hl7FeedConfig, startHl7Feed } from './hl7_feed.tsx';
+import { createRepository } from './repository.tsx';
+import { adminRoutes } from './routes/admin.tsx';
+import { alertRoutes } from './routes/alerts.tsx';
+import { analyticsRoutes } from './routes/analytics.tsx';
+import { authRoutes } from './routes/auth.tsx';
+import { deviceRoutes } from './routes/devices.tsx';
+import { eventRoutes } from './routes/events.tsx';
+import { fhirRoutes } from './routes/fhir.tsx';
+import { ingestRoutes } from './routes/ingest.tsx';
+import { patientRoutes } from './routes/patients.tsx';
+import { ruleRoutes } from './routes/rules.tsx';
+import { settingsRoutes } from './routes/settings.tsx';
+import { vitalRoutes } from './routes/vitals.tsx';
+import type { KvStore } from './storage/index.tsx';
+
+export const BASE_PATH = '/make-server-3d5bb2df';
+
+export interface AppOptions {
+  kv: KvStore;
+  auth: AuthProvider;
+  now?: () => Date;
+  log?: boolean;
+  // How often to advance due alert escalations; off when unset
+  escalationIntervalMs?: number;
+  // How often to check paired devices for missed heartbeats; off when unset
+  deviceCheckIntervalMs?: number;
+  // Where to send each recorded reading as an HL7 ORU^R01; off when unset
+  hl7Feed?: Hl7FeedConfig;
+}
+
+export function createApp({
+  kv,
+  auth,
+  now = () => new Date(),
+  log = true,
+  escalationIntervalMs,
+  deviceCheckIntervalMs,
+  hl7Feed,
+}: AppOptions) {
+  const deps: AppDeps = { kv, auth, now, repo: createRepository(kv), events: createEventBus() };
+  const app = new Hono<AppEnv>().basePath(BASE_PATH);
+
+  if (escalationIntervalMs) {
+    startEscalationTimer(deps, escalationIntervalMs);
+  }
+  if (deviceCheckIntervalMs) {
+    startDeviceMonitor(deps, deviceCheckIntervalMs);
+  }
+  if (hl7Feed) {
+    startHl7Feed(deps, hl7Feed);
+  }
+
+  if (log) {
+    app.use('*', logger(console.log));
+  }
+  app.use('/*', cors({
+    origin: '*',
+    allowHeaders: ['Content-Type', 'Authorization'],
+    allowMethods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
+    exposeHeaders: ['Content-Length'],
+    maxAge: 600,
+  }));
+
+  app.get('/health', (c) => c.json({ status: 'ok' }));
+  app.route('/', authRoutes(deps));
+  app.route('/patients', patientRoutes(deps));
+  app.route('/vitals', vitalRoutes(deps));
+  app.route('/ingest', ingestRoutes(deps));
+  app.route('/devices', deviceRoutes(deps));
+  app.route('/alerts', alertRoutes(deps));
+  app.route('/analytics', analyticsRoutes(deps));
+  app.route('/rules', ruleRoutes(deps));
+  app.route('/settings', settingsRoutes(deps));
+  app.route('/admin', adminRoutes(deps));
+  app.route('/events', eventRoutes(deps));
+  app.route('/fhir', fhirRoutes(deps));
+
+  // Errors are always returned as { error } so clients can show the message
+  app.onError((err, c) => {
+    if (err instanceof HTTPException) {
+      return c.json({ error: err.message }, err.status);
+    }
+    console.error('Unhandled server error:', err);
+    return c.json({ error: 'Internal server error' }, 500);
+  });
+  app.notFound((c) => c.json({ error: 'Not found' }, 404));
+
+  return app;
+}
@@ -0,0 +1,55 @@
+import { createClient } from "jsr:@supabase/supabase-js@2.49.8";
+import type { UserProfile, UserRole } from '../_shared/types.tsx';
+
+export interface SignupInput {
+  email: string;
+  password: string;
+  name: string;
+  role: UserRole;
+}
+
+// Identity provider used by the routes. The hosted deployment uses Supabase
+// auth; the local runner swaps in an in-memory implementation.
+export interface AuthProvider {
+  createUser(input: SignupInput): Promise<UserProfile>;
+  getUser(accessToken: string): Promise<UserProfile | null>;
+}
+
+const toProfile = (user: any): UserProfile => ({
+  id: user.id,
+  email: user.email ?? '',
+  name: user.user_metadata?.name || 'User',
+  role: user.user_metadata?.role || 'patient',
+  createdAt: user.created_at ?? new Date().toISOString(),
+});
+
+export function createSupabaseAuth(): AuthProvider {
+  const client = () => createClient(
+    Deno.env.get("SUPABASE_URL")!,
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!,
+  );
+
+  return {
+    async createUser({ email, password, name, role }) {
+      const { data, error } = await client().auth.admin.createUser({
+        email,
+        password,
+        user_metadata: { name, role },
+        // No email server is configured, so accounts are confirmed on creation
+        email_confirm: true,
+      });
+      if (error) {
+        throw new Error(error.message);
+      }
+      return toProfile(data.user);
+    },
+
+    async getUser(accessToken) {
+      const { data, error } = await client().auth.getUser(accessToken);
+      if (error || !data.user) {
+        return null;
+      }
+      return toProfile(data.user);
+    },
+  };
+}
@@ -0,0 +1,97 @@
+import { createMiddleware } from "npm:hono@4.6.14/factory";
+import { HTTPException } from "npm:hono@4.6.14/http-exception";
+import type { AuthProvider } from './auth.tsx';
+import type { EventBus } from './events.tsx';
+import type { Repository } from './repository.tsx';
+import type { KvStore } from './storage/index.tsx';
+import type { IngestKey, Patient, UserProfile, UserRole } from '../_shared/types.tsx';
+
+export interface AppDeps {
+  kv: KvStore;
+  auth: AuthProvider;
+  repo: Repository;
+  events: EventBus;
+  now: () => Date;
+}
+
+export type AppEnv = {
+  Variables: {
+    user: UserProfile;
+    // Set instead of user when a device authenticates with an ingestion key
+    ingestKey: IngestKey;
+  };
+};
+
+// Resolves the bearer token to a user profile or rejects the request.
+export const requireUser = (deps: AppDeps) => createMiddleware<AppEnv>(async (c, next) => {
+  const token = c.req.header('Authorization')?.split(' ')[1];
+  const user = token ? await deps.auth.getUser(token) : null;
+  if (!user) {
+    throw new HTTPException(401, { message: 'Unauthorized' });
+  }
+  c.set('user', user);
+  await next();
+});
+
+export const requireRole = (user: UserProfile, ...roles: UserRole[]) => {
+  if (!roles.includes(user.role)) {
+    throw new HTTPException(403, { message: 'You do not have permission to perform this action' });
+  }
+};
+
+export const canAccessPatient = (user: UserProfile, patient: Patient) => {
+  if (user.role === 'doctor') return true;
+  if (user.role === 'patient') return patient.id === user.id;
+  return patient.familyMemberIds.includes(user.id);
+};
+
+// Loads a patient the current user is allowed to see, or throws 404/403.
+export const loadAccessiblePatient = async (deps: AppDeps, user: UserProfile, patientId: string) => {
+  const patient = await deps.repo.getPatient(patientId);
+  if (!patient) {
+    throw new HTTPException(404, { message: 'Patient not found' });
+  }
+  if (!canAccessPatient(user, patient)) {
+    throw new HTTPException(403, { message: 'You do not have access to this patient' });
+  }
+  return patient;
+};
+
+export const badRequest = (message: string) => new HTTPException(400, { message });
+
+export const readJson = async (req: { json: () => Promise<any> }): Promise<Record<string, any>> => {
+  try {
+    const body = await req.json();
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      throw new Error();
+    }
+    return body;
+  } catch {
+    throw badRequest('Request body must be a JSON object');
+  }
+};
+
+const readInteger = (value: string | undefined, name: string, min: number) => {
+  if (value === undefined || value === '') return undefined;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < min) {
+    throw badRequest(`${name} must be an integer of at least ${min}`);
+  }
+  return parsed;
+};
+
+// limit/offset query parameters shared by the list endpoints.
+export const readPaging = (query: (name: string) => string | undefined) => ({
+  limit: readInteger(query('limit'), 'limit', 1),
+  offset: readInteger(query('offset'), 'offset', 0),
+});
+
+// Optional ISO date query parameter, normalised for key range comparisons.
+export const readDate = (value: string | undefined, name: string) => {
+  if (value === undefined || value === '') return undefined;
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw badRequest(`${name} must be an ISO 8601 date`);
+  }
+  return date.toISOString();
+};
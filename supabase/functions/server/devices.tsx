@@ -0,0 +1,238 @@
+import { HTTPException } from "npm:hono@4.6.14/http-exception";
+import { conditionKey, loadAlertPolicy } from './alert_pipeline.tsx';
+import { badRequest, type AppDeps } from './context.tsx';
+import { loadEscalationPolicy, startEscalation } from './escalation.tsx';
+import { publishAlerts } from './events.tsx';
+import type { Alert, AlertPolicy, Device, DeviceStatus, DeviceType } from '../_shared/types.tsx';
+
+export const DEVICE_TYPES: DeviceType[] = [
+  'heart-rate',
+  'blood-pressure',
+  'pulse-oximeter',
+  'thermometer',
+  'multi-sensor',
+  'gateway',
+  'unknown',
+];
+
+// Device ids appear in MQTT topics and storage keys
+export const isDeviceId = (id: unknown): id is string => typeof id === 'string' && /^[A-Za-z0-9._-]{1,64}$/.test(id);
+
+// A low battery alert clears once the device is this many points above the
+// threshold, so a device hovering around it does not raise one per reading
+const BATTERY_CLEAR_MARGIN = 5;
+
+const MINUTE = 60 * 1000;
+
+export function parseDeviceId(id: unknown, field = 'Device id'): string {
+  const trimmed = typeof id === 'string' ? id.trim() : id;
+  if (!isDeviceId(trimmed)) {
+    throw badRequest(`${field} must be 1-64 letters, digits, dots, dashes or underscores`);
+  }
+  return trimmed;
+}
+
+const optionalText = (body: Record<string, any>, field: 'name' | 'serial' | 'firmware') => {
+  const value = body[field];
+  if (value === undefined || value === null || value === '') return undefined;
+  if (typeof value !== 'string' || value.trim().length > 100) {
+    throw badRequest(`${field} must be text of at most 100 characters`);
+  }
+  return value.trim();
+};
+
+// Validates the fields a doctor registers a device with. On update, fields
+// left out keep their current value and an empty string clears them.
+export function parseDeviceDetails(body: Record<string, any>, current?: Device) {
+  const type = body.type ?? current?.type;
+  if (!DEVICE_TYPES.includes(type)) {
+    throw badRequest(`type must be one of ${DEVICE_TYPES.join(', ')}`);
+  }
+  const details: Pick<Device, 'type' | 'name' | 'serial' | 'firmware'> = { type };
+  for (const field of ['name', 'serial', 'firmware'] as const) {
+    details[field] = body[field] === undefined ? current?.[field] : optionalText(body, field);
+  }
+  return details;
+}
+
+export const unpairDevice = ({ patientId: _, pairedAt: __, pairedBy: ___, ...device }: Device): Device => device;
+
+// The patient a device reading is for. A paired device's readings belong to
+// its patient, so a payload may leave patientId out; one naming someone else
+// is refused rather than filed against the wrong record.
+export async function resolveDevicePatient(deps: AppDeps, deviceId: string, patientId?: string): Promise<string> {
+  const device = await deps.repo.getDevice(deviceId);
+  if (device?.patientId && patientId && device.patientId !== patientId) {
+    throw new HTTPException(409, { message: `Device ${deviceId} is paired with another patient` });
+  }
+  const resolved = patientId ?? device?.patientId;
+  if (!resolved) {
+    throw badRequest('patientId is required for a device that is not paired with a patient');
+  }
+  return resolved;
+}
+
+interface DeviceContact {
+  online: boolean;
+  // When the device took the reading or status
+  measuredAt: string;
+  battery?: number;
+  firmware?: string;
+  rssi?: number;
+}
+
+// Records that a device was heard from, registering it on first contact, and
+// checks its battery. Readings and status reports that arrive late, e.g.
+// replayed by a gateway, do not overwrite a newer battery level, and a stale
+// offline report does not mark a device offline that has since been seen.
+export async function touchDevice(deps: AppDeps, deviceId: string, contact: DeviceContact): Promise<Device> {
+  const now = deps.now().toISOString();
+  const device: Device = { ...((await deps.repo.getDevice(deviceId)) ?? { id: deviceId, type: 'unknown', createdAt: now }) };
+
+  if (contact.online) {
+    Object.assign(device, { online: true, lastSeenAt: now });
+  } else if (!device.lastSeenAt || contact.measuredAt >= device.lastSeenAt) {
+    device.online = false;
+  }
+  if (contact.battery !== undefined && (!device.batteryAt || contact.measuredAt >= device.batteryAt)) {
+    Object.assign(device, { battery: contact.battery, batteryAt: contact.measuredAt });
+  }
+  if (contact.firmware) device.firmware = contact.firmware;
+  if (contact.rssi !== undefined) device.rssi = contact.rssi;
+
+  await deps.repo.saveDevice(device);
+  if (device.patientId) {
+    const policy = await loadAlertPolicy(deps);
+    await updateDeviceAlerts(deps, device, policy, {
+      offline: contact.online ? false : undefined,
+      battery: batteryLow(device, policy),
+    });
+  }
+  return device;
+}
+
+export const recordDeviceStatus = (deps: AppDeps, status: DeviceStatus) =>
+  touchDevice(deps, status.deviceId, {
+    online: status.online,
+    measuredAt: status.reportedAt,
+    battery: status.battery,
+    firmware: status.firmware,
+    rssi: status.rssi,
+  });
+
+// True when low, false once recharged past the margin, undefined in between
+// or when the level is unknown
+const batteryLow = (device: Device, policy: AlertPolicy) => {
+  if (device.battery === undefined) return undefined;
+  if (device.battery < policy.batteryLowPercent) return true;
+  if (device.battery >= policy.batteryLowPercent + BATTERY_CLEAR_MARGIN) return false;
+  return undefined;
+};
+
+const minutesSilent = (device: Device, now: Date) =>
+  Math.floor((now.getTime() - Date.parse(device.lastSeenAt ?? device.pairedAt ?? device.createdAt)) / MINUTE);
+
+const deviceLabel = (device: Device) => device.name ? `${device.name} (${device.id})` : device.id;
+
+// Raises a device alert for the paired patient when its condition is true
+// and none is open, and clears the open one when it is false. Undefined
+// leaves that condition as it is.
+async function updateDeviceAlerts(
+  deps: AppDeps,
+  device: Device,
+  policy: AlertPolicy,
+  conditions: { offline?: boolean; battery?: boolean },
+): Promise<Alert[]> {
+  const patient = device.patientId ? await deps.repo.getPatient(device.patientId) : null;
+  if (!patient) return [];
+
+  const now = deps.now();
+  const at = now.toISOString();
+  const open = new Map<string, Alert>();
+  for (const alert of await deps.repo.listAlerts({ patientId: patient.id, resolved: false })) {
+    if (alert.deviceId === device.id && !alert.clearedAt) open.set(conditionKey(alert), alert);
+  }
+
+  const changed: Alert[] = [];
+  const update = (ruleId: string, active: boolean | undefined, raise: () => Pick<Alert, 'type' | 'value' | 'message' | 'reason'>) => {
+    const current = open.get(ruleId);
+    if (active && !current) {
+      changed.push({
+        id: crypto.randomUUID(),
+        patientId: patient.id,
+        patientName: patient.name,
+        patientAge: patient.age,
+        patientEmail: patient.email,
+        deviceId: device.id,
+        ruleId,
+        severity: 'warning',
+        ...raise(),
+        timestamp: at,
+        occurrences: 1,
+        lastSeenAt: at,
+        notifiedAt: at,
+        state: 'open',
+        acknowledged: false,
+        history: [{ action: 'opened', state: 'open', at }],
+      });
+    } else if (active === false && current) {
+      changed.push({ ...current, clearedAt: at });
+    }
+  };
+
+  update(`device-offline:${device.id}`, conditions.offline, () => {
+    const minutes = minutesSilent(device, now);
+    return {
+      type: 'Device Offline',
+      value: minutes,
+      message: `Device ${deviceLabel(device)} has stopped reporting`,
+      reason: `Nothing received for ${minutes} minutes (limit ${policy.deviceOfflineMinutes})`,
+    };
+  });
+  update(`device-battery:${device.id}`, conditions.battery, () => ({
+    type: 'Battery Low',
+    value: device.battery!,
+    message: `Device ${deviceLabel(device)} battery is low`,
+    reason: `Battery ${device.battery}% is below ${policy.batteryLowPercent}%`,
+  }));
+  if (changed.length === 0) return [];
+
+  const escalation = await loadEscalationPolicy(deps);
+  const saved = changed.map((alert) => alert.clearedAt ? alert : startEscalation(alert, patient, escalation, now));
+  await deps.repo.saveAlerts(saved);
+  publishAlerts(deps.events, saved);
+  return saved;
+}
+
+// Clears a device's open alerts, e.g. when it is unpaired from the patient
+export const clearDeviceAlerts = async (deps: AppDeps, device: Device) =>
+  updateDeviceAlerts(deps, device, await loadAlertPolicy(deps), { offline: false, battery: false });
+
+// Checks every paired device for a missed heartbeat or a low battery and
+// returns the alerts raised or cleared. Called by the server's timer and by
+// POST /admin/devices/check for an external scheduler.
+export async function checkDevices(deps: AppDeps): Promise<number> {
+  const now = deps.now();
+  const policy = await loadAlertPolicy(deps);
+  let changed = 0;
+  for (const device of await deps.repo.listPairedDevices()) {
+    const offline = minutesSilent(device, now) >= policy.deviceOfflineMinutes;
+    const conditions = { offline: offline || undefined, battery: batteryLow(device, policy) };
+    changed += (await updateDeviceAlerts(deps, device, policy, conditions)).length;
+  }
+  return changed;
+}
+
+// Checks devices every intervalMs for as long as the process lives. The
+// timer does not keep the process alive on its own.
+export function startDeviceMonitor(deps: AppDeps, intervalMs: number): () => void {
+  const id = setInterval(async () => {
+    try {
+      await checkDevices(deps);
+    } catch (error) {
+      console.error('Error checking devices:', error);
+    }
+  }, intervalMs);
+  Deno.unrefTimer(id);
+  return () => clearInterval(id);
+}
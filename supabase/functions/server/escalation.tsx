@@ -0,0 +1,143 @@
+import { badRequest, type AppDeps } from './context.tsx';
+import { publishAlerts } from './events.tsx';
+import { escalationPolicySchema, SchemaError } from '../_shared/schemas.tsx';
+import type { Alert, EscalationPolicy, EscalationTarget, Patient } from '../_shared/types.tsx';
+
+export const DEFAULT_ESCALATION_POLICY: EscalationPolicy = {
+  severities: ['critical'],
+  tiers: [
+    { afterMinutes: 0, target: 'assigned-doctor' },
+    { afterMinutes: 5, target: 'backup-doctor' },
+    { afterMinutes: 15, target: 'family' },
+  ],
+  backupDoctorIds: [],
+};
+
+const MINUTE = 60 * 1000;
+
+export async function loadEscalationPolicy(deps: AppDeps): Promise<EscalationPolicy> {
+  return (await deps.repo.getEscalationPolicy()) ?? DEFAULT_ESCALATION_POLICY;
+}
+
+// Validates a policy; tiers must be in order and backups must be doctors.
+export async function parseEscalationPolicy(deps: AppDeps, body: Record<string, any>): Promise<EscalationPolicy> {
+  let policy: EscalationPolicy;
+  try {
+    policy = escalationPolicySchema(body);
+  } catch (error) {
+    if (error instanceof SchemaError) throw badRequest(error.message);
+    throw error;
+  }
+
+  if (policy.tiers.length === 0) {
+    throw badRequest('At least one escalation tier is required');
+  }
+  policy.tiers.forEach((tier, i) => {
+    if (!Number.isInteger(tier.afterMinutes) || tier.afterMinutes < 0 || tier.afterMinutes > 1440) {
+      throw badRequest('afterMinutes must be a whole number between 0 and 1440');
+    }
+    if (i > 0 && tier.afterMinutes < policy.tiers[i - 1].afterMinutes) {
+      throw badRequest('Escalation tiers must be in order of afterMinutes');
+    }
+  });
+  for (const id of policy.backupDoctorIds) {
+    if ((await deps.repo.getUser(id))?.role !== 'doctor') {
+      throw badRequest(`Backup ${id} is not a doctor`);
+    }
+  }
+  return {
+    severities: [...new Set(policy.severities)],
+    tiers: policy.tiers.map(({ afterMinutes, target }) => ({ afterMinutes, target })),
+    backupDoctorIds: [...new Set(policy.backupDoctorIds)],
+  };
+}
+
+const recipientsFor = (target: EscalationTarget, patient: Patient | null, policy: EscalationPolicy) => {
+  switch (target) {
+    case 'assigned-doctor': return patient?.assignedDoctorId ? [patient.assignedDoctorId] : [];
+    case 'backup-doctor': return policy.backupDoctorIds.filter((id) => id !== patient?.assignedDoctorId);
+    case 'family': return patient?.familyMemberIds ?? [];
+  }
+};
+
+// Notifies every tier that has come due and schedules the next one. Tiers
+// with nobody to notify are still recorded, so the history shows the gap.
+// Delivery is in-app: the updated alert goes out as a live event, and the
+// recipients' open clients (the doctor dashboard, the family's alerts page)
+// notify them. Nothing is sent by SMS or email.
+function advance(alert: Alert, patient: Patient | null, policy: EscalationPolicy, now: Date): Alert {
+  const escalation = { ...alert.escalation!, steps: [...alert.escalation!.steps] };
+  const startedAt = Date.parse(escalation.startedAt);
+  const elapsed = now.getTime() - startedAt;
+
+  let notified = false;
+  while (escalation.level + 1 < policy.tiers.length && policy.tiers[escalation.level + 1].afterMinutes * MINUTE <= elapsed) {
+    escalation.level++;
+    const { target } = policy.tiers[escalation.level];
+    escalation.steps.push({
+      tier: escalation.level,
+      target,
+      recipientIds: recipientsFor(target, patient, policy),
+      at: now.toISOString(),
+    });
+    notified = true;
+  }
+
+  const next = policy.tiers[escalation.level + 1];
+  if (next) {
+    escalation.nextAt = new Date(startedAt + next.afterMinutes * MINUTE).toISOString();
+  } else {
+    delete escalation.nextAt;
+  }
+  // A new tier counts as a fresh notification for the clients
+  return notified ? { ...alert, escalation, notifiedAt: now.toISOString() } : { ...alert, escalation };
+}
+
+// Starts escalation for an alert of a covered severity that has none yet,
+// notifying the tiers due straight away.
+export function startEscalation(alert: Alert, patient: Patient, policy: EscalationPolicy, now: Date): Alert {
+  if (alert.escalation || alert.acknowledged || !policy.severities.includes(alert.severity)) return alert;
+  return advance({ ...alert, escalation: { startedAt: now.toISOString(), level: -1, steps: [] } }, patient, policy, now);
+}
+
+// Stops any further tiers once someone has acknowledged the alert.
+export function cancelEscalation(alert: Alert, userId: string, now: Date): Alert {
+  if (!alert.escalation?.nextAt) return alert;
+  const { nextAt: _, ...escalation } = alert.escalation;
+  return { ...alert, escalation: { ...escalation, cancelledAt: now.toISOString(), cancelledBy: userId } };
+}
+
+// Advances every alert whose next tier is due. Called by the server's timer
+// and by POST /admin/escalations/run for an external scheduler.
+export async function runDueEscalations(deps: AppDeps): Promise<number> {
+  const now = deps.now();
+  const due = await deps.repo.listDueEscalations(new Date(now.getTime() + 1).toISOString());
+  if (due.length === 0) return 0;
+
+  const policy = await loadEscalationPolicy(deps);
+  const patients = new Map<string, Patient | null>();
+  const updated: Alert[] = [];
+  for (const alert of due) {
+    if (!patients.has(alert.patientId)) {
+      patients.set(alert.patientId, await deps.repo.getPatient(alert.patientId));
+    }
+    updated.push(advance(alert, patients.get(alert.patientId)!, policy, now));
+  }
+  await deps.repo.saveAlerts(updated);
+  publishAlerts(deps.events, updated);
+  return updated.length;
+}
+
+// Runs due escalations every intervalMs for as long as the process lives.
+// The timer does not keep the process alive on its own.
+export function startEscalationTimer(deps: AppDeps, intervalMs: number): () => void {
+  const id = setInterval(async () => {
+    try {
+      await runDueEscalations(deps);
+    } catch (error) {
+      console.error('Error running alert escalations:', error);
+    }
+  }, intervalMs);
+  Deno.unrefTimer(id);
+  return () => clearInterval(id);
+}
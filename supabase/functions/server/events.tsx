@@ -0,0 +1,33 @@
+import type { Alert, LiveEvent } from '../_shared/types.tsx';
+
+export type LiveListener = (event: LiveEvent) => void;
+
+// In-process fan-out of changes to the connected event streams. Each server
+// instance has its own bus, so clients still poll now and then to pick up
+// changes made through another instance.
+export interface EventBus {
+  publish(event: LiveEvent): void;
+  subscribe(listener: LiveListener): () => void;
+}
+
+export function createEventBus(): EventBus {
+  const listeners = new Set<LiveListener>();
+  return {
+    publish(event) {
+      for (const listener of listeners) {
+        try {
+          listener(event);
+        } catch (error) {
+          console.error('Error delivering live event:', error);
+        }
+      }
+    },
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+  };
+}
+
+export const publishAlerts = (events: EventBus, alerts: Alert[]) =>
+  alerts.forEach((alert) => events.publish({ type: 'alert', patientId: alert.patientId, alert }));
@@ -0,0 +1,176 @@
+// Maps patients and readings to FHIR R4 resources. Observations follow the
+// FHIR vital signs profiles: one per vital, coded with LOINC and measured in
+// UCUM units.
+
+import type { Patient, VitalReading } from '../_shared/types.tsx';
+
+export const FHIR_JSON = 'application/fhir+json';
+
+const LOINC = 'http://loinc.org';
+const UCUM = 'http://unitsofmeasure.org';
+
+// Patients are identified by their id as a URI, which an import can match on
+export const PATIENT_IDENTIFIER_SYSTEM = 'urn:ietf:rfc:3986';
+export const patientIdentifier = (id: string) => `urn:uuid:${id}`;
+
+const VITAL_SIGNS_CATEGORY = {
+  coding: [{
+    system: 'http://terminology.hl7.org/CodeSystem/observation-category',
+    code: 'vital-signs',
+    display: 'Vital Signs',
+  }],
+  text: 'Vital Signs',
+};
+
+export type FhirVital = 'heartRate' | 'bloodPressure' | 'oxygenLevel' | 'temperature' | 'respiratoryRate';
+
+interface Coding {
+  system: string;
+  code: string;
+  display: string;
+}
+
+const loinc = (code: string, display: string): Coding => ({ system: LOINC, code, display });
+const ucum = (code: string, unit: string) => ({ system: UCUM, code, unit });
+
+// How each vital is coded. The first code is the one the profile requires;
+// suffix keeps Observation ids unique within a reading.
+export const FHIR_VITALS: Record<FhirVital, {
+  suffix: string;
+  profile: string;
+  codes: Coding[];
+  unit: { system: string; code: string; unit: string };
+}> = {
+  heartRate: {
+    suffix: 'hr',
+    profile: 'http://hl7.org/fhir/StructureDefinition/heartrate',
+    codes: [loinc('8867-4', 'Heart rate')],
+    unit: ucum('/min', 'beats/minute'),
+  },
+  bloodPressure: {
+    suffix: 'bp',
+    profile: 'http://hl7.org/fhir/StructureDefinition/bp',
+    codes: [loinc('85354-9', 'Blood pressure panel with all children optional')],
+    unit: ucum('mm[Hg]', 'mmHg'),
+  },
+  oxygenLevel: {
+    suffix: 'spo2',
+    profile: 'http://hl7.org/fhir/StructureDefinition/oxygensat',
+    codes: [
+      loinc('2708-6', 'Oxygen saturation in Arterial blood'),
+      loinc('59408-5', 'Oxygen saturation in Arterial blood by Pulse oximetry'),
+    ],
+    unit: ucum('%', '%'),
+  },
+  temperature: {
+    suffix: 'temp',
+    profile: 'http://hl7.org/fhir/StructureDefinition/bodytemp',
+    codes: [loinc('8310-5', 'Body temperature')],
+    unit: ucum('Cel', 'C'),
+  },
+  respiratoryRate: {
+    suffix: 'rr',
+    profile: 'http://hl7.org/fhir/StructureDefinition/resprate',
+    codes: [loinc('9279-1', 'Respiratory rate')],
+    unit: ucum('/min', 'breaths/minute'),
+  },
+};
+
+export const BP_COMPONENTS = {
+  systolic: loinc('8480-6', 'Systolic blood pressure'),
+  diastolic: loinc('8462-4', 'Diastolic blood pressure'),
+};
+
+export type VitalPart = FhirVital | 'systolic' | 'diastolic';
+
+// LOINC code to the part of a reading it fills, for reading Observations
+// from other systems. Systolic and diastolic may come as components of a
+// panel or as Observations of their own.
+export const LOINC_PARTS = new Map<string, VitalPart>([
+  ...(Object.entries(FHIR_VITALS) as [FhirVital, typeof FHIR_VITALS[FhirVital]][])
+    .flatMap(([vital, { codes }]) => codes.map(({ code }) => [code, vital] as [string, VitalPart])),
+  // The older blood pressure panel
+  ['55284-4', 'bloodPressure'],
+  [BP_COMPONENTS.systolic.code, 'systolic'],
+  [BP_COMPONENTS.diastolic.code, 'diastolic'],
+]);
+
+export function patientToFhir(patient: Patient) {
+  return {
+    resourceType: 'Patient',
+    id: patient.id,
+    meta: { lastUpdated: patient.updatedAt },
+    identifier: [{ system: PATIENT_IDENTIFIER_SYSTEM, value: patientIdentifier(patient.id) }],
+    active: true,
+    name: [{ use: 'official', text: patient.name }],
+    ...(patient.email ? { telecom: [{ system: 'email', value: patient.email }] } : {}),
+  };
+}
+
+// Splits "120/80" into numbers
+const bloodPressureValues = (bloodPressure: string) => {
+  const [systolic, diastolic] = bloodPressure.split('/').map(Number);
+  return { systolic, diastolic };
+};
+
+// One Observation per vital recorded in the reading, ids `{reading id}-{suffix}`
+export function vitalToObservations(vital: VitalReading) {
+  const observations = [];
+  for (const [vitalName, coding] of Object.entries(FHIR_VITALS) as [FhirVital, typeof FHIR_VITALS[FhirVital]][]) {
+    const value = vital[vitalName];
+    if (value === undefined || value === null) continue;
+
+    const quantity = (amount: number) => ({ value: amount, ...coding.unit });
+    observations.push({
+      resourceType: 'Observation',
+      id: `${vital.id}-${coding.suffix}`,
+      meta: { profile: ['http://hl7.org/fhir/StructureDefinition/vitalsigns', coding.profile] },
+      status: 'final',
+      category: [VITAL_SIGNS_CATEGORY],
+      code: { coding: coding.codes, text: coding.codes[0].display },
+      subject: { reference: `Patient/${vital.patientId}` },
+      effectiveDateTime: vital.timestamp,
+      ...(typeof value === 'string'
+        ? {
+          component: Object.entries(bloodPressureValues(value)).map(([part, amount]) => ({
+            code: { coding: [BP_COMPONENTS[part as keyof typeof BP_COMPONENTS]] },
+            valueQuantity: quantity(amount),
+          })),
+        }
+        : { valueQuantity: quantity(value) }),
+      ...(vital.device ? { device: { display: vital.device.name ?? vital.device.deviceId } } : {}),
+    });
+  }
+  return observations;
+}
+
+export type FhirObservation = ReturnType<typeof vitalToObservations>[number];
+
+// Splits an Observation id into the reading id and the vital it covers
+export function parseObservationId(id: string): { vitalId: string; vital: FhirVital } | null {
+  const dash = id.lastIndexOf('-');
+  const suffix = id.slice(dash + 1);
+  const vital = (Object.keys(FHIR_VITALS) as FhirVital[]).find((name) => FHIR_VITALS[name].suffix === suffix);
+  return dash > 0 && vital ? { vitalId: id.slice(0, dash), vital } : null;
+}
+
+// A searchset Bundle, as returned by searches and $everything
+export function searchBundle(baseUrl: string, selfUrl: string, resources: { resourceType: string; id: string }[], now: Date) {
+  return {
+    resourceType: 'Bundle',
+    id: crypto.randomUUID(),
+    meta: { lastUpdated: now.toISOString() },
+    type: 'searchset',
+    total: resources.length,
+    link: [{ relation: 'self', url: selfUrl }],
+    entry: resources.map((resource) => ({
+      fullUrl: `${baseUrl}/${resource.resourceType}/${resource.id}`,
+      resource,
+      search: { mode: 'match' },
+    })),
+  };
+}
+
+export function operationOutcome(severity: 'error' | 'information', code: string, diagnostics: string) {
+  return { resourceType: 'OperationOutcome', issue: [{ severity, code, diagnostics }] };
+}
@@ -0,0 +1,271 @@
+import { HTTPException } from "npm:hono@4.6.14/http-exception";
+import { badRequest, type AppDeps } from './context.tsx';
+import { LOINC_PARTS, PATIENT_IDENTIFIER_SYSTEM, type VitalPart } from './fhir.tsx';
+import { createRulesCache, importedReading, recordedTimestamps, saveImport } from './reading_import.tsx';
+import { parseVitalInput } from './vitals.tsx';
+import type { Patient, PatientIdentifier, UserProfile, VitalReading } from '../_shared/types.tsx';
+
+export const MAX_IMPORT_ENTRIES = 20_000;
+
+export interface FhirImportReport {
+  dryRun: boolean;
+  patients: {
+    created: { id: string; name: string; source: string }[];
+    // Already here, found by identifier; their details are left as they are
+    matched: { id: string; name: string; source: string }[];
+  };
+  readings: { created: number; duplicates: number };
+  // Resources that were not imported, and why
+  unmapped: { resource: string; reason: string }[];
+}
+
+const round = (value: number, places: number) => Math.round(value * 10 ** places) / 10 ** places;
+
+// UCUM codes (or unit text) accepted for each part, and the conversion to the
+// stored unit. A quantity without a unit is taken to be in the stored unit.
+const PER_MINUTE = { '/min': (v: number) => v, '{beats}/min': (v: number) => v, '{breaths}/min': (v: number) => v };
+const PRESSURE = { 'mm[Hg]': (v: number) => v, 'mmHg': (v: number) => v, 'kPa': (v: number) => round(v * 7.50062, 0) };
+const UNITS: Record<Exclude<VitalPart, 'bloodPressure'>, Record<string, (value: number) => number>> = {
+  heartRate: PER_MINUTE,
+  respiratoryRate: PER_MINUTE,
+  systolic: PRESSURE,
+  diastolic: PRESSURE,
+  oxygenLevel: { '%': (v) => v, '1': (v) => round(v * 100, 1) },
+  temperature: { 'Cel': (v) => v, '[degF]': (v) => round((v - 32) * 5 / 9, 1) },
+};
+
+type Resource = Record<string, any>;
+
+const label = (resource: Resource) => `${resource.resourceType}/${resource.id ?? '(no id)'}`;
+
+const identifierKey = ({ system, value }: PatientIdentifier) => `${system ?? ''}|${value}`;
+
+// Our own export identifies patients as urn:uuid:{id}
+const OWN_ID = /^urn:uuid:([0-9a-f-]{36})$/i;
+
+const ageFrom = (birthDate: unknown, now: Date) => {
+  if (typeof birthDate !== 'string' || isNaN(Date.parse(birthDate))) return null;
+  const born = new Date(birthDate);
+  let age = now.getUTCFullYear() - born.getUTCFullYear();
+  if (now.getUTCMonth() * 32 + now.getUTCDate() < born.getUTCMonth() * 32 + born.getUTCDate()) age--;
+  return age >= 0 && age <= 130 ? age : null;
+};
+
+const nameOf = (resource: Resource) => {
+  const names: Resource[] = Array.isArray(resource.name) ? resource.name : [];
+  const name = names.find((n) => n.use === 'official') ?? names[0];
+  const text = name?.text ?? [...(name?.given ?? []), name?.family].filter(Boolean).join(' ');
+  return typeof text === 'string' ? text.trim() : '';
+};
+
+const quantity = (part: Exclude<VitalPart, 'bloodPressure'>, value: Resource | undefined) => {
+  if (typeof value?.value !== 'number') {
+    throw new Error('has no numeric value');
+  }
+  const unit = value.code ?? value.unit;
+  const conversion = unit === undefined ? (v: number) => v : UNITS[part][unit];
+  if (!conversion) {
+    throw new Error(`unit ${unit} is not supported`);
+  }
+  return conversion(value.value);
+};
+
+const effectiveTime = (observation: Resource) => {
+  const time = observation.effectiveDateTime ?? observation.effectiveInstant ?? observation.effectivePeriod?.start;
+  return typeof time === 'string' && !isNaN(Date.parse(time)) ? new Date(time).toISOString() : null;
+};
+
+// Observations at the same time for the same patient become one reading
+interface PendingReading {
+  patientKey: string;
+  timestamp: string;
+  values: Partial<Record<Exclude<VitalPart, 'bloodPressure'>, number>>;
+  sources: string[];
+}
+
+// Imports the patients and vital-sign Observations in a Bundle. Patients are
+// matched to existing records by identifier, and readings already recorded
+// for a patient at the same time are skipped, so importing a Bundle twice
+// changes nothing. Historical readings are scored but raise no alerts. With
+// dryRun the report is returned without saving anything; otherwise either
+// everything is saved or, if saving fails part way, what was saved is removed
+// again.
+export async function importFhirBundle(
+  deps: AppDeps,
+  bundle: Resource,
+  user: UserProfile,
+  { dryRun = false }: { dryRun?: boolean } = {},
+): Promise<FhirImportReport> {
+  if (bundle.resourceType !== 'Bundle' || !Array.isArray(bundle.entry)) {
+    throw badRequest('Body must be a FHIR Bundle with an entry array');
+  }
+  if (bundle.entry.length > MAX_IMPORT_ENTRIES) {
+    throw badRequest(`A Bundle can hold at most ${MAX_IMPORT_ENTRIES} entries; split it into smaller ones`);
+  }
+
+  const now = deps.now();
+  const report: FhirImportReport = {
+    dryRun,
+    patients: { created: [], matched: [] },
+    readings: { created: 0, duplicates: 0 },
+    unmapped: [],
+  };
+  const skip = (resource: Resource, reason: string) => report.unmapped.push({ resource: label(resource), reason });
+
+  const existing = await deps.repo.listPatients();
+  const byIdentifier = new Map<string, Patient>();
+  for (const patient of existing) {
+    patient.identifiers?.forEach((identifier) => byIdentifier.set(identifierKey(identifier), patient));
+  }
+  const byId = new Map(existing.map((patient) => [patient.id, patient]));
+
+  // Bundle references (Patient/{id} or the entry's fullUrl) to the patient
+  // they resolve to
+  const patients = new Map<string, Patient>();
+  const created: Patient[] = [];
+
+  for (const { resource, fullUrl } of bundle.entry as Resource[]) {
+    if (resource?.resourceType !== 'Patient') continue;
+    const identifiers: PatientIdentifier[] = (Array.isArray(resource.identifier) ? resource.identifier : [])
+      .filter((identifier: Resource) => typeof identifier?.value === 'string' && identifier.value)
+      .map(({ system, value }: Resource) => (typeof system === 'string' ? { system, value } : { value }));
+    const own = identifiers
+      .filter((identifier) => identifier.system === PATIENT_IDENTIFIER_SYSTEM)
+      .map((identifier) => byId.get(OWN_ID.exec(identifier.value)?.[1] ?? ''))
+      .find(Boolean);
+    let patient = own ?? identifiers.map((identifier) => byIdentifier.get(identifierKey(identifier))).find(Boolean);
+
+    if (patient) {
+      if (![...report.patients.matched, ...report.patients.created].some((p) => p.id === patient!.id)) {
+        report.patients.matched.push({ id: patient.id, name: patient.name, source: label(resource) });
+      }
+    } else {
+      const name = nameOf(resource);
+      if (!name) {
+        skip(resource, 'Patient has no name');
+        continue;
+      }
+      const email = (resource.telecom ?? []).find((t: Resource) => t?.system === 'email' && typeof t.value === 'string');
+      patient = {
+        id: crypto.randomUUID(),
+        name,
+        email: email?.value.trim() ?? '',
+        age: ageFrom(resource.birthDate, now),
+        assignedDoctorId: null,
+        familyMemberIds: [],
+        identifiers,
+        createdAt: now.toISOString(),
+        updatedAt: now.toISOString(),
+      };
+      created.push(patient);
+      identifiers.forEach((identifier) => byIdentifier.set(identifierKey(identifier), patient!));
+      report.patients.created.push({ id: patient.id, name, source: label(resource) });
+    }
+    if (resource.id) patients.set(`Patient/${resource.id}`, patient);
+    if (fullUrl) patients.set(fullUrl, patient);
+  }
+
+  const pending = new Map<string, PendingReading>();
+  for (const { resource } of bundle.entry as Resource[]) {
+    if (!resource || typeof resource !== 'object') continue;
+    if (resource.resourceType === 'Patient') continue;
+    if (resource.resourceType !== 'Observation') {
+      skip(resource, `${resource.resourceType ?? 'Unknown'} resources are not imported`);
+      continue;
+    }
+    if (['entered-in-error', 'cancelled', 'registered'].includes(resource.status)) {
+      skip(resource, `Status is ${resource.status}`);
+      continue;
+    }
+    const codes: string[] = (resource.code?.coding ?? [])
+      .filter((coding: Resource) => !coding.system || coding.system === 'http://loinc.org')
+      .map((coding: Resource) => coding.code);
+    const part = codes.map((code) => LOINC_PARTS.get(code)).find(Boolean);
+    if (!part) {
+      skip(resource, `No vital sign for code ${codes.join(', ') || '(none)'}`);
+      continue;
+    }
+    const reference = resource.subject?.reference;
+    const ownId = typeof reference === 'string' ? reference.replace(/^Patient\//, '') : '';
+    const patient = patients.get(reference) ?? byId.get(ownId);
+    if (!patient) {
+      skip(resource, `Subject ${reference ?? '(none)'} is not a patient in the Bundle or this system`);
+      continue;
+    }
+    const timestamp = effectiveTime(resource);
+    if (!timestamp) {
+      skip(resource, 'No effective time');
+      continue;
+    }
+
+    const values: PendingReading['values'] = {};
+    try {
+      if (part === 'bloodPressure') {
+        for (const component of resource.component ?? []) {
+          const code: VitalPart | undefined = (component.code?.coding ?? [])
+            .map((coding: Resource) => LOINC_PARTS.get(coding.code))
+            .find(Boolean);
+          if (code === 'systolic' || code === 'diastolic') values[code] = quantity(code, component.valueQuantity);
+        }
+      } else {
+        values[part] = quantity(part, resource.valueQuantity);
+      }
+    } catch (error) {
+      skip(resource, `Value ${(error as Error).message}`);
+      continue;
+    }
+
+    const key = `${patient.id}|${timestamp}`;
+    const reading = pending.get(key) ?? { patientKey: patient.id, timestamp, values: {}, sources: [] };
+    const repeated = Object.keys(values).filter((name) => name in reading.values);
+    if (repeated.length > 0) {
+      skip(resource, `Another Observation already gives ${repeated.join(' and ')} at ${timestamp}`);
+      continue;
+    }
+    Object.assign(reading.values, values);
+    reading.sources.push(label(resource));
+    pending.set(key, reading);
+  }
+
+  // Validate each reading as if it had been entered by hand, and leave out
+  // those already recorded
+  const allPatients = new Map([...byId, ...created.map((p) => [p.id, p] as const)]);
+  const recorded = new Map<string, Set<string>>();
+  const rulesFor = createRulesCache(deps);
+  const vitals: VitalReading[] = [];
+  for (const reading of pending.values()) {
+    const patient = allPatients.get(reading.patientKey)!;
+    if (!recorded.has(patient.id)) {
+      recorded.set(patient.id, byId.has(patient.id) ? await recordedTimestamps(deps, patient.id) : new Set());
+    }
+    if (recorded.get(patient.id)!.has(reading.timestamp)) {
+      report.readings.duplicates++;
+      continue;
+    }
+
+    const { systolic, diastolic, ...values } = reading.values;
+    let input;
+    try {
+      if ((systolic === undefined) !== (diastolic === undefined)) {
+        throw badRequest('Blood pressure needs both systolic and diastolic values');
+      }
+      input = parseVitalInput({ ...values, bloodPressure: systolic !== undefined ? `${systolic}/${diastolic}` : undefined });
+    } catch (error) {
+      if (!(error instanceof HTTPException)) throw error;
+      reading.sources.forEach((source) => report.unmapped.push({ resource: source, reason: error.message }));
+      continue;
+    }
+
+    vitals.push(importedReading(patient, input, await rulesFor(patient), {
+      timestamp: reading.timestamp,
+      recordedBy: user.id,
+      imported: { format: 'fhir', sourceIds: reading.sources, importedAt: now.toISOString() },
+    }));
+  }
+  report.readings.created = vitals.length;
+  if (!dryRun) {
+    await saveImport(deps, { patients: created, vitals });
+  }
+  return report;
+}
+
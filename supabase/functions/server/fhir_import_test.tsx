@@ -0,0 +1,235 @@
+// Run with `deno test --allow-env supabase/functions/server/fhir_import_test.tsx`.
+// Imports Bundles through the local server's /fhir/import and checks the
+// report against what was stored.
+
+import { deepStrictEqual, equal } from 'node:assert/strict';
+import { createLocalServer } from './local.tsx';
+import { createRepository } from './repository.tsx';
+import { createMemoryKv } from './storage/index.tsx';
+
+const NOW = '2026-10-19T12:00:00.000Z';
+const MRN = 'https://hospital.example.org/mrn';
+
+const quantity = (value: number, code: string) => ({ value, system: 'http://unitsofmeasure.org', code });
+
+// An Observation coded with one LOINC code; a value with a component array
+// is taken for the components
+const observation = (id: string, subject: string, code: string, time: string | undefined, value: unknown) => ({
+  resource: {
+    resourceType: 'Observation',
+    id,
+    status: 'final',
+    code: { coding: [{ system: 'http://loinc.org', code }] },
+    subject: { reference: subject },
+    effectiveDateTime: time,
+    ...(Array.isArray(value) ? { component: value } : { valueQuantity: value }),
+  },
+});
+
+const component = (code: string, value: number) => ({
+  code: { coding: [{ system: 'http://loinc.org', code }] },
+  valueQuantity: quantity(value, 'mm[Hg]'),
+});
+
+const bloodPressure = (systolic: number, diastolic?: number) => [
+  component('8480-6', systolic),
+  ...(diastolic === undefined ? [] : [component('8462-4', diastolic)]),
+];
+
+const patientEntry = (id: string, identifier: { system?: string; value: string }[], name?: string) => ({
+  fullUrl: `urn:uuid:bundle-${id}`,
+  resource: {
+    resourceType: 'Patient',
+    id,
+    identifier,
+    ...(name ? { name: [{ use: 'usual', given: ['Cal'] }, { use: 'official', text: name }] } : {}),
+    birthDate: '1960-10-20',
+  },
+});
+
+const bundle = (...entry: unknown[]) => ({ resourceType: 'Bundle', type: 'collection', entry });
+
+async function setup(kv = createMemoryKv()) {
+  const server = createLocalServer({ kv, now: () => new Date(NOW) });
+  const signup = (email: string, name: string, role: string) =>
+    server.request('/signup', { method: 'POST', json: { email, password: 'secret1', name, role } });
+  await signup('doctor@example.com', 'Dr Grey', 'doctor');
+  await signup('ann@example.com', 'Ann Lee', 'patient');
+  const login = await server.request('/local/login', {
+    method: 'POST',
+    json: { email: 'doctor@example.com', password: 'secret1' },
+  });
+  const { accessToken: token } = await login.json();
+  const { patients } = await (await server.request('/patients', { token })).json();
+  const ann = patients[0].id;
+
+  const post = (json: unknown, query = '') => server.request(`/fhir/import${query}`, { method: 'POST', token, json });
+  const importBundle = async (json: unknown, query = '') => {
+    const response = await post(json, query);
+    equal(response.status, query.includes('dryRun=true') ? 200 : 201);
+    return response.json();
+  };
+
+  return { server, kv, token, ann, post, importBundle, repo: createRepository(kv) };
+}
+
+Deno.test('patients are matched by our own id, then by identifier, and created otherwise', async () => {
+  const { ann, importBundle, repo } = await setup();
+  const report = await importBundle(bundle(
+    patientEntry('p1', [{ system: 'urn:ietf:rfc:3986', value: `urn:uuid:${ann}` }], 'Someone Else'),
+    patientEntry('p2', [{ system: MRN, value: '1001' }], 'Bo Chan'),
+    patientEntry('p3', [{ system: MRN, value: '1002' }]),
+    // The same person twice in one Bundle is created once
+    patientEntry('p4', [{ system: MRN, value: '1001' }], 'Bo Chan'),
+  ));
+  const [bo] = report.patients.created;
+  deepStrictEqual(report.patients, {
+    created: [{ id: bo.id, name: 'Bo Chan', source: 'Patient/p2' }],
+    matched: [{ id: ann, name: 'Ann Lee', source: 'Patient/p1' }],
+  });
+  deepStrictEqual(report.unmapped, [{ resource: 'Patient/p3', reason: 'Patient has no name' }]);
+
+  const stored = (await repo.getPatient(bo.id))!;
+  deepStrictEqual(stored.identifiers, [{ system: MRN, value: '1001' }]);
+  equal(stored.age, 65);
+  // A matched patient's details are left as they are
+  equal((await repo.getPatient(ann))!.name, 'Ann Lee');
+
+  // The identifier matches on the system as well as the value
+  const again = await importBundle(bundle(
+    patientEntry('q1', [{ system: MRN, value: '1001' }], 'Bo Chan'),
+    patientEntry('q2', [{ value: '1001' }], 'Bo Chan'),
+  ));
+  deepStrictEqual(again.patients.matched, [{ id: bo.id, name: 'Bo Chan', source: 'Patient/q1' }]);
+  deepStrictEqual(again.patients.created.map((p: { source: string }) => p.source), ['Patient/q2']);
+  equal((await repo.listPatients()).length, 3);
+});
+
+Deno.test('resources that cannot be imported are reported with the reason', async () => {
+  const { ann, importBundle, repo } = await setup();
+  const time = '2026-10-18T08:00:00Z';
+  const subject = `Patient/${ann}`;
+  const report = await importBundle(bundle(
+    { resource: { resourceType: 'Condition', id: 'c1' } },
+    { resource: { ...observation('o1', subject, '8867-4', time, quantity(72, '/min')).resource, status: 'cancelled' } },
+    observation('o2', subject, '2339-0', time, quantity(5.4, 'mmol/L')),
+    observation('o3', 'Patient/nobody', '8867-4', time, quantity(72, '/min')),
+    observation('o4', subject, '8867-4', undefined, quantity(72, '/min')),
+    observation('o5', subject, '8310-5', time, { unit: 'C' }),
+    observation('o6', subject, '8310-5', time, quantity(310, 'K')),
+    observation('o7', subject, '8867-4', time, quantity(72, '/min')),
+    observation('o8', subject, '8867-4', time, quantity(74, '/min')),
+    observation('o9', subject, '85354-9', '2026-10-18T09:00:00Z', bloodPressure(130)),
+    observation('o10', subject, '8867-4', '2026-10-18T10:00:00Z', quantity(400, '/min')),
+  ));
+  deepStrictEqual(report.unmapped, [
+    { resource: 'Condition/c1', reason: 'Condition resources are not imported' },
+    { resource: 'Observation/o1', reason: 'Status is cancelled' },
+    { resource: 'Observation/o2', reason: 'No vital sign for code 2339-0' },
+    { resource: 'Observation/o3', reason: 'Subject Patient/nobody is not a patient in the Bundle or this system' },
+    { resource: 'Observation/o4', reason: 'No effective time' },
+    { resource: 'Observation/o5', reason: 'Value has no numeric value' },
+    { resource: 'Observation/o6', reason: 'Value unit K is not supported' },
+    { resource: 'Observation/o8', reason: 'Another Observation already gives heartRate at 2026-10-18T08:00:00.000Z' },
+    { resource: 'Observation/o9', reason: 'Blood pressure needs both systolic and diastolic values' },
+    { resource: 'Observation/o10', reason: 'heartRate must be a number between 20 and 300' },
+  ]);
+  deepStrictEqual(report.readings, { created: 1, duplicates: 0 });
+  deepStrictEqual((await repo.listVitals(ann)).map((v) => [v.timestamp, v.heartRate, v.imported?.sourceIds]), [
+    ['2026-10-18T08:00:00.000Z', 72, ['Observation/o7']],
+  ]);
+});
+
+Deno.test('observations at the same time become one reading, and readings already recorded are skipped', async () => {
+  const { ann, server, token, importBundle, repo } = await setup();
+  const subject = `Patient/${ann}`;
+  const observations = bundle(
+    observation('hr', subject, '8867-4', '2026-10-18T08:00:00+02:00', quantity(72, '/min')),
+    observation('bp', subject, '85354-9', '2026-10-18T06:00:00Z', bloodPressure(16, 10.7).map((c) => ({
+      ...c,
+      valueQuantity: { ...c.valueQuantity, code: 'kPa' },
+    }))),
+    observation('temp', subject, '8310-5', '2026-10-18T06:00:00.000Z', quantity(98.6, '[degF]')),
+    observation('spo2', subject, '59408-5', '2026-10-18T07:00:00Z', quantity(0.96, '1')),
+  );
+
+  // A reading entered by hand at 07:00 is already recorded
+  const json = { patientId: ann, timestamp: '2026-10-18T07:00:00.000Z', oxygenLevel: 96 };
+  equal((await server.request('/vitals', { method: 'POST', token, json })).status, 201);
+
+  const first = await importBundle(observations);
+  deepStrictEqual(first.readings, { created: 1, duplicates: 1 });
+  const [, imported] = await repo.listVitals(ann);
+  deepStrictEqual(
+    [imported.timestamp, imported.heartRate, imported.bloodPressure, imported.temperature, imported.source],
+    ['2026-10-18T06:00:00.000Z', 72, '120/80', 37, 'import'],
+  );
+  deepStrictEqual(imported.imported, {
+    format: 'fhir',
+    sourceIds: ['Observation/hr', 'Observation/bp', 'Observation/temp'],
+    importedAt: NOW,
+  });
+
+  // Importing the same Bundle again changes nothing
+  const second = await importBundle(observations);
+  deepStrictEqual(second.readings, { created: 0, duplicates: 2 });
+  deepStrictEqual(second.unmapped, []);
+  equal((await repo.listVitals(ann)).length, 2);
+});
+
+Deno.test('a dry run reports the import without saving it', async () => {
+  const { ann, importBundle, kv, repo } = await setup();
+  const contents = bundle(
+    patientEntry('p1', [{ system: MRN, value: '1001' }], 'Bo Chan'),
+    observation('o1', 'Patient/p1', '8867-4', '2026-10-18T08:00:00Z', quantity(72, '/min')),
+    observation('o2', `Patient/${ann}`, '9279-1', '2026-10-18T08:00:00Z', quantity(18, '/min')),
+  );
+  const before = new Map(kv.data);
+  const dryRun = await importBundle(contents, '?dryRun=true');
+  deepStrictEqual(new Map(kv.data), before);
+  equal(dryRun.dryRun, true);
+
+  const report = await importBundle(contents);
+  equal(report.dryRun, false);
+  // The same report, but for the id the new patient is given when saved
+  deepStrictEqual(
+    { ...dryRun, dryRun: false, patients: { ...dryRun.patients, created: [] } },
+    { ...report, patients: { ...report.patients, created: [] } },
+  );
+  deepStrictEqual(report.readings, { created: 2, duplicates: 0 });
+  equal((await repo.listVitals(report.patients.created[0].id)).length, 1);
+  equal((await repo.listVitals(ann)).length, 1);
+});
+
+Deno.test('an import that fails part way is rolled back', async () => {
+  // Saving the rollups, the last step of an import, fails once when switched on
+  const kv = createMemoryKv();
+  let failRollups = false;
+  const mset = kv.mset;
+  kv.mset = async (keys, values) => {
+    if (failRollups && keys.some((key) => key.startsWith('rollup:'))) {
+      failRollups = false;
+      throw new Error('Connection reset');
+    }
+    return mset(keys, values);
+  };
+  const { ann, server, token, post, repo } = await setup(kv);
+  const json = { patientId: ann, timestamp: '2026-10-18T07:00:00.000Z', heartRate: 70 };
+  equal((await server.request('/vitals', { method: 'POST', token, json })).status, 201);
+
+  const before = new Map(kv.data);
+  failRollups = true;
+  const response = await post(bundle(
+    patientEntry('p1', [{ system: MRN, value: '1001' }], 'Bo Chan'),
+    observation('o1', 'Patient/p1', '8867-4', '2026-10-18T08:00:00Z', quantity(72, '/min')),
+    observation('o2', `Patient/${ann}`, '8867-4', '2026-10-18T07:30:00Z', quantity(74, '/min')),
+  ));
+  equal(response.status, 500);
+  deepStrictEqual((await response.json()).issue, [
+    { severity: 'error', code: 'processing', diagnostics: 'Import failed and was rolled back; nothing was saved' },
+  ]);
+  equal(failRollups, false);
+  deepStrictEqual(new Map(kv.data), before);
+  equal((await repo.listPatients()).length, 1);
+  equal((await repo.listVitals(ann)).length, 1);
+});
@@ -0,0 +1,226 @@
+// Run with `deno test --allow-env supabase/functions/server/fhir_test.tsx`.
+// Checks the codes and units of each vital sign profile, then $everything
+// and its OperationOutcome errors through the local server.
+
+import { deepStrictEqual, equal } from 'node:assert/strict';
+import { FHIR_JSON, parseObservationId, patientToFhir, vitalToObservations } from './fhir.tsx';
+import { createLocalServer } from './local.tsx';
+import type { Patient, VitalReading } from '../_shared/types.tsx';
+
+const VITAL: VitalReading = {
+  id: 'vital-1',
+  patientId: 'patient-1',
+  heartRate: 72,
+  bloodPressure: '120/80',
+  oxygenLevel: 97,
+  temperature: 36.8,
+  respiratoryRate: 16,
+  consciousness: 'A',
+  status: 'normal',
+  timestamp: '2026-10-19T06:00:00.000Z',
+  recordedBy: 'nurse-1',
+};
+
+Deno.test('each vital is an Observation coded with LOINC and measured in UCUM', () => {
+  const observations = vitalToObservations(VITAL);
+  const summary = observations.map((o) => ({
+    id: o.id,
+    profile: o.meta.profile[1],
+    codes: o.code.coding.map((coding) => `${coding.system}|${coding.code}`),
+    quantity: 'valueQuantity' in o ? Object.values(o.valueQuantity) : undefined,
+  }));
+  deepStrictEqual(summary, [
+    {
+      id: 'vital-1-hr',
+      profile: 'http://hl7.org/fhir/StructureDefinition/heartrate',
+      codes: ['http://loinc.org|8867-4'],
+      quantity: [72, 'http://unitsofmeasure.org', '/min', 'beats/minute'],
+    },
+    {
+      id: 'vital-1-bp',
+      profile: 'http://hl7.org/fhir/StructureDefinition/bp',
+      codes: ['http://loinc.org|85354-9'],
+      quantity: undefined,
+    },
+    {
+      id: 'vital-1-spo2',
+      profile: 'http://hl7.org/fhir/StructureDefinition/oxygensat',
+      codes: ['http://loinc.org|2708-6', 'http://loinc.org|59408-5'],
+      quantity: [97, 'http://unitsofmeasure.org', '%', '%'],
+    },
+    {
+      id: 'vital-1-temp',
+      profile: 'http://hl7.org/fhir/StructureDefinition/bodytemp',
+      codes: ['http://loinc.org|8310-5'],
+      quantity: [36.8, 'http://unitsofmeasure.org', 'Cel', 'C'],
+    },
+    {
+      id: 'vital-1-rr',
+      profile: 'http://hl7.org/fhir/StructureDefinition/resprate',
+      codes: ['http://loinc.org|9279-1'],
+      quantity: [16, 'http://unitsofmeasure.org', '/min', 'breaths/minute'],
+    },
+  ]);
+
+  const vitals = ['heartRate', 'bloodPressure', 'oxygenLevel', 'temperature', 'respiratoryRate'];
+  observations.forEach((observation, i) => {
+    equal(observation.status, 'final');
+    equal(observation.meta.profile[0], 'http://hl7.org/fhir/StructureDefinition/vitalsigns');
+    equal(observation.category[0].coding[0].code, 'vital-signs');
+    deepStrictEqual(observation.subject, { reference: 'Patient/patient-1' });
+    equal(observation.effectiveDateTime, VITAL.timestamp);
+    equal(observation.code.text, observation.code.coding[0].display);
+    deepStrictEqual(parseObservationId(observation.id), { vitalId: 'vital-1', vital: vitals[i] });
+  });
+});
+
+Deno.test('blood pressure is split into systolic and diastolic components', () => {
+  const [bp] = vitalToObservations({ ...VITAL, heartRate: undefined, bloodPressure: '142/91' });
+  equal('valueQuantity' in bp, false);
+  deepStrictEqual('component' in bp && bp.component, [
+    {
+      code: { coding: [{ system: 'http://loinc.org', code: '8480-6', display: 'Systolic blood pressure' }] },
+      valueQuantity: { value: 142, system: 'http://unitsofmeasure.org', code: 'mm[Hg]', unit: 'mmHg' },
+    },
+    {
+      code: { coding: [{ system: 'http://loinc.org', code: '8462-4', display: 'Diastolic blood pressure' }] },
+      valueQuantity: { value: 91, system: 'http://unitsofmeasure.org', code: 'mm[Hg]', unit: 'mmHg' },
+    },
+  ]);
+});
+
+Deno.test('vitals left out of a reading have no Observation; devices are named', () => {
+  const observations = vitalToObservations({
+    ...VITAL,
+    heartRate: undefined,
+    bloodPressure: undefined,
+    temperature: undefined,
+    respiratoryRate: undefined,
+    device: { deviceId: 'ESP-1', receivedAt: VITAL.timestamp },
+  });
+  deepStrictEqual(observations.map((o) => [o.id, o.device]), [['vital-1-spo2', { display: 'ESP-1' }]]);
+  const device = { deviceId: 'AA:BB', name: 'Oximeter', receivedAt: VITAL.timestamp };
+  const named = vitalToObservations({ ...VITAL, device });
+  deepStrictEqual(named[0].device, { display: 'Oximeter' });
+
+  equal(parseObservationId('vital-1-xyz'), null);
+  equal(parseObservationId('-hr'), null);
+  deepStrictEqual(parseObservationId('6f1c2b3a-0d4e-4f5a-8b6c-7d8e9f0a1b2c-temp'), {
+    vitalId: '6f1c2b3a-0d4e-4f5a-8b6c-7d8e9f0a1b2c',
+    vital: 'temperature',
+  });
+});
+
+Deno.test('patients carry their id as a URI identifier', () => {
+  const patient = {
+    id: 'patient-1',
+    name: 'Ann Lee',
+    email: 'ann@example.com',
+    updatedAt: '2026-10-01T00:00:00.000Z',
+  } as Patient;
+  deepStrictEqual(patientToFhir(patient), {
+    resourceType: 'Patient',
+    id: 'patient-1',
+    meta: { lastUpdated: '2026-10-01T00:00:00.000Z' },
+    identifier: [{ system: 'urn:ietf:rfc:3986', value: 'urn:uuid:patient-1' }],
+    active: true,
+    name: [{ use: 'official', text: 'Ann Lee' }],
+    telecom: [{ system: 'email', value: 'ann@example.com' }],
+  });
+});
+
+async function setup() {
+  const server = createLocalServer({ now: () => new Date('2026-10-19T12:00:00.000Z') });
+  const signup = (email: string, name: string, role: string) =>
+    server.request('/signup', { method: 'POST', json: { email, password: 'secret1', name, role } });
+  const login = async (email: string) =>
+    (await (await server.request('/local/login', { method: 'POST', json: { email, password: 'secret1' } })).json())
+      .accessToken;
+  await signup('doctor@example.com', 'Dr Grey', 'doctor');
+  await signup('ann@example.com', 'Ann Lee', 'patient');
+  await signup('bo@example.com', 'Bo Chan', 'patient');
+  const token = await login('doctor@example.com');
+  const { patients } = await (await server.request('/patients', { token })).json();
+  const [ann, bo] = ['Ann Lee', 'Bo Chan'].map((name) => patients.find((p: { name: string }) => p.name === name).id);
+
+  const record = (timestamp: string, vitals: Record<string, unknown>) =>
+    server.request('/vitals', { method: 'POST', token, json: { patientId: ann, timestamp, ...vitals } });
+  await record('2026-10-17T23:59:00.000Z', { heartRate: 70 });
+  await record('2026-10-18T08:00:00.000Z', { heartRate: 74 });
+  await record('2026-10-18T23:30:00.000Z', { bloodPressure: '130/85', oxygenLevel: 96 });
+  await record('2026-10-19T00:00:00.000Z', { heartRate: 80 });
+
+  return { server, token, ann, bo, annToken: await login('ann@example.com') };
+}
+
+Deno.test('$everything returns the patient then their Observations oldest first', async () => {
+  const { server, token, ann } = await setup();
+  const response = await server.request(`/fhir/Patient/${ann}/$everything`, { token });
+  equal(response.status, 200);
+  equal(response.headers.get('Content-Type'), FHIR_JSON);
+  const bundle = await response.json();
+  equal(bundle.resourceType, 'Bundle');
+  equal(bundle.type, 'searchset');
+  equal(bundle.total, 6);
+  const resources = bundle.entry.map((e: { resource: { resourceType: string; id: string } }) => e.resource);
+  equal(resources[0].resourceType, 'Patient');
+  equal(resources[0].id, ann);
+  const observations = resources.slice(1) as { id: string; effectiveDateTime: string }[];
+  deepStrictEqual(observations.map((o) => [o.id.split('-').pop(), o.effectiveDateTime]), [
+    ['hr', '2026-10-17T23:59:00.000Z'],
+    ['hr', '2026-10-18T08:00:00.000Z'],
+    ['bp', '2026-10-18T23:30:00.000Z'],
+    ['spo2', '2026-10-18T23:30:00.000Z'],
+    ['hr', '2026-10-19T00:00:00.000Z'],
+  ]);
+  equal(bundle.entry[1].fullUrl.endsWith(`/fhir/Observation/${resources[1].id}`), true);
+  equal(bundle.entry[1].search.mode, 'match');
+});
+
+Deno.test('$everything start and end are inclusive, a date-only end covering the day', async () => {
+  const { server, token, ann } = await setup();
+  const everything = async (query: string) => {
+    const bundle = await (await server.request(`/fhir/Patient/${ann}/$everything?${query}`, { token })).json();
+    return bundle.entry.slice(1).map((e: { resource: { effectiveDateTime: string } }) => e.resource.effectiveDateTime);
+  };
+  deepStrictEqual(await everything('start=2026-10-18&end=2026-10-18'), [
+    '2026-10-18T08:00:00.000Z',
+    '2026-10-18T23:30:00.000Z',
+    '2026-10-18T23:30:00.000Z',
+  ]);
+  deepStrictEqual(await everything('start=2026-10-18T08:00:00Z&end=2026-10-18T23:30:00Z'), [
+    '2026-10-18T08:00:00.000Z',
+    '2026-10-18T23:30:00.000Z',
+    '2026-10-18T23:30:00.000Z',
+  ]);
+  deepStrictEqual(await everything('start=2026-10-18T08:00:01Z&end=2026-10-18T23:29:59.999Z'), []);
+  deepStrictEqual(await everything('start=2026-10-19'), ['2026-10-19T00:00:00.000Z']);
+  deepStrictEqual(await everything('end=2026-10-17'), ['2026-10-17T23:59:00.000Z']);
+});
+
+Deno.test('$everything errors are OperationOutcome resources', async () => {
+  const { server, token, bo, annToken } = await setup();
+  const outcome = async (path: string, auth?: string) => {
+    const response = await server.request(path, { token: auth });
+    equal(response.headers.get('Content-Type'), FHIR_JSON);
+    return [response.status, await response.json()];
+  };
+  const issue = (code: string, diagnostics: string) => ({
+    resourceType: 'OperationOutcome',
+    issue: [{ severity: 'error', code, diagnostics }],
+  });
+
+  deepStrictEqual(
+    await outcome('/fhir/Patient/missing/$everything', token),
+    [404, issue('not-found', 'Patient not found')],
+  );
+  deepStrictEqual(
+    await outcome(`/fhir/Patient/${bo}/$everything?start=yesterday`, token),
+    [400, issue('invalid', 'start must be an ISO 8601 date')],
+  );
+  deepStrictEqual(
+    await outcome(`/fhir/Patient/${bo}/$everything`, annToken),
+    [403, issue('forbidden', 'You do not have access to this patient')],
+  );
+  deepStrictEqual(await outcome(`/fhir/Patient/${bo}/$everything`), [401, issue('login', 'Unauthorized')]);
+});
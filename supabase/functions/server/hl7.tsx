@@ -0,0 +1,510 @@
+// HL7 v2 messages over MLLP, for hospital interfaces that predate FHIR.
+// Readings go out as ORU^R01 with one OBX segment per vital (hl7_feed.tsx),
+// and bedside monitors send ORU^R01 in (tools/hl7_listener.tsx). Every
+// message is answered with an original-mode ACK: AA accepted, AE failed on its
+// content, AR rejected for another reason, e.g. the receiver is unavailable.
+// tools/hl7_peer.tsx is a local peer to test either side against.
+
+import { BP_COMPONENTS, FHIR_VITALS, type FhirVital, LOINC_PARTS, type VitalPart } from './fhir.tsx';
+import type { Patient, VitalReading } from '../_shared/types.tsx';
+
+export const HL7_VERSION = '2.5.1';
+export const DEFAULT_MLLP_PORT = 2575;
+
+// MLLP wraps each message in a start byte and an end byte plus carriage return
+const START_BLOCK = 0x0b;
+const END_BLOCK = 0x1c;
+const CARRIAGE_RETURN = 0x0d;
+
+// Messages larger than this are dropped rather than buffered without limit
+const MAX_MESSAGE_BYTES = 1024 * 1024;
+
+export type AckCode = 'AA' | 'AE' | 'AR';
+
+export interface Hl7Application {
+  application: string;
+  facility: string;
+}
+
+// Escapes the delimiters in text so it can sit in a field
+export const escapeHl7 = (text: string) =>
+  text
+    .replace(/\\/g, '\\E\\')
+    .replace(/\|/g, '\\F\\')
+    .replace(/\^/g, '\\S\\')
+    .replace(/~/g, '\\R\\')
+    .replace(/&/g, '\\T\\')
+    .replace(/[\r\n]+/g, ' ');
+
+export const unescapeHl7 = (text: string) =>
+  text.replace(/\\([EFSRT])\\/g, (_, code: string) => ({ E: '\\', F: '|', S: '^', R: '~', T: '&' })[code]!);
+
+// HL7 timestamps, in UTC: YYYYMMDDHHMMSS+0000
+export const formatHl7Time = (iso: string) => `${iso.slice(0, 19).replace(/[-T:]/g, '')}+0000`;
+
+// Reads YYYY[MM[DD[HH[MM[SS[.S]]]]]][+/-ZZZZ]. A time without an offset is
+// taken to be UTC.
+export function parseHl7Time(value: string): string | null {
+  const match = /^(\d{4})(\d{2})?(\d{2})?(\d{2})?(\d{2})?(\d{2})?(\.\d{1,4})?([+-]\d{4})?$/.exec(value.trim());
+  if (!match) return null;
+  const [, year, month = '01', day = '01', hour = '00', minute = '00', second = '00', fraction = '', offset] = match;
+  const zone = offset ? `${offset.slice(0, 3)}:${offset.slice(3)}` : 'Z';
+  const time = new Date(`${year}-${month}-${day}T${hour}:${minute}:${second}${fraction}${zone}`);
+  return isNaN(time.getTime()) ? null : time.toISOString();
+}
+
+// A message control id (MSH-10), at most 20 characters as HL7 allows, that
+// sorts roughly by creation time
+export const newControlId = () =>
+  Date.now().toString(36).padStart(9, '0') +
+  Array.from(crypto.getRandomValues(new Uint8Array(6)), (b) => b.toString(16).padStart(2, '0')).join('').slice(0, 11);
+
+const segment = (...fields: string[]) => fields.join('|');
+
+const msh = (
+  from: Hl7Application,
+  to: Hl7Application,
+  type: string,
+  controlId: string,
+  now: Date,
+) =>
+  segment(
+    'MSH',
+    '^~\\&',
+    escapeHl7(from.application),
+    escapeHl7(from.facility),
+    escapeHl7(to.application),
+    escapeHl7(to.facility),
+    formatHl7Time(now.toISOString()),
+    '',
+    type,
+    escapeHl7(controlId),
+    'P',
+    HL7_VERSION,
+    '',
+    '',
+    // Original acknowledgement mode: the receiver always answers
+    '',
+    '',
+    '',
+    'UNICODE UTF-8',
+  );
+
+// "Ann Lee" as Lee^Ann; the name is kept as one string, so the last word is
+// taken to be the family name
+const patientName = (name: string) => {
+  const words = name.trim().split(/\s+/);
+  const family = words.pop() ?? '';
+  return [family, words.join(' ')].map(escapeHl7).join('^');
+};
+
+// Our patient id first, then any identifiers kept from an import
+const patientIdentifiers = (patient: Patient, assigningAuthority: string) =>
+  [
+    `${escapeHl7(patient.id)}^^^${escapeHl7(assigningAuthority)}^PI`,
+    ...(patient.identifiers ?? []).map((identifier) =>
+      `${escapeHl7(identifier.value)}^^^${escapeHl7(identifier.system ?? '')}`
+    ),
+  ].join('~');
+
+const VITAL_SIGNS_PANEL = '85353-1^Vital signs, weight, height, head circumference, oxygen saturation and BMI panel^LN';
+
+// The values of a reading in OBX order, blood pressure split into systolic
+// and diastolic as HL7 v2 interfaces expect
+const observations = (vital: VitalReading) => {
+  const rows: { code: string; display: string; value: number; unit: { code: string; unit: string } }[] = [];
+  for (const [name, coding] of Object.entries(FHIR_VITALS) as [FhirVital, typeof FHIR_VITALS[FhirVital]][]) {
+    const value = vital[name];
+    if (value === undefined || value === null) continue;
+    if (typeof value === 'string') {
+      const [systolic, diastolic] = value.split('/').map(Number);
+      rows.push({ ...BP_COMPONENTS.systolic, value: systolic, unit: coding.unit });
+      rows.push({ ...BP_COMPONENTS.diastolic, value: diastolic, unit: coding.unit });
+    } else {
+      rows.push({ ...coding.codes[0], value, unit: coding.unit });
+    }
+  }
+  return rows;
+};
+
+// One reading as an ORU^R01: the patient, an OBR for the vital signs panel
+// and an OBX per value, coded with LOINC and measured in UCUM units. A
+// corrected reading is sent again with result status C.
+export function encodeOru(
+  vital: VitalReading,
+  patient: Patient,
+  { from, to, controlId, now, corrected = false }: {
+    from: Hl7Application;
+    to: Hl7Application;
+    controlId: string;
+    now: Date;
+    corrected?: boolean;
+  },
+): string {
+  const status = corrected ? 'C' : 'F';
+  const observedAt = formatHl7Time(vital.timestamp);
+  const equipment = vital.device ? escapeHl7(vital.device.deviceId) : '';
+  return [
+    msh(from, to, 'ORU^R01^ORU_R01', controlId, now),
+    segment('PID', '1', '', patientIdentifiers(patient, from.application), '', patientName(patient.name)),
+    segment(
+      'OBR',
+      '1',
+      '',
+      escapeHl7(vital.id),
+      VITAL_SIGNS_PANEL,
+      '',
+      '',
+      observedAt,
+      ...Array(17).fill(''),
+      status,
+    ),
+    ...observations(vital).map((row, index) =>
+      segment(
+        'OBX',
+        String(index + 1),
+        'NM',
+        `${row.code}^${escapeHl7(row.display)}^LN`,
+        '',
+        String(row.value),
+        `${escapeHl7(row.unit.code)}^${escapeHl7(row.unit.unit)}^UCUM`,
+        '',
+        '',
+        '',
+        '',
+        status,
+        '',
+        '',
+        observedAt,
+        '',
+        '',
+        '',
+        equipment,
+      )
+    ),
+  ].join('\r') + '\r';
+}
+
+// An original-mode acknowledgement of the given message. Errors are listed in
+// ERR segments as well as the MSA text, which older systems read instead.
+export function encodeAck(
+  received: Hl7Message | null,
+  code: AckCode,
+  { from, now, errors = [] }: { from: Hl7Application; now: Date; errors?: string[] },
+): string {
+  const sender = received
+    ? { application: received.field('MSH', 3), facility: received.field('MSH', 4) }
+    : { application: '', facility: '' };
+  const trigger = received?.field('MSH', 9, 2) ?? '';
+  return [
+    msh(from, sender, `ACK^${trigger}^ACK`, newControlId(), now),
+    segment('MSA', code, escapeHl7(received?.field('MSH', 10) ?? ''), escapeHl7(errors.join('; ').slice(0, 80))),
+    ...errors.map((error) => segment('ERR', '', '', '207^Application internal error^HL70357', 'E', '', '', '', escapeHl7(error))),
+  ].join('\r') + '\r';
+}
+
+export interface Hl7Message {
+  segments: string[][];
+  // Unescaped text of a field (1-based, as in the HL7 tables) of the first
+  // segment with this name, or of the given segment; component and
+  // subcomponent are 1-based too
+  field(segmentOrName: string | string[], field: number, component?: number): string;
+  // Every repetition of a field, split into components
+  repetitions(segment: string[], field: number): string[][];
+  find(name: string): string[][];
+}
+
+export class Hl7ParseError extends Error {}
+
+// Splits a message into segments and fields. MSH-1 is the field separator
+// itself, so MSH fields are shifted by one compared with other segments.
+export function parseHl7(text: string): Hl7Message {
+  const lines = text.split(/\r\n|\r|\n/).filter((line) => line.trim());
+  if (!lines[0]?.startsWith('MSH') || lines[0].length < 8) {
+    throw new Hl7ParseError('Message must start with an MSH segment');
+  }
+  const separator = lines[0][3];
+  const [component, repetition] = lines[0].slice(4, 6);
+  const segments = lines.map((line) => line.split(separator));
+
+  const raw = (seg: string[], field: number) => (seg[0] === 'MSH' ? (field === 1 ? separator : seg[field - 1]) : seg[field]) ?? '';
+
+  const message: Hl7Message = {
+    segments,
+    field(segmentOrName, field, componentIndex = 1) {
+      const seg = typeof segmentOrName === 'string' ? segments.find((s) => s[0] === segmentOrName) : segmentOrName;
+      if (!seg) return '';
+      if (seg[0] === 'MSH' && field === 2) return raw(seg, field);
+      const value = raw(seg, field).split(repetition)[0];
+      return unescapeHl7(value.split(component)[componentIndex - 1] ?? '');
+    },
+    repetitions(seg, field) {
+      return raw(seg, field)
+        .split(repetition)
+        .filter(Boolean)
+        .map((value) => value.split(component).map(unescapeHl7));
+    },
+    find(name) {
+      return segments.filter((s) => s[0] === name);
+    },
+  };
+  return message;
+}
+
+// IEEE 11073 (MDC) codes that bedside monitors use instead of LOINC, by
+// number and by name
+const MDC_PARTS: [string, string, VitalPart][] = [
+  ['147842', 'MDC_ECG_HEART_RATE', 'heartRate'],
+  ['149530', 'MDC_PULS_OXIM_PULS_RATE', 'heartRate'],
+  ['149546', 'MDC_PULS_RATE_NON_INV', 'heartRate'],
+  ['150456', 'MDC_PULS_OXIM_SAT_O2', 'oxygenLevel'],
+  ['150021', 'MDC_PRESS_BLD_NONINV_SYS', 'systolic'],
+  ['150022', 'MDC_PRESS_BLD_NONINV_DIA', 'diastolic'],
+  ['151562', 'MDC_RESP_RATE', 'respiratoryRate'],
+  ['150364', 'MDC_TEMP_BODY', 'temperature'],
+  ['150344', 'MDC_TEMP', 'temperature'],
+];
+const MDC_CODES = new Map(MDC_PARTS.flatMap(([code, name, part]) => [[code, part], [name, part]]));
+
+// MDC unit names, as spelled by the ingestion API
+const MDC_UNITS: Record<string, string> = {
+  MDC_DIM_BEAT_PER_MIN: '/min',
+  MDC_DIM_RESP_PER_MIN: '/min',
+  MDC_DIM_PER_MIN: '/min',
+  MDC_DIM_MMHG: 'mmHg',
+  MDC_DIM_KILO_PASCAL: 'kPa',
+  MDC_DIM_PERCENT: '%',
+  MDC_DIM_DEGC: 'Cel',
+  MDC_DIM_FAHR: '[degF]',
+};
+
+// The part of a reading an OBX-3 identifier stands for, checking the
+// alternate identifier (components 4-6) too
+const observationPart = (identifier: string[]): VitalPart | undefined => {
+  for (const [code, text, system] of [identifier.slice(0, 3), identifier.slice(3, 6)]) {
+    if (!code && !text) continue;
+    if (!system || system === 'LN' || system === 'LOINC') {
+      const part = LOINC_PARTS.get(code);
+      if (part) return part;
+    }
+    const part = MDC_CODES.get(code) ?? MDC_CODES.get(text);
+    if (part) return part;
+  }
+  return undefined;
+};
+
+const observationUnit = ([code = '', text = '']: string[]) =>
+  MDC_UNITS[code] ?? MDC_UNITS[text] ?? (code || undefined);
+
+export interface OruReading {
+  // Our patient id, when the sender used it in PID-3
+  patientId?: string;
+  // The monitor, from OBX-18, or the sending application
+  deviceId?: string;
+  timestamp: string;
+  values: Partial<Record<Exclude<VitalPart, 'bloodPressure'>, { value: number; unit?: string }>>;
+}
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// The vital signs in an ORU^R01, one reading per patient and observation
+// time (OBX-14, or OBR-7 when an OBX has none). Numeric OBX segments with a
+// code we do not know are left out, as are results marked deleted, wrong or
+// not obtained; `ignored` counts them.
+export function parseOru(message: Hl7Message): { readings: OruReading[]; ignored: number } {
+  if (message.field('MSH', 9, 1) !== 'ORU' || message.field('MSH', 9, 2) !== 'R01') {
+    throw new Hl7ParseError(`Message type ${message.field('MSH', 9, 1)}^${message.field('MSH', 9, 2)} is not supported; send ORU^R01`);
+  }
+
+  const readings = new Map<string, OruReading>();
+  let ignored = 0;
+  let patientId: string | undefined;
+  let observedAt: string | null = null;
+  const sendingApplication = message.field('MSH', 3);
+
+  for (const seg of message.segments) {
+    if (seg[0] === 'PID') {
+      const ids = message.repetitions(seg, 3).map(([value]) => value.replace(/^urn:uuid:/i, ''));
+      patientId = ids.find((id) => UUID.test(id));
+      observedAt = null;
+    } else if (seg[0] === 'OBR') {
+      observedAt = parseHl7Time(message.field(seg, 7));
+    } else if (seg[0] === 'OBX') {
+      const part = observationPart(message.repetitions(seg, 3)[0] ?? []);
+      const value = Number(message.field(seg, 5));
+      const status = message.field(seg, 11);
+      if (!part || part === 'bloodPressure' || message.field(seg, 2) !== 'NM' || !Number.isFinite(value) ||
+        ['D', 'W', 'X'].includes(status)) {
+        ignored++;
+        continue;
+      }
+      const timestamp = parseHl7Time(message.field(seg, 14)) ?? observedAt;
+      if (!timestamp) {
+        throw new Hl7ParseError(`OBX ${message.field(seg, 1)} has no observation time`);
+      }
+      const deviceId = message.field(seg, 18) || sendingApplication || undefined;
+      const key = `${patientId ?? ''}|${deviceId ?? ''}|${timestamp}`;
+      const reading = readings.get(key) ?? { patientId, deviceId, timestamp, values: {} };
+      // A monitor may report the pulse from both ECG and oximeter; the first wins
+      if (reading.values[part]) {
+        ignored++;
+        continue;
+      }
+      reading.values[part] = { value, unit: observationUnit(message.repetitions(seg, 6)[0] ?? []) };
+      readings.set(key, reading);
+    }
+  }
+  return { readings: [...readings.values()], ignored };
+}
+
+// The ACK code and any error text from an acknowledgement
+export function parseAck(text: string): { code: string; controlId: string; text: string } {
+  const message = parseHl7(text);
+  const code = message.field('MSA', 1);
+  if (!code) {
+    throw new Hl7ParseError('Acknowledgement has no MSA segment');
+  }
+  const errors = message.find('ERR').map((seg) => message.field(seg, 8)).filter(Boolean);
+  return { code, controlId: message.field('MSA', 2), text: message.field('MSA', 3) || errors.join('; ') };
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+export const frameMllp = (message: string) => {
+  const body = encoder.encode(message);
+  const frame = new Uint8Array(body.length + 3);
+  frame[0] = START_BLOCK;
+  frame.set(body, 1);
+  frame[body.length + 1] = END_BLOCK;
+  frame[body.length + 2] = CARRIAGE_RETURN;
+  return frame;
+};
+
+// Collects framed messages from a byte stream that may split or join them.
+// Bytes outside a frame are discarded.
+export function createMllpReader() {
+  let buffer = new Uint8Array(0);
+  return (chunk: Uint8Array): string[] => {
+    const joined = new Uint8Array(buffer.length + chunk.length);
+    joined.set(buffer);
+    joined.set(chunk, buffer.length);
+    buffer = joined;
+
+    const messages: string[] = [];
+    for (;;) {
+      const start = buffer.indexOf(START_BLOCK);
+      if (start < 0) {
+        buffer = new Uint8Array(0);
+        break;
+      }
+      let end = buffer.indexOf(END_BLOCK, start + 1);
+      while (end >= 0 && end + 1 < buffer.length && buffer[end + 1] !== CARRIAGE_RETURN) {
+        end = buffer.indexOf(END_BLOCK, end + 1);
+      }
+      if (end < 0 || end + 1 >= buffer.length) {
+        buffer = buffer.slice(start);
+        if (buffer.length > MAX_MESSAGE_BYTES) buffer = new Uint8Array(0);
+        break;
+      }
+      messages.push(decoder.decode(buffer.slice(start + 1, end)));
+      buffer = buffer.slice(end + 2);
+    }
+    return messages;
+  };
+}
+
+// Sends one message and waits for the reply on the same connection
+export async function sendMllp(host: string, port: number, message: string, timeoutMs = 30_000): Promise<string> {
+  let conn: Deno.TcpConn | undefined;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let timedOut = false;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      timedOut = true;
+      try {
+        conn?.close();
+      } catch {
+        // Already closed
+      }
+      reject(new Error(`No acknowledgement within ${timeoutMs / 1000}s`));
+    }, timeoutMs);
+  });
+
+  const exchange = async () => {
+    conn = await Deno.connect({ hostname: host, port });
+    if (timedOut) conn.close();
+    await conn.write(frameMllp(message));
+    const read = createMllpReader();
+    const chunk = new Uint8Array(64 * 1024);
+    for (;;) {
+      const size = await conn.read(chunk);
+      if (size === null) throw new Error('Connection closed before an acknowledgement arrived');
+      const [reply] = read(chunk.subarray(0, size));
+      if (reply !== undefined) return reply;
+    }
+  };
+
+  try {
+    return await Promise.race([exchange(), timeout]);
+  } finally {
+    clearTimeout(timer);
+    try {
+      conn?.close();
+    } catch {
+      // Already closed by the timeout
+    }
+  }
+}
+
+// Accepts MLLP connections on the port and answers each message with the
+// reply the handler returns. Messages on one connection are handled in order.
+export function startMllpServer(
+  port: number,
+  handle: (message: string) => Promise<string>,
+  log: (message: string) => void = console.log,
+): { port: number; close: () => Promise<void> } {
+  const listener = Deno.listen({ port });
+  const connections = new Set<Deno.Conn>();
+
+  const serve = async (conn: Deno.Conn) => {
+    connections.add(conn);
+    const read = createMllpReader();
+    const chunk = new Uint8Array(64 * 1024);
+    try {
+      for (;;) {
+        const size = await conn.read(chunk);
+        if (size === null) break;
+        for (const message of read(chunk.subarray(0, size))) {
+          await conn.write(frameMllp(await handle(message)));
+        }
+      }
+    } catch (error) {
+      if (!(error instanceof Deno.errors.BadResource)) {
+        log(`MLLP connection error: ${error instanceof Error ? error.message : error}`);
+      }
+    } finally {
+      connections.delete(conn);
+      try {
+        conn.close();
+      } catch {
+        // Closed by close()
+      }
+    }
+  };
+
+  const accepting = (async () => {
+    for await (const conn of listener) serve(conn);
+  })().catch(() => {
+    // The listener was closed
+  });
+
+  return {
+    port: (listener.addr as Deno.NetAddr).port,
+    close: async () => {
+      listener.close();
+      connections.forEach((conn) => conn.close());
+      await accepting;
+    },
+  };
+}
@@ -0,0 +1,222 @@
+// Sends each recorded reading to a hospital system as an HL7 v2 ORU^R01 over
+// MLLP. Messages are queued in storage when a reading is recorded and sent in
+// the order they were queued, so a receiver that is down gets them all, in
+// sequence, once it is back. The receiver's ACK decides what happens next:
+//
+//   AA  delivered
+//   AE  the receiver could not process it; kept as failed, and the queue
+//       moves on
+//   AR  rejected, e.g. the receiver is busy; retried, as are timeouts and
+//       connection errors, with a growing delay, up to MAX_ATTEMPTS
+//
+// Failed messages are listed under GET /admin/hl7/messages?status=failed and
+// can be queued again from there.
+
+import type { AppDeps } from './context.tsx';
+import { encodeOru, type Hl7Application, newControlId, parseAck, sendMllp } from './hl7.tsx';
+import type { VitalReading } from '../_shared/types.tsx';
+
+export interface Hl7FeedConfig {
+  host: string;
+  port: number;
+  // MSH-3/4, this system
+  sender: Hl7Application;
+  // MSH-5/6, the system the feed goes to
+  receiver: Hl7Application;
+  // How often to retry queued messages; new readings are sent straight away
+  intervalMs?: number;
+  ackTimeoutMs?: number;
+}
+
+export type Hl7MessageStatus = 'pending' | 'sent' | 'failed';
+
+export interface Hl7OutboundMessage {
+  // Also the message control id (MSH-10), which the ACK refers to
+  id: string;
+  vitalId: string;
+  patientId: string;
+  // The values the message carries, to tell a corrected reading from one that
+  // was only re-scored
+  values: string;
+  message: string;
+  status: Hl7MessageStatus;
+  attempts: number;
+  nextAttemptAt: string;
+  createdAt: string;
+  sentAt?: string;
+  lastError?: string;
+}
+
+export const MAX_ATTEMPTS = 10;
+
+const SECOND = 1000;
+const DAY = 24 * 60 * 60 * SECOND;
+// Delivered messages are kept this long, to send later corrections as such
+const SENT_RETENTION_MS = 7 * DAY;
+
+const retryDelay = (attempts: number) => Math.min(30 * SECOND * 2 ** (attempts - 1), 60 * 60 * SECOND);
+
+const valuesOf = (vital: VitalReading) =>
+  JSON.stringify([
+    vital.timestamp,
+    vital.heartRate,
+    vital.bloodPressure,
+    vital.oxygenLevel,
+    vital.temperature,
+    vital.respiratoryRate,
+  ]);
+
+// Settings for the feed, or undefined when HL7_FEED_HOST is not set
+export function hl7FeedConfigFromEnv(): Hl7FeedConfig | undefined {
+  const host = Deno.env.get('HL7_FEED_HOST');
+  if (!host) return undefined;
+  return {
+    host,
+    port: Number(Deno.env.get('HL7_FEED_PORT') ?? 2575),
+    sender: {
+      application: Deno.env.get('HL7_SENDING_APPLICATION') ?? 'PATIENT_MONITOR',
+      facility: Deno.env.get('HL7_SENDING_FACILITY') ?? '',
+    },
+    receiver: {
+      application: Deno.env.get('HL7_RECEIVING_APPLICATION') ?? '',
+      facility: Deno.env.get('HL7_RECEIVING_FACILITY') ?? '',
+    },
+  };
+}
+
+// Queues a reading for the feed. A reading already sent goes again as a
+// correction if its values changed, and not at all if only its status or
+// score did; one still waiting for its first attempt is updated in place.
+export async function queueReading(
+  deps: AppDeps,
+  config: Hl7FeedConfig,
+  vital: VitalReading,
+): Promise<Hl7OutboundMessage | null> {
+  const patient = await deps.repo.getPatient(vital.patientId);
+  if (!patient) return null;
+  const values = valuesOf(vital);
+  const previous = await deps.repo.findLatestHl7Message(vital.id);
+  if (previous?.values === values) return null;
+
+  const now = deps.now();
+  const unsent = previous?.status === 'pending' && previous.attempts === 0;
+  const id = unsent ? previous.id : newControlId();
+  const message: Hl7OutboundMessage = {
+    id,
+    vitalId: vital.id,
+    patientId: vital.patientId,
+    values,
+    message: encodeOru(vital, patient, {
+      from: config.sender,
+      to: config.receiver,
+      controlId: id,
+      now,
+      corrected: !!previous && !unsent,
+    }),
+    status: 'pending',
+    attempts: 0,
+    nextAttemptAt: now.toISOString(),
+    createdAt: unsent ? previous.createdAt : now.toISOString(),
+  };
+  await deps.repo.saveHl7Message(message);
+  return message;
+}
+
+// Sends queued messages oldest first, stopping at the first that has to wait
+// for a retry so the receiver never sees them out of order. Returns what
+// happened to the messages it tried.
+export async function deliverHl7Messages(
+  deps: AppDeps,
+  config: Hl7FeedConfig,
+): Promise<{ sent: number; failed: number; waiting: number }> {
+  const result = { sent: 0, failed: 0, waiting: 0 };
+  const pending = await deps.repo.listHl7Messages('pending');
+  for (const queued of pending) {
+    const now = deps.now();
+    if (queued.nextAttemptAt > now.toISOString()) {
+      result.waiting = pending.length - result.sent - result.failed;
+      break;
+    }
+
+    const message = { ...queued, attempts: queued.attempts + 1 };
+    let retry: string | null = null;
+    try {
+      const ack = parseAck(await sendMllp(config.host, config.port, message.message, config.ackTimeoutMs));
+      if (ack.controlId !== message.id) {
+        retry = `Acknowledgement was for message ${ack.controlId}`;
+      } else if (ack.code === 'AA' || ack.code === 'CA') {
+        Object.assign(message, { status: 'sent', sentAt: now.toISOString(), lastError: undefined });
+      } else if (ack.code === 'AE' || ack.code === 'CE') {
+        Object.assign(message, { status: 'failed', lastError: ack.text || `Receiver answered ${ack.code}` });
+      } else {
+        retry = ack.text || `Receiver answered ${ack.code}`;
+      }
+    } catch (error) {
+      retry = error instanceof Error ? error.message : String(error);
+    }
+
+    if (retry !== null) {
+      message.lastError = retry;
+      if (message.attempts >= MAX_ATTEMPTS) {
+        message.status = 'failed';
+      } else {
+        message.nextAttemptAt = new Date(now.getTime() + retryDelay(message.attempts)).toISOString();
+      }
+    }
+    await deps.repo.saveHl7Message(message);
+    if (message.status === 'pending') {
+      result.waiting = pending.length - result.sent - result.failed;
+      break;
+    }
+    result[message.status === 'sent' ? 'sent' : 'failed']++;
+  }
+
+  const cutoff = new Date(deps.now().getTime() - SENT_RETENTION_MS).toISOString();
+  await deps.repo.deleteHl7Messages(await deps.repo.listHl7Messages('sent', { until: cutoff }));
+  return result;
+}
+
+// Queues every reading recorded from now on and sends it straight away, and
+// retries the queue every intervalMs. Returns a function that stops the feed
+// and resolves once the current delivery, if any, is done.
+export function startHl7Feed(deps: AppDeps, config: Hl7FeedConfig): () => Promise<void> {
+  let queue: Promise<unknown> = Promise.resolve();
+  let delivering: Promise<void> | null = null;
+  let again = false;
+
+  const deliver = () => {
+    if (delivering) {
+      again = true;
+      return;
+    }
+    delivering = (async () => {
+      do {
+        again = false;
+        try {
+          await deliverHl7Messages(deps, config);
+        } catch (error) {
+          console.error('Error delivering HL7 messages:', error);
+        }
+      } while (again);
+      delivering = null;
+    })();
+  };
+
+  // Readings are queued one at a time so corrections follow what they correct
+  const unsubscribe = deps.events.subscribe((event) => {
+    if (event.type !== 'vital') return;
+    queue = queue
+      .then(() => queueReading(deps, config, event.vital))
+      .then((queued) => queued && deliver())
+      .catch((error) => console.error('Error queueing HL7 message:', error));
+  });
+
+  const id = setInterval(deliver, config.intervalMs ?? 30_000);
+  Deno.unrefTimer(id);
+  return async () => {
+    unsubscribe();
+    clearInterval(id);
+    await queue;
+    await delivering;
+  };
+}
@@ -0,0 +1,145 @@
+// Run with `deno test --allow-net supabase/functions/server/hl7_test.tsx`
+
+import { deepStrictEqual, equal } from 'node:assert/strict';
+import {
+  createMllpReader,
+  encodeAck,
+  encodeOru,
+  frameMllp,
+  type Hl7Message,
+  parseAck,
+  parseHl7,
+  parseOru,
+  sendMllp,
+  startMllpServer,
+} from './hl7.tsx';
+import type { Patient, VitalReading } from '../_shared/types.tsx';
+
+const PEER = { application: 'EMR', facility: 'HOSP' };
+const SENDER = { application: 'PM', facility: 'WARD3' };
+const NOW = new Date('2026-10-19T10:00:00Z');
+
+const patient: Patient = {
+  id: '6f1c2b3a-0d4e-4f5a-8b6c-7d8e9f0a1b2c',
+  name: 'Ann Marie Lee',
+  email: 'ann@example.com',
+  age: 70,
+  assignedDoctorId: null,
+  familyMemberIds: [],
+  createdAt: '2026-10-01T00:00:00.000Z',
+  updatedAt: '2026-10-01T00:00:00.000Z',
+};
+
+const vital: VitalReading = {
+  id: 'vital-1',
+  patientId: patient.id,
+  heartRate: 72,
+  bloodPressure: '120/80',
+  oxygenLevel: 97,
+  temperature: 36.9,
+  respiratoryRate: 16,
+  status: 'normal',
+  timestamp: '2026-10-19T09:59:00.000Z',
+  recordedBy: 'doctor-1',
+  source: 'device',
+  device: { deviceId: 'ESP-1', receivedAt: '2026-10-19T09:59:02.000Z' },
+};
+
+const oru = (controlId: string) => encodeOru(vital, patient, { from: SENDER, to: PEER, controlId, now: NOW });
+
+// Accepts messages it can read, rejecting ORU^R01s without a heart rate
+const answer = async (text: string) => {
+  let message: Hl7Message;
+  try {
+    message = parseHl7(text);
+  } catch (error) {
+    return encodeAck(null, 'AR', { from: PEER, now: NOW, errors: [(error as Error).message] });
+  }
+  const [reading] = parseOru(message).readings;
+  return reading?.values.heartRate
+    ? encodeAck(message, 'AA', { from: PEER, now: NOW })
+    : encodeAck(message, 'AE', { from: PEER, now: NOW, errors: ['Heart rate is required'] });
+};
+
+Deno.test('an ORU^R01 reads back as the reading it was encoded from', () => {
+  deepStrictEqual(parseOru(parseHl7(oru('CTL1'))), {
+    readings: [{
+      patientId: patient.id,
+      deviceId: 'ESP-1',
+      timestamp: vital.timestamp,
+      values: {
+        heartRate: { value: 72, unit: '/min' },
+        systolic: { value: 120, unit: 'mm[Hg]' },
+        diastolic: { value: 80, unit: 'mm[Hg]' },
+        oxygenLevel: { value: 97, unit: '%' },
+        temperature: { value: 36.9, unit: 'Cel' },
+        respiratoryRate: { value: 16, unit: '/min' },
+      },
+    }],
+    ignored: 0,
+  });
+});
+
+Deno.test('delimiters in a name are escaped and read back', () => {
+  const message = parseHl7(encodeOru(vital, { ...patient, name: 'Ann|Marie ^Lee&Co' }, {
+    from: SENDER,
+    to: PEER,
+    controlId: 'CTL1',
+    now: NOW,
+  }));
+  equal(message.field('PID', 5, 1), '^Lee&Co');
+  equal(message.field('PID', 5, 2), 'Ann|Marie');
+});
+
+Deno.test('sendMllp returns the ACK from startMllpServer for each outcome', async () => {
+  const server = startMllpServer(0, answer, () => {});
+  try {
+    deepStrictEqual(parseAck(await sendMllp('127.0.0.1', server.port, oru('CTL1'))), {
+      code: 'AA',
+      controlId: 'CTL1',
+      text: '',
+    });
+
+    const withoutHeartRate = oru('CTL2').replace(/OBX\|1\|[^\r]*\r/, '');
+    deepStrictEqual(parseAck(await sendMllp('127.0.0.1', server.port, withoutHeartRate)), {
+      code: 'AE',
+      controlId: 'CTL2',
+      text: 'Heart rate is required',
+    });
+
+    deepStrictEqual(parseAck(await sendMllp('127.0.0.1', server.port, 'hello')), {
+      code: 'AR',
+      controlId: '',
+      text: 'Message must start with an MSH segment',
+    });
+  } finally {
+    await server.close();
+  }
+});
+
+Deno.test('startMllpServer answers messages split across and packed into packets in order', async () => {
+  const server = startMllpServer(0, answer, () => {});
+  const conn = await Deno.connect({ hostname: '127.0.0.1', port: server.port });
+  try {
+    const first = frameMllp(oru('CTL1'));
+    const second = frameMllp(oru('CTL2'));
+    const both = new Uint8Array(first.length + second.length);
+    both.set(first);
+    both.set(second, first.length);
+    await conn.write(both.subarray(0, 10));
+    await conn.write(both.subarray(10));
+
+    const read = createMllpReader();
+    const acks: string[] = [];
+    const chunk = new Uint8Array(64 * 1024);
+    while (acks.length < 2) {
+      const size = await conn.read(chunk);
+      if (size === null) break;
+      acks.push(...read(chunk.subarray(0, size)));
+    }
+    deepStrictEqual(acks.map((ack) => parseAck(ack).controlId), ['CTL1', 'CTL2']);
+  } finally {
+    conn.close();
+    await server.close();
+  }
+});
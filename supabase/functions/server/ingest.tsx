@@ -0,0 +1,270 @@
+import { badRequest, type AppDeps } from './context.tsx';
+import { parseDeviceId } from './devices.tsx';
+import { parseVitalInput, type VitalInput } from './vitals.tsx';
+import type { DeviceProvenance, DeviceStatus, IngestKey, VitalMetric } from '../_shared/types.tsx';
+
+// Secrets carry a recognisable prefix so they are never mistaken for, or
+// sent to the identity provider as, a user session token.
+export const INGEST_KEY_PREFIX = 'pmk_';
+
+export const MAX_BATCH_SIZE = 500;
+
+// Reading ids become part of a storage key
+const READING_ID = /^[A-Za-z0-9._-]{1,64}$/;
+
+// The sensor payload documented in TECHNICAL_GUIDE.md, after validation.
+// patientId may be left out for a device paired with a patient.
+export interface DevicePayload {
+  patientId?: string;
+  input: VitalInput & { device: DeviceProvenance };
+}
+
+const toHex = (bytes: ArrayBuffer | Uint8Array) =>
+  Array.from(new Uint8Array(bytes), (b) => b.toString(16).padStart(2, '0')).join('');
+
+export const hashIngestKey = async (secret: string) =>
+  toHex(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(secret)));
+
+// Creates a key and returns it with its secret, which is not stored.
+export async function createIngestKey(deps: Pick<AppDeps, 'repo' | 'now'>, name: string, createdBy: string) {
+  const secret = `${INGEST_KEY_PREFIX}${toHex(crypto.getRandomValues(new Uint8Array(24)))}`;
+  const key: IngestKey = {
+    id: crypto.randomUUID(),
+    name,
+    keyHash: await hashIngestKey(secret),
+    prefix: secret.slice(0, INGEST_KEY_PREFIX.length + 6),
+    createdBy,
+    createdAt: deps.now().toISOString(),
+  };
+  await deps.repo.saveIngestKey(key);
+  return { key, secret };
+}
+
+// lastUsedAt is only rewritten once it is this old, so a device sending
+// every few seconds does not cost a storage write per reading
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+// Looks up an unrevoked key by its secret and records that it was used.
+export async function verifyIngestKey(deps: AppDeps, secret: string): Promise<IngestKey | null> {
+  if (!secret.startsWith(INGEST_KEY_PREFIX)) return null;
+  const key = await deps.repo.findIngestKey(await hashIngestKey(secret));
+  if (!key || key.revokedAt) return null;
+  const now = deps.now();
+  if (key.lastUsedAt && now.getTime() - new Date(key.lastUsedAt).getTime() < LAST_USED_RESOLUTION_MS) return key;
+  const used = { ...key, lastUsedAt: now.toISOString() };
+  await deps.repo.saveIngestKey(used);
+  return used;
+}
+
+// Public view of a key; the hash stays on the server
+export const describeIngestKey = ({ keyHash: _, ...key }: IngestKey) => key;
+
+const round = (value: number, places: number) => Math.round(value * 10 ** places) / 10 ** places;
+
+// Accepted spellings of each unit, and the conversion to the stored unit
+const UNITS: Record<string, Record<string, (value: number) => number>> = {
+  heartRate: {
+    'bpm': (v) => v,
+    '/min': (v) => v,
+    'beats/min': (v) => v,
+  },
+  bloodPressure: {
+    'mmhg': (v) => v,
+    'mm[hg]': (v) => v,
+    'kpa': (v) => round(v * 7.50062, 0),
+  },
+  spo2: {
+    '%': (v) => v,
+    // Some devices report saturation as a fraction
+    'ratio': (v) => round(v * 100, 1),
+  },
+  temperature: {
+    'c': (v) => v,
+    '°c': (v) => v,
+    'cel': (v) => v,
+    'f': (v) => round((v - 32) * 5 / 9, 1),
+    '°f': (v) => round((v - 32) * 5 / 9, 1),
+    '[degf]': (v) => round((v - 32) * 5 / 9, 1),
+  },
+  respiratoryRate: {
+    'breaths/min': (v) => v,
+    '/min': (v) => v,
+    'rpm': (v) => v,
+  },
+};
+
+const STORED_UNITS: Record<string, string> = {
+  heartRate: 'bpm',
+  bloodPressure: 'mmhg',
+  spo2: '%',
+  temperature: '°c',
+  respiratoryRate: 'breaths/min',
+};
+
+const METRIC_FOR: Record<string, VitalMetric | null> = {
+  heartRate: 'heartRate',
+  bloodPressure: 'systolic',
+  spo2: 'oxygenLevel',
+  temperature: 'temperature',
+  respiratoryRate: null,
+};
+
+const readNumber = (value: unknown, path: string) => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw badRequest(`${path} must be a number`);
+  }
+  return value;
+};
+
+// Converts one entry of the readings object, noting any unit conversion.
+// Missing units are taken to be the stored unit.
+const convert = (
+  name: string,
+  reading: Record<string, unknown>,
+  path: string,
+  converted: Partial<Record<VitalMetric, string>>,
+) => {
+  const unit = reading.unit === undefined ? STORED_UNITS[name] : String(reading.unit).trim().toLowerCase();
+  const conversion = UNITS[name][unit];
+  if (!conversion) {
+    throw badRequest(`${path}.unit "${reading.unit}" is not supported; use one of ${Object.keys(UNITS[name]).join(', ')}`);
+  }
+  const metric = METRIC_FOR[name];
+  if (metric && conversion(1) !== 1) converted[metric] = String(reading.unit);
+  return conversion;
+};
+
+// Provenance for a reading the app read from a device over Bluetooth and
+// saved through the reading form: { deviceId, name? }
+export function parseBluetoothDevice(body: unknown, receivedAt: string): DeviceProvenance {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    throw badRequest('device must be an object');
+  }
+  const { deviceId, name } = body as Record<string, unknown>;
+  const device: DeviceProvenance = { deviceId: parseDeviceId(deviceId, 'device.deviceId'), transport: 'bluetooth', receivedAt };
+  if (name !== undefined && name !== null && name !== '') {
+    if (typeof name !== 'string' || name.trim().length > 100) {
+      throw badRequest('device.name must be text of at most 100 characters');
+    }
+    device.name = name.trim();
+  }
+  return device;
+}
+
+// Validates one sensor payload and normalises it to a manual-style reading
+// tagged as device-sourced. The device's own per-reading statuses are
+// ignored: the server evaluates every reading against its rules.
+export function parseDevicePayload(body: unknown, receivedAt: string, keyId?: string, path = ''): DevicePayload {
+  const at = (field: string) => (path ? `${path}.${field}` : field);
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    throw badRequest(`${path || 'payload'} must be a JSON object`);
+  }
+  const payload = body as Record<string, any>;
+  if (payload.patientId !== undefined && (typeof payload.patientId !== 'string' || !payload.patientId)) {
+    throw badRequest(`${at('patientId')} must be a patient id`);
+  }
+  if (typeof payload.deviceId !== 'string' || !payload.deviceId.trim()) {
+    throw badRequest(`${at('deviceId')} is required`);
+  }
+  const deviceId = parseDeviceId(payload.deviceId, at('deviceId'));
+  const readings = payload.readings;
+  if (!readings || typeof readings !== 'object' || Array.isArray(readings)) {
+    throw badRequest(`${at('readings')} must be an object`);
+  }
+
+  const flat: Record<string, unknown> = { timestamp: payload.timestamp };
+  const converted: Partial<Record<VitalMetric, string>> = {};
+  for (const [name, reading] of Object.entries(readings as Record<string, any>)) {
+    const readingPath = at(`readings.${name}`);
+    if (!(name in UNITS)) {
+      throw badRequest(`${readingPath} is not a supported reading`);
+    }
+    if (!reading || typeof reading !== 'object') {
+      throw badRequest(`${readingPath} must be an object`);
+    }
+    const conversion = convert(name, reading, readingPath, converted);
+    if (name === 'bloodPressure') {
+      const systolic = conversion(readNumber(reading.systolic, `${readingPath}.systolic`));
+      const diastolic = conversion(readNumber(reading.diastolic, `${readingPath}.diastolic`));
+      flat.bloodPressure = `${systolic}/${diastolic}`;
+    } else {
+      const value = conversion(readNumber(reading.value, `${readingPath}.value`));
+      flat[name === 'spo2' ? 'oxygenLevel' : name] = value;
+    }
+  }
+
+  const device: DeviceProvenance = { deviceId, receivedAt };
+  if (payload.battery !== undefined && payload.battery !== null) {
+    const battery = readNumber(payload.battery, at('battery'));
+    if (battery < 0 || battery > 100) {
+      throw badRequest(`${at('battery')} must be between 0 and 100`);
+    }
+    device.battery = battery;
+  }
+  if (payload.location !== undefined && payload.location !== null) {
+    const latitude = readNumber(payload.location.latitude, at('location.latitude'));
+    const longitude = readNumber(payload.location.longitude, at('location.longitude'));
+    if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
+      throw badRequest(`${at('location')} is not a valid coordinate`);
+    }
+    device.location = { latitude, longitude };
+  }
+  if (payload.readingId !== undefined) {
+    if (typeof payload.readingId !== 'string' || !READING_ID.test(payload.readingId)) {
+      throw badRequest(`${at('readingId')} must be 1-64 letters, digits, dots, dashes or underscores`);
+    }
+    device.readingId = payload.readingId;
+  }
+  if (Object.keys(converted).length > 0) device.convertedUnits = converted;
+  if (keyId) device.keyId = keyId;
+
+  let input: VitalInput;
+  try {
+    input = parseVitalInput(flat);
+  } catch (error) {
+    // Point batch errors at the entry they came from
+    if (path && error instanceof Error) throw badRequest(`${path}: ${error.message}`);
+    throw error;
+  }
+  return { patientId: payload.patientId, input: { ...input, source: 'device', device } };
+}
+
+// Validates a device's report about itself: { status: 'online' | 'offline',
+// battery?, firmware?, rssi?, timestamp? }. Offline reports usually come from
+// an MQTT last will, so only the status is required.
+export function parseDeviceStatus(deviceId: string, body: unknown, receivedAt: string, keyId?: string): DeviceStatus {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    throw badRequest('status must be a JSON object');
+  }
+  const payload = body as Record<string, any>;
+  if (payload.status !== 'online' && payload.status !== 'offline') {
+    throw badRequest('status must be "online" or "offline"');
+  }
+
+  const status: DeviceStatus = { deviceId, online: payload.status === 'online', reportedAt: receivedAt, receivedAt };
+  if (payload.battery !== undefined && payload.battery !== null) {
+    const battery = readNumber(payload.battery, 'battery');
+    if (battery < 0 || battery > 100) {
+      throw badRequest('battery must be between 0 and 100');
+    }
+    status.battery = battery;
+  }
+  if (payload.firmware !== undefined && payload.firmware !== null) {
+    if (typeof payload.firmware !== 'string') {
+      throw badRequest('firmware must be a string');
+    }
+    status.firmware = payload.firmware.trim();
+  }
+  if (payload.rssi !== undefined && payload.rssi !== null) {
+    status.rssi = readNumber(payload.rssi, 'rssi');
+  }
+  if (payload.timestamp !== undefined) {
+    const timestamp = new Date(payload.timestamp);
+    if (isNaN(timestamp.getTime())) {
+      throw badRequest('timestamp must be an ISO 8601 date');
+    }
+    status.reportedAt = timestamp.toISOString();
+  }
+  if (keyId) status.keyId = keyId;
+  return status;
+}
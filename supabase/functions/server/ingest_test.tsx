@@ -0,0 +1,248 @@
+// Run with `deno test --allow-env supabase/functions/server/ingest_test.tsx`.
+// Payload parsing is tested directly; keys, batches and duplicates go through
+// the local server's /ingest routes.
+
+import { deepStrictEqual, equal, ok, throws } from 'node:assert/strict';
+import { HTTPException } from "npm:hono@4.6.14/http-exception";
+import { hashIngestKey, MAX_BATCH_SIZE, parseDevicePayload } from './ingest.tsx';
+import { createLocalServer } from './local.tsx';
+import { createRepository } from './repository.tsx';
+import type { Alert, VitalReading } from '../_shared/types.tsx';
+
+const START = Date.parse('2026-10-19T06:00:00.000Z');
+const at = (minutes: number) => new Date(START + minutes * 60_000).toISOString();
+const RECEIVED_AT = at(0);
+
+const parse = (readings: Record<string, unknown>, extra: Record<string, unknown> = {}) =>
+  parseDevicePayload({ deviceId: 'ESP-1', readings, ...extra }, RECEIVED_AT).input;
+
+const refuses = (run: () => unknown, message: string) =>
+  throws(run, (error) => error instanceof HTTPException && error.status === 400 && error.message === message);
+
+Deno.test('Fahrenheit temperatures are stored in Celsius to one decimal place', () => {
+  for (const unit of ['F', '°F', '[degF]', ' f ']) {
+    const input = parse({ temperature: { value: 98.6, unit } });
+    equal(input.temperature, 37, unit);
+    deepStrictEqual(input.device.convertedUnits, { temperature: unit });
+  }
+  equal(parse({ temperature: { value: 101.3, unit: '°F' } }).temperature, 38.5);
+  equal(parse({ temperature: { value: 100.04, unit: 'F' } }).temperature, 37.8);
+  // Celsius, spelt any way or left out, is stored as sent and not noted as converted
+  for (const unit of ['C', '°C', 'Cel', undefined]) {
+    const input = parse({ temperature: { value: 36.85, unit } });
+    equal(input.temperature, 36.85);
+    equal(input.device.convertedUnits, undefined);
+  }
+});
+
+Deno.test('kPa blood pressures are stored in whole mmHg', () => {
+  const input = parse({ bloodPressure: { systolic: 16, diastolic: 10.7, unit: 'kPa' } });
+  equal(input.bloodPressure, '120/80');
+  deepStrictEqual(input.device.convertedUnits, { systolic: 'kPa' });
+  equal(parse({ bloodPressure: { systolic: 24.1, diastolic: 16.1, unit: 'kpa' } }).bloodPressure, '181/121');
+  equal(parse({ bloodPressure: { systolic: 118, diastolic: 76, unit: 'mm[Hg]' } }).bloodPressure, '118/76');
+  equal(parse({ bloodPressure: { systolic: 118, diastolic: 76 } }).bloodPressure, '118/76');
+});
+
+Deno.test('other units, and the readings that are not converted', () => {
+  const input = parse({
+    heartRate: { value: 72, unit: '/min' },
+    spo2: { value: 0.965, unit: 'ratio' },
+    respiratoryRate: { value: 16, unit: 'rpm' },
+  });
+  deepStrictEqual([input.heartRate, input.oxygenLevel, input.respiratoryRate], [72, 96.5, 16]);
+  deepStrictEqual(input.device.convertedUnits, { oxygenLevel: 'ratio' });
+  equal(input.source, 'device');
+  deepStrictEqual(input.device, {
+    deviceId: 'ESP-1',
+    receivedAt: RECEIVED_AT,
+    convertedUnits: { oxygenLevel: 'ratio' },
+  });
+});
+
+Deno.test('unsupported units and readings are refused with their path', () => {
+  refuses(
+    () => parse({ temperature: { value: 310, unit: 'K' } }),
+    'readings.temperature.unit "K" is not supported; use one of c, °c, cel, f, °f, [degf]',
+  );
+  refuses(
+    () => parse({ bloodPressure: { systolic: 16, unit: 'kPa' } }),
+    'readings.bloodPressure.diastolic must be a number',
+  );
+  refuses(() => parse({ glucose: { value: 5.4 } }), 'readings.glucose is not a supported reading');
+  refuses(
+    () => {
+      const entry = { deviceId: 'ESP-1', readings: { heartRate: { value: '72' } } };
+      return parseDevicePayload(entry, RECEIVED_AT, undefined, 'batch[3]');
+    },
+    'batch[3].readings.heartRate.value must be a number',
+  );
+  refuses(() => parse({}, { readingId: 'a/b' }), 'readingId must be 1-64 letters, digits, dots, dashes or underscores');
+});
+
+Deno.test('ingestion keys are stored as the SHA-256 of the secret', async () => {
+  equal(
+    await hashIngestKey('pmk_0123456789abcdef'),
+    'e7266efdbb5c08b31cb3ad2793995b1f56aa919923e335ae619d085a7281d131',
+  );
+});
+
+async function setup() {
+  let now = new Date(START);
+  const server = createLocalServer({ now: () => now });
+  const signup = (email: string, name: string, role: string) =>
+    server.request('/signup', { method: 'POST', json: { email, password: 'secret1', name, role } });
+  await signup('doctor@example.com', 'Dr Grey', 'doctor');
+  await signup('patient@example.com', 'Ann Lee', 'patient');
+  const login = await server.request('/local/login', {
+    method: 'POST',
+    json: { email: 'doctor@example.com', password: 'secret1' },
+  });
+  const { accessToken: token } = await login.json();
+  const { patients } = await (await server.request('/patients', { token })).json();
+  const patientId = patients[0].id;
+
+  const createKey = async (name: string) => {
+    const response = await server.request('/ingest/keys', { method: 'POST', token, json: { name } });
+    equal(response.status, 201);
+    return response.json();
+  };
+
+  const send = (path: string, json: unknown, auth = token) =>
+    server.request(`/ingest${path}`, { method: 'POST', token: auth, json });
+
+  const vitals = async (): Promise<VitalReading[]> =>
+    (await (await server.request(`/vitals/patient/${patientId}?order=asc`, { token })).json()).vitals;
+
+  const alerts = async (): Promise<Alert[]> =>
+    (await (await server.request(`/alerts/patient/${patientId}`, { token })).json()).alerts;
+
+  const setNow = (minutes: number) => (now = new Date(at(minutes)));
+
+  return { server, token, patientId, createKey, send, vitals, alerts, setNow, repo: createRepository(server.kv) };
+}
+
+const payload = (patientId: string, minutes: number, heartRate: number, extra: Record<string, unknown> = {}) => ({
+  patientId,
+  deviceId: 'ESP-1',
+  timestamp: at(minutes),
+  readings: { heartRate: { value: heartRate, unit: 'bpm' } },
+  ...extra,
+});
+
+Deno.test('a key authenticates a device until it is revoked', async () => {
+  const { server, token, patientId, createKey, send, vitals, setNow, repo } = await setup();
+  const { key, secret } = await createKey('Ward 3 gateway');
+  ok(secret.startsWith('pmk_'));
+  equal(secret.length, 4 + 48);
+  equal(key.prefix, secret.slice(0, 10));
+  equal(key.keyHash, undefined);
+  // Only the hash is kept
+  equal((await repo.getIngestKey(key.id))!.keyHash, await hashIngestKey(secret));
+  const { keys } = await (await server.request('/ingest/keys', { token })).json();
+  deepStrictEqual(keys.map((k: { id: string; keyHash?: string }) => [k.id, k.keyHash]), [[key.id, undefined]]);
+
+  const response = await send('', payload(patientId, 0, 72), secret);
+  equal(response.status, 201);
+  const { vital } = await response.json();
+  equal(vital.recordedBy, `ingest-key:${key.id}`);
+  equal(vital.device.keyId, key.id);
+  equal((await repo.getIngestKey(key.id))!.lastUsedAt, at(0));
+
+  // Use is recorded to the minute, not on every reading
+  setNow(0.5);
+  equal((await send('', payload(patientId, 0.5, 73), secret)).status, 201);
+  equal((await repo.getIngestKey(key.id))!.lastUsedAt, at(0));
+  setNow(2);
+  equal((await send('', payload(patientId, 2, 74), secret)).status, 201);
+  equal((await repo.getIngestKey(key.id))!.lastUsedAt, at(2));
+
+  // A secret that was never issued, or with one character changed, is refused
+  const altered = `${secret.slice(0, -1)}${secret.endsWith('0') ? '1' : '0'}`;
+  equal((await send('', payload(patientId, 2, 75), altered)).status, 401);
+  equal((await send('', payload(patientId, 2, 75), 'pmk_unknown')).status, 401);
+  // Anything without the key prefix is taken for a session token
+  equal((await send('', payload(patientId, 2, 75), secret.slice(4))).status, 401);
+
+  const revoke = async () => (await server.request(`/ingest/keys/${key.id}`, { method: 'DELETE', token })).json();
+  setNow(5);
+  const revoked = await revoke();
+  equal(revoked.key.revokedAt, at(5));
+  const refused = await send('', payload(patientId, 6, 76), secret);
+  equal(refused.status, 401);
+  equal((await refused.json()).error, 'Invalid or revoked ingestion key');
+  // Revoking again keeps the original time
+  setNow(9);
+  equal((await revoke()).key.revokedAt, at(5));
+  equal((await server.request('/ingest/keys/missing', { method: 'DELETE', token })).status, 404);
+  equal((await vitals()).length, 3);
+});
+
+Deno.test('batches are capped, recorded oldest first and answered in the order sent', async () => {
+  const { patientId, send, vitals, alerts } = await setup();
+  const tooMany = Array.from({ length: MAX_BATCH_SIZE + 1 }, (_, i) => payload(patientId, i, 72));
+  const refused = await send('/batch', { batch: tooMany });
+  equal(refused.status, 400);
+  equal((await refused.json()).error, 'batch can hold at most 500 payloads');
+  equal((await send('/batch', { batch: [] })).status, 400);
+  equal((await vitals()).length, 0);
+
+  // Sent newest first; recorded oldest first, the four rising readings make a trend
+  const response = await send('/batch', {
+    batch: [
+      payload(patientId, 30, 90),
+      payload(patientId, 20, 84),
+      { patientId, deviceId: 'ESP-1', readings: { heartRate: { value: 'fast' } } },
+      payload(patientId, 10, 78),
+      payload(patientId, 0, 70),
+    ],
+  });
+  equal(response.status, 200);
+  const { accepted, rejected, results } = await response.json();
+  deepStrictEqual([accepted, rejected], [4, 1]);
+  deepStrictEqual(results.map((r: { index: number }) => r.index), [0, 1, 2, 3, 4]);
+  deepStrictEqual(results[2], { index: 2, error: 'batch[2].readings.heartRate.value must be a number' });
+
+  const stored = await vitals();
+  deepStrictEqual(stored.map((vital) => vital.heartRate), [70, 78, 84, 90]);
+  deepStrictEqual(results.filter((r: { vitalId?: string }) => r.vitalId).map((r: { vitalId: string }) => r.vitalId), [
+    stored[3].id,
+    stored[2].id,
+    stored[1].id,
+    stored[0].id,
+  ]);
+  const [trend] = (await alerts()).filter((alert) => alert.ruleId === 'heart-rate-rising');
+  equal(trend.vitalId, stored[3].id);
+  equal(results[0].alerts, 1);
+});
+
+Deno.test('a reading is stored once per device and reading id', async () => {
+  const { patientId, send, vitals } = await setup();
+  const first = await send('', payload(patientId, 0, 72, { readingId: 'r-1' }));
+  equal(first.status, 201);
+  const { vital } = await first.json();
+
+  // A retry, even with other values, returns the stored reading
+  const retry = await send('', payload(patientId, 1, 140, { readingId: 'r-1' }));
+  equal(retry.status, 200);
+  deepStrictEqual(await retry.json(), { vital, alerts: [], duplicate: true });
+
+  // The same reading id from another device is a different reading
+  equal((await send('', payload(patientId, 1, 72, { readingId: 'r-1', deviceId: 'ESP-2' }))).status, 201);
+
+  const { results } = await (await send('/batch', {
+    batch: [
+      payload(patientId, 5, 80, { readingId: 'r-2' }),
+      payload(patientId, 6, 81, { readingId: 'r-1' }),
+      payload(patientId, 7, 82, { readingId: 'r-2' }),
+    ],
+  })).json();
+  deepStrictEqual(results.map((r: { duplicate?: boolean }) => r.duplicate ?? false), [false, true, true]);
+  equal(results[1].vitalId, vital.id);
+  equal(results[2].vitalId, results[0].vitalId);
+  deepStrictEqual((await vitals()).map((v) => [v.device?.deviceId, v.device?.readingId, v.heartRate]), [
+    ['ESP-1', 'r-1', 72],
+    ['ESP-2', 'r-1', 72],
+    ['ESP-1', 'r-2', 80],
+  ]);
+});
@@ -0,0 +1,159 @@
+// In-process runner for exercising the server without the hosted Supabase
+// project. Run `deno run --allow-net --allow-env --allow-read --allow-write local.tsx`
+// to serve it on PORT (default 8787), or import createLocalServer() and call
+// request(). Storage follows KV_BACKEND, defaulting to memory; set
+// KV_BACKEND=sqlite and KV_SQLITE_PATH to keep data between runs. With
+// MQTT_PORT set it also starts an in-process MQTT broker on that port, bridged
+// to the server with a freshly created ingestion key; with HL7_PORT, an HL7
+// listener on that port bridged the same way. HL7_FEED_HOST and HL7_FEED_PORT
+// send the outbound HL7 feed, e.g. to `tools/hl7_peer.tsx peer`.
+
+import { Hono } from "npm:hono@4.6.14";
+import { BASE_PATH, createApp } from './app.tsx';
+import type { AuthProvider, SignupInput } from './auth.tsx';
+import { type Hl7FeedConfig, hl7FeedConfigFromEnv } from './hl7_feed.tsx';
+import { createIngestKey } from './ingest.tsx';
+import { createRepository } from './repository.tsx';
+import { createKvStore, createMemoryKv, kvConfigFromEnv, type KvStore } from './storage/index.tsx';
+import { startHl7Listener } from '../../../tools/hl7_listener.tsx';
+import { startLocalBroker, startMqttBridge } from '../../../tools/mqtt_bridge.tsx';
+import type { UserProfile } from '../_shared/types.tsx';
+
+interface LocalAccount {
+  salt: string;
+  passwordHash: string;
+  profile: UserProfile;
+}
+
+const hashPassword = async (password: string, salt: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${salt}:${password}`));
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, '0')).join('');
+};
+
+// Stand-in for Supabase auth. Accounts live in the same store as the data so
+// a SQLite-backed runner keeps its logins; tokens only last for the process.
+export function createLocalAuth(kv: KvStore): AuthProvider & {
+  signIn(email: string, password: string): Promise<string>;
+} {
+  const tokens = new Map<string, UserProfile>();
+  const accountKey = (email: string) => `local_auth:${email.toLowerCase()}`;
+
+  return {
+    async createUser({ email, password, name, role }: SignupInput) {
+      if (await kv.get(accountKey(email))) {
+        throw new Error('A user with this email address has already been registered');
+      }
+      const salt = crypto.randomUUID();
+      const profile: UserProfile = {
+        id: crypto.randomUUID(),
+        email,
+        name,
+        role,
+        createdAt: new Date().toISOString(),
+      };
+      const account: LocalAccount = { salt, passwordHash: await hashPassword(password, salt), profile };
+      await kv.set(accountKey(email), account);
+      return profile;
+    },
+
+    async getUser(accessToken) {
+      return tokens.get(accessToken) ?? null;
+    },
+
+    async signIn(email, password) {
+      const account: LocalAccount | undefined = await kv.get(accountKey(email));
+      if (!account || account.passwordHash !== await hashPassword(password, account.salt)) {
+        throw new Error('Invalid login credentials');
+      }
+      const token = crypto.randomUUID();
+      tokens.set(token, account.profile);
+      return token;
+    },
+  };
+}
+
+export function createLocalServer(
+  options: {
+    kv?: KvStore;
+    now?: () => Date;
+    log?: boolean;
+    escalationIntervalMs?: number;
+    deviceCheckIntervalMs?: number;
+    hl7Feed?: Hl7FeedConfig;
+  } = {},
+) {
+  const kv = options.kv ?? createMemoryKv();
+  const auth = createLocalAuth(kv);
+  const app = new Hono();
+
+  // Local substitute for supabase.auth.signInWithPassword
+  app.post(`${BASE_PATH}/local/login`, async (c) => {
+    const { email, password } = await c.req.json();
+    try {
+      return c.json({ accessToken: await auth.signIn(String(email), String(password)) });
+    } catch (error: any) {
+      return c.json({ error: error.message }, 401);
+    }
+  });
+  app.route('/', createApp({
+    kv,
+    auth,
+    now: options.now,
+    log: options.log ?? false,
+    escalationIntervalMs: options.escalationIntervalMs,
+    deviceCheckIntervalMs: options.deviceCheckIntervalMs,
+    hl7Feed: options.hl7Feed,
+  }));
+  app.notFound((c) => c.json({ error: 'Not found' }, 404));
+
+  // Issues a request against the app; paths are relative to BASE_PATH
+  const request = (path: string, init: RequestInit & { token?: string; json?: unknown } = {}) => {
+    const { token, json, ...rest } = init;
+    const headers = new Headers(rest.headers);
+    if (token) headers.set('Authorization', `Bearer ${token}`);
+    if (json !== undefined) headers.set('Content-Type', 'application/json');
+    return app.request(`${BASE_PATH}${path}`, {
+      ...rest,
+      headers,
+      body: json !== undefined ? JSON.stringify(json) : rest.body,
+    });
+  };
+
+  return { app, kv, auth, request };
+}
+
+if (import.meta.main) {
+  const port = Number(Deno.env.get('PORT') ?? 8787);
+  const kv = await createKvStore(kvConfigFromEnv('memory'));
+  const { app, request } = createLocalServer({
+    kv,
+    log: true,
+    escalationIntervalMs: 30_000,
+    deviceCheckIntervalMs: 60_000,
+    hl7Feed: hl7FeedConfigFromEnv(),
+  });
+  Deno.serve({ port }, app.fetch);
+
+  const mqttPort = Deno.env.get('MQTT_PORT');
+  if (mqttPort) {
+    await startLocalBroker(Number(mqttPort));
+    const { secret } = await createIngestKey(
+      { repo: createRepository(kv), now: () => new Date() },
+      'Local MQTT bridge',
+      'local',
+    );
+    await startMqttBridge(`mqtt://localhost:${mqttPort}`, async (path, body) =>
+      request(path, { method: 'POST', token: secret, json: body }));
+  }
+
+  const hl7Port = Deno.env.get('HL7_PORT');
+  if (hl7Port) {
+    const { secret } = await createIngestKey(
+      { repo: createRepository(kv), now: () => new Date() },
+      'Local HL7 listener',
+      'local',
+    );
+    startHl7Listener(Number(hl7Port), async (path, body) =>
+      request(path, { method: 'POST', token: secret, json: body }));
+  }
+}
@@ -0,0 +1,193 @@
+// Readings brought in from another system's records (FHIR) or a spreadsheet
+// (CSV). They describe the past, so they are scored like any other reading
+// but raise no alerts and are not announced as live readings.
+
+import { HTTPException } from "npm:hono@4.6.14/http-exception";
+import { badRequest, loadAccessiblePatient, type AppDeps } from './context.tsx';
+import { refreshRollups, updateRollups } from './rollups.tsx';
+import { loadPatientRules } from './rule_sets.tsx';
+import { assessReading, parseVitalInput, type VitalInput } from './vitals.tsx';
+import type { ImportProvenance, Patient, RuleSet, UserProfile, VitalReading } from '../_shared/types.tsx';
+
+export const MAX_IMPORT_ROWS = 5000;
+
+const SAVE_CHUNK_SIZE = 500;
+
+// Device and spreadsheet clocks drift; later than this is a mistake
+const MAX_FUTURE_MS = 5 * 60 * 1000;
+
+export interface ReadingImportReport {
+  dryRun: boolean;
+  created: number;
+  duplicates: number;
+  // Rows that were left out, by the row number the client sent
+  issues: { row: number; status: 'error' | 'duplicate'; message: string }[];
+}
+
+// Timestamps of a patient's stored readings; an imported reading at one of
+// them is taken to be already recorded
+export async function recordedTimestamps(deps: AppDeps, patientId: string): Promise<Set<string>> {
+  const stored = await deps.repo.listVitals(patientId);
+  return new Set(stored.map((vital) => vital.timestamp));
+}
+
+// Loads each patient's rules once for a whole import
+export function createRulesCache(deps: AppDeps) {
+  const rules = new Map<string, Promise<RuleSet>>();
+  return (patient: Patient) => {
+    if (!rules.has(patient.id)) rules.set(patient.id, loadPatientRules(deps, patient));
+    return rules.get(patient.id)!;
+  };
+}
+
+export function importedReading(
+  patient: Patient,
+  input: VitalInput,
+  rules: RuleSet,
+  { timestamp, recordedBy, imported }: { timestamp: string; recordedBy: string; imported: ImportProvenance },
+): VitalReading {
+  const vital: VitalReading = {
+    id: crypto.randomUUID(),
+    patientId: patient.id,
+    heartRate: input.heartRate,
+    bloodPressure: input.bloodPressure,
+    oxygenLevel: input.oxygenLevel,
+    temperature: input.temperature,
+    respiratoryRate: input.respiratoryRate,
+    consciousness: input.consciousness,
+    supplementalOxygen: input.supplementalOxygen,
+    notes: input.notes,
+    status: 'normal',
+    timestamp,
+    recordedBy,
+    source: 'import',
+    imported,
+  };
+  assessReading(vital, patient, rules);
+  return vital;
+}
+
+// Recomputes the rollups covering the given readings after they are removed
+const refreshImportedRollups = async (deps: AppDeps, vitals: VitalReading[]) => {
+  const timestamps = new Map<string, string[]>();
+  vitals.forEach((vital) => timestamps.set(vital.patientId, [...(timestamps.get(vital.patientId) ?? []), vital.timestamp]));
+  for (const [patientId, times] of timestamps) await refreshRollups(deps, patientId, times);
+};
+
+// Saves new patients and imported readings, then updates the rollups. If
+// anything fails part way, what was saved is removed again and a 500 is
+// thrown, so an import either happens completely or not at all.
+export async function saveImport(
+  deps: AppDeps,
+  { patients = [], vitals }: { patients?: Patient[]; vitals: VitalReading[] },
+) {
+  const savedPatients: Patient[] = [];
+  const savedVitals: VitalReading[] = [];
+  try {
+    for (const patient of patients) {
+      await deps.repo.savePatient(patient);
+      savedPatients.push(patient);
+    }
+    for (let i = 0; i < vitals.length; i += SAVE_CHUNK_SIZE) {
+      const chunk = vitals.slice(i, i + SAVE_CHUNK_SIZE);
+      await deps.repo.saveVitals(chunk);
+      savedVitals.push(...chunk);
+    }
+    await updateRollups(deps, vitals);
+  } catch (error) {
+    console.error('Import failed; removing what was saved:', error);
+    await deps.repo.deleteVitals(savedVitals);
+    for (const patient of savedPatients) await deps.repo.deletePatient(patient.id);
+    await refreshImportedRollups(deps, savedVitals);
+    throw new HTTPException(500, { message: 'Import failed and was rolled back; nothing was saved' });
+  }
+}
+
+// Imports readings mapped from a spreadsheet by the client:
+// { source?: file name, readings: [{ row, patientId, timestamp, heartRate?,
+// bloodPressure?, oxygenLevel?, temperature?, respiratoryRate?, notes? }] },
+// values already in stored units. Each row is validated as a manual entry
+// would be; rows that fail, and readings already recorded, are reported and
+// left out while the rest are saved. With dryRun nothing is saved.
+export async function importReadingRows(
+  deps: AppDeps,
+  user: UserProfile,
+  body: Record<string, any>,
+  { dryRun = false }: { dryRun?: boolean } = {},
+): Promise<ReadingImportReport> {
+  const { readings } = body;
+  if (!Array.isArray(readings) || readings.length === 0) {
+    throw badRequest('readings must be a non-empty array');
+  }
+  if (readings.length > MAX_IMPORT_ROWS) {
+    throw badRequest(`An import can hold at most ${MAX_IMPORT_ROWS} readings; split the file into smaller ones`);
+  }
+  if (body.source !== undefined && (typeof body.source !== 'string' || body.source.length > 200)) {
+    throw badRequest('source must be text of at most 200 characters');
+  }
+  const source = body.source?.trim() || 'upload';
+
+  const now = deps.now();
+  const report: ReadingImportReport = { dryRun, created: 0, duplicates: 0, issues: [] };
+  const patients = new Map<string, Promise<Patient>>();
+  const recorded = new Map<string, Set<string>>();
+  // The row each patient and time was first seen on
+  const rowsAt = new Map<string, number>();
+  const rulesFor = createRulesCache(deps);
+  const vitals: VitalReading[] = [];
+
+  for (const [index, reading] of readings.entries()) {
+    const row = Number.isInteger(reading?.row) ? reading.row : index + 1;
+    try {
+      if (!reading || typeof reading !== 'object' || Array.isArray(reading)) {
+        throw badRequest('Reading must be an object');
+      }
+      if (typeof reading.patientId !== 'string' || !reading.patientId) {
+        throw badRequest('No patient');
+      }
+      if (reading.timestamp === undefined || reading.timestamp === null || reading.timestamp === '') {
+        throw badRequest('No date and time');
+      }
+      if (!patients.has(reading.patientId)) {
+        const loading = loadAccessiblePatient(deps, user, reading.patientId);
+        loading.catch(() => {});
+        patients.set(reading.patientId, loading);
+      }
+      const patient = await patients.get(reading.patientId)!;
+      const input = parseVitalInput(reading);
+      const timestamp = input.timestamp!;
+      if (Date.parse(timestamp) > now.getTime() + MAX_FUTURE_MS) {
+        throw badRequest('Date and time is in the future');
+      }
+
+      if (!recorded.has(patient.id)) recorded.set(patient.id, await recordedTimestamps(deps, patient.id));
+      if (recorded.get(patient.id)!.has(timestamp)) {
+        report.duplicates++;
+        report.issues.push({ row, status: 'duplicate', message: 'A reading at this time is already recorded' });
+        continue;
+      }
+      const earlier = rowsAt.get(`${patient.id} ${timestamp}`);
+      if (earlier !== undefined) {
+        report.duplicates++;
+        report.issues.push({ row, status: 'duplicate', message: `Same patient and time as row ${earlier}` });
+        continue;
+      }
+      rowsAt.set(`${patient.id} ${timestamp}`, row);
+
+      vitals.push(importedReading(patient, input, await rulesFor(patient), {
+        timestamp,
+        recordedBy: user.id,
+        imported: { format: 'csv', sourceIds: [`${source}:${row}`], importedAt: now.toISOString() },
+      }));
+    } catch (error) {
+      if (!(error instanceof HTTPException) || error.status >= 500) throw error;
+      report.issues.push({ row, status: 'error', message: error.message });
+    }
+  }
+
+  report.created = vitals.length;
+  if (!dryRun && vitals.length > 0) {
+    await saveImport(deps, { vitals });
+  }
+  return report;
+}
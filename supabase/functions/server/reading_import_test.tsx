@@ -0,0 +1,191 @@
+// Run with `deno test --allow-env supabase/functions/server/reading_import_test.tsx`.
+// Imports spreadsheet rows through the local server's /vitals/import; the
+// live events test calls importReadingRows with its own event bus.
+
+import { deepStrictEqual, equal } from 'node:assert/strict';
+import { createEventBus } from './events.tsx';
+import { createLocalAuth, createLocalServer } from './local.tsx';
+import { importReadingRows, MAX_IMPORT_ROWS } from './reading_import.tsx';
+import { createRepository } from './repository.tsx';
+import { createMemoryKv } from './storage/index.tsx';
+import { parseVitalInput, recordVital } from './vitals.tsx';
+import type { Alert, LiveEvent, VitalReading } from '../_shared/types.tsx';
+
+const NOW = Date.parse('2026-10-19T12:00:00.000Z');
+const at = (minutes: number) => new Date(NOW + minutes * 60_000).toISOString();
+
+async function setup() {
+  const kv = createMemoryKv();
+  const server = createLocalServer({ kv, now: () => new Date(NOW) });
+  const signup = (email: string, name: string, role: string) =>
+    server.request('/signup', { method: 'POST', json: { email, password: 'secret1', name, role } });
+  const login = async (email: string) =>
+    (await (await server.request('/local/login', { method: 'POST', json: { email, password: 'secret1' } })).json())
+      .accessToken;
+  await signup('doctor@example.com', 'Dr Grey', 'doctor');
+  await signup('ann@example.com', 'Ann Lee', 'patient');
+  await signup('bo@example.com', 'Bo Chan', 'patient');
+  const token = await login('doctor@example.com');
+  const { patients } = await (await server.request('/patients', { token })).json();
+  const [ann, bo] = ['Ann Lee', 'Bo Chan'].map((name) => patients.find((p: { name: string }) => p.name === name).id);
+
+  const post = (json: unknown, { query = '', auth = token } = {}) =>
+    server.request(`/vitals/import${query}`, { method: 'POST', token: auth, json });
+
+  const vitals = async (patientId: string): Promise<VitalReading[]> =>
+    (await (await server.request(`/vitals/patient/${patientId}?order=asc`, { token })).json()).vitals;
+
+  const alerts = async (patientId: string): Promise<Alert[]> =>
+    (await (await server.request(`/alerts/patient/${patientId}`, { token })).json()).alerts;
+
+  return { server, kv, token, ann, bo, post, vitals, alerts, annToken: await login('ann@example.com') };
+}
+
+Deno.test('rows that fail validation are reported by row and the rest are saved', async () => {
+  const { ann, bo, post, vitals, annToken } = await setup();
+  const response = await post({
+    source: 'ward-3.csv',
+    readings: [
+      { row: 2, patientId: ann, timestamp: at(-60), heartRate: 72, bloodPressure: '120/80' },
+      { row: 3, timestamp: at(-50), heartRate: 72 },
+      { row: 4, patientId: ann, heartRate: 72 },
+      { row: 5, patientId: 'missing', timestamp: at(-50), heartRate: 72 },
+      { row: 6, patientId: ann, timestamp: 'last tuesday', heartRate: 72 },
+      { row: 7, patientId: ann, timestamp: at(-50), heartRate: 400 },
+      { row: 8, patientId: ann, timestamp: at(-50), bloodPressure: '120' },
+      { row: 9, patientId: ann, timestamp: at(-50) },
+      { row: 10, patientId: ann, timestamp: at(6), heartRate: 72 },
+      { row: 11, patientId: ann, timestamp: at(4), oxygenLevel: 97 },
+      // Rows without a number are counted from one
+      'not a reading',
+    ],
+  });
+  equal(response.status, 201);
+  deepStrictEqual(await response.json(), {
+    dryRun: false,
+    created: 2,
+    duplicates: 0,
+    issues: [
+      { row: 3, status: 'error', message: 'No patient' },
+      { row: 4, status: 'error', message: 'No date and time' },
+      { row: 5, status: 'error', message: 'Patient not found' },
+      { row: 6, status: 'error', message: 'timestamp must be an ISO 8601 date' },
+      { row: 7, status: 'error', message: 'heartRate must be a number between 20 and 300' },
+      { row: 8, status: 'error', message: 'bloodPressure must be formatted as "systolic/diastolic"' },
+      { row: 9, status: 'error', message: 'Please enter at least one vital reading' },
+      { row: 10, status: 'error', message: 'Date and time is in the future' },
+      { row: 11, status: 'error', message: 'Reading must be an object' },
+    ],
+  });
+  const stored = await vitals(ann);
+  deepStrictEqual(stored.map((v) => [v.timestamp, v.source, v.imported?.sourceIds]), [
+    [at(-60), 'import', ['ward-3.csv:2']],
+    [at(4), 'import', ['ward-3.csv:11']],
+  ]);
+  deepStrictEqual(stored[0].imported, { format: 'csv', sourceIds: ['ward-3.csv:2'], importedAt: at(0) });
+
+  // Patients may only import their own readings
+  const own = await post({ readings: [{ patientId: bo, timestamp: at(-60), heartRate: 72 }] }, { auth: annToken });
+  equal(own.status, 200);
+  deepStrictEqual((await own.json()).issues, [
+    { row: 1, status: 'error', message: 'You do not have access to this patient' },
+  ]);
+  equal((await vitals(bo)).length, 0);
+});
+
+Deno.test('readings already recorded, or repeated in the file, are reported as duplicates', async () => {
+  const { server, token, ann, bo, post, vitals } = await setup();
+  const json = { patientId: ann, timestamp: at(-120), heartRate: 70 };
+  equal((await server.request('/vitals', { method: 'POST', token, json })).status, 201);
+
+  const readings = [
+    { row: 2, patientId: ann, timestamp: at(-120), heartRate: 72 },
+    { row: 3, patientId: ann, timestamp: at(-60), heartRate: 74 },
+    // The same time written another way
+    { row: 4, patientId: ann, timestamp: '2026-10-19T13:00:00+02:00', heartRate: 75 },
+    { row: 5, patientId: bo, timestamp: at(-60), heartRate: 80 },
+  ];
+  const report = await (await post({ readings })).json();
+  deepStrictEqual(report, {
+    dryRun: false,
+    created: 2,
+    duplicates: 2,
+    issues: [
+      { row: 2, status: 'duplicate', message: 'A reading at this time is already recorded' },
+      { row: 4, status: 'duplicate', message: 'Same patient and time as row 3' },
+    ],
+  });
+  deepStrictEqual((await vitals(ann)).map((v) => v.heartRate), [70, 74]);
+  deepStrictEqual((await vitals(bo)).map((v) => v.heartRate), [80]);
+
+  // Importing the file again saves nothing
+  const again = await post({ readings });
+  equal(again.status, 200);
+  deepStrictEqual(await again.json(), {
+    dryRun: false,
+    created: 0,
+    duplicates: 4,
+    issues: [2, 3, 4, 5].map((row) => ({
+      row,
+      status: 'duplicate',
+      message: 'A reading at this time is already recorded',
+    })),
+  });
+});
+
+Deno.test(`an import holds at most ${MAX_IMPORT_ROWS} rows`, async () => {
+  const { ann, post, vitals } = await setup();
+  const rows = (count: number) =>
+    Array.from({ length: count }, (_, i) => ({ patientId: ann, timestamp: at(-1 - i), heartRate: 72 }));
+
+  const refused = await post({ readings: rows(MAX_IMPORT_ROWS + 1) });
+  equal(refused.status, 400);
+  equal((await refused.json()).error, 'An import can hold at most 5000 readings; split the file into smaller ones');
+  equal((await post({ readings: [] })).status, 400);
+  equal((await post({ readings: rows(1), source: 'x'.repeat(201) })).status, 400);
+
+  const dryRun = await post({ readings: rows(MAX_IMPORT_ROWS) }, { query: '?dryRun=true' });
+  equal(dryRun.status, 200);
+  deepStrictEqual(await dryRun.json(), { dryRun: true, created: MAX_IMPORT_ROWS, duplicates: 0, issues: [] });
+  equal((await vitals(ann)).length, 0);
+});
+
+Deno.test('backdated readings are scored but raise no alerts', async () => {
+  const { server, token, ann, post, vitals, alerts } = await setup();
+  // Out of range on their own, and rising across four readings
+  const readings = [[-240, 120], [-180, 130], [-120, 140], [-60, 150]].map(([minutes, heartRate]) => ({
+    patientId: ann,
+    timestamp: at(minutes),
+    heartRate,
+    oxygenLevel: 84,
+  }));
+  equal((await post({ readings })).status, 201);
+  deepStrictEqual((await vitals(ann)).map((v) => v.status), ['abnormal', 'abnormal', 'abnormal', 'abnormal']);
+  deepStrictEqual(await alerts(ann), []);
+
+  // The same reading taken now does raise them
+  const json = { patientId: ann, heartRate: 160, oxygenLevel: 84 };
+  const { vital } = await (await server.request('/vitals', { method: 'POST', token, json })).json();
+  const raised = await alerts(ann);
+  deepStrictEqual([...new Set(raised.map((alert) => alert.vitalId))], [vital.id]);
+  equal(raised.some((alert) => alert.ruleId === 'heart-rate-rising'), true);
+});
+
+Deno.test('imported readings are not announced as live readings', async () => {
+  const { kv, ann, server, token } = await setup();
+  const { user } = await (await server.request('/me', { token })).json();
+  const events: LiveEvent[] = [];
+  const bus = createEventBus();
+  bus.subscribe((event) => events.push(event));
+  const deps = { kv, auth: createLocalAuth(kv), repo: createRepository(kv), events: bus, now: () => new Date(NOW) };
+
+  const readings = [{ patientId: ann, timestamp: at(-30), heartRate: 150 }];
+  const report = await importReadingRows(deps, user, { readings });
+  equal(report.created, 1);
+  equal(events.length, 0);
+
+  // Unlike a reading recorded as it is taken
+  const patient = (await deps.repo.getPatient(ann))!;
+  const { vital } = await recordVital(deps, patient, parseVitalInput({ heartRate: 150 }), user.id);
+  deepStrictEqual(events.filter((event) => event.type === 'vital'), [{ type: 'vital', patientId: ann, vital }]);
+});
@@ -0,0 +1,279 @@
+import type {
+  Alert,
+  AlertPolicy,
+  AlertSeverity,
+  Device,
+  EscalationPolicy,
+  IngestKey,
+  Patient,
+  RuleSet,
+  UnitPreferences,
+  UserProfile,
+  UserRole,
+  VitalReading,
+} from '../_shared/types.tsx';
+import { alertState } from '../_shared/alert_lifecycle.tsx';
+import type { Hl7MessageStatus, Hl7OutboundMessage } from './hl7_feed.tsx';
+import type { VitalRollup } from './rollups.tsx';
+import { createCollection, type KvStore } from './storage/index.tsx';
+
+export const keys = {
+  user: (id: string) => `user:${id}`,
+  patient: (id: string) => `patient:${id}`,
+  // Version number of the rule set alerts are evaluated against
+  activeRules: () => 'rules:active',
+  alertPolicy: () => 'alerts:policy',
+  escalationPolicy: () => 'alerts:escalation',
+  organisationUnits: () => 'units:organisation',
+  userUnits: (userId: string) => `units:user:${userId}`,
+};
+
+export interface VitalQuery {
+  since?: string;
+  until?: string;
+  limit?: number;
+  offset?: number;
+  // Oldest first instead of the default newest first
+  ascending?: boolean;
+}
+
+export interface AlertQuery {
+  patientId?: string;
+  severity?: AlertSeverity;
+  unacknowledged?: boolean;
+  // true for resolved alerts only, false for every other state
+  resolved?: boolean;
+  since?: string;
+  until?: string;
+  limit?: number;
+  offset?: number;
+}
+
+// Typed access to the records the server keeps in the key-value store.
+// Vitals are keyed vital:{patientId}:{timestamp}:{id} so a patient's history
+// is one ordered range; alerts are indexed by patient, severity and status.
+// Rollups are keyed rollup:{patientId}:{resolution}:{bucket}.
+export function createRepository(kv: KvStore) {
+  const vitals = createCollection<VitalReading>(kv, {
+    name: 'vital',
+    key: (v) => [v.patientId, v.timestamp, v.id],
+    indexes: {
+      id: (v) => [v.id],
+      time: (v) => [v.timestamp],
+      // Device-sourced readings by the id their sender gave them
+      deviceReading: (v) => (v.device?.readingId ? [v.device.deviceId, v.device.readingId] : null),
+    },
+  });
+
+  const alerts = createCollection<Alert>(kv, {
+    name: 'alert',
+    key: (a) => [a.id],
+    indexes: {
+      time: (a) => [a.timestamp],
+      patient: (a) => [a.patientId, a.timestamp],
+      severity: (a) => [a.severity, a.timestamp],
+      open: (a) => (a.acknowledged ? null : [a.timestamp]),
+      unresolved: (a) => (alertState(a) === 'resolved' ? null : [a.timestamp]),
+      // Unacknowledged alerts by when their next escalation tier is due
+      escalation: (a) => (!a.acknowledged && a.escalation?.nextAt ? [a.escalation.nextAt] : null),
+    },
+  });
+
+  const ingestKeys = createCollection<IngestKey>(kv, {
+    name: 'ingestkey',
+    key: (k) => [k.id],
+    indexes: {
+      hash: (k) => [k.keyHash],
+    },
+  });
+
+  const devices = createCollection<Device>(kv, {
+    name: 'device',
+    key: (d) => [d.id],
+    indexes: {
+      patient: (d) => (d.patientId ? [d.patientId] : null),
+    },
+  });
+
+  const rollups = createCollection<VitalRollup>(kv, {
+    name: 'rollup',
+    key: (r) => [r.patientId, r.resolution, r.bucket],
+  });
+
+  // The outbound HL7 feed's queue, oldest first within each status
+  const hl7Messages = createCollection<Hl7OutboundMessage>(kv, {
+    name: 'hl7out',
+    key: (m) => [m.id],
+    indexes: {
+      status: (m) => [m.status, m.createdAt],
+      vital: (m) => [m.vitalId, m.createdAt],
+    },
+  });
+
+  // Zero-padded so versions sort numerically
+  const ruleSets = createCollection<RuleSet>(kv, {
+    name: 'ruleset',
+    key: (r) => [String(r.version).padStart(6, '0')],
+  });
+
+  const listVitals = (patientId: string, query: VitalQuery = {}) =>
+    vitals.query({
+      prefix: [patientId],
+      from: query.since,
+      to: query.until,
+      limit: query.limit,
+      offset: query.offset,
+      reverse: !query.ascending,
+    });
+
+  // Uses the most selective index for the filters given; any remaining
+  // filters are applied after the scan, before limit and offset.
+  const listAlerts = async (query: AlertQuery = {}) => {
+    const { patientId, severity, unacknowledged, resolved, since, until, limit, offset } = query;
+    const range = { from: since, to: until, reverse: true };
+
+    let index = 'time';
+    let prefix: string[] = [];
+    const filters: ((a: Alert) => boolean)[] = [];
+    if (patientId) {
+      index = 'patient';
+      prefix = [patientId];
+      if (severity) filters.push((a) => a.severity === severity);
+      if (unacknowledged) filters.push((a) => !a.acknowledged);
+    } else if (unacknowledged) {
+      index = 'open';
+      if (severity) filters.push((a) => a.severity === severity);
+    } else if (resolved === false) {
+      index = 'unresolved';
+      if (severity) filters.push((a) => a.severity === severity);
+    } else if (severity) {
+      index = 'severity';
+      prefix = [severity];
+    }
+    if (resolved !== undefined && index !== 'unresolved') {
+      filters.push((a) => (alertState(a) === 'resolved') === resolved);
+    }
+
+    if (filters.length === 0) {
+      return alerts.queryIndex(index, { ...range, prefix, limit, offset });
+    }
+    const matches = (await alerts.queryIndex(index, { ...range, prefix }))
+      .filter((a) => filters.every((f) => f(a)));
+    const start = offset ?? 0;
+    return matches.slice(start, limit !== undefined ? start + limit : undefined);
+  };
+
+  return {
+    getUser: async (id: string): Promise<UserProfile | null> => (await kv.get(keys.user(id))) ?? null,
+    saveUser: (user: UserProfile) => kv.set(keys.user(user.id), user),
+    listUsers: async (role?: UserRole): Promise<UserProfile[]> => {
+      const users: UserProfile[] = await kv.getByPrefix('user:');
+      return users.filter((u) => !role || u.role === role).sort((a, b) => a.name.localeCompare(b.name));
+    },
+
+    getPatient: async (id: string): Promise<Patient | null> => (await kv.get(keys.patient(id))) ?? null,
+    savePatient: (patient: Patient) => kv.set(keys.patient(patient.id), patient),
+    listPatients: async (): Promise<Patient[]> => {
+      const patients: Patient[] = await kv.getByPrefix('patient:');
+      return patients.sort((a, b) => a.name.localeCompare(b.name));
+    },
+    deletePatient: async (id: string) => {
+      await vitals.remove(await listVitals(id));
+      await alerts.remove(await listAlerts({ patientId: id }));
+      await kv.del(keys.patient(id));
+    },
+
+    getVital: async (patientId: string, id: string): Promise<VitalReading | null> => {
+      const vital = await vitals.findOne('id', [id]);
+      return vital?.patientId === patientId ? vital : null;
+    },
+    // Any patient's reading; callers check access to the patient
+    findVital: (id: string): Promise<VitalReading | null> => vitals.findOne('id', [id]),
+    findDeviceReading: (deviceId: string, readingId: string): Promise<VitalReading | null> =>
+      vitals.findOne('deviceReading', [deviceId, readingId]),
+    saveVital: (vital: VitalReading) => vitals.put(vital),
+    saveVitals: (records: VitalReading[]) => vitals.putMany(records),
+    deleteVital: async (patientId: string, id: string) => {
+      const vital = await vitals.findOne('id', [id]);
+      if (vital?.patientId === patientId) {
+        await vitals.remove([vital]);
+      }
+    },
+    deleteVitals: (records: VitalReading[]) => vitals.remove(records),
+    listVitals,
+    listAllVitals: (query: { since?: string; until?: string } = {}) =>
+      vitals.queryIndex('time', { from: query.since, to: query.until, reverse: true }),
+
+    getAlert: (id: string): Promise<Alert | null> => alerts.get([id]),
+    saveAlert: (alert: Alert) => alerts.put(alert),
+    saveAlerts: (records: Alert[]) => alerts.putMany(records),
+    deleteAlert: async (id: string) => {
+      const alert = await alerts.get([id]);
+      if (alert) {
+        await alerts.remove([alert]);
+      }
+    },
+    listAlerts,
+    // Alerts whose next escalation tier is due before the given time
+    listDueEscalations: (before: string) => alerts.queryIndex('escalation', { to: before }),
+    getAlertPolicy: async (): Promise<AlertPolicy | null> => (await kv.get(keys.alertPolicy())) ?? null,
+    saveAlertPolicy: (policy: AlertPolicy) => kv.set(keys.alertPolicy(), policy),
+    getEscalationPolicy: async (): Promise<EscalationPolicy | null> => (await kv.get(keys.escalationPolicy())) ?? null,
+    saveEscalationPolicy: (policy: EscalationPolicy) => kv.set(keys.escalationPolicy(), policy),
+    getOrganisationUnits: async (): Promise<Partial<UnitPreferences> | null> => (await kv.get(keys.organisationUnits())) ?? null,
+    saveOrganisationUnits: (units: UnitPreferences) => kv.set(keys.organisationUnits(), units),
+    getUserUnits: async (userId: string): Promise<Partial<UnitPreferences> | null> => (await kv.get(keys.userUnits(userId))) ?? null,
+    saveUserUnits: (userId: string, units: Partial<UnitPreferences>) => kv.set(keys.userUnits(userId), units),
+
+    listIngestKeys: () => ingestKeys.query(),
+    getIngestKey: (id: string): Promise<IngestKey | null> => ingestKeys.get([id]),
+    findIngestKey: (keyHash: string): Promise<IngestKey | null> => ingestKeys.findOne('hash', [keyHash]),
+    saveIngestKey: (key: IngestKey) => ingestKeys.put(key),
+
+    listDevices: () => devices.query(),
+    listPatientDevices: (patientId: string) => devices.queryIndex('patient', { prefix: [patientId] }),
+    // Only paired devices are watched for heartbeats and battery
+    listPairedDevices: () => devices.queryIndex('patient'),
+    getDevice: (id: string): Promise<Device | null> => devices.get([id]),
+    saveDevice: (device: Device) => devices.put(device),
+
+    getRollup: (patientId: string, resolution: VitalRollup['resolution'], bucket: string): Promise<VitalRollup | null> =>
+      rollups.get([patientId, resolution, bucket]),
+    saveRollups: (records: VitalRollup[]) => rollups.putMany(records),
+    deleteRollups: (records: VitalRollup[]) => rollups.remove(records),
+    // Oldest first; since/until bound the bucket start
+    listRollups: (
+      patientId: string,
+      resolution: VitalRollup['resolution'],
+      query: { since?: string; until?: string } = {},
+    ) => rollups.query({ prefix: [patientId, resolution], from: query.since, to: query.until }),
+
+    getRuleSet: (version: number): Promise<RuleSet | null> => ruleSets.get([String(version).padStart(6, '0')]),
+    saveRuleSet: (ruleSet: RuleSet) => ruleSets.put(ruleSet),
+    // Newest first
+    listRuleSets: () => ruleSets.query({ reverse: true }),
+    getActiveRuleVersion: async (): Promise<number | null> => (await kv.get(keys.activeRules())) ?? null,
+    setActiveRuleVersion: (version: number) => kv.set(keys.activeRules(), version),
+
+    getHl7Message: (id: string): Promise<Hl7OutboundMessage | null> => hl7Messages.get([id]),
+    saveHl7Message: (message: Hl7OutboundMessage) => hl7Messages.put(message),
+    deleteHl7Messages: (records: Hl7OutboundMessage[]) => hl7Messages.remove(records),
+    // until bounds when the message was queued
+    listHl7Messages: (status: Hl7MessageStatus, query: { until?: string; limit?: number } = {}) =>
+      hl7Messages.queryIndex('status', { prefix: [status], to: query.until, limit: query.limit }),
+    // The last message queued for a reading
+    findLatestHl7Message: async (vitalId: string): Promise<Hl7OutboundMessage | null> =>
+      (await hl7Messages.queryIndex('vital', { prefix: [vitalId], reverse: true, limit: 1 }))[0] ?? null,
+
+    // Rebuilds secondary indexes from the stored records
+    reindex: async () => ({
+      vitals: await vitals.reindex(),
+      alerts: await alerts.reindex(),
+      ingestKeys: await ingestKeys.reindex(),
+      devices: await devices.reindex(),
+      hl7Messages: await hl7Messages.reindex(),
+    }),
+  };
+}
+
+export type Repository = ReturnType<typeof createRepository>;
@@ -0,0 +1,304 @@
+import { readingMetrics } from './alert_rules.tsx';
+import type { AppDeps } from './context.tsx';
+import type {
+  AnalyticsSeries,
+  MetricSummary,
+  RollupResolution,
+  SeriesPoint,
+  VitalMetric,
+  VitalReading,
+} from '../_shared/types.tsx';
+
+// Series key for rollups across every patient, used by the doctor reports.
+export const ALL_PATIENTS = '_all';
+
+// Histogram bin width per metric; percentiles are exact to this resolution.
+const BIN_WIDTH: Record<VitalMetric, number> = {
+  heartRate: 1,
+  systolic: 1,
+  diastolic: 1,
+  oxygenLevel: 0.5,
+  temperature: 0.1,
+};
+
+export interface MetricRollup extends MetricSummary {
+  sum: number;
+  // Sparse histogram of bin lower bound -> count, used for percentiles
+  histogram: Record<string, number>;
+}
+
+export interface VitalRollup {
+  patientId: string;
+  resolution: 'hour' | 'day';
+  bucket: string;
+  readings: number;
+  abnormalReadings: number;
+  metrics: Partial<Record<VitalMetric, MetricRollup>>;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Start of the UTC hour, day or ISO week (Monday) containing the timestamp.
+export function bucketStart(timestamp: string, resolution: RollupResolution): string {
+  const date = new Date(timestamp);
+  if (resolution === 'hour') {
+    date.setUTCMinutes(0, 0, 0);
+  } else {
+    date.setUTCHours(0, 0, 0, 0);
+    if (resolution === 'week') {
+      date.setUTCDate(date.getUTCDate() - ((date.getUTCDay() + 6) % 7));
+    }
+  }
+  return date.toISOString();
+}
+
+const bucketEnd = (bucket: string, resolution: 'hour' | 'day') =>
+  new Date(new Date(bucket).getTime() + (resolution === 'hour' ? HOUR_MS : DAY_MS)).toISOString();
+
+const binOf = (metric: VitalMetric, value: number) => {
+  const width = BIN_WIDTH[metric];
+  return (Math.floor(value / width + 1e-9) * width).toFixed(width < 1 ? 1 : 0);
+};
+
+const percentile = (histogram: Record<string, number>, count: number, p: number) => {
+  const bins = Object.entries(histogram)
+    .map(([bin, n]) => [Number(bin), n] as const)
+    .sort((a, b) => a[0] - b[0]);
+  const rank = Math.max(1, Math.ceil((p / 100) * count));
+  let seen = 0;
+  for (const [bin, n] of bins) {
+    seen += n;
+    if (seen >= rank) return bin;
+  }
+  return bins[bins.length - 1]?.[0] ?? 0;
+};
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+const summarize = (rollup: Omit<MetricRollup, 'mean' | 'p5' | 'p95'>): MetricRollup => ({
+  ...rollup,
+  mean: round(rollup.sum / rollup.count),
+  p5: percentile(rollup.histogram, rollup.count, 5),
+  p95: percentile(rollup.histogram, rollup.count, 95),
+});
+
+const addValue = (metric: VitalMetric, rollup: MetricRollup | undefined, value: number): MetricRollup => {
+  const histogram = { ...(rollup?.histogram ?? {}) };
+  const bin = binOf(metric, value);
+  histogram[bin] = (histogram[bin] ?? 0) + 1;
+  return summarize({
+    count: (rollup?.count ?? 0) + 1,
+    min: Math.min(rollup?.min ?? value, value),
+    max: Math.max(rollup?.max ?? value, value),
+    sum: (rollup?.sum ?? 0) + value,
+    histogram,
+  });
+};
+
+const mergeMetric = (a: MetricRollup | undefined, b: MetricRollup): MetricRollup => {
+  if (!a) return b;
+  const histogram = { ...a.histogram };
+  Object.entries(b.histogram).forEach(([bin, count]) => {
+    histogram[bin] = (histogram[bin] ?? 0) + count;
+  });
+  return summarize({
+    count: a.count + b.count,
+    min: Math.min(a.min, b.min),
+    max: Math.max(a.max, b.max),
+    sum: a.sum + b.sum,
+    histogram,
+  });
+};
+
+export function addReading(rollup: VitalRollup, vital: VitalReading): VitalRollup {
+  const metrics = { ...rollup.metrics };
+  Object.entries(readingMetrics(vital)).forEach(([metric, value]) => {
+    metrics[metric as VitalMetric] = addValue(metric as VitalMetric, metrics[metric as VitalMetric], value!);
+  });
+  return {
+    ...rollup,
+    readings: rollup.readings + 1,
+    abnormalReadings: rollup.abnormalReadings + (vital.status === 'abnormal' ? 1 : 0),
+    metrics,
+  };
+}
+
+const emptyRollup = (patientId: string, resolution: 'hour' | 'day', bucket: string): VitalRollup => ({
+  patientId,
+  resolution,
+  bucket,
+  readings: 0,
+  abnormalReadings: 0,
+  metrics: {},
+});
+
+const targets = (vital: VitalReading) =>
+  [vital.patientId, ALL_PATIENTS].flatMap((patientId) =>
+    (['hour', 'day'] as const).map((resolution) => ({
+      patientId,
+      resolution,
+      bucket: bucketStart(vital.timestamp, resolution),
+    }))
+  );
+
+// Updates read a bucket, change it and write it back, and every reading
+// lands in the shared all-patients buckets, so two updates running at once
+// would lose counts and min/max. They run one at a time per store instead.
+// Separate server instances (edge isolates) can still interleave; what that
+// loses is put right by POST /admin/rollups/backfill, which rebuilds buckets
+// from the readings themselves.
+const pending = new WeakMap<AppDeps['kv'], Promise<unknown>>();
+
+function serialized<T>(deps: AppDeps, update: () => Promise<T>): Promise<T> {
+  const run = (pending.get(deps.kv) ?? Promise.resolve()).then(update);
+  pending.set(deps.kv, run.catch(() => {}));
+  return run;
+}
+
+// Folds newly recorded readings into their hourly and daily buckets, for
+// the patient and for the all-patients series.
+export function updateRollups(deps: AppDeps, vitals: VitalReading[]) {
+  return serialized(deps, () => foldReadings(deps, vitals));
+}
+
+async function foldReadings(deps: AppDeps, vitals: VitalReading[]) {
+  const updated = new Map<string, VitalRollup>();
+  for (const vital of vitals) {
+    for (const { patientId, resolution, bucket } of targets(vital)) {
+      const id = `${patientId}:${resolution}:${bucket}`;
+      const current = updated.get(id) ??
+        (await deps.repo.getRollup(patientId, resolution, bucket)) ??
+        emptyRollup(patientId, resolution, bucket);
+      updated.set(id, addReading(current, vital));
+    }
+  }
+  await deps.repo.saveRollups(Array.from(updated.values()));
+}
+
+// Recomputes the buckets containing the given timestamps from the stored
+// readings, one day at a time. Used after readings are corrected or deleted.
+export function refreshRollups(deps: AppDeps, patientId: string, timestamps: string[]) {
+  return serialized(deps, () => rebuildBuckets(deps, patientId, timestamps));
+}
+
+async function rebuildBuckets(deps: AppDeps, patientId: string, timestamps: string[]) {
+  const days = new Map<string, Set<string>>();
+  timestamps.forEach((timestamp) => {
+    const day = bucketStart(timestamp, 'day');
+    days.set(day, (days.get(day) ?? new Set()).add(bucketStart(timestamp, 'hour')));
+  });
+
+  const rebuilt: VitalRollup[] = [];
+  const stale: VitalRollup[] = [];
+  for (const [day, hours] of days) {
+    for (const series of [patientId, ALL_PATIENTS]) {
+      const range = { since: day, until: bucketEnd(day, 'day') };
+      const readings = series === ALL_PATIENTS
+        ? await deps.repo.listAllVitals(range)
+        : await deps.repo.listVitals(series, range);
+
+      let daily = emptyRollup(series, 'day', day);
+      const hourly = new Map(Array.from(hours, (hour) => [hour, emptyRollup(series, 'hour', hour)]));
+      readings.forEach((vital) => {
+        daily = addReading(daily, vital);
+        const hour = bucketStart(vital.timestamp, 'hour');
+        if (hourly.has(hour)) hourly.set(hour, addReading(hourly.get(hour)!, vital));
+      });
+      [daily, ...hourly.values()].forEach((rollup) => (rollup.readings > 0 ? rebuilt : stale).push(rollup));
+    }
+  }
+
+  await deps.repo.saveRollups(rebuilt);
+  await deps.repo.deleteRollups(stale);
+}
+
+// Rebuilds every rollup from the raw readings, optionally limited to a time
+// range widened to whole days. Returns the number of readings processed.
+export function backfillRollups(deps: AppDeps, range: { since?: string; until?: string } = {}) {
+  return serialized(deps, () => rebuildRange(deps, range));
+}
+
+async function rebuildRange(deps: AppDeps, { since, until }: { since?: string; until?: string }) {
+  const range = {
+    since: since && bucketStart(since, 'day'),
+    until: until && (until === bucketStart(until, 'day') ? until : bucketEnd(bucketStart(until, 'day'), 'day')),
+  };
+  const vitals = await deps.repo.listAllVitals(range);
+  const rollups = new Map<string, VitalRollup>();
+  for (const vital of vitals) {
+    for (const { patientId, resolution, bucket } of targets(vital)) {
+      const id = `${patientId}:${resolution}:${bucket}`;
+      rollups.set(id, addReading(rollups.get(id) ?? emptyRollup(patientId, resolution, bucket), vital));
+    }
+  }
+
+  // Buckets in range with no readings left are dropped
+  const existing = [
+    ...(await deps.repo.listRollups(ALL_PATIENTS, 'hour', range)),
+    ...(await deps.repo.listRollups(ALL_PATIENTS, 'day', range)),
+  ];
+  const patientIds = new Set((await deps.repo.listPatients()).map((p) => p.id));
+  for (const patientId of patientIds) {
+    existing.push(...(await deps.repo.listRollups(patientId, 'hour', range)));
+    existing.push(...(await deps.repo.listRollups(patientId, 'day', range)));
+  }
+  await deps.repo.deleteRollups(
+    existing.filter((r) => !rollups.has(`${r.patientId}:${r.resolution}:${r.bucket}`)),
+  );
+  await deps.repo.saveRollups(Array.from(rollups.values()));
+  return vitals.length;
+}
+
+const toPoint = (rollup: Pick<VitalRollup, 'bucket' | 'readings' | 'abnormalReadings' | 'metrics'>): SeriesPoint => ({
+  bucket: rollup.bucket,
+  readings: rollup.readings,
+  abnormalReadings: rollup.abnormalReadings,
+  metrics: Object.fromEntries(
+    Object.entries(rollup.metrics).map(([metric, { count, min, max, mean, p5, p95 }]) => [
+      metric,
+      { count, min, max, mean, p5, p95 },
+    ]),
+  ),
+});
+
+// Loads a series for the range, merging daily buckets into weeks when asked.
+export async function loadSeries(
+  deps: AppDeps,
+  patientId: string,
+  resolution: RollupResolution,
+  range: { since: string; until?: string },
+): Promise<AnalyticsSeries & { totals: Omit<SeriesPoint, 'bucket'> }> {
+  const source = resolution === 'hour' ? 'hour' : 'day';
+  const rollups = await deps.repo.listRollups(patientId, source, {
+    since: bucketStart(range.since, source),
+    until: range.until,
+  });
+
+  const merge = (a: VitalRollup, b: VitalRollup): VitalRollup => {
+    const metrics = { ...a.metrics };
+    Object.entries(b.metrics).forEach(([metric, rollup]) => {
+      metrics[metric as VitalMetric] = mergeMetric(metrics[metric as VitalMetric], rollup);
+    });
+    return {
+      ...a,
+      readings: a.readings + b.readings,
+      abnormalReadings: a.abnormalReadings + b.abnormalReadings,
+      metrics,
+    };
+  };
+
+  let buckets = rollups;
+  if (resolution === 'week') {
+    const weeks = new Map<string, VitalRollup>();
+    rollups.forEach((rollup) => {
+      const week = bucketStart(rollup.bucket, 'week');
+      const current = weeks.get(week);
+      weeks.set(week, current ? merge(current, rollup) : { ...rollup, bucket: week });
+    });
+    buckets = Array.from(weeks.values());
+  }
+
+  const totals = rollups.reduce(merge, emptyRollup(patientId, source, range.since));
+  return { resolution, points: buckets.map(toPoint), totals: toPoint(totals) };
+}
@@ -0,0 +1,282 @@
+// Run with `deno test --allow-env supabase/functions/server/rollups_test.tsx`.
+// The series served by /analytics are checked against aggregates computed
+// straight from the readings, with readings placed either side of hour, day
+// and week boundaries.
+
+import { deepStrictEqual, equal } from 'node:assert/strict';
+import { addReading, bucketStart, type VitalRollup } from './rollups.tsx';
+import { readingMetrics } from './alert_rules.tsx';
+import { createLocalServer } from './local.tsx';
+import { createRepository } from './repository.tsx';
+import type {
+  AnalyticsPeriod,
+  AnalyticsResult,
+  MetricSummary,
+  RollupResolution,
+  SeriesPoint,
+  VitalMetric,
+  VitalReading,
+} from '../_shared/types.tsx';
+
+// A Monday
+const NOW = new Date('2026-10-19T12:00:00.000Z');
+
+Deno.test('buckets start at the UTC hour, day and Monday of the ISO week', () => {
+  const cases: [string, RollupResolution, string][] = [
+    ['2026-10-19T10:59:59.999Z', 'hour', '2026-10-19T10:00:00.000Z'],
+    ['2026-10-19T11:00:00.000Z', 'hour', '2026-10-19T11:00:00.000Z'],
+    ['2026-10-18T23:59:59.999Z', 'day', '2026-10-18T00:00:00.000Z'],
+    ['2026-10-19T00:00:00.000Z', 'day', '2026-10-19T00:00:00.000Z'],
+    // Sunday belongs to the week that started the Monday before
+    ['2026-10-18T23:59:59.999Z', 'week', '2026-10-12T00:00:00.000Z'],
+    ['2026-10-19T00:00:00.000Z', 'week', '2026-10-19T00:00:00.000Z'],
+    ['2026-10-21T15:30:00.000Z', 'week', '2026-10-19T00:00:00.000Z'],
+    // Weeks run across month and year ends
+    ['2027-01-01T08:00:00.000Z', 'week', '2026-12-28T00:00:00.000Z'],
+    // Offsets are converted to UTC first
+    ['2026-10-19T01:30:00.000+02:00', 'day', '2026-10-18T00:00:00.000Z'],
+  ];
+  for (const [timestamp, resolution, bucket] of cases) {
+    equal(bucketStart(timestamp, resolution), bucket, `${resolution} of ${timestamp}`);
+  }
+});
+
+const reading = (vitals: Partial<VitalReading>): VitalReading => ({
+  id: crypto.randomUUID(),
+  patientId: 'patient-1',
+  status: 'normal',
+  timestamp: '2026-10-19T10:00:00.000Z',
+  recordedBy: 'nurse-1',
+  ...vitals,
+});
+
+const fold = (vitals: VitalReading[]) =>
+  vitals.reduce(addReading, {
+    patientId: 'patient-1',
+    resolution: 'hour',
+    bucket: '2026-10-19T10:00:00.000Z',
+    readings: 0,
+    abnormalReadings: 0,
+    metrics: {},
+  } as VitalRollup);
+
+Deno.test('percentiles are the nearest-rank value, read from the histogram bins', () => {
+  const rollup = fold(Array.from({ length: 100 }, (_, i) => reading({ heartRate: 100 - i })));
+  const { histogram, ...summary } = rollup.metrics.heartRate!;
+  deepStrictEqual(summary, { count: 100, min: 1, max: 100, sum: 5050, mean: 50.5, p5: 5, p95: 95 });
+  equal(Object.keys(histogram).length, 100);
+
+  // Skewed: 19 readings of 60 and one of 140 leave the 95th percentile at 60
+  const skewed = fold([...Array.from({ length: 19 }, () => reading({ heartRate: 60 })), reading({ heartRate: 140 })]);
+  deepStrictEqual([skewed.metrics.heartRate!.p5, skewed.metrics.heartRate!.p95], [60, 60]);
+  const single = fold([reading({ heartRate: 72 })]);
+  deepStrictEqual([single.metrics.heartRate!.p5, single.metrics.heartRate!.p95], [72, 72]);
+});
+
+Deno.test('values are binned to each metric resolution, with exact mean, min and max', () => {
+  const rollup = fold([
+    reading({ temperature: 36.55, oxygenLevel: 97.7, bloodPressure: '121/79', status: 'abnormal' }),
+    reading({ temperature: 37.3, oxygenLevel: 94.2 }),
+    reading({ temperature: 36.6 }),
+  ]);
+  equal(rollup.readings, 3);
+  equal(rollup.abnormalReadings, 1);
+  deepStrictEqual(rollup.metrics.temperature!.histogram, { '36.5': 1, '37.3': 1, '36.6': 1 });
+  deepStrictEqual(rollup.metrics.oxygenLevel!.histogram, { '97.5': 1, '94.0': 1 });
+  deepStrictEqual(rollup.metrics.systolic!.histogram, { '121': 1 });
+  deepStrictEqual(rollup.metrics.diastolic!.histogram, { '79': 1 });
+  const { histogram: _, ...temperature } = rollup.metrics.temperature!;
+  deepStrictEqual(temperature, {
+    count: 3,
+    min: 36.55,
+    max: 37.3,
+    sum: 36.55 + 37.3 + 36.6,
+    mean: 36.8,
+    p5: 36.5,
+    p95: 37.3,
+  });
+});
+
+// What a bucket should hold, computed from the raw readings
+const summarize = (values: number[]): MetricSummary => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = (p: number) => sorted[Math.max(1, Math.ceil((p / 100) * sorted.length)) - 1];
+  const sum = values.reduce((total, value) => total + value, 0);
+  return {
+    count: values.length,
+    min: sorted[0],
+    max: sorted[sorted.length - 1],
+    mean: Math.round((sum / values.length) * 10) / 10,
+    p5: rank(5),
+    p95: rank(95),
+  };
+};
+
+const aggregate = (vitals: VitalReading[], resolution: RollupResolution): SeriesPoint[] => {
+  const buckets = new Map<string, VitalReading[]>();
+  for (const vital of vitals) {
+    const bucket = bucketStart(vital.timestamp, resolution);
+    buckets.set(bucket, [...(buckets.get(bucket) ?? []), vital]);
+  }
+  return [...buckets.keys()].sort().map((bucket) => {
+    const readings = buckets.get(bucket)!;
+    const values = new Map<VitalMetric, number[]>();
+    readings.forEach((vital) =>
+      Object.entries(readingMetrics(vital)).forEach(([metric, value]) =>
+        values.set(metric as VitalMetric, [...(values.get(metric as VitalMetric) ?? []), value!])
+      )
+    );
+    return {
+      bucket,
+      readings: readings.length,
+      abnormalReadings: readings.filter((vital) => vital.status === 'abnormal').length,
+      metrics: Object.fromEntries([...values].map(([metric, v]) => [metric, summarize(v)])),
+    };
+  });
+};
+
+// Readings around the Sunday to Monday boundary before NOW, several to an
+// hour, and one the week before. Whole numbers, so every bin is exact.
+const READINGS: [string, Record<string, unknown>][] = [
+  ['2026-10-11T23:59:00.000Z', { heartRate: 64, oxygenLevel: 97 }],
+  ['2026-10-12T00:00:00.000Z', { heartRate: 66 }],
+  ['2026-10-17T09:10:00.000Z', { heartRate: 70, bloodPressure: '150/95' }],
+  ['2026-10-18T23:00:00.000Z', { heartRate: 88, oxygenLevel: 95 }],
+  ['2026-10-18T23:30:00.000Z', { heartRate: 104, oxygenLevel: 93 }],
+  ['2026-10-18T23:59:59.999Z', { heartRate: 112, oxygenLevel: 92 }],
+  ['2026-10-19T00:00:00.000Z', { heartRate: 97, oxygenLevel: 94 }],
+  ['2026-10-19T00:20:00.000Z', { heartRate: 81, bloodPressure: '128/84' }],
+  ['2026-10-19T00:59:59.999Z', { heartRate: 76, oxygenLevel: 98 }],
+  ['2026-10-19T01:00:00.000Z', { heartRate: 74, oxygenLevel: 99 }],
+  ...[62, 91, 58, 73, 125, 80, 69, 77, 84, 71].map((heartRate, i): [string, Record<string, unknown>] => [
+    `2026-10-19T10:${String(i * 5).padStart(2, '0')}:00.000Z`,
+    { heartRate, oxygenLevel: 90 + i },
+  ]),
+];
+
+async function setup() {
+  const server = createLocalServer({ now: () => NOW });
+  const signup = (email: string, name: string, role: string) =>
+    server.request('/signup', { method: 'POST', json: { email, password: 'secret1', name, role } });
+  await signup('doctor@example.com', 'Dr Grey', 'doctor');
+  await signup('ann@example.com', 'Ann Lee', 'patient');
+  await signup('bo@example.com', 'Bo Chan', 'patient');
+  const login = await server.request('/local/login', {
+    method: 'POST',
+    json: { email: 'doctor@example.com', password: 'secret1' },
+  });
+  const { accessToken: token } = await login.json();
+  const { patients } = await (await server.request('/patients', { token })).json();
+  const [ann, bo] = ['Ann Lee', 'Bo Chan'].map((name) => patients.find((p: { name: string }) => p.name === name).id);
+
+  const record = async (patientId: string, timestamp: string, vitals: Record<string, unknown>) => {
+    const json = { patientId, timestamp, ...vitals };
+    const response = await server.request('/vitals', { method: 'POST', token, json });
+    equal(response.status, 201);
+    return (await response.json()).vital as VitalReading;
+  };
+
+  const vitals = async (patientId: string): Promise<VitalReading[]> =>
+    (await (await server.request(`/vitals/patient/${patientId}?order=asc`, { token })).json()).vitals;
+
+  const analytics = async (path: string, period: AnalyticsPeriod): Promise<AnalyticsResult> =>
+    (await server.request(`/analytics${path}?period=${period}`, { token })).json();
+
+  // Compares each period's series with aggregates of the readings in it
+  const matchesRaw = async (path: string, readings: VitalReading[]) => {
+    for (const period of ['7days', '30days', '1year'] as const) {
+      const result = await analytics(path, period);
+      const since = bucketStart(result.from, result.series.resolution === 'hour' ? 'hour' : 'day');
+      const inPeriod = readings.filter((vital) => vital.timestamp >= since);
+      deepStrictEqual(result.series.points, aggregate(inPeriod, result.series.resolution), period);
+      equal(result.stats.totalReadings, inPeriod.length, period);
+      equal(result.stats.normalReadings, inPeriod.filter((vital) => vital.status === 'normal').length, period);
+      const heartRates = inPeriod.flatMap((vital) => vital.heartRate ?? []);
+      equal(result.stats.avgHeartRate, Math.round(heartRates.reduce((a, b) => a + b, 0) / heartRates.length), period);
+    }
+  };
+
+  return { server, token, ann, bo, record, vitals, analytics, matchesRaw };
+}
+
+Deno.test('hourly, daily and weekly series match the raw readings across bucket edges', async () => {
+  const { ann, bo, record, vitals, analytics, matchesRaw } = await setup();
+  for (const [timestamp, vitals] of READINGS) await record(ann, timestamp, vitals);
+  await record(bo, '2026-10-19T00:30:00.000Z', { heartRate: 150, oxygenLevel: 88 });
+  await record(bo, '2026-10-19T10:59:59.999Z', { heartRate: 55 });
+
+  const annReadings = await vitals(ann);
+  equal(annReadings.length, READINGS.length);
+  await matchesRaw(`/patient/${ann}`, annReadings);
+  await matchesRaw('', [...annReadings, ...await vitals(bo)]);
+
+  const overall = await analytics('', '7days');
+  equal(overall.stats.totalPatients, 2);
+  deepStrictEqual([overall.from, overall.to], ['2026-10-12T12:00:00.000Z', NOW.toISOString()]);
+
+  const { series } = await analytics(`/patient/${ann}`, '1year');
+  deepStrictEqual(series.points.map((point) => [point.bucket, point.readings]), [
+    ['2026-10-05T00:00:00.000Z', 1],
+    ['2026-10-12T00:00:00.000Z', 5],
+    ['2026-10-19T00:00:00.000Z', 14],
+  ]);
+});
+
+Deno.test('editing or deleting a reading rebuilds the buckets it was in', async () => {
+  const { server, token, ann, bo, record, vitals, analytics, matchesRaw } = await setup();
+  for (const [timestamp, vitals] of READINGS) await record(ann, timestamp, vitals);
+  await record(bo, '2026-10-19T10:20:00.000Z', { heartRate: 130 });
+
+  const [, , saturday, , , , firstOnMonday] = await vitals(ann);
+  const edited = await server.request(`/vitals/patient/${ann}/${firstOnMonday.id}`, {
+    method: 'PUT',
+    token,
+    json: { heartRate: 140, oxygenLevel: 84 },
+  });
+  equal(edited.status, 200);
+  equal((await edited.json()).vital.status, 'abnormal');
+  const deleted = await server.request(`/vitals/patient/${ann}/${saturday.id}`, { method: 'DELETE', token });
+  equal(deleted.status, 200);
+
+  const annReadings = await vitals(ann);
+  equal(annReadings.length, READINGS.length - 1);
+  await matchesRaw(`/patient/${ann}`, annReadings);
+  await matchesRaw('', [...annReadings, ...await vitals(bo)]);
+
+  // The hour and day that held only the deleted reading are gone, not left empty
+  const buckets = async (period: AnalyticsPeriod) =>
+    (await analytics(`/patient/${ann}`, period)).series.points.map((point) => point.bucket);
+  equal((await buckets('7days')).includes('2026-10-17T09:00:00.000Z'), false);
+  equal((await buckets('30days')).includes('2026-10-17T00:00:00.000Z'), false);
+});
+
+Deno.test('backfill rebuilds rollups for readings stored without them and drops emptied buckets', async () => {
+  const { server, token, ann, bo, record, vitals, analytics, matchesRaw } = await setup();
+  await record(bo, '2026-10-19T10:00:00.000Z', { heartRate: 72 });
+
+  // Written straight to the repository, as before rollups existed
+  const repo = createRepository(server.kv);
+  await repo.saveVitals(
+    READINGS.map(([timestamp, vitals]) => ({ ...reading(vitals as Partial<VitalReading>), patientId: ann, timestamp })),
+  );
+  deepStrictEqual((await analytics(`/patient/${ann}`, '1year')).series.points, []);
+
+  const backfill = (query = '') => server.request(`/admin/rollups/backfill${query}`, { method: 'POST', token });
+  deepStrictEqual(await (await backfill()).json(), { readings: READINGS.length + 1 });
+  const annReadings = await vitals(ann);
+  await matchesRaw(`/patient/${ann}`, annReadings);
+  await matchesRaw('', [...annReadings, ...await vitals(bo)]);
+
+  // Deleted without a refresh; a backfill of just that day, widened to whole
+  // days, puts the rollups right and drops the hour left without readings
+  const saturday = annReadings.find((vital) => vital.timestamp.startsWith('2026-10-17'))!;
+  await repo.deleteVital(ann, saturday.id);
+  equal((await analytics(`/patient/${ann}`, '7days')).series.points[0].bucket, '2026-10-17T09:00:00.000Z');
+  const response = await backfill('?from=2026-10-17T09:00:00.000Z&to=2026-10-17T10:00:00.000Z');
+  deepStrictEqual(await response.json(), { readings: 0 });
+
+  const remaining = await vitals(ann);
+  await matchesRaw(`/patient/${ann}`, remaining);
+  await matchesRaw('', [...remaining, ...await vitals(bo)]);
+  equal((await analytics(`/patient/${ann}`, '7days')).series.points[0].bucket, '2026-10-18T23:00:00.000Z');
+});
@@ -0,0 +1,72 @@
+import { Hono } from "npm:hono@4.6.14";
+import { HTTPException } from "npm:hono@4.6.14/http-exception";
+import { type AppDeps, type AppEnv, badRequest, readDate, requireRole, requireUser } from '../context.tsx';
+import { checkDevices } from '../devices.tsx';
+import { runDueEscalations } from '../escalation.tsx';
+import type { Hl7MessageStatus } from '../hl7_feed.tsx';
+import { backfillRollups } from '../rollups.tsx';
+
+export function adminRoutes(deps: AppDeps) {
+  const app = new Hono<AppEnv>();
+  app.use('*', requireUser(deps));
+
+  // Rebuilds the secondary indexes, e.g. after restoring a backup
+  app.post('/reindex', async (c) => {
+    requireRole(c.get('user'), 'doctor');
+    const counts = await deps.repo.reindex();
+    return c.json({ reindexed: counts });
+  });
+
+  // Recomputes the hourly and daily rollups from the stored readings, for
+  // data written before rollups existed or after a failed update
+  app.post('/rollups/backfill', async (c) => {
+    requireRole(c.get('user'), 'doctor');
+    const readings = await backfillRollups(deps, {
+      since: readDate(c.req.query('from'), 'from'),
+      until: readDate(c.req.query('to'), 'to'),
+    });
+    return c.json({ readings });
+  });
+
+  // Advances due alert escalations now, for deployments where the server's
+  // own timer does not run between requests
+  app.post('/escalations/run', async (c) => {
+    requireRole(c.get('user'), 'doctor');
+    return c.json({ escalated: await runDueEscalations(deps) });
+  });
+
+  // Checks paired devices for missed heartbeats and low batteries now
+  app.post('/devices/check', async (c) => {
+    requireRole(c.get('user'), 'doctor');
+    return c.json({ changed: await checkDevices(deps) });
+  });
+
+  // The outbound HL7 feed's queue: pending (the default), failed or sent
+  app.get('/hl7/messages', async (c) => {
+    requireRole(c.get('user'), 'doctor');
+    const status = (c.req.query('status') ?? 'pending') as Hl7MessageStatus;
+    if (!['pending', 'failed', 'sent'].includes(status)) {
+      throw badRequest('status must be pending, failed or sent');
+    }
+    return c.json({ messages: await deps.repo.listHl7Messages(status) });
+  });
+
+  // Queues a failed message again, e.g. once the receiver has been fixed.
+  // It goes to the back of the queue.
+  app.post('/hl7/messages/:id/retry', async (c) => {
+    requireRole(c.get('user'), 'doctor');
+    const message = await deps.repo.getHl7Message(c.req.param('id'));
+    if (!message) {
+      throw new HTTPException(404, { message: 'Message not found' });
+    }
+    if (message.status !== 'failed') {
+      throw badRequest('Only failed messages can be retried');
+    }
+    const now = deps.now().toISOString();
+    const queued = { ...message, status: 'pending' as const, attempts: 0, nextAttemptAt: now, createdAt: now };
+    await deps.repo.saveHl7Message(queued);
+    return c.json({ message: queued });
+  });
+
+  return app;
+}
@@ -0,0 +1,231 @@
+import { Hono } from "npm:hono@4.6.14";
+import { HTTPException } from "npm:hono@4.6.14/http-exception";
+import {
+  type AppDeps,
+  type AppEnv,
+  badRequest,
+  canAccessPatient,
+  loadAccessiblePatient,
+  readDate,
+  readJson,
+  readPaging,
+  requireRole,
+  requireUser,
+} from '../context.tsx';
+import { cancelEscalation } from '../escalation.tsx';
+import { publishAlerts } from '../events.tsx';
+import {
+  ALERT_OUTCOME_LABELS,
+  ALERT_STATE_LABELS,
+  alertState,
+  canTransition,
+  MAX_SNOOZE_MINUTES,
+} from '../../_shared/alert_lifecycle.tsx';
+import type { Alert, AlertStateChange, UserProfile } from '../../_shared/types.tsx';
+import type { AlertQuery } from '../repository.tsx';
+
+const readFilters = (query: (name: string) => string | undefined): AlertQuery => {
+  const severity = query('severity');
+  if (severity !== undefined && severity !== 'critical' && severity !== 'warning' && severity !== 'info') {
+    throw badRequest('severity must be critical, warning or info');
+  }
+  const status = query('status');
+  if (status !== undefined && status !== 'open' && status !== 'unresolved' && status !== 'resolved') {
+    throw badRequest('status must be open, unresolved or resolved');
+  }
+  return {
+    ...readPaging(query),
+    severity,
+    // Open means not yet acknowledged; unresolved includes acknowledged alerts
+    unacknowledged: status === 'open',
+    resolved: status === 'resolved' ? true : status === 'unresolved' ? false : undefined,
+    since: readDate(query('from'), 'from'),
+    until: readDate(query('to'), 'to'),
+  };
+};
+
+export function alertRoutes(deps: AppDeps) {
+  const app = new Hono<AppEnv>();
+  app.use('*', requireUser(deps));
+
+  // Doctors see every alert; patients and family see alerts for linked patients.
+  // Filters: severity, status (open, unresolved, resolved), from, to, limit, offset.
+  app.get('/', async (c) => {
+    const user = c.get('user');
+    const filters = readFilters((name) => c.req.query(name));
+    if (user.role === 'doctor') {
+      return c.json({ alerts: await deps.repo.listAlerts(filters) });
+    }
+
+    const patients = (await deps.repo.listPatients()).filter((p) => canAccessPatient(user, p));
+    const perPatient = await Promise.all(
+      patients.map((p) => deps.repo.listAlerts({ ...filters, patientId: p.id, limit: undefined, offset: undefined })),
+    );
+    const start = filters.offset ?? 0;
+    const alerts = perPatient.flat().sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+    return c.json({ alerts: alerts.slice(start, filters.limit !== undefined ? start + filters.limit : undefined) });
+  });
+
+  app.get('/patient/:patientId', async (c) => {
+    const patient = await loadAccessiblePatient(deps, c.get('user'), c.req.param('patientId'));
+    const filters = readFilters((name) => c.req.query(name));
+    const alerts = await deps.repo.listAlerts({ ...filters, patientId: patient.id });
+    return c.json({ alerts });
+  });
+
+  const loadAlert = async (user: UserProfile, id: string) => {
+    const alert = await deps.repo.getAlert(id);
+    if (!alert) {
+      throw new HTTPException(404, { message: 'Alert not found' });
+    }
+    await loadAccessiblePatient(deps, user, alert.patientId);
+    return alert;
+  };
+
+  const requireTransition = (alert: Alert, action: Parameters<typeof canTransition>[1]) => {
+    if (!canTransition(alert, action)) {
+      const state = ALERT_STATE_LABELS[alertState(alert)].toLowerCase();
+      throw new HTTPException(409, { message: `The alert is ${state} and cannot be ${action}` });
+    }
+  };
+
+  const record = (alert: Alert, change: AlertStateChange): Alert => ({
+    ...alert,
+    state: change.state,
+    history: [...(alert.history ?? []), change],
+  });
+
+  // Assigns the alert to a doctor, by default the one claiming it
+  app.post('/:id/claim', async (c) => {
+    const user = c.get('user');
+    requireRole(user, 'doctor');
+    const alert = await loadAlert(user, c.req.param('id'));
+    requireTransition(alert, 'claimed');
+    const { doctorId } = await readJson(c.req);
+
+    let assignee = user;
+    if (doctorId && doctorId !== user.id) {
+      const doctor = await deps.repo.getUser(doctorId);
+      if (!doctor || doctor.role !== 'doctor') {
+        throw badRequest('Doctor not found');
+      }
+      assignee = doctor;
+    }
+
+    const at = deps.now().toISOString();
+    const updated = record({ ...alert, claimedBy: assignee.id, claimedAt: at }, {
+      action: 'claimed',
+      state: 'claimed',
+      at,
+      by: user.id,
+      byName: user.name,
+      ...(assignee.id !== user.id ? { assigneeId: assignee.id, assigneeName: assignee.name } : {}),
+    });
+    await deps.repo.saveAlert(updated);
+    publishAlerts(deps.events, [updated]);
+    return c.json({ alert: updated });
+  });
+
+  // Acknowledging twice is a no-op, so clients can retry safely. Only
+  // clinicians may: it takes the alert off the open list and stops escalation.
+  app.post('/:id/acknowledge', async (c) => {
+    const user = c.get('user');
+    requireRole(user, 'doctor');
+    const alert = await loadAlert(user, c.req.param('id'));
+    if (alert.acknowledged) {
+      return c.json({ alert });
+    }
+
+    const now = deps.now();
+    const at = now.toISOString();
+    const updated = record({
+      ...cancelEscalation(alert, user.id, now),
+      acknowledged: true,
+      acknowledgedBy: user.id,
+      acknowledgedAt: at,
+    }, { action: 'acknowledged', state: 'acknowledged', at, by: user.id, byName: user.name });
+    await deps.repo.saveAlert(updated);
+    publishAlerts(deps.events, [updated]);
+    return c.json({ alert: updated });
+  });
+
+  // Holds back notifications and escalation for the given minutes; 0 ends
+  // the snooze early
+  app.post('/:id/snooze', async (c) => {
+    const user = c.get('user');
+    requireRole(user, 'doctor');
+    const alert = await loadAlert(user, c.req.param('id'));
+    requireTransition(alert, 'snoozed');
+    const { minutes } = await readJson(c.req);
+    if (!Number.isInteger(minutes) || minutes < 0 || minutes > MAX_SNOOZE_MINUTES) {
+      throw badRequest(`minutes must be a whole number between 0 and ${MAX_SNOOZE_MINUTES}`);
+    }
+
+    const now = deps.now();
+    const at = now.toISOString();
+    const state = alertState(alert);
+    let updated: Alert;
+    if (minutes === 0) {
+      const { snoozedUntil: _, ...rest } = alert;
+      updated = record(rest, { action: 'unsnoozed', state, at, by: user.id, byName: user.name });
+      // Tiers held back by the snooze are picked up on the next run
+      if (updated.escalation?.nextAt && updated.escalation.nextAt > at) {
+        updated.escalation = { ...updated.escalation, nextAt: at };
+      }
+    } else {
+      const snoozedUntil = new Date(now.getTime() + minutes * 60 * 1000).toISOString();
+      updated = record({ ...alert, snoozedUntil }, { action: 'snoozed', state, at, by: user.id, byName: user.name, snoozedUntil });
+      // Tiers that fall due while snoozed are notified when it ends
+      if (updated.escalation?.nextAt && updated.escalation.nextAt < snoozedUntil) {
+        updated.escalation = { ...updated.escalation, nextAt: snoozedUntil };
+      }
+    }
+    await deps.repo.saveAlert(updated);
+    publishAlerts(deps.events, [updated]);
+    return c.json({ alert: updated });
+  });
+
+  // Closes the alert; an outcome and notes are required
+  app.post('/:id/resolve', async (c) => {
+    const user = c.get('user');
+    requireRole(user, 'doctor');
+    const alert = await loadAlert(user, c.req.param('id'));
+    requireTransition(alert, 'resolved');
+    const { outcome, notes } = await readJson(c.req);
+    if (!Object.keys(ALERT_OUTCOME_LABELS).includes(outcome)) {
+      throw badRequest(`outcome must be one of ${Object.keys(ALERT_OUTCOME_LABELS).join(', ')}`);
+    }
+    if (typeof notes !== 'string' || !notes.trim()) {
+      throw badRequest('Resolution notes are required');
+    }
+
+    const now = deps.now();
+    const at = now.toISOString();
+    const { snoozedUntil: _, ...rest } = cancelEscalation(alert, user.id, now);
+    const updated = record({
+      ...rest,
+      acknowledged: true,
+      acknowledgedBy: alert.acknowledgedBy ?? user.id,
+      acknowledgedAt: alert.acknowledgedAt ?? at,
+      resolvedBy: user.id,
+      resolvedAt: at,
+      outcome,
+      resolutionNotes: notes.trim(),
+    }, { action: 'resolved', state: 'resolved', at, by: user.id, byName: user.name, outcome, notes: notes.trim() });
+    await deps.repo.saveAlert(updated);
+    publishAlerts(deps.events, [updated]);
+    return c.json({ alert: updated });
+  });
+
+  app.delete('/:id', async (c) => {
+    requireRole(c.get('user'), 'doctor');
+    const alert = await deps.repo.getAlert(c.req.param('id'));
+    if (alert) {
+      await deps.repo.deleteAlert(alert.id);
+      deps.events.publish({ type: 'alert-deleted', patientId: alert.patientId, alertId: alert.id });
+    }
+    return c.json({ success: true });
+  });
+
+  return app;
+}
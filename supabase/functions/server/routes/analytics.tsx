@@ -0,0 +1,91 @@
+import { Hono } from "npm:hono@4.6.14";
+import { buildAnalytics, isAnalyticsPeriod, PERIOD_RESOLUTION, periodStart } from '../analytics.tsx';
+import {
+  type AppDeps,
+  type AppEnv,
+  badRequest,
+  canAccessPatient,
+  loadAccessiblePatient,
+  requireRole,
+  requireUser,
+} from '../context.tsx';
+import { ALL_PATIENTS, loadSeries } from '../rollups.tsx';
+import type { ReadingExport } from '../../_shared/types.tsx';
+
+// Each patient is a sheet of the XLSX export; more gets unwieldy
+const MAX_EXPORT_PATIENTS = 50;
+
+const readPeriod = (value: string | undefined) => {
+  const period = value ?? '7days';
+  if (!isAnalyticsPeriod(period)) {
+    throw badRequest('period must be one of 7days, 30days, 3months, 1year');
+  }
+  return period;
+};
+
+export function analyticsRoutes(deps: AppDeps) {
+  const app = new Hono<AppEnv>();
+  app.use('*', requireUser(deps));
+
+  // Aggregate across all patients, for the doctor reports page. Charts are
+  // served from the rollups at the resolution suited to the period.
+  app.get('/', async (c) => {
+    requireRole(c.get('user'), 'doctor');
+    const period = readPeriod(c.req.query('period'));
+    const now = deps.now();
+    const since = periodStart(period, now).toISOString();
+
+    const [patients, series, alerts] = await Promise.all([
+      deps.repo.listPatients(),
+      loadSeries(deps, ALL_PATIENTS, PERIOD_RESOLUTION[period], { since }),
+      deps.repo.listAlerts({ since }),
+    ]);
+    return c.json(buildAnalytics(period, now, series, alerts, patients.length));
+  });
+
+  app.get('/patient/:patientId', async (c) => {
+    const patient = await loadAccessiblePatient(deps, c.get('user'), c.req.param('patientId'));
+    const period = readPeriod(c.req.query('period'));
+    const now = deps.now();
+    const since = periodStart(period, now).toISOString();
+
+    const [series, alerts] = await Promise.all([
+      loadSeries(deps, patient.id, PERIOD_RESOLUTION[period], { since }),
+      deps.repo.listAlerts({ patientId: patient.id, since }),
+    ]);
+    return c.json(buildAnalytics(period, now, series, alerts));
+  });
+
+  // Every reading in the period and the alerts raised in it, per patient, for
+  // the spreadsheet exports. ?patientId= may be repeated; without it the
+  // export covers every patient the user can see.
+  app.get('/export', async (c) => {
+    const user = c.get('user');
+    const period = readPeriod(c.req.query('period'));
+    const ids = [...new Set(c.req.queries('patientId') ?? [])];
+    if (ids.length > MAX_EXPORT_PATIENTS) {
+      throw badRequest(`An export can cover at most ${MAX_EXPORT_PATIENTS} patients`);
+    }
+    const patients = ids.length > 0
+      ? await Promise.all(ids.map((id) => loadAccessiblePatient(deps, user, id)))
+      : (await deps.repo.listPatients()).filter((p) => canAccessPatient(user, p));
+    if (patients.length > MAX_EXPORT_PATIENTS) {
+      throw badRequest(`An export can cover at most ${MAX_EXPORT_PATIENTS} patients; choose which to export`);
+    }
+
+    const now = deps.now();
+    const since = periodStart(period, now).toISOString();
+    const result: ReadingExport = { period, from: since, to: now.toISOString(), patients: [] };
+    for (const patient of patients.sort((a, b) => a.name.localeCompare(b.name))) {
+      const [readings, alerts] = await Promise.all([
+        deps.repo.listVitals(patient.id, { since, ascending: true }),
+        deps.repo.listAlerts({ patientId: patient.id, since }),
+      ]);
+      const { id, name, email, identifiers } = patient;
+      result.patients.push({ patient: { id, name, email, identifiers }, readings, alerts });
+    }
+    return c.json(result);
+  });
+
+  return app;
+}
@@ -0,0 +1,62 @@
+import { Hono } from "npm:hono@4.6.14";
+import { type AppDeps, type AppEnv, badRequest, readJson, requireRole, requireUser } from '../context.tsx';
+import type { UserRole } from '../../_shared/types.tsx';
+
+const ROLES: UserRole[] = ['doctor', 'patient', 'family'];
+
+export function authRoutes(deps: AppDeps) {
+  const app = new Hono<AppEnv>();
+
+  // Create an account with role metadata; patients also get a patient record
+  app.post('/signup', async (c) => {
+    const { email, password, name, role } = await readJson(c.req);
+
+    if (typeof email !== 'string' || !email.includes('@')) {
+      throw badRequest('A valid email address is required');
+    }
+    if (typeof password !== 'string' || password.length < 6) {
+      throw badRequest('Password must be at least 6 characters');
+    }
+    if (typeof name !== 'string' || !name.trim()) {
+      throw badRequest('Please enter your full name');
+    }
+    if (!ROLES.includes(role)) {
+      throw badRequest(`Role must be one of: ${ROLES.join(', ')}`);
+    }
+
+    let user;
+    try {
+      user = await deps.auth.createUser({ email: email.trim(), password, name: name.trim(), role });
+    } catch (error: any) {
+      console.error('Signup error:', error);
+      throw badRequest(error.message || 'Failed to create account');
+    }
+    await deps.repo.saveUser(user);
+
+    if (user.role === 'patient') {
+      const now = deps.now().toISOString();
+      await deps.repo.savePatient({
+        id: user.id,
+        name: user.name,
+        email: user.email,
+        age: null,
+        assignedDoctorId: null,
+        familyMemberIds: [],
+        createdAt: now,
+        updatedAt: now,
+      });
+    }
+
+    return c.json({ user }, 201);
+  });
+
+  app.get('/me', requireUser(deps), (c) => c.json({ user: c.get('user') }));
+
+  // Doctors, e.g. for choosing backup clinicians
+  app.get('/doctors', requireUser(deps), async (c) => {
+    requireRole(c.get('user'), 'doctor');
+    return c.json({ doctors: await deps.repo.listUsers('doctor') });
+  });
+
+  return app;
+}
@@ -0,0 +1,95 @@
+import { Hono } from "npm:hono@4.6.14";
+import { HTTPException } from "npm:hono@4.6.14/http-exception";
+import {
+  type AppDeps,
+  type AppEnv,
+  badRequest,
+  loadAccessiblePatient,
+  readJson,
+  requireRole,
+  requireUser,
+} from '../context.tsx';
+import { clearDeviceAlerts, parseDeviceDetails, parseDeviceId, unpairDevice } from '../devices.tsx';
+import type { Device } from '../../_shared/types.tsx';
+
+export function deviceRoutes(deps: AppDeps) {
+  const app = new Hono<AppEnv>();
+  app.use('*', requireUser(deps));
+
+  const loadDevice = async (id: string) => {
+    const device = await deps.repo.getDevice(id);
+    if (!device) {
+      throw new HTTPException(404, { message: 'Device not found' });
+    }
+    return device;
+  };
+
+  // Every registered device, including ones that registered themselves on
+  // first contact and are waiting to be paired
+  app.get('/', async (c) => {
+    requireRole(c.get('user'), 'doctor');
+    return c.json({ devices: await deps.repo.listDevices() });
+  });
+
+  app.get('/patient/:patientId', async (c) => {
+    const patient = await loadAccessiblePatient(deps, c.get('user'), c.req.param('patientId'));
+    return c.json({ devices: await deps.repo.listPatientDevices(patient.id) });
+  });
+
+  app.post('/', async (c) => {
+    requireRole(c.get('user'), 'doctor');
+    const body = await readJson(c.req);
+    const id = parseDeviceId(body.id);
+    if (await deps.repo.getDevice(id)) {
+      throw new HTTPException(409, { message: `Device ${id} is already registered` });
+    }
+    const device: Device = { id, ...parseDeviceDetails(body), createdAt: deps.now().toISOString() };
+    await deps.repo.saveDevice(device);
+    return c.json({ device }, 201);
+  });
+
+  app.put('/:id', async (c) => {
+    requireRole(c.get('user'), 'doctor');
+    const device = await loadDevice(c.req.param('id'));
+    const updated: Device = { ...device, ...parseDeviceDetails(await readJson(c.req), device) };
+    await deps.repo.saveDevice(updated);
+    return c.json({ device: updated });
+  });
+
+  // A device is paired with one patient at a time; unpair it before moving it
+  app.post('/:id/pair', async (c) => {
+    const user = c.get('user');
+    requireRole(user, 'doctor');
+    const device = await loadDevice(c.req.param('id'));
+    const { patientId } = await readJson(c.req);
+    if (typeof patientId !== 'string' || !patientId) {
+      throw badRequest('patientId is required');
+    }
+    const patient = await loadAccessiblePatient(deps, user, patientId);
+    if (device.patientId === patient.id) {
+      return c.json({ device });
+    }
+    if (device.patientId) {
+      throw new HTTPException(409, { message: `Device ${device.id} is paired with another patient; unpair it first` });
+    }
+
+    const updated: Device = { ...device, patientId: patient.id, pairedAt: deps.now().toISOString(), pairedBy: user.id };
+    await deps.repo.saveDevice(updated);
+    return c.json({ device: updated });
+  });
+
+  // Clears the device's open alerts, which no longer concern the patient
+  app.post('/:id/unpair', async (c) => {
+    requireRole(c.get('user'), 'doctor');
+    const device = await loadDevice(c.req.param('id'));
+    if (!device.patientId) {
+      return c.json({ device });
+    }
+    await clearDeviceAlerts(deps, device);
+    const updated = unpairDevice(device);
+    await deps.repo.saveDevice(updated);
+    return c.json({ device: updated });
+  });
+
+  return app;
+}
@@ -0,0 +1,47 @@
+import { Hono } from "npm:hono@4.6.14";
+import { streamSSE } from "npm:hono@4.6.14/streaming";
+import { type AppDeps, type AppEnv, canAccessPatient, requireUser } from '../context.tsx';
+import type { LiveEvent } from '../../_shared/types.tsx';
+
+const HEARTBEAT_MS = 25_000;
+
+export function eventRoutes(deps: AppDeps) {
+  const app = new Hono<AppEnv>();
+  app.use('*', requireUser(deps));
+
+  // Server-sent events for new and changed vitals and alerts the user can
+  // see. A "ready" event marks the start of the stream, so clients can reload
+  // whatever they missed while disconnected; comments keep proxies from
+  // closing an idle connection. Hosted functions end long requests, so
+  // clients are expected to reconnect.
+  app.get('/', (c) => {
+    const user = c.get('user');
+
+    const visible = async (event: LiveEvent) => {
+      if (user.role === 'doctor') return true;
+      const patient = await deps.repo.getPatient(event.patientId);
+      return !!patient && canAccessPatient(user, patient);
+    };
+
+    return streamSSE(c, async (stream) => {
+      // Writes are chained so events go out in the order they were published
+      let queue = Promise.resolve();
+      const unsubscribe = deps.events.subscribe((event) => {
+        queue = queue.then(async () => {
+          if (stream.aborted || !(await visible(event))) return;
+          await stream.writeSSE({ event: event.type, data: JSON.stringify(event) });
+        }).catch((error) => console.error('Error streaming live event:', error));
+      });
+      stream.onAbort(unsubscribe);
+
+      await stream.writeSSE({ event: 'ready', data: JSON.stringify({ at: deps.now().toISOString() }) });
+      while (!stream.aborted) {
+        await stream.sleep(HEARTBEAT_MS);
+        if (!stream.aborted) await stream.write(': ping\n\n');
+      }
+      unsubscribe();
+    });
+  });
+
+  return app;
+}
@@ -0,0 +1,141 @@
+import { type Context, Hono } from "npm:hono@4.6.14";
+import { HTTPException } from "npm:hono@4.6.14/http-exception";
+import {
+  type AppDeps,
+  type AppEnv,
+  badRequest,
+  canAccessPatient,
+  loadAccessiblePatient,
+  readDate,
+  readJson,
+  requireRole,
+  requireUser,
+} from '../context.tsx';
+import {
+  FHIR_JSON,
+  FHIR_VITALS,
+  operationOutcome,
+  parseObservationId,
+  patientToFhir,
+  searchBundle,
+  vitalToObservations,
+} from '../fhir.tsx';
+import { importFhirBundle } from '../fhir_import.tsx';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const ISSUE_CODES: Record<number, string> = {
+  400: 'invalid',
+  401: 'login',
+  403: 'forbidden',
+  404: 'not-found',
+};
+
+// Inclusive upper bound as the exclusive end of a key range: a date-only
+// value covers the whole day, a date and time the millisecond it names
+const readEnd = (value: string | undefined, name: string) => {
+  const end = readDate(value, name);
+  if (!end) return end;
+  return new Date(Date.parse(end) + (/^\d{4}-\d{2}-\d{2}$/.test(value!) ? DAY : 1)).toISOString();
+};
+
+// FHIR R4 API: Patient and vital-sign Observation resources,
+// Patient/{id}/$everything for a patient's record over a date range, and
+// import of a Bundle from another system. Errors are returned as
+// OperationOutcome resources, as FHIR clients expect.
+export function fhirRoutes(deps: AppDeps) {
+  const app = new Hono<AppEnv>();
+  app.use('*', requireUser(deps));
+
+  const fhir = (c: Context<AppEnv>, resource: unknown) =>
+    c.body(JSON.stringify(resource), 200, { 'Content-Type': FHIR_JSON });
+
+  // The URL resources are addressed under, for Bundle fullUrls
+  const baseUrl = (c: Context<AppEnv>) => c.req.url.slice(0, c.req.url.indexOf('/fhir') + '/fhir'.length);
+
+  app.get('/Patient', async (c) => {
+    const user = c.get('user');
+    const patients = (await deps.repo.listPatients()).filter((p) => canAccessPatient(user, p));
+    return fhir(c, searchBundle(baseUrl(c), c.req.url, patients.map(patientToFhir), deps.now()));
+  });
+
+  app.get('/Patient/:id', async (c) => {
+    return fhir(c, patientToFhir(await loadAccessiblePatient(deps, c.get('user'), c.req.param('id'))));
+  });
+
+  // start and end are inclusive; either may be left out
+  app.get('/Patient/:id/$everything', async (c) => {
+    const patient = await loadAccessiblePatient(deps, c.get('user'), c.req.param('id'));
+    const vitals = await deps.repo.listVitals(patient.id, {
+      since: readDate(c.req.query('start'), 'start'),
+      until: readEnd(c.req.query('end'), 'end'),
+      ascending: true,
+    });
+    const resources = [patientToFhir(patient), ...vitals.flatMap(vitalToObservations)];
+    return fhir(c, searchBundle(baseUrl(c), c.req.url, resources, deps.now()));
+  });
+
+  // Search by patient (or subject=Patient/{id}), with optional date bounds
+  // (date=ge2025-01-01&date=lt2025-02-01) and LOINC code
+  app.get('/Observation', async (c) => {
+    const reference = c.req.query('patient') ?? c.req.query('subject');
+    if (!reference) {
+      throw badRequest('patient is required');
+    }
+    const patient = await loadAccessiblePatient(deps, c.get('user'), reference.replace(/^Patient\//, ''));
+
+    let since: string | undefined;
+    let until: string | undefined;
+    for (const date of c.req.queries('date') ?? []) {
+      const [, prefix = 'eq', value] = /^(ge|gt|le|lt|eq)?(.*)$/.exec(date)!;
+      if (prefix === 'ge' || prefix === 'gt' || prefix === 'eq') since = readDate(value, 'date');
+      if (prefix === 'le' || prefix === 'eq') until = readEnd(value, 'date');
+      if (prefix === 'lt') until = readDate(value, 'date');
+    }
+
+    const code = c.req.query('code')?.replace(/^http:\/\/loinc\.org\|/, '');
+    if (code && !Object.values(FHIR_VITALS).some((vital) => vital.codes.some((coding) => coding.code === code))) {
+      throw badRequest(`code ${code} is not a supported vital sign`);
+    }
+
+    const vitals = await deps.repo.listVitals(patient.id, { since, until, ascending: true });
+    const observations = vitals
+      .flatMap(vitalToObservations)
+      .filter((observation) => !code || observation.code.coding.some((coding) => coding.code === code));
+    return fhir(c, searchBundle(baseUrl(c), c.req.url, observations, deps.now()));
+  });
+
+  app.get('/Observation/:id', async (c) => {
+    const parsed = parseObservationId(c.req.param('id'));
+    const vital = parsed ? await deps.repo.findVital(parsed.vitalId) : null;
+    const observation = vital && vitalToObservations(vital).find((o) => o.id === c.req.param('id'));
+    if (!vital || !observation) {
+      throw new HTTPException(404, { message: 'Observation not found' });
+    }
+    await loadAccessiblePatient(deps, c.get('user'), vital.patientId);
+    return fhir(c, observation);
+  });
+
+  // Doctors import a Bundle of patients and vital-sign Observations;
+  // ?dryRun=true reports what would be imported without saving it
+  app.post('/import', async (c) => {
+    const user = c.get('user');
+    requireRole(user, 'doctor');
+    const dryRun = c.req.query('dryRun') === 'true';
+    const report = await importFhirBundle(deps, await readJson(c.req), user, { dryRun });
+    return c.json(report, dryRun ? 200 : 201);
+  });
+
+  app.onError((err, c) => {
+    if (err instanceof HTTPException) {
+      const outcome = operationOutcome('error', ISSUE_CODES[err.status] ?? 'processing', err.message);
+      return c.body(JSON.stringify(outcome), err.status, { 'Content-Type': FHIR_JSON });
+    }
+    console.error('Unhandled FHIR error:', err);
+    return c.body(JSON.stringify(operationOutcome('error', 'exception', 'Internal server error')), 500, {
+      'Content-Type': FHIR_JSON,
+    });
+  });
+
+  return app;
+}
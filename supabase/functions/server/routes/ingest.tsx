@@ -0,0 +1,156 @@
+import { type Context, Hono } from "npm:hono@4.6.14";
+import { createMiddleware } from "npm:hono@4.6.14/factory";
+import { HTTPException } from "npm:hono@4.6.14/http-exception";
+import {
+  type AppDeps,
+  type AppEnv,
+  badRequest,
+  loadAccessiblePatient,
+  readJson,
+  requireRole,
+  requireUser,
+} from '../context.tsx';
+import { parseDeviceId, recordDeviceStatus, resolveDevicePatient, touchDevice } from '../devices.tsx';
+import {
+  createIngestKey,
+  describeIngestKey,
+  type DevicePayload,
+  INGEST_KEY_PREFIX,
+  MAX_BATCH_SIZE,
+  parseDevicePayload,
+  parseDeviceStatus,
+  verifyIngestKey,
+} from '../ingest.tsx';
+import type { IngestKey } from '../../_shared/types.tsx';
+import { recordVital } from '../vitals.tsx';
+
+export function ingestRoutes(deps: AppDeps) {
+  const app = new Hono<AppEnv>();
+
+  // Devices authenticate with an ingestion key; a gateway app can instead
+  // post with a doctor's or patient's session.
+  const requireDevice = createMiddleware<AppEnv>(async (c, next) => {
+    const token = c.req.header('Authorization')?.split(' ')[1];
+    if (!token?.startsWith(INGEST_KEY_PREFIX)) {
+      return requireUser(deps)(c, async () => {
+        requireRole(c.get('user'), 'doctor', 'patient');
+        await next();
+      });
+    }
+    const key = await verifyIngestKey(deps, token);
+    if (!key) {
+      throw new HTTPException(401, { message: 'Invalid or revoked ingestion key' });
+    }
+    c.set('ingestKey', key);
+    await next();
+  });
+
+  // Records one parsed payload exactly as a manual entry would be, alerts
+  // included, and counts it as a heartbeat from the device. A payload whose
+  // readingId the device has already sent returns the stored reading instead.
+  const ingest = async (c: Context<AppEnv>, { patientId, input }: DevicePayload) => {
+    const { deviceId, battery, readingId } = input.device;
+    const key: IngestKey | undefined = c.get('ingestKey');
+    const stored = readingId ? await deps.repo.findDeviceReading(deviceId, readingId) : null;
+    if (stored) {
+      if (!key) await loadAccessiblePatient(deps, c.get('user'), stored.patientId);
+      return { vital: stored, alerts: [], duplicate: true };
+    }
+    const resolved = await resolveDevicePatient(deps, deviceId, patientId);
+    let result;
+    if (key) {
+      const patient = await deps.repo.getPatient(resolved);
+      if (!patient) {
+        throw new HTTPException(404, { message: 'Patient not found' });
+      }
+      result = await recordVital(deps, patient, input, `ingest-key:${key.id}`);
+    } else {
+      const user = c.get('user');
+      result = await recordVital(deps, await loadAccessiblePatient(deps, user, resolved), input, user.id);
+    }
+    await touchDevice(deps, deviceId, { online: true, measuredAt: result.vital.timestamp, battery });
+    return { ...result, duplicate: false };
+  };
+
+  // One sensor payload in the TECHNICAL_GUIDE.md format
+  app.post('/', requireDevice, async (c) => {
+    const receivedAt = deps.now().toISOString();
+    const payload = parseDevicePayload(await readJson(c.req), receivedAt, c.get('ingestKey')?.id);
+    const result = await ingest(c, payload);
+    return c.json(result, result.duplicate ? 200 : 201);
+  });
+
+  // { batch: [payload, ...] }, e.g. readings buffered while offline. Entries
+  // are recorded oldest first so trends see them in order; one bad entry does
+  // not stop the rest, and each gets its own result.
+  app.post('/batch', requireDevice, async (c) => {
+    const { batch } = await readJson(c.req);
+    if (!Array.isArray(batch) || batch.length === 0) {
+      throw badRequest('batch must be a non-empty array of payloads');
+    }
+    if (batch.length > MAX_BATCH_SIZE) {
+      throw badRequest(`batch can hold at most ${MAX_BATCH_SIZE} payloads`);
+    }
+
+    const receivedAt = deps.now().toISOString();
+    const order = batch
+      .map((entry, index) => ({ entry, index, time: Date.parse(entry?.timestamp) || Infinity }))
+      .sort((a, b) => a.time - b.time);
+
+    const results: { index: number; vitalId?: string; alerts?: number; duplicate?: boolean; error?: string }[] = [];
+    for (const { entry, index } of order) {
+      try {
+        const payload = parseDevicePayload(entry, receivedAt, c.get('ingestKey')?.id, `batch[${index}]`);
+        const { vital, alerts, duplicate } = await ingest(c, payload);
+        results.push({ index, vitalId: vital.id, alerts: alerts.length, ...(duplicate ? { duplicate } : {}) });
+      } catch (error) {
+        if (!(error instanceof HTTPException) || error.status >= 500) throw error;
+        results.push({ index, error: error.message });
+      }
+    }
+    results.sort((a, b) => a.index - b.index);
+    const rejected = results.filter((r) => r.error).length;
+    return c.json({ accepted: results.length - rejected, rejected, results });
+  });
+
+  // A device's own status report; it counts as a heartbeat when online
+  app.post('/devices/:deviceId/status', requireDevice, async (c) => {
+    if (!c.get('ingestKey')) {
+      requireRole(c.get('user'), 'doctor');
+    }
+    const deviceId = parseDeviceId(c.req.param('deviceId'));
+    const status = parseDeviceStatus(deviceId, await readJson(c.req), deps.now().toISOString(), c.get('ingestKey')?.id);
+    return c.json({ device: await recordDeviceStatus(deps, status) });
+  });
+
+  app.get('/keys', requireUser(deps), async (c) => {
+    requireRole(c.get('user'), 'doctor');
+    const keys = await deps.repo.listIngestKeys();
+    return c.json({ keys: keys.map(describeIngestKey) });
+  });
+
+  // The secret is only ever returned here
+  app.post('/keys', requireUser(deps), async (c) => {
+    const user = c.get('user');
+    requireRole(user, 'doctor');
+    const { name } = await readJson(c.req);
+    if (typeof name !== 'string' || !name.trim()) {
+      throw badRequest('name is required');
+    }
+    const { key, secret } = await createIngestKey(deps, name.trim(), user.id);
+    return c.json({ key: describeIngestKey(key), secret }, 201);
+  });
+
+  app.delete('/keys/:id', requireUser(deps), async (c) => {
+    requireRole(c.get('user'), 'doctor');
+    const key = await deps.repo.getIngestKey(c.req.param('id'));
+    if (!key) {
+      throw new HTTPException(404, { message: 'Ingestion key not found' });
+    }
+    const revoked = key.revokedAt ? key : { ...key, revokedAt: deps.now().toISOString() };
+    await deps.repo.saveIngestKey(revoked);
+    return c.json({ key: describeIngestKey(revoked) });
+  });
+
+  return app;
+}
@@ -0,0 +1,259 @@
+import { Hono } from "npm:hono@4.6.14";
+import { HTTPException } from "npm:hono@4.6.14/http-exception";
+import {
+  type AppDeps,
+  type AppEnv,
+  badRequest,
+  canAccessPatient,
+  loadAccessiblePatient,
+  readJson,
+  requireRole,
+  requireUser,
+} from '../context.tsx';
+import { unpairDevice } from '../devices.tsx';
+import { refreshRollups } from '../rollups.tsx';
+import { reevaluateLatest } from '../vitals.tsx';
+import type {
+  ConditionTemplateId,
+  MetricThresholds,
+  Patient,
+  ThresholdProfile,
+  UserProfile,
+  VitalMetric,
+} from '../../_shared/types.tsx';
+
+const parseAge = (age: unknown): number | null => {
+  if (age === null || age === undefined || age === '') return null;
+  const value = Number(age);
+  if (!Number.isInteger(value) || value < 0 || value > 130) {
+    throw badRequest('Age must be a whole number between 0 and 130');
+  }
+  return value;
+};
+
+const THRESHOLD_LIMITS: Record<VitalMetric, [number, number]> = {
+  heartRate: [20, 300],
+  systolic: [50, 260],
+  diastolic: [30, 160],
+  oxygenLevel: [50, 100],
+  temperature: [25, 45],
+};
+
+const CONDITIONS: ConditionTemplateId[] = ['copd', 'heart-failure', 'hypertension'];
+
+// Validates { condition, thresholds, spo2Scale, notes } into a profile. Bounds must lie
+// within the accepted reading range and be ordered criticalLow < low < high
+// < criticalHigh.
+const parseThresholdProfile = (body: Record<string, any>, user: UserProfile, now: Date): ThresholdProfile => {
+  const condition = body.condition ?? null;
+  if (condition !== null && !CONDITIONS.includes(condition)) {
+    throw badRequest(`condition must be one of ${CONDITIONS.join(', ')}`);
+  }
+  if (typeof body.thresholds !== 'object' || body.thresholds === null) {
+    throw badRequest('thresholds is required');
+  }
+
+  const thresholds: Partial<Record<VitalMetric, MetricThresholds>> = {};
+  for (const [metric, raw] of Object.entries(body.thresholds as Record<string, any>)) {
+    if (!(metric in THRESHOLD_LIMITS)) {
+      throw badRequest(`Unknown metric ${metric}`);
+    }
+    const [min, max] = THRESHOLD_LIMITS[metric as VitalMetric];
+    const bounds: MetricThresholds = {};
+    for (const field of ['criticalLow', 'low', 'high', 'criticalHigh'] as const) {
+      const value = raw?.[field];
+      if (value === undefined || value === null || value === '') continue;
+      if (typeof value !== 'number' || value < min || value > max) {
+        throw badRequest(`${metric}.${field} must be a number between ${min} and ${max}`);
+      }
+      bounds[field] = value;
+    }
+    const ordered = [bounds.criticalLow, bounds.low, bounds.high, bounds.criticalHigh]
+      .filter((v): v is number => v !== undefined);
+    if (ordered.some((v, i) => i > 0 && v <= ordered[i - 1])) {
+      throw badRequest(`${metric} thresholds must increase from criticalLow to criticalHigh`);
+    }
+    if (ordered.length > 0) {
+      thresholds[metric as VitalMetric] = bounds;
+    }
+  }
+
+  const profile: ThresholdProfile = { condition, thresholds, updatedAt: now.toISOString(), updatedBy: user.id };
+  if (body.spo2Scale !== undefined && body.spo2Scale !== null) {
+    if (body.spo2Scale !== 1 && body.spo2Scale !== 2) {
+      throw badRequest('spo2Scale must be 1 or 2');
+    }
+    profile.spo2Scale = body.spo2Scale;
+  }
+  if (typeof body.notes === 'string' && body.notes.trim()) {
+    profile.notes = body.notes.trim();
+  }
+  return profile;
+};
+
+export function patientRoutes(deps: AppDeps) {
+  const app = new Hono<AppEnv>();
+  app.use('*', requireUser(deps));
+
+  app.get('/', async (c) => {
+    const user = c.get('user');
+    const patients = await deps.repo.listPatients();
+    return c.json({ patients: patients.filter((p) => canAccessPatient(user, p)) });
+  });
+
+  // Doctors can register patients who do not have their own login
+  app.post('/', async (c) => {
+    requireRole(c.get('user'), 'doctor');
+    const body = await readJson(c.req);
+    if (typeof body.name !== 'string' || !body.name.trim()) {
+      throw badRequest('Patient name is required');
+    }
+
+    const now = deps.now().toISOString();
+    const patient: Patient = {
+      id: crypto.randomUUID(),
+      name: body.name.trim(),
+      email: typeof body.email === 'string' ? body.email.trim() : '',
+      age: parseAge(body.age),
+      assignedDoctorId: null,
+      familyMemberIds: [],
+      createdAt: now,
+      updatedAt: now,
+    };
+    await deps.repo.savePatient(patient);
+    return c.json({ patient }, 201);
+  });
+
+  app.get('/:id', async (c) => {
+    const patient = await loadAccessiblePatient(deps, c.get('user'), c.req.param('id'));
+    return c.json({ patient });
+  });
+
+  app.put('/:id', async (c) => {
+    const user = c.get('user');
+    const patient = await loadAccessiblePatient(deps, user, c.req.param('id'));
+    if (user.role === 'family') {
+      throw new HTTPException(403, { message: 'Family members cannot edit patient details' });
+    }
+
+    const body = await readJson(c.req);
+    const updated: Patient = { ...patient, updatedAt: deps.now().toISOString() };
+    if (body.name !== undefined) {
+      if (typeof body.name !== 'string' || !body.name.trim()) {
+        throw badRequest('Patient name cannot be empty');
+      }
+      updated.name = body.name.trim();
+    }
+    if (body.email !== undefined) {
+      updated.email = String(body.email).trim();
+    }
+    if (body.age !== undefined) {
+      updated.age = parseAge(body.age);
+    }
+
+    await deps.repo.savePatient(updated);
+    return c.json({ patient: updated });
+  });
+
+  app.delete('/:id', async (c) => {
+    requireRole(c.get('user'), 'doctor');
+    const patient = await loadAccessiblePatient(deps, c.get('user'), c.req.param('id'));
+    const vitals = await deps.repo.listVitals(patient.id);
+    for (const device of await deps.repo.listPatientDevices(patient.id)) {
+      await deps.repo.saveDevice(unpairDevice(device));
+    }
+    await deps.repo.deletePatient(patient.id);
+    // Drops the patient's rollups and takes their readings out of the totals
+    await refreshRollups(deps, patient.id, vitals.map((v) => v.timestamp));
+    return c.json({ success: true });
+  });
+
+  // Replaces the patient's alert thresholds, e.g. starting from a condition
+  // template in CONDITION_TEMPLATES
+  app.put('/:id/thresholds', async (c) => {
+    const user = c.get('user');
+    requireRole(user, 'doctor');
+    const patient = await loadAccessiblePatient(deps, user, c.req.param('id'));
+    const now = deps.now();
+
+    const updated: Patient = {
+      ...patient,
+      thresholdProfile: parseThresholdProfile(await readJson(c.req), user, now),
+      updatedAt: now.toISOString(),
+    };
+    await deps.repo.savePatient(updated);
+    await reevaluateLatest(deps, updated);
+    return c.json({ patient: updated });
+  });
+
+  // Goes back to the default thresholds
+  app.delete('/:id/thresholds', async (c) => {
+    const user = c.get('user');
+    requireRole(user, 'doctor');
+    const patient = await loadAccessiblePatient(deps, user, c.req.param('id'));
+
+    const updated: Patient = { ...patient, thresholdProfile: null, updatedAt: deps.now().toISOString() };
+    await deps.repo.savePatient(updated);
+    await reevaluateLatest(deps, updated);
+    return c.json({ patient: updated });
+  });
+
+  // An empty doctorId unassigns the patient
+  app.post('/:id/assign', async (c) => {
+    const user = c.get('user');
+    requireRole(user, 'doctor');
+    const patient = await loadAccessiblePatient(deps, user, c.req.param('id'));
+    const { doctorId } = await readJson(c.req);
+
+    if (doctorId && doctorId !== user.id) {
+      const doctor = await deps.repo.getUser(doctorId);
+      if (!doctor || doctor.role !== 'doctor') {
+        throw badRequest('Doctor not found');
+      }
+    }
+
+    const updated: Patient = {
+      ...patient,
+      assignedDoctorId: doctorId || null,
+      updatedAt: deps.now().toISOString(),
+    };
+    await deps.repo.savePatient(updated);
+    return c.json({ patient: updated });
+  });
+
+  app.post('/:id/family', async (c) => {
+    const user = c.get('user');
+    requireRole(user, 'doctor', 'patient');
+    const patient = await loadAccessiblePatient(deps, user, c.req.param('id'));
+    const { familyMemberId } = await readJson(c.req);
+
+    const member = familyMemberId ? await deps.repo.getUser(familyMemberId) : null;
+    if (!member || member.role !== 'family') {
+      throw badRequest('Family member not found');
+    }
+
+    const updated: Patient = {
+      ...patient,
+      familyMemberIds: Array.from(new Set([...patient.familyMemberIds, member.id])),
+      updatedAt: deps.now().toISOString(),
+    };
+    await deps.repo.savePatient(updated);
+    return c.json({ patient: updated });
+  });
+
+  app.delete('/:id/family/:memberId', async (c) => {
+    const user = c.get('user');
+    requireRole(user, 'doctor', 'patient');
+    const patient = await loadAccessiblePatient(deps, user, c.req.param('id'));
+
+    const updated: Patient = {
+      ...patient,
+      familyMemberIds: patient.familyMemberIds.filter((id) => id !== c.req.param('memberId')),
+      updatedAt: deps.now().toISOString(),
+    };
+    await deps.repo.savePatient(updated);
+    return c.json({ patient: updated });
+  });
+
+  return app;
+}
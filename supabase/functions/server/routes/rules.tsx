@@ -0,0 +1,80 @@
+import { Hono } from "npm:hono@4.6.14";
+import { HTTPException } from "npm:hono@4.6.14/http-exception";
+import { type AppDeps, type AppEnv, badRequest, readJson, requireRole, requireUser } from '../context.tsx';
+import { loadAlertPolicy, parseAlertPolicy } from '../alert_pipeline.tsx';
+import { loadEscalationPolicy, parseEscalationPolicy } from '../escalation.tsx';
+import { getRuleSet, listRuleSets, loadActiveRules, parseRules, publishRuleSet } from '../rule_sets.tsx';
+
+const readVersion = (value: string) => {
+  const version = Number(value);
+  if (!Number.isInteger(version) || version < 1) {
+    throw badRequest('version must be a positive integer');
+  }
+  return version;
+};
+
+export function ruleRoutes(deps: AppDeps) {
+  const app = new Hono<AppEnv>();
+  app.use('*', requireUser(deps));
+
+  app.get('/', async (c) => c.json({ ruleSet: await loadActiveRules(deps) }));
+
+  app.get('/versions', async (c) => {
+    requireRole(c.get('user'), 'doctor');
+    const active = await loadActiveRules(deps);
+    return c.json({ activeVersion: active.version, ruleSets: await listRuleSets(deps) });
+  });
+
+  app.get('/versions/:version', async (c) => {
+    requireRole(c.get('user'), 'doctor');
+    const ruleSet = await getRuleSet(deps, readVersion(c.req.param('version')));
+    if (!ruleSet) {
+      throw new HTTPException(404, { message: 'Rule set not found' });
+    }
+    return c.json({ ruleSet });
+  });
+
+  // Publishes { rules, trends?, notes? } as a new version; earlier versions are kept
+  // so alerts can be traced back to the rules that raised them
+  app.post('/', async (c) => {
+    const user = c.get('user');
+    requireRole(user, 'doctor');
+    const body = await readJson(c.req);
+    const notes = typeof body.notes === 'string' ? body.notes.trim() : undefined;
+    const ruleSet = await publishRuleSet(deps, parseRules(body), user.id, notes);
+    return c.json({ ruleSet }, 201);
+  });
+
+  // Switches back to an earlier version, e.g. to undo a bad publish
+  app.post('/versions/:version/activate', async (c) => {
+    requireRole(c.get('user'), 'doctor');
+    const ruleSet = await getRuleSet(deps, readVersion(c.req.param('version')));
+    if (!ruleSet) {
+      throw new HTTPException(404, { message: 'Rule set not found' });
+    }
+    await deps.repo.setActiveRuleVersion(ruleSet.version);
+    return c.json({ ruleSet });
+  });
+
+  // How repeat alerts are merged, cleared and re-notified
+  app.get('/policy', async (c) => c.json({ policy: await loadAlertPolicy(deps) }));
+
+  app.put('/policy', async (c) => {
+    requireRole(c.get('user'), 'doctor');
+    const policy = parseAlertPolicy(await readJson(c.req), await loadAlertPolicy(deps));
+    await deps.repo.saveAlertPolicy(policy);
+    return c.json({ policy });
+  });
+
+  // Who is notified about unacknowledged alerts, and after how long
+  app.get('/escalation', async (c) => c.json({ policy: await loadEscalationPolicy(deps) }));
+
+  app.put('/escalation', async (c) => {
+    requireRole(c.get('user'), 'doctor');
+    const policy = await parseEscalationPolicy(deps, await readJson(c.req));
+    await deps.repo.saveEscalationPolicy(policy);
+    return c.json({ policy });
+  });
+
+  return app;
+}
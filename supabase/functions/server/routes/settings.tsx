@@ -0,0 +1,30 @@
+import { Hono } from "npm:hono@4.6.14";
+import { type AppDeps, type AppEnv, readJson, requireRole, requireUser } from '../context.tsx';
+import { loadUnitSettings, parseUnitPreferences } from '../unit_settings.tsx';
+
+export function settingsRoutes(deps: AppDeps) {
+  const app = new Hono<AppEnv>();
+  app.use('*', requireUser(deps));
+
+  // The units to show the current user, and where they come from
+  app.get('/units', async (c) => c.json({ units: await loadUnitSettings(deps, c.get('user').id) }));
+
+  // The user's own choices; null for a unit goes back to the organisation's
+  app.put('/units', async (c) => {
+    const user = c.get('user');
+    const current = (await deps.repo.getUserUnits(user.id)) ?? {};
+    await deps.repo.saveUserUnits(user.id, parseUnitPreferences(await readJson(c.req), current, { allowClear: true }));
+    return c.json({ units: await loadUnitSettings(deps, user.id) });
+  });
+
+  // The default for everyone who has not chosen their own
+  app.put('/units/organisation', async (c) => {
+    const user = c.get('user');
+    requireRole(user, 'doctor');
+    const { organisation } = await loadUnitSettings(deps, user.id);
+    await deps.repo.saveOrganisationUnits(parseUnitPreferences(await readJson(c.req), organisation));
+    return c.json({ units: await loadUnitSettings(deps, user.id) });
+  });
+
+  return app;
+}
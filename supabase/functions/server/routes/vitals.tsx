@@ -0,0 +1,118 @@
+import { Hono } from "npm:hono@4.6.14";
+import { HTTPException } from "npm:hono@4.6.14/http-exception";
+import {
+  type AppDeps,
+  type AppEnv,
+  badRequest,
+  loadAccessiblePatient,
+  readDate,
+  readJson,
+  readPaging,
+  requireRole,
+  requireUser,
+} from '../context.tsx';
+import { parseBluetoothDevice } from '../ingest.tsx';
+import { importReadingRows } from '../reading_import.tsx';
+import { refreshRollups } from '../rollups.tsx';
+import { loadPatientRules } from '../rule_sets.tsx';
+import type { VitalReading } from '../../_shared/types.tsx';
+import { assessReading, parseVitalInput, recordVital } from '../vitals.tsx';
+
+export function vitalRoutes(deps: AppDeps) {
+  const app = new Hono<AppEnv>();
+  app.use('*', requireUser(deps));
+
+  app.post('/', async (c) => {
+    const user = c.get('user');
+    requireRole(user, 'doctor', 'patient');
+    const body = await readJson(c.req);
+    if (typeof body.patientId !== 'string' || !body.patientId) {
+      throw badRequest('patientId is required');
+    }
+
+    const patient = await loadAccessiblePatient(deps, user, body.patientId);
+    const input = parseVitalInput(body);
+    if (body.device !== undefined && body.device !== null) {
+      input.source = 'device';
+      input.device = parseBluetoothDevice(body.device, deps.now().toISOString());
+    }
+    const result = await recordVital(deps, patient, input, user.id);
+    return c.json(result, 201);
+  });
+
+  // Past readings from a spreadsheet, mapped to fields by the client. They
+  // raise no alerts; ?dryRun=true checks them without saving anything.
+  app.post('/import', async (c) => {
+    const user = c.get('user');
+    requireRole(user, 'doctor', 'patient');
+    const dryRun = c.req.query('dryRun') === 'true';
+    const report = await importReadingRows(deps, user, await readJson(c.req), { dryRun });
+    return c.json(report, dryRun || report.created === 0 ? 200 : 201);
+  });
+
+  // Newest first; from/to bound the reading timestamps (to is exclusive)
+  app.get('/patient/:patientId', async (c) => {
+    const patient = await loadAccessiblePatient(deps, c.get('user'), c.req.param('patientId'));
+    const vitals = await deps.repo.listVitals(patient.id, {
+      ...readPaging((name) => c.req.query(name)),
+      since: readDate(c.req.query('from'), 'from'),
+      until: readDate(c.req.query('to'), 'to'),
+      ascending: c.req.query('order') === 'asc',
+    });
+    return c.json({ vitals });
+  });
+
+  app.get('/patient/:patientId/:vitalId', async (c) => {
+    const patient = await loadAccessiblePatient(deps, c.get('user'), c.req.param('patientId'));
+    const vital = await deps.repo.getVital(patient.id, c.req.param('vitalId'));
+    if (!vital) {
+      throw new HTTPException(404, { message: 'Reading not found' });
+    }
+    return c.json({ vital });
+  });
+
+  // Corrections keep the original timestamp and do not raise new alerts
+  app.put('/patient/:patientId/:vitalId', async (c) => {
+    const user = c.get('user');
+    requireRole(user, 'doctor', 'patient');
+    const patient = await loadAccessiblePatient(deps, user, c.req.param('patientId'));
+    const vital = await deps.repo.getVital(patient.id, c.req.param('vitalId'));
+    if (!vital) {
+      throw new HTTPException(404, { message: 'Reading not found' });
+    }
+
+    const input = parseVitalInput(await readJson(c.req));
+    const updated: VitalReading = {
+      ...vital,
+      heartRate: input.heartRate,
+      bloodPressure: input.bloodPressure,
+      oxygenLevel: input.oxygenLevel,
+      temperature: input.temperature,
+      respiratoryRate: input.respiratoryRate,
+      consciousness: input.consciousness,
+      supplementalOxygen: input.supplementalOxygen,
+      notes: input.notes,
+    };
+    assessReading(updated, patient, await loadPatientRules(deps, patient));
+
+    await deps.repo.saveVital(updated);
+    deps.events.publish({ type: 'vital', patientId: patient.id, vital: updated });
+    await refreshRollups(deps, patient.id, [updated.timestamp]);
+    return c.json({ vital: updated });
+  });
+
+  app.delete('/patient/:patientId/:vitalId', async (c) => {
+    const user = c.get('user');
+    requireRole(user, 'doctor');
+    const patient = await loadAccessiblePatient(deps, user, c.req.param('patientId'));
+    const vital = await deps.repo.getVital(patient.id, c.req.param('vitalId'));
+    if (vital) {
+      await deps.repo.deleteVital(patient.id, vital.id);
+      deps.events.publish({ type: 'vital-deleted', patientId: patient.id, vitalId: vital.id });
+      await refreshRollups(deps, patient.id, [vital.timestamp]);
+    }
+    return c.json({ success: true });
+  });
+
+  return app;
+}
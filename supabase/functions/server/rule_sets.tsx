@@ -0,0 +1,99 @@
+import { applyProfile, DEFAULT_RULES } from './alert_rules.tsx';
+import { badRequest, type AppDeps } from './context.tsx';
+import { ruleSetSchema, SchemaError } from '../_shared/schemas.tsx';
+import type { Patient, RuleSet, TrendRule } from '../_shared/types.tsx';
+
+// The rule set new readings are evaluated against.
+export async function loadActiveRules(deps: AppDeps): Promise<RuleSet> {
+  const version = await deps.repo.getActiveRuleVersion();
+  if (version === null || version === DEFAULT_RULES.version) return DEFAULT_RULES;
+  return (await deps.repo.getRuleSet(version)) ?? DEFAULT_RULES;
+}
+
+// The active rules with the patient's threshold profile applied.
+export async function loadPatientRules(deps: AppDeps, patient: Patient): Promise<RuleSet> {
+  return applyProfile(await loadActiveRules(deps), patient.thresholdProfile);
+}
+
+export async function getRuleSet(deps: AppDeps, version: number): Promise<RuleSet | null> {
+  if (version === DEFAULT_RULES.version) return DEFAULT_RULES;
+  return deps.repo.getRuleSet(version);
+}
+
+// Published versions newest first, ending with the built-in defaults.
+export async function listRuleSets(deps: AppDeps): Promise<RuleSet[]> {
+  return [...(await deps.repo.listRuleSets()), DEFAULT_RULES];
+}
+
+// Validates the rules and trends in a publish request body. Trends are left
+// unset when the body has none, so publishing keeps the active ones.
+export function parseRules(body: Record<string, any>): Pick<RuleSet, 'rules' | 'trends'> {
+  let parsed: RuleSet;
+  try {
+    parsed = ruleSetSchema({ version: 0, createdAt: '', createdBy: '', rules: body.rules, trends: body.trends });
+  } catch (error) {
+    if (error instanceof SchemaError) throw badRequest(error.message);
+    throw error;
+  }
+  const { rules, trends } = parsed;
+
+  const ids = new Set<string>();
+  const checkId = (id: string) => {
+    if (!id || ids.has(id)) {
+      throw badRequest(`Rule ids must be unique and non-empty (${id || 'empty'})`);
+    }
+    ids.add(id);
+  };
+  for (const rule of rules) {
+    checkId(rule.id);
+    if (rule.bands.length === 0 || rule.bands.some((band) => band.any.length === 0)) {
+      throw badRequest(`Rule ${rule.id} needs at least one band, each with at least one condition`);
+    }
+  }
+  for (const trend of trends ?? []) {
+    checkId(trend.id);
+    checkTrend(trend);
+  }
+  return { rules, trends };
+}
+
+const checkTrend = (trend: TrendRule) => {
+  if (!(trend.windowMinutes > 0)) {
+    throw badRequest(`Trend ${trend.id} needs a positive windowMinutes`);
+  }
+  if (trend.kind === 'sustained' && !trend.condition) {
+    throw badRequest(`Sustained trend ${trend.id} needs a condition`);
+  }
+  if (trend.kind !== 'sustained' && !trend.direction) {
+    throw badRequest(`Trend ${trend.id} needs a direction of rise or fall`);
+  }
+  if (trend.kind === 'change' && !(trend.amount !== undefined && trend.amount > 0)) {
+    throw badRequest(`Change trend ${trend.id} needs a positive amount`);
+  }
+  if (trend.kind === 'consecutive' && !(trend.count !== undefined && Number.isInteger(trend.count) && trend.count >= 2)) {
+    throw badRequest(`Consecutive trend ${trend.id} needs a count of at least 2`);
+  }
+};
+
+// Stores the rules as the next version and makes it the active one.
+export async function publishRuleSet(
+  deps: AppDeps,
+  { rules, trends }: Pick<RuleSet, 'rules' | 'trends'>,
+  createdBy: string,
+  notes?: string,
+): Promise<RuleSet> {
+  const [latest] = await listRuleSets(deps);
+  const ruleSet: RuleSet = {
+    version: latest.version + 1,
+    createdAt: deps.now().toISOString(),
+    createdBy,
+    rules,
+  };
+  const activeTrends = trends ?? (await loadActiveRules(deps)).trends;
+  if (activeTrends) ruleSet.trends = activeTrends;
+  if (notes) ruleSet.notes = notes;
+
+  await deps.repo.saveRuleSet(ruleSet);
+  await deps.repo.setActiveRuleVersion(ruleSet.version);
+  return ruleSet;
+}
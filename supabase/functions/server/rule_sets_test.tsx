@@ -0,0 +1,111 @@
+// Run with `deno test --allow-env supabase/functions/server/rule_sets_test.tsx`.
+// Publishes and activates rule sets through the local server and checks which
+// version new readings are evaluated against.
+
+import { deepStrictEqual, equal } from 'node:assert/strict';
+import { createLocalServer } from './local.tsx';
+import { DEFAULT_RULES } from './alert_rules.tsx';
+import type { Alert, AlertRule } from '../_shared/types.tsx';
+
+async function setup() {
+  const server = createLocalServer({ now: () => new Date('2026-10-19T06:00:00.000Z') });
+  await server.request('/signup', {
+    method: 'POST',
+    json: { email: 'doctor@example.com', password: 'secret1', name: 'Dr Grey', role: 'doctor' },
+  });
+  await server.request('/signup', {
+    method: 'POST',
+    json: { email: 'patient@example.com', password: 'secret1', name: 'Ann Lee', role: 'patient' },
+  });
+  const login = await server.request('/local/login', {
+    method: 'POST',
+    json: { email: 'doctor@example.com', password: 'secret1' },
+  });
+  const { accessToken: token } = await login.json();
+  const { patients } = await (await server.request('/patients', { token })).json();
+  const patientId = patients[0].id;
+
+  const rules = async (path = '', init: { method?: string; json?: unknown } = {}) =>
+    server.request(`/rules${path}`, { token, ...init });
+
+  // Returns the reading's status and the version of any heart rate alert open for the patient
+  const record = async (heartRate: number) => {
+    const response = await server.request('/vitals', { method: 'POST', token, json: { patientId, heartRate } });
+    equal(response.status, 201);
+    const { vital } = await response.json();
+    const { alerts } = await (await server.request(`/alerts/patient/${patientId}`, { token })).json();
+    const alert = alerts.find((a: Alert) => a.ruleId === 'heart-rate');
+    return { status: vital.status, ruleVersion: alert?.ruleVersion };
+  };
+
+  return { rules, record };
+}
+
+// The default rules with the heart rate warning raised from above 100 to above 110
+const tolerantRules = (): AlertRule[] =>
+  DEFAULT_RULES.rules.map((rule) =>
+    rule.id !== 'heart-rate' ? rule : {
+      ...rule,
+      bands: rule.bands.map((band) =>
+        band.severity !== 'warning' ? band : {
+          ...band,
+          any: band.any.map((c) => (c.op === '>' ? { ...c, value: 110 } : c)),
+        }
+      ),
+    }
+  );
+
+Deno.test('the built-in rules are active until a version is published', async () => {
+  const { rules, record } = await setup();
+  const { ruleSet } = await (await rules()).json();
+  equal(ruleSet.version, 1);
+  deepStrictEqual(await record(105), { status: 'abnormal', ruleVersion: 1 });
+});
+
+Deno.test('publishing makes the next version active and keeps the active trends', async () => {
+  const { rules, record } = await setup();
+  const published = await rules('', { method: 'POST', json: { rules: tolerantRules(), notes: 'Tolerate 110' } });
+  equal(published.status, 201);
+  const { ruleSet } = await published.json();
+  equal(ruleSet.version, 2);
+  equal(ruleSet.notes, 'Tolerate 110');
+  deepStrictEqual(ruleSet.trends, DEFAULT_RULES.trends);
+  equal((await (await rules()).json()).ruleSet.version, 2);
+
+  deepStrictEqual(await record(105), { status: 'normal', ruleVersion: undefined });
+  deepStrictEqual(await record(115), { status: 'abnormal', ruleVersion: 2 });
+});
+
+Deno.test('an earlier version can be activated again and later publishes still count up', async () => {
+  const { rules, record } = await setup();
+  await rules('', { method: 'POST', json: { rules: tolerantRules() } });
+  await rules('', { method: 'POST', json: { rules: DEFAULT_RULES.rules, trends: [] } });
+
+  let versions = await (await rules('/versions')).json();
+  equal(versions.activeVersion, 3);
+  deepStrictEqual(versions.ruleSets.map((r: { version: number }) => r.version), [3, 2, 1]);
+  deepStrictEqual((await (await rules('/versions/3')).json()).ruleSet.trends, []);
+
+  equal((await rules('/versions/2/activate', { method: 'POST' })).status, 200);
+  equal((await (await rules()).json()).ruleSet.version, 2);
+  deepStrictEqual(await record(105), { status: 'normal', ruleVersion: undefined });
+
+  equal((await rules('/versions/1/activate', { method: 'POST' })).status, 200);
+  deepStrictEqual(await record(105), { status: 'abnormal', ruleVersion: 1 });
+
+  const { ruleSet } = await (await rules('', { method: 'POST', json: { rules: DEFAULT_RULES.rules } })).json();
+  equal(ruleSet.version, 4);
+  // Publishing while the built-in rules are active keeps their trends
+  deepStrictEqual(ruleSet.trends, DEFAULT_RULES.trends);
+  versions = await (await rules('/versions')).json();
+  equal(versions.activeVersion, 4);
+});
+
+Deno.test('unknown and malformed versions are refused', async () => {
+  const { rules } = await setup();
+  equal((await rules('/versions/9')).status, 404);
+  equal((await rules('/versions/9/activate', { method: 'POST' })).status, 404);
+  equal((await rules('/versions/0')).status, 400);
+  equal((await rules('/versions/latest/activate', { method: 'POST' })).status, 400);
+  equal((await (await rules()).json()).ruleSet.version, 1);
+});
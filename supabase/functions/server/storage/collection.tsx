@@ -0,0 +1,117 @@
+import { type KvStore, prefixEnd } from './types.tsx';
+
+// A range over the ordered key parts of a collection or index. prefix pins
+// the leading parts; from (inclusive) and to (exclusive) bound the next one.
+export interface RangeQuery {
+  prefix?: string[];
+  from?: string;
+  to?: string;
+  limit?: number;
+  offset?: number;
+  reverse?: boolean;
+}
+
+export interface CollectionOptions<T> {
+  // Key namespace, e.g. "vital" for keys like vital:{patientId}:{timestamp}:{id}
+  name: string;
+  // Ordered key parts identifying a record
+  key: (record: T) => string[];
+  // Secondary indexes: sortable parts for a record, or null to leave it out
+  indexes?: Record<string, (record: T) => string[] | null>;
+}
+
+// Records stored under composite keys with secondary indexes kept in step.
+// Index entries live at idx:{name}:{index}:{parts}:{record key parts} and
+// hold the record's primary key, so every index scan is a key range read.
+export function createCollection<T>(kv: KvStore, { name, key, indexes = {} }: CollectionOptions<T>) {
+  const recordKey = (parts: string[]) => `${name}:${parts.join(':')}`;
+  const indexBase = (index: string) => `idx:${name}:${index}:`;
+
+  const indexKeys = (record: T) =>
+    Object.entries(indexes).flatMap(([index, parts]) => {
+      const indexed = parts(record);
+      return indexed ? [`${indexBase(index)}${[...indexed, ...key(record)].join(':')}`] : [];
+    });
+
+  const bounds = (base: string, query: RangeQuery) => {
+    const prefix = query.prefix?.length ? `${base}${query.prefix.join(':')}:` : base;
+    return {
+      start: query.from !== undefined ? prefix + query.from : prefix,
+      end: query.to !== undefined ? prefix + query.to : prefixEnd(prefix),
+    };
+  };
+
+  // Loads records by primary key, preserving the order of the keys given
+  const load = async (primaryKeys: string[]): Promise<T[]> => {
+    if (primaryKeys.length === 0) return [];
+    const records: T[] = await kv.mget(primaryKeys);
+    const byKey = new Map(records.map((record) => [recordKey(key(record)), record]));
+    return primaryKeys.flatMap((k) => (byKey.has(k) ? [byKey.get(k)!] : []));
+  };
+
+  const putMany = async (records: T[]) => {
+    if (records.length === 0) return;
+    const keys = records.map((record) => recordKey(key(record)));
+    const previous = await load(keys);
+
+    const entries = new Map<string, any>();
+    records.forEach((record, i) => {
+      entries.set(keys[i], record);
+      indexKeys(record).forEach((k) => entries.set(k, keys[i]));
+    });
+    // Index entries for fields that changed must not keep pointing here
+    const stale = previous.flatMap(indexKeys).filter((k) => !entries.has(k));
+
+    await kv.mset(Array.from(entries.keys()), Array.from(entries.values()));
+    if (stale.length > 0) {
+      await kv.mdel(stale);
+    }
+  };
+
+  const queryIndex = async (index: string, query: RangeQuery = {}): Promise<T[]> => {
+    const { start, end } = bounds(indexBase(index), query);
+    const entries = await kv.scan({ start, end, limit: query.limit, offset: query.offset, reverse: query.reverse });
+    return load(entries.map((entry) => entry.value));
+  };
+
+  return {
+    key: (record: T) => recordKey(key(record)),
+
+    get: async (parts: string[]): Promise<T | null> => (await kv.get(recordKey(parts))) ?? null,
+
+    put: (record: T) => putMany([record]),
+    putMany,
+
+    remove: async (records: T[]) => {
+      if (records.length === 0) return;
+      await kv.mdel(records.flatMap((record) => [recordKey(key(record)), ...indexKeys(record)]));
+    },
+
+    query: async (query: RangeQuery = {}): Promise<T[]> => {
+      const { start, end } = bounds(`${name}:`, query);
+      const entries = await kv.scan({ start, end, limit: query.limit, offset: query.offset, reverse: query.reverse });
+      return entries.map((entry) => entry.value);
+    },
+
+    queryIndex,
+
+    findOne: async (index: string, prefix: string[]): Promise<T | null> =>
+      (await queryIndex(index, { prefix, limit: 1 }))[0] ?? null,
+
+    // Rewrites every index entry, e.g. after adding an index to existing data
+    reindex: async () => {
+      const records: T[] = await kv.getByPrefix(`${name}:`);
+      const existing = await kv.scan({ start: `idx:${name}:`, end: prefixEnd(`idx:${name}:`) });
+      if (existing.length > 0) {
+        await kv.mdel(existing.map((entry) => entry.key));
+      }
+      const entries = records.flatMap((record) => indexKeys(record).map((k) => [k, recordKey(key(record))]));
+      if (entries.length > 0) {
+        await kv.mset(entries.map(([k]) => k), entries.map(([, v]) => v));
+      }
+      return records.length;
+    },
+  };
+}
+
+export type Collection<T> = ReturnType<typeof createCollection<T>>;
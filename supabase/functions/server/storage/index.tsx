@@ -0,0 +1,30 @@
+import type { KvBackend, KvConfig, KvStore } from './types.tsx';
+
+export type { KvBackend, KvConfig, KvEntry, KvStore, ScanOptions } from './types.tsx';
+export { prefixEnd } from './types.tsx';
+export { createCollection, type Collection, type RangeQuery } from './collection.tsx';
+export { createMemoryKv } from './memory.tsx';
+
+const BACKENDS: KvBackend[] = ['supabase', 'memory', 'sqlite'];
+
+// Reads KV_BACKEND (default "supabase") and KV_SQLITE_PATH.
+export function kvConfigFromEnv(defaultBackend: KvBackend = 'supabase'): KvConfig {
+  const backend = (Deno.env.get('KV_BACKEND') ?? defaultBackend) as KvBackend;
+  if (!BACKENDS.includes(backend)) {
+    throw new Error(`KV_BACKEND must be one of: ${BACKENDS.join(', ')}`);
+  }
+  return { backend, sqlitePath: Deno.env.get('KV_SQLITE_PATH') };
+}
+
+// Backends are imported lazily so the edge runtime never loads node:sqlite
+// and the local runner never needs Supabase credentials.
+export async function createKvStore(config: KvConfig): Promise<KvStore> {
+  switch (config.backend) {
+    case 'supabase':
+      return (await import('./supabase.tsx')).createSupabaseKv();
+    case 'memory':
+      return (await import('./memory.tsx')).createMemoryKv();
+    case 'sqlite':
+      return (await import('./sqlite.tsx')).createSqliteKv(config.sqlitePath);
+  }
+}
@@ -0,0 +1,38 @@
+import type { KvStore } from './types.tsx';
+
+// Map-backed store for tests and the local runner. Values are cloned so
+// callers cannot mutate stored records by reference, as with a database.
+export function createMemoryKv(): KvStore & { data: Map<string, any> } {
+  const data = new Map<string, any>();
+  const clone = (value: any) => (value === undefined ? undefined : structuredClone(value));
+
+  return {
+    data,
+    set: async (key, value) => {
+      data.set(key, clone(value));
+    },
+    get: async (key) => clone(data.get(key)),
+    del: async (key) => {
+      data.delete(key);
+    },
+    mset: async (keys, values) => {
+      keys.forEach((key, i) => data.set(key, clone(values[i])));
+    },
+    mget: async (keys) => keys.filter((key) => data.has(key)).map((key) => clone(data.get(key))),
+    mdel: async (keys) => {
+      keys.forEach((key) => data.delete(key));
+    },
+    getByPrefix: async (prefix) =>
+      Array.from(data.keys())
+        .filter((key) => key.startsWith(prefix))
+        .sort()
+        .map((key) => clone(data.get(key))),
+    scan: async ({ start, end, limit, offset = 0, reverse = false }) => {
+      const keys = Array.from(data.keys()).filter((key) => key >= start && key < end).sort();
+      if (reverse) keys.reverse();
+      return keys
+        .slice(offset, limit !== undefined ? offset + limit : undefined)
+        .map((key) => ({ key, value: clone(data.get(key)) }));
+    },
+  };
+}
@@ -0,0 +1,73 @@
+import { DatabaseSync } from 'node:sqlite';
+import { type KvStore, prefixEnd } from './types.tsx';
+
+// Local SQLite store with the same schema as kv_store_3d5bb2df, values kept
+// as JSON text. Needs --allow-read/--allow-write for the database file.
+export function createSqliteKv(path = 'kv_store.sqlite'): KvStore & { close(): void } {
+  const db = new DatabaseSync(path);
+  db.exec(`
+    PRAGMA journal_mode = WAL;
+    CREATE TABLE IF NOT EXISTS kv_store_3d5bb2df (
+      key TEXT NOT NULL PRIMARY KEY,
+      value TEXT NOT NULL
+    );
+  `);
+
+  const upsert = db.prepare(
+    'INSERT INTO kv_store_3d5bb2df (key, value) VALUES (?, ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value',
+  );
+  const select = db.prepare('SELECT value FROM kv_store_3d5bb2df WHERE key = ?');
+  const remove = db.prepare('DELETE FROM kv_store_3d5bb2df WHERE key = ?');
+  const range = db.prepare('SELECT value FROM kv_store_3d5bb2df WHERE key >= ? AND key < ? ORDER BY key');
+  // LIMIT -1 means no limit in SQLite
+  const scanAsc = db.prepare(
+    'SELECT key, value FROM kv_store_3d5bb2df WHERE key >= ? AND key < ? ORDER BY key LIMIT ? OFFSET ?',
+  );
+  const scanDesc = db.prepare(
+    'SELECT key, value FROM kv_store_3d5bb2df WHERE key >= ? AND key < ? ORDER BY key DESC LIMIT ? OFFSET ?',
+  );
+
+  const transaction = (fn: () => void) => {
+    db.exec('BEGIN');
+    try {
+      fn();
+      db.exec('COMMIT');
+    } catch (error) {
+      db.exec('ROLLBACK');
+      throw error;
+    }
+  };
+
+  const read = (key: string) => {
+    const row = select.get(key) as { value: string } | undefined;
+    return row ? JSON.parse(row.value) : undefined;
+  };
+
+  return {
+    set: async (key, value) => {
+      upsert.run(key, JSON.stringify(value));
+    },
+    get: async (key) => read(key),
+    del: async (key) => {
+      remove.run(key);
+    },
+    mset: async (keys, values) => {
+      transaction(() => keys.forEach((key, i) => upsert.run(key, JSON.stringify(values[i]))));
+    },
+    mget: async (keys) => keys.map(read).filter((value) => value !== undefined),
+    mdel: async (keys) => {
+      transaction(() => keys.forEach((key) => remove.run(key)));
+    },
+    getByPrefix: async (prefix) => {
+      if (!prefix) {
+        return (db.prepare('SELECT value FROM kv_store_3d5bb2df ORDER BY key').all() as { value: string }[])
+          .map((row) => JSON.parse(row.value));
+      }
+      return (range.all(prefix, prefixEnd(prefix)) as { value: string }[]).map((row) => JSON.parse(row.value));
+    },
+    scan: async ({ start, end, limit, offset = 0, reverse = false }) =>
+      ((reverse ? scanDesc : scanAsc).all(start, end, limit ?? -1, offset) as { key: string; value: string }[])
+        .map((row) => ({ key: row.key, value: JSON.parse(row.value) })),
+    close: () => db.close(),
+  };
+}
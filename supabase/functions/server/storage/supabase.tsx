@@ -0,0 +1,77 @@
+import { createClient } from "jsr:@supabase/supabase-js@2.49.8";
+import * as kv from '../kv_store.tsx';
+import { type KvEntry, type KvStore, prefixEnd, type ScanOptions } from './types.tsx';
+
+const TABLE = "kv_store_3d5bb2df";
+
+// PostgREST caps a response at 1000 rows by default
+const PAGE_SIZE = 1000;
+
+// Keys per mget/mset/mdel call. mget and mdel put the keys in the URL of an
+// `in` filter, which has to stay well short of the server's URL limit.
+const CHUNK_SIZE = 200;
+
+function chunks<T>(items: T[]): T[][] {
+  const batches: T[][] = [];
+  for (let i = 0; i < items.length; i += CHUNK_SIZE) batches.push(items.slice(i, i + CHUNK_SIZE));
+  return batches;
+}
+
+// Hosted backend: the generated kv_store.tsx helpers, called in chunks, with
+// range reads done here so they page past the 1000-row cap. Bounds, ordering
+// and limits run in Postgres, which compares keys byte-wise like the memory and SQLite
+// backends once the key column uses the "C" collation
+// (supabase/migrations/20261019000000_kv_store_key_collation.sql); the
+// default collation ignores punctuation and case.
+export function createSupabaseKv(): KvStore {
+  const client = createClient(
+    Deno.env.get("SUPABASE_URL")!,
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!,
+  );
+
+  // Reads [start, end) in key order a page at a time until limit entries
+  // have been read. Pages after the first continue from the last key read
+  // rather than by offset, so each is an index range read.
+  const range = async ({ start, end, limit, offset = 0, reverse = false }: Omit<ScanOptions, 'end'> & { end?: string }) => {
+    const entries: KvEntry[] = [];
+    let skip = offset;
+    let last: string | undefined;
+    while (limit === undefined || entries.length < limit) {
+      const size = limit === undefined ? PAGE_SIZE : Math.min(PAGE_SIZE, limit - entries.length);
+      let query = client.from(TABLE).select("key, value").gte("key", start);
+      if (end !== undefined) query = query.lt("key", end);
+      if (last !== undefined) query = reverse ? query.lt("key", last) : query.gt("key", last);
+      const { data, error } = await query
+        .order("key", { ascending: !reverse })
+        .range(skip, skip + size - 1);
+      if (error) {
+        throw new Error(error.message);
+      }
+      entries.push(...(data ?? []));
+      if (!data || data.length < size) break;
+      skip = 0;
+      last = data[data.length - 1].key;
+    }
+    return entries;
+  };
+
+  return {
+    ...kv,
+    mset: async (keys, values) => {
+      for (const [i, batch] of chunks(keys).entries()) {
+        await kv.mset(batch, values.slice(i * CHUNK_SIZE, i * CHUNK_SIZE + batch.length));
+      }
+    },
+    mget: async (keys) => {
+      const values = [];
+      for (const batch of chunks(keys)) values.push(...await kv.mget(batch));
+      return values;
+    },
+    mdel: async (keys) => {
+      for (const batch of chunks(keys)) await kv.mdel(batch);
+    },
+    getByPrefix: async (prefix) =>
+      (await range(prefix ? { start: prefix, end: prefixEnd(prefix) } : { start: "" })).map((entry) => entry.value),
+    scan: (options) => range(options),
+  };
+}
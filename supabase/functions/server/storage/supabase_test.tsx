@@ -0,0 +1,140 @@
+// Run with `deno test --allow-env supabase/functions/server/storage/supabase_test.tsx`.
+// The adapter talks to a stand-in for PostgREST that, like the hosted one,
+// returns at most 1000 rows per request and refuses long URLs.
+
+import { deepStrictEqual, equal, ok } from 'node:assert/strict';
+import { createSupabaseKv } from './supabase.tsx';
+
+const MAX_ROWS = 1000;
+const MAX_URL_LENGTH = 16 * 1024;
+
+interface Request {
+  method: string;
+  url: URL;
+}
+
+// Parses the filters PostgREST receives on the key column
+const matches = (key: string, filters: string[]) =>
+  filters.every((filter) => {
+    const [op, ...rest] = filter.split('.');
+    const value = rest.join('.');
+    switch (op) {
+      case 'eq':
+        return key === value;
+      case 'gt':
+        return key > value;
+      case 'gte':
+        return key >= value;
+      case 'lt':
+        return key < value;
+      case 'in':
+        return value.slice(1, -1).split(',').map((v) => v.replace(/^"(.*)"$/, '$1')).includes(key);
+      default:
+        throw new Error(`Unsupported filter ${filter}`);
+    }
+  });
+
+function fakePostgrest() {
+  const rows = new Map<string, unknown>();
+  const requests: Request[] = [];
+
+  const fetch = async (input: string | URL | globalThis.Request, init: RequestInit = {}) => {
+    const url = new URL(input instanceof globalThis.Request ? input.url : input);
+    const method = init.method ?? 'GET';
+    requests.push({ method, url });
+    if (url.href.length > MAX_URL_LENGTH) {
+      return new Response(JSON.stringify({ message: 'URI Too Long' }), { status: 414 });
+    }
+    const filters = url.searchParams.getAll('key');
+
+    if (method === 'POST') {
+      const body = JSON.parse(String(init.body));
+      for (const row of Array.isArray(body) ? body : [body]) rows.set(row.key, row.value);
+      return new Response(null, { status: 201 });
+    }
+    const selected = [...rows.keys()].filter((key) => matches(key, filters)).sort();
+    if (method === 'DELETE') {
+      selected.forEach((key) => rows.delete(key));
+      return new Response(null, { status: 204 });
+    }
+
+    if (url.searchParams.get('order') === 'key.desc') selected.reverse();
+    const offset = Number(url.searchParams.get('offset') ?? 0);
+    const limit = Math.min(Number(url.searchParams.get('limit') ?? MAX_ROWS), MAX_ROWS);
+    const columns = url.searchParams.get('select')!.split(',');
+    const body = selected.slice(offset, offset + limit)
+      .map((key) => Object.fromEntries(columns.map((column) => [column, column === 'key' ? key : rows.get(key)])));
+    return Response.json(body);
+  };
+
+  return { rows, requests, fetch };
+}
+
+async function setup() {
+  const postgrest = fakePostgrest();
+  Deno.env.set('SUPABASE_URL', 'http://supabase.test');
+  Deno.env.set('SUPABASE_SERVICE_ROLE_KEY', 'service-role-key');
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = postgrest.fetch as typeof globalThis.fetch;
+  return { ...postgrest, kv: createSupabaseKv(), [Symbol.dispose]: () => (globalThis.fetch = originalFetch) };
+}
+
+const keys = (count: number) => Array.from({ length: count }, (_, i) => `vital:p1:${String(i).padStart(5, '0')}`);
+
+Deno.test('scan bounds, orders and limits in the request', async () => {
+  using db = await setup();
+  for (const key of ['vital:p1:001', 'vital:p1:002', 'vital:p1:003', 'vital:p10:001', 'vital:p2:001']) {
+    db.rows.set(key, { key });
+  }
+  db.requests.length = 0;
+
+  const entries = await db.kv.scan({ start: 'vital:p1:', end: 'vital:p1;', limit: 2, reverse: true });
+  deepStrictEqual(entries.map((entry) => entry.key), ['vital:p1:003', 'vital:p1:002']);
+  equal(db.requests.length, 1);
+  const { searchParams } = db.requests[0].url;
+  deepStrictEqual(searchParams.getAll('key'), ['gte.vital:p1:', 'lt.vital:p1;']);
+  equal(searchParams.get('order'), 'key.desc');
+  equal(searchParams.get('limit'), '2');
+
+  deepStrictEqual(
+    (await db.kv.scan({ start: 'vital:p1:', end: 'vital:p1;', offset: 1 })).map((entry) => entry.key),
+    ['vital:p1:002', 'vital:p1:003'],
+  );
+});
+
+Deno.test('scan and getByPrefix page past the row cap by key', async () => {
+  using db = await setup();
+  keys(2500).forEach((key) => db.rows.set(key, key));
+  db.requests.length = 0;
+
+  const entries = await db.kv.scan({ start: 'vital:p1:', end: 'vital:p1;', offset: 10, limit: 2200 });
+  deepStrictEqual(entries.map((entry) => entry.key), keys(2500).slice(10, 2210));
+  equal(db.requests.length, 3);
+  // Only the first page skips rows; the rest continue after the last key read
+  deepStrictEqual(db.requests.map(({ url }) => url.searchParams.get('offset')), ['10', '0', '0']);
+  ok(db.requests[1].url.searchParams.getAll('key').includes(`gt.${keys(2500)[1009]}`));
+
+  deepStrictEqual(
+    (await db.kv.scan({ start: 'vital:p1:', end: 'vital:p1;', reverse: true })).map((entry) => entry.key),
+    keys(2500).reverse(),
+  );
+  deepStrictEqual(await db.kv.getByPrefix('vital:p1:'), keys(2500));
+  equal((await db.kv.getByPrefix('')).length, 2500);
+});
+
+Deno.test('mset, mget and mdel split long key lists into requests under the caps', async () => {
+  using db = await setup();
+  const many = keys(2500);
+  await db.kv.mset(many, many.map((key) => ({ key })));
+  equal(db.rows.size, 2500);
+  deepStrictEqual(db.rows.get(many[2499]), { key: many[2499] });
+
+  db.requests.length = 0;
+  const values = await db.kv.mget(many);
+  deepStrictEqual(values.map((value) => value.key).sort(), many);
+  ok(db.requests.length > 1);
+  ok(db.requests.every(({ url }) => url.href.length <= MAX_URL_LENGTH));
+
+  await db.kv.mdel(many.slice(0, 2400));
+  deepStrictEqual([...db.rows.keys()], many.slice(2400));
+});
@@ -0,0 +1,40 @@
+export interface KvEntry {
+  key: string;
+  value: any;
+}
+
+// Key range for scan(): start is inclusive, end is exclusive, and entries
+// come back in key order (descending when reverse is set).
+export interface ScanOptions {
+  start: string;
+  end: string;
+  limit?: number;
+  offset?: number;
+  reverse?: boolean;
+}
+
+// Storage contract shared by every backend: the functions exported by
+// kv_store.tsx plus an ordered range scan.
+export interface KvStore {
+  set(key: string, value: any): Promise<void>;
+  get(key: string): Promise<any>;
+  del(key: string): Promise<void>;
+  mset(keys: string[], values: any[]): Promise<void>;
+  mget(keys: string[]): Promise<any[]>;
+  mdel(keys: string[]): Promise<void>;
+  getByPrefix(prefix: string): Promise<any[]>;
+  scan(options: ScanOptions): Promise<KvEntry[]>;
+}
+
+export type KvBackend = 'supabase' | 'memory' | 'sqlite';
+
+export interface KvConfig {
+  backend: KvBackend;
+  // Database file for the sqlite backend; ":memory:" keeps it in RAM
+  sqlitePath?: string;
+}
+
+// Smallest string greater than every string starting with prefix, for
+// turning a prefix match into a key range.
+export const prefixEnd = (prefix: string) =>
+  prefix.slice(0, -1) + String.fromCharCode(prefix.charCodeAt(prefix.length - 1) + 1);
@@ -0,0 +1,133 @@
+import { type AlertFinding, compare, describeCondition, METRIC_LABELS, readingMetrics } from './alert_rules.tsx';
+import { METRIC_UNITS } from '../_shared/thresholds.tsx';
+import type { RuleSet, TrendRule, VitalMetric, VitalReading } from '../_shared/types.tsx';
+
+const MINUTE = 60 * 1000;
+
+interface Point {
+  vital: VitalReading;
+  time: number;
+  value: number;
+}
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+const formatValue = (metric: VitalMetric, value: number) => `${round(value)}${METRIC_UNITS[metric]}`;
+
+const formatDuration = (ms: number) => {
+  const minutes = Math.round(ms / MINUTE);
+  if (minutes < 60) return `${minutes} min`;
+  const hours = Math.floor(minutes / 60);
+  return minutes % 60 ? `${hours} h ${minutes % 60} min` : `${hours} h`;
+};
+
+// How far back a reading's history must go to evaluate the trends. Sustained
+// runs may start before their window, so twice the longest window is loaded.
+export const trendHistoryMinutes = (ruleSet: RuleSet) =>
+  2 * Math.max(0, ...(ruleSet.trends ?? []).map((trend) => trend.windowMinutes));
+
+const finding = (trend: TrendRule, ruleSet: RuleSet, points: Point[], explanation: string, reason: string): AlertFinding => ({
+  type: trend.type,
+  severity: trend.severity,
+  value: points[points.length - 1].value,
+  message: `${trend.message}: ${explanation}`,
+  reason,
+  ruleId: trend.id,
+  ruleVersion: ruleSet.version,
+  vitalIds: points.map((p) => p.vital.id),
+});
+
+function sustained(trend: TrendRule, ruleSet: RuleSet, points: Point[]): AlertFinding | null {
+  const c = trend.condition;
+  if (!c) return null;
+  // The run of matching readings ending at the latest one
+  let start = points.length;
+  while (start > 0 && compare(points[start - 1].value, c)) start--;
+  const run = points.slice(start);
+  if (run.length < 2) return null;
+
+  const duration = run[run.length - 1].time - run[0].time;
+  if (duration < trend.windowMinutes * MINUTE) return null;
+  const values = run.map((p) => p.value);
+  const [min, max] = [Math.min(...values), Math.max(...values)];
+  const range = min === max
+    ? formatValue(trend.metric, min)
+    : `${formatValue(trend.metric, min)} to ${formatValue(trend.metric, max)}`;
+  return finding(
+    trend,
+    ruleSet,
+    run,
+    `${describeCondition(c, round(values[values.length - 1]))} and has been for ${formatDuration(duration)} ` +
+      `(${run.length} readings, ${range})`,
+    `${METRIC_LABELS[trend.metric]} ${c.op} ${c.value}${METRIC_UNITS[trend.metric]} for at least ${formatDuration(trend.windowMinutes * MINUTE)}`,
+  );
+}
+
+function change(trend: TrendRule, ruleSet: RuleSet, points: Point[]): AlertFinding | null {
+  if (!trend.direction || trend.amount === undefined) return null;
+  const latest = points[points.length - 1];
+  const fall = trend.direction === 'fall';
+  // The highest reading in the window for a fall, the lowest for a rise
+  const from = points.reduce((best, p) => (fall ? p.value > best.value : p.value < best.value) ? p : best);
+  const delta = fall ? from.value - latest.value : latest.value - from.value;
+  if (delta < trend.amount) return null;
+
+  const involved = points.slice(points.indexOf(from));
+  return finding(
+    trend,
+    ruleSet,
+    involved,
+    `${fall ? 'down' : 'up'} ${formatValue(trend.metric, delta)} from ${formatValue(trend.metric, from.value)} ` +
+      `to ${formatValue(trend.metric, latest.value)} over ${formatDuration(latest.time - from.time)}`,
+    `${METRIC_LABELS[trend.metric]} ${trend.direction} of ${trend.amount}${METRIC_UNITS[trend.metric]} or more ` +
+      `within ${formatDuration(trend.windowMinutes * MINUTE)}`,
+  );
+}
+
+function consecutive(trend: TrendRule, ruleSet: RuleSet, points: Point[]): AlertFinding | null {
+  const count = trend.count ?? 3;
+  if (!trend.direction || points.length < count) return null;
+  const run = points.slice(-count);
+  const rise = trend.direction === 'rise';
+  const monotonic = run.every((p, i) => i === 0 || (rise ? p.value > run[i - 1].value : p.value < run[i - 1].value));
+  const delta = Math.abs(run[run.length - 1].value - run[0].value);
+  if (!monotonic || (trend.amount !== undefined && delta < trend.amount)) return null;
+
+  return finding(
+    trend,
+    ruleSet,
+    run,
+    `${rise ? 'up' : 'down'} ${formatValue(trend.metric, delta)} across ${count} consecutive readings ` +
+      `(${run.map((p) => formatValue(trend.metric, p.value)).join(' → ')}) ` +
+      `over ${formatDuration(run[run.length - 1].time - run[0].time)}`,
+    `${METRIC_LABELS[trend.metric]} ${rise ? 'rising' : 'falling'} across ${count} readings` +
+      (trend.amount !== undefined ? ` by ${trend.amount}${METRIC_UNITS[trend.metric]} or more` : '') +
+      ` within ${formatDuration(trend.windowMinutes * MINUTE)}`,
+  );
+}
+
+// Evaluates the rule set's trends for the last reading in history, which
+// must be ordered oldest first. A trend only fires when that reading has a
+// value for its metric.
+export function evaluateTrends(history: VitalReading[], ruleSet: RuleSet): AlertFinding[] {
+  const latest = history[history.length - 1];
+  if (!latest || !ruleSet.trends) return [];
+  const latestTime = new Date(latest.timestamp).getTime();
+
+  return ruleSet.trends.flatMap((trend) => {
+    const points: Point[] = history.flatMap((vital) => {
+      const value = readingMetrics(vital)[trend.metric];
+      return value === undefined ? [] : [{ vital, time: new Date(vital.timestamp).getTime(), value }];
+    });
+    if (points[points.length - 1]?.vital !== latest) return [];
+
+    const since = latestTime - trend.windowMinutes * MINUTE;
+    const windowed = points.filter((p) => p.time >= since);
+    const result = trend.kind === 'sustained'
+      ? sustained(trend, ruleSet, points)
+      : trend.kind === 'change'
+      ? change(trend, ruleSet, windowed)
+      : consecutive(trend, ruleSet, windowed);
+    return result ? [result] : [];
+  });
+}
@@ -0,0 +1,187 @@
+// Run with `deno test --allow-env supabase/functions/server/trend_rules_test.tsx`.
+// evaluateTrends is called directly with a history; the last tests go through
+// the local server to check the history recordVital gives it.
+
+import { deepStrictEqual, equal } from 'node:assert/strict';
+import { DEFAULT_RULES } from './alert_rules.tsx';
+import { evaluateTrends, trendHistoryMinutes } from './trend_rules.tsx';
+import { createLocalServer } from './local.tsx';
+import type { Alert, RuleSet, VitalReading } from '../_shared/types.tsx';
+
+const START = Date.parse('2026-10-19T06:00:00.000Z');
+const at = (minutes: number) => new Date(START + minutes * 60_000).toISOString();
+
+// Readings taken the given number of minutes after START, oldest first
+const history = (...readings: [number, Partial<VitalReading>][]): VitalReading[] =>
+  readings.map(([minutes, vitals]) => ({
+    id: `v${minutes}`,
+    patientId: 'patient-1',
+    status: 'normal',
+    timestamp: at(minutes),
+    recordedBy: 'nurse-1',
+    ...vitals,
+  }));
+
+// The default rules with just the one trend
+const only = (id: string): RuleSet => ({ ...DEFAULT_RULES, trends: DEFAULT_RULES.trends!.filter((t) => t.id === id) });
+
+const spo2 = (...readings: [number, number][]) =>
+  history(...readings.map(([minutes, oxygenLevel]): [number, Partial<VitalReading>] => [minutes, { oxygenLevel }]));
+const pulse = (...readings: [number, number][]) =>
+  history(...readings.map(([minutes, heartRate]): [number, Partial<VitalReading>] => [minutes, { heartRate }]));
+
+Deno.test('a fall counts from the highest reading inside the window', () => {
+  const falling = only('oxygen-level-falling');
+  const [finding, ...others] = evaluateTrends(spo2([0, 97], [120, 96], [300, 93]), falling);
+  deepStrictEqual(others, []);
+  deepStrictEqual(finding, {
+    type: 'Oxygen Level',
+    severity: 'warning',
+    value: 93,
+    message: 'SpO₂ falling: down 4% from 97% to 93% over 5 h',
+    reason: 'SpO₂ fall of 4% or more within 6 h',
+    ruleId: 'oxygen-level-falling',
+    ruleVersion: 1,
+    vitalIds: ['v0', 'v120', 'v300'],
+  });
+
+  // The window reaches back exactly 6 hours from the latest reading
+  equal(evaluateTrends(spo2([1, 97], [361, 93]), falling).length, 1);
+  deepStrictEqual(evaluateTrends(spo2([0, 97], [100, 95], [361, 93]), falling), []);
+  // A rise is not a fall, and a fall of 3 points is short of the amount
+  deepStrictEqual(evaluateTrends(spo2([0, 93], [60, 97]), falling), []);
+  deepStrictEqual(evaluateTrends(spo2([0, 97], [60, 94]), falling), []);
+});
+
+Deno.test('a change trend needs a second point in the window', () => {
+  const falling = only('oxygen-level-falling');
+  deepStrictEqual(evaluateTrends(spo2([0, 88]), falling), []);
+  deepStrictEqual(evaluateTrends(spo2([0, 97], [400, 88]), falling), []);
+  deepStrictEqual(evaluateTrends([], falling), []);
+});
+
+Deno.test('consecutive readings must all move the same way, by the amount, inside the window', () => {
+  const rising = only('heart-rate-rising');
+  const [finding] = evaluateTrends(pulse([0, 70], [60, 78], [120, 84], [180, 90]), rising);
+  equal(
+    finding.message,
+    'Heart rate rising: up 20 bpm across 4 consecutive readings (70 bpm → 78 bpm → 84 bpm → 90 bpm) over 3 h',
+  );
+  equal(finding.reason, 'Heart rate rising across 4 readings by 15 bpm or more within 6 h');
+  deepStrictEqual(finding.vitalIds, ['v0', 'v60', 'v120', 'v180']);
+
+  // Too few points, in total or inside the window
+  deepStrictEqual(evaluateTrends(pulse([0, 70], [60, 80], [120, 90]), rising), []);
+  deepStrictEqual(evaluateTrends(pulse([0, 70], [300, 80], [360, 90], [420, 100]), rising), []);
+  // A dip breaks the run, and a rise short of the amount does not count
+  deepStrictEqual(evaluateTrends(pulse([0, 70], [60, 85], [120, 84], [180, 90]), rising), []);
+  deepStrictEqual(evaluateTrends(pulse([0, 70], [60, 72], [120, 76], [180, 84]), rising), []);
+  // Only the last readings count: an earlier rise that has levelled off does not fire
+  deepStrictEqual(evaluateTrends(pulse([0, 70], [60, 80], [120, 90], [180, 100], [240, 100]), rising), []);
+});
+
+Deno.test('a sustained run may start before its window but must last it', () => {
+  const sustained = only('oxygen-level-sustained-low');
+  const [finding] = evaluateTrends(spo2([0, 91], [20, 90], [35, 89]), sustained);
+  equal(
+    finding.message,
+    'Sustained low SpO₂: SpO₂ 89% is below 92% and has been for 35 min (3 readings, 89% to 91%)',
+  );
+  equal(finding.reason, 'SpO₂ < 92% for at least 30 min');
+  deepStrictEqual(finding.vitalIds, ['v0', 'v20', 'v35']);
+
+  // The run restarts after a reading at or above the bound
+  deepStrictEqual(evaluateTrends(spo2([0, 91], [10, 92], [20, 90], [35, 89]), sustained), []);
+  deepStrictEqual(evaluateTrends(spo2([0, 91], [29, 90]), sustained), []);
+  deepStrictEqual(evaluateTrends(spo2([40, 91]), sustained), []);
+});
+
+Deno.test('trends only fire for a reading with a value for their metric', () => {
+  const readings = [...spo2([0, 97], [300, 93]), ...history([301, { heartRate: 80 }])];
+  deepStrictEqual(evaluateTrends(readings, only('oxygen-level-falling')), []);
+  deepStrictEqual(evaluateTrends(spo2([0, 97], [300, 93]), { ...DEFAULT_RULES, trends: undefined }), []);
+});
+
+Deno.test('history reaches back twice the longest trend window', () => {
+  equal(trendHistoryMinutes(DEFAULT_RULES), 1440);
+  equal(trendHistoryMinutes(only('oxygen-level-sustained-low')), 60);
+  equal(trendHistoryMinutes({ ...DEFAULT_RULES, trends: [] }), 0);
+  equal(trendHistoryMinutes({ ...DEFAULT_RULES, trends: undefined }), 0);
+});
+
+async function setup() {
+  let now = new Date(START);
+  const server = createLocalServer({ now: () => now });
+  const signup = (email: string, name: string, role: string) =>
+    server.request('/signup', { method: 'POST', json: { email, password: 'secret1', name, role } });
+  await signup('doctor@example.com', 'Dr Grey', 'doctor');
+  await signup('patient@example.com', 'Ann Lee', 'patient');
+  const login = await server.request('/local/login', {
+    method: 'POST',
+    json: { email: 'doctor@example.com', password: 'secret1' },
+  });
+  const { accessToken: token } = await login.json();
+  const { patients } = await (await server.request('/patients', { token })).json();
+  const patientId = patients[0].id;
+
+  const publish = async (ruleSet: RuleSet) => {
+    const json = { rules: ruleSet.rules, trends: ruleSet.trends };
+    equal((await server.request('/rules', { method: 'POST', token, json })).status, 201);
+  };
+
+  // Records a reading taken at the given minute, arriving at `arrives` if later
+  const record = async (minutes: number, vitals: Record<string, unknown>, arrives = minutes) => {
+    now = new Date(at(arrives));
+    const json = { patientId, timestamp: at(minutes), ...vitals };
+    const response = await server.request('/vitals', { method: 'POST', token, json });
+    equal(response.status, 201);
+    return (await response.json()).vital as VitalReading;
+  };
+
+  const trendAlerts = async (ruleId: string): Promise<Alert[]> => {
+    const { alerts } = await (await server.request(`/alerts/patient/${patientId}`, { token })).json();
+    return alerts.filter((alert: Alert) => alert.ruleId === ruleId);
+  };
+
+  return { publish, record, trendAlerts };
+}
+
+Deno.test('recordVital loads twice the longest window, so longer sustained runs are cut short', async () => {
+  const { publish, record, trendAlerts } = await setup();
+  const sustained = only('oxygen-level-sustained-low');
+  await publish(sustained);
+
+  // Low since 0, but by 65 the server only looks back to 5
+  for (const minutes of [0, 65]) await record(minutes, { oxygenLevel: 91 });
+  deepStrictEqual(await trendAlerts('oxygen-level-sustained-low'), []);
+  equal(evaluateTrends(spo2([0, 91], [65, 91]), sustained).length, 1);
+
+  await record(70, { oxygenLevel: 91 });
+  deepStrictEqual(await trendAlerts('oxygen-level-sustained-low'), []);
+  // From 36 back, the readings at 65, 70 and 96 span 31 minutes
+  const latest = await record(96, { oxygenLevel: 91 });
+  const [alert] = await trendAlerts('oxygen-level-sustained-low');
+  equal(alert.vitalId, latest.id);
+  equal(alert.message, 'Sustained low SpO₂: SpO₂ 91% is below 92% and has been for 31 min (3 readings, 91%)');
+});
+
+Deno.test('late readings are placed by their timestamp and judged on the readings before them', async () => {
+  const { publish, record, trendAlerts } = await setup();
+  await publish(only('heart-rate-rising'));
+
+  await record(0, { heartRate: 70 });
+  const second = await record(20, { heartRate: 76 });
+  const fourth = await record(60, { heartRate: 90 });
+  // Taken at 40 but uploaded after the reading at 60: only two readings came before it
+  const third = await record(40, { heartRate: 84 }, 65);
+  deepStrictEqual(await trendAlerts('heart-rate-rising'), []);
+
+  const fifth = await record(80, { heartRate: 96 });
+  const [alert] = await trendAlerts('heart-rate-rising');
+  equal(alert.vitalId, fifth.id);
+  equal(
+    alert.message,
+    'Heart rate rising: up 20 bpm across 4 consecutive readings (76 bpm → 84 bpm → 90 bpm → 96 bpm) over 1 h',
+  );
+  deepStrictEqual(alert.vitalIds, [second.id, third.id, fourth.id, fifth.id]);
+});
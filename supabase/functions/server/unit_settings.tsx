@@ -0,0 +1,41 @@
+// Which units values are shown and entered in. The organisation sets the
+// default and each user may choose their own; the stored readings are not
+// affected either way.
+
+import { badRequest, type AppDeps } from './context.tsx';
+import { DEFAULT_UNITS } from '../_shared/units.tsx';
+import type { UnitPreferences, UnitSettings } from '../_shared/types.tsx';
+
+// Only temperature for now. Glucose (mg/dL or mmol/L) is left out because
+// no glucose readings are recorded; a new metric adds its choices here.
+const CHOICES: { [K in keyof UnitPreferences]: UnitPreferences[K][] } = {
+  temperature: ['C', 'F'],
+};
+
+export async function loadUnitSettings(deps: AppDeps, userId: string): Promise<UnitSettings> {
+  const [organisation, user] = await Promise.all([deps.repo.getOrganisationUnits(), deps.repo.getUserUnits(userId)]);
+  const defaults = { ...DEFAULT_UNITS, ...organisation };
+  return { organisation: defaults, user: user ?? {}, effective: { ...defaults, ...user } };
+}
+
+// Validates an update; fields left out keep their current value, and with
+// allowClear a null field goes back to the organisation default.
+export function parseUnitPreferences<T extends Partial<UnitPreferences>>(
+  body: Record<string, any>,
+  current: T,
+  { allowClear = false }: { allowClear?: boolean } = {},
+): T {
+  const units: Partial<UnitPreferences> = { ...current };
+  for (const [field, choices] of Object.entries(CHOICES) as [keyof UnitPreferences, string[]][]) {
+    const value = body[field];
+    if (value === undefined) continue;
+    if (value === null && allowClear) {
+      delete units[field];
+    } else if (choices.includes(value)) {
+      units[field] = value;
+    } else {
+      throw badRequest(`${field} must be one of ${choices.join(', ')}${allowClear ? ', or null for the default' : ''}`);
+    }
+  }
+  return units as T;
+}
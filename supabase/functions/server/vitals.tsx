@@ -0,0 +1,185 @@
+import { checkedConditions, mergeFindings } from './alert_pipeline.tsx';
+import { type AlertFinding, evaluateReading, news2Finding, parseBloodPressure, readingStatus } from './alert_rules.tsx';
+import { badRequest, type AppDeps } from './context.tsx';
+import { refreshRollups, updateRollups } from './rollups.tsx';
+import { loadPatientRules } from './rule_sets.tsx';
+import { evaluateTrends, trendHistoryMinutes } from './trend_rules.tsx';
+import { scoreNews2 } from '../_shared/news2.tsx';
+import type {
+  Alert,
+  Consciousness,
+  DeviceProvenance,
+  Patient,
+  ReadingSource,
+  RuleSet,
+  VitalReading,
+} from '../_shared/types.tsx';
+
+export interface VitalInput {
+  heartRate?: number;
+  bloodPressure?: string;
+  oxygenLevel?: number;
+  temperature?: number;
+  respiratoryRate?: number;
+  consciousness?: Consciousness;
+  supplementalOxygen?: boolean;
+  notes?: string;
+  timestamp?: string;
+  // Set by the ingestion route; never read from a request body
+  source?: ReadingSource;
+  device?: DeviceProvenance;
+}
+
+const LIMITS = {
+  heartRate: [20, 300],
+  oxygenLevel: [50, 100],
+  temperature: [25, 45],
+  respiratoryRate: [2, 80],
+} as const;
+
+const CONSCIOUSNESS: Consciousness[] = ['A', 'C', 'V', 'P', 'U'];
+
+const optionalNumber = (body: Record<string, any>, field: keyof typeof LIMITS) => {
+  const raw = body[field];
+  if (raw === undefined || raw === null || raw === '') return undefined;
+  const value = Number(raw);
+  const [min, max] = LIMITS[field];
+  if (!Number.isFinite(value) || value < min || value > max) {
+    throw badRequest(`${field} must be a number between ${min} and ${max}`);
+  }
+  return value;
+};
+
+// Validates a request body into a reading; at least one vital is required.
+export function parseVitalInput(body: Record<string, any>): VitalInput {
+  const input: VitalInput = {
+    heartRate: optionalNumber(body, 'heartRate'),
+    oxygenLevel: optionalNumber(body, 'oxygenLevel'),
+    temperature: optionalNumber(body, 'temperature'),
+    respiratoryRate: optionalNumber(body, 'respiratoryRate'),
+  };
+
+  if (body.bloodPressure !== undefined && body.bloodPressure !== null && body.bloodPressure !== '') {
+    const bp = parseBloodPressure(String(body.bloodPressure));
+    if (!bp || bp[0] <= bp[1]) {
+      throw badRequest('bloodPressure must be formatted as "systolic/diastolic"');
+    }
+    input.bloodPressure = `${bp[0]}/${bp[1]}`;
+  }
+
+  if (
+    input.heartRate === undefined &&
+    input.bloodPressure === undefined &&
+    input.oxygenLevel === undefined &&
+    input.temperature === undefined &&
+    input.respiratoryRate === undefined
+  ) {
+    throw badRequest('Please enter at least one vital reading');
+  }
+
+  if (body.consciousness !== undefined && body.consciousness !== null && body.consciousness !== '') {
+    if (!CONSCIOUSNESS.includes(body.consciousness)) {
+      throw badRequest('consciousness must be one of A, C, V, P, U');
+    }
+    input.consciousness = body.consciousness;
+  }
+  if (body.supplementalOxygen !== undefined && body.supplementalOxygen !== null) {
+    if (typeof body.supplementalOxygen !== 'boolean') {
+      throw badRequest('supplementalOxygen must be true or false');
+    }
+    input.supplementalOxygen = body.supplementalOxygen;
+  }
+
+  if (typeof body.notes === 'string' && body.notes.trim()) {
+    input.notes = body.notes.trim();
+  }
+  if (body.timestamp !== undefined) {
+    const timestamp = new Date(body.timestamp);
+    if (isNaN(timestamp.getTime())) {
+      throw badRequest('timestamp must be an ISO 8601 date');
+    }
+    input.timestamp = timestamp.toISOString();
+  }
+
+  return input;
+}
+
+// Scores the reading with NEWS2 and the patient's rules, setting its news2
+// and status, and returns the findings to raise as alerts. Trends are left
+// to the caller, as they need the patient's history.
+export function assessReading(vital: VitalReading, patient: Patient, rules: RuleSet): AlertFinding[] {
+  vital.news2 = scoreNews2(vital, patient.thresholdProfile?.spo2Scale);
+  const findings = evaluateReading(vital, rules);
+  const news2 = news2Finding(vital.news2);
+  if (news2) findings.push(news2);
+  vital.status = readingStatus(findings);
+  return findings;
+}
+
+// Stores a reading and any alerts the active rule set, adjusted by the
+// patient's threshold profile, raises for it, including trends over the
+// patient's recent readings; then updates the rollups. Trend alerts do not
+// change the reading's status, which reflects its own values. Repeats of an
+// open alert's condition update that alert rather than adding another.
+export async function recordVital(
+  deps: AppDeps,
+  patient: Patient,
+  input: VitalInput,
+  recordedBy: string,
+): Promise<{ vital: VitalReading; alerts: Alert[] }> {
+  const vital: VitalReading = {
+    id: crypto.randomUUID(),
+    patientId: patient.id,
+    heartRate: input.heartRate,
+    bloodPressure: input.bloodPressure,
+    oxygenLevel: input.oxygenLevel,
+    temperature: input.temperature,
+    respiratoryRate: input.respiratoryRate,
+    consciousness: input.consciousness,
+    supplementalOxygen: input.supplementalOxygen,
+    notes: input.notes,
+    status: 'normal',
+    timestamp: input.timestamp ?? deps.now().toISOString(),
+    recordedBy,
+    source: input.source ?? 'manual',
+    ...(input.device ? { device: input.device } : {}),
+  };
+
+  const rules = await loadPatientRules(deps, patient);
+  const findings = assessReading(vital, patient, rules);
+  const historyMinutes = trendHistoryMinutes(rules);
+  if (historyMinutes > 0) {
+    const history = await deps.repo.listVitals(patient.id, {
+      since: new Date(new Date(vital.timestamp).getTime() - historyMinutes * 60 * 1000).toISOString(),
+      until: vital.timestamp,
+      ascending: true,
+    });
+    findings.push(...evaluateTrends([...history, vital], rules));
+  }
+
+  await deps.repo.saveVital(vital);
+  deps.events.publish({ type: 'vital', patientId: patient.id, vital });
+  const alerts = await mergeFindings(deps, patient, vital, findings, checkedConditions(vital, rules));
+  try {
+    await updateRollups(deps, [vital]);
+  } catch (error) {
+    // The reading is stored; POST /admin/rollups/backfill repairs the rollups
+    console.error('Error updating rollups:', error);
+  }
+  return { vital, alerts };
+}
+
+// Re-scores the patient's latest reading against their current rules, so the
+// dashboard status follows a threshold change without waiting for a new
+// reading. Alerts already raised are left as they are.
+export async function reevaluateLatest(deps: AppDeps, patient: Patient) {
+  const [latest] = await deps.repo.listVitals(patient.id, { limit: 1 });
+  if (!latest) return;
+  const updated = { ...latest };
+  assessReading(updated, patient, await loadPatientRules(deps, patient));
+  if (updated.status !== latest.status || updated.news2?.total !== latest.news2?.total) {
+    await deps.repo.saveVital(updated);
+    deps.events.publish({ type: 'vital', patientId: patient.id, vital: updated });
+    await refreshRollups(deps, patient.id, [latest.timestamp]);
+  }
+}
@@ -0,0 +1,6 @@
+-- Range scans bound and order keys in Postgres (storage/supabase.tsx). Keys
+-- are composite, e.g. vital:{patientId}:{timestamp}:{id}, and must compare
+-- byte-wise like the memory and SQLite backends; the default en_US collation
+-- ignores punctuation and case. Rebuilds the primary key index in the new
+-- order.
+ALTER TABLE kv_store_3d5bb2df ALTER COLUMN key TYPE TEXT COLLATE "C";
@@ -0,0 +1,338 @@
+// Store-and-forward gateway for sensors wired to a bedside hub such as a
+// Raspberry Pi. Reads one reading per line from a serial port or stdin,
+// writes each to a spool directory on disk before anything else, and forwards
+// the spool to /ingest/batch whenever the server is reachable. A reading
+// leaves the spool only once the server has stored it or refused it for good.
+// Each carries a readingId, so one sent again after a lost response is not
+// stored twice.
+//
+// A line is either the JSON payload from TECHNICAL_GUIDE.md or key=value pairs
+// separated by spaces or commas, as a sketch would print with Serial.printf:
+//
+//   HR=72 SPO2=97 TEMP=36.8 BP=120/80 RR=16 BAT=85
+//   DEV=ESP-1,PID=<patient id>,HR=72,TEMPF=98.6
+//
+// Keys: HR, SPO2, TEMP (°C) or TEMPF, BP (systolic/diastolic), RR, BAT, DEV,
+// PID and TS (ISO 8601 or Unix seconds). Readings without a time are stamped
+// when the gateway reads them. Other lines, e.g. a sketch's debug output, are
+// logged and skipped.
+//
+//   deno run --allow-net --allow-read --allow-write --allow-env --allow-run tools/gateway.tsx \
+//     --url https://<project>.supabase.co/functions/v1/make-server-3d5bb2df \
+//     --key pmk_... --device ESP-1 [--patient <id>] [--serial /dev/ttyUSB0 --baud 115200]
+//
+// INGEST_URL and INGEST_KEY can stand in for --url and --key. Without
+// --serial it reads stdin. Readings the server refused are moved to
+// {spool}/rejected with the reason; move one back to send it again.
+
+import { parseArgs } from 'node:util';
+
+export const DEFAULT_BATCH_SIZE = 100;
+const MIN_RETRY_MS = 1000;
+const MAX_RETRY_MS = 5 * 60 * 1000;
+// How often an idle gateway looks at the spool, e.g. for requeued readings
+const IDLE_POLL_MS = 30 * 1000;
+const REQUEST_TIMEOUT_MS = 30 * 1000;
+
+type Payload = Record<string, any>;
+
+const FIELDS: Record<string, (payload: Payload, value: string) => void> = {
+  HR: (p, v) => (p.readings.heartRate = { value: Number(v), unit: 'bpm' }),
+  SPO2: (p, v) => (p.readings.spo2 = { value: Number(v), unit: '%' }),
+  TEMP: (p, v) => (p.readings.temperature = { value: Number(v), unit: 'C' }),
+  TEMPF: (p, v) => (p.readings.temperature = { value: Number(v), unit: 'F' }),
+  RR: (p, v) => (p.readings.respiratoryRate = { value: Number(v), unit: 'breaths/min' }),
+  BP: (p, v) => {
+    const [systolic, diastolic] = v.split('/').map(Number);
+    p.readings.bloodPressure = { systolic, diastolic, unit: 'mmHg' };
+  },
+  BAT: (p, v) => (p.battery = Number(v)),
+  DEV: (p, v) => (p.deviceId = v),
+  PID: (p, v) => (p.patientId = v),
+  TS: (p, v) => (p.timestamp = /^\d+$/.test(v) ? new Date(Number(v) * 1000).toISOString() : v),
+};
+
+const NUMERIC = new Set(['HR', 'SPO2', 'TEMP', 'TEMPF', 'RR', 'BAT']);
+
+// Turns one line into an ingestion payload, filling in the gateway's device
+// and patient and the time it was read. Blank lines and # comments give null.
+// Values are checked only for shape; the server validates the rest.
+export function parseLine(
+  line: string,
+  defaults: { deviceId?: string; patientId?: string },
+  readAt: Date,
+): { payload: Payload } | { error: string } | null {
+  const text = line.trim();
+  if (!text || text.startsWith('#')) return null;
+
+  let payload: Payload;
+  if (text.startsWith('{')) {
+    try {
+      payload = JSON.parse(text);
+    } catch {
+      return { error: 'Invalid JSON' };
+    }
+    if (!payload || typeof payload !== 'object' || Array.isArray(payload)) {
+      return { error: 'JSON line must be an object' };
+    }
+  } else {
+    payload = { readings: {} };
+    for (const pair of text.split(/[\s,]+/)) {
+      const [key, value, ...rest] = pair.split(/[=:]/);
+      const field = FIELDS[key?.toUpperCase()];
+      if (!field || !value || rest.length > 0) {
+        return { error: `Unrecognised field "${pair}"` };
+      }
+      if (NUMERIC.has(key.toUpperCase()) && !Number.isFinite(Number(value))) {
+        return { error: `${key} must be a number` };
+      }
+      if (key.toUpperCase() === 'BP' && !/^\d+(\.\d+)?\/\d+(\.\d+)?$/.test(value)) {
+        return { error: 'BP must be formatted as systolic/diastolic' };
+      }
+      field(payload, value);
+    }
+    if (Object.keys(payload.readings).length === 0) {
+      return { error: 'No readings on the line' };
+    }
+  }
+
+  payload.deviceId ??= defaults.deviceId;
+  if (!payload.deviceId) {
+    return { error: 'No device id; pass --device or send DEV=' };
+  }
+  if (!payload.patientId && defaults.patientId) payload.patientId = defaults.patientId;
+  payload.timestamp ??= readAt.toISOString();
+  payload.readingId ??= crypto.randomUUID();
+  return { payload };
+}
+
+export interface SpoolEntry {
+  name: string;
+  payload: Payload;
+}
+
+// Readings waiting to be sent, one file each, named so they sort oldest
+// first. Files are written to a temporary name, synced and then renamed, so
+// a power cut leaves either the whole reading or nothing.
+export async function openSpool(dir: string) {
+  const rejectedDir = `${dir}/rejected`;
+  await Deno.mkdir(rejectedDir, { recursive: true });
+
+  const writeDurably = async (path: string, data: unknown) => {
+    const temp = `${path}.tmp`;
+    const file = await Deno.open(temp, { write: true, create: true, truncate: true });
+    try {
+      await file.write(new TextEncoder().encode(JSON.stringify(data)));
+      await file.syncData();
+    } finally {
+      file.close();
+    }
+    await Deno.rename(temp, path);
+  };
+
+  const names = async () => {
+    const found: string[] = [];
+    for await (const entry of Deno.readDir(dir)) {
+      if (entry.isFile && entry.name.endsWith('.json')) found.push(entry.name);
+    }
+    return found.sort();
+  };
+
+  const reject = async (name: string, error: string, payload?: Payload) => {
+    await writeDurably(`${rejectedDir}/${name}`, { error, rejectedAt: new Date().toISOString(), payload });
+    await Deno.remove(`${dir}/${name}`);
+  };
+
+  return {
+    add: async (payload: Payload) => {
+      const name = `${String(Date.now()).padStart(15, '0')}-${payload.readingId}.json`;
+      await writeDurably(`${dir}/${name}`, payload);
+    },
+
+    // The oldest entries, up to limit. A file that cannot be read back is
+    // moved aside rather than blocking the queue.
+    pending: async (limit: number): Promise<SpoolEntry[]> => {
+      const entries: SpoolEntry[] = [];
+      for (const name of (await names()).slice(0, limit)) {
+        try {
+          entries.push({ name, payload: JSON.parse(await Deno.readTextFile(`${dir}/${name}`)) });
+        } catch (error) {
+          await reject(name, `Unreadable spool file: ${error instanceof Error ? error.message : error}`);
+        }
+      }
+      return entries;
+    },
+
+    size: async () => (await names()).length,
+    remove: (name: string) => Deno.remove(`${dir}/${name}`),
+    reject,
+  };
+}
+
+export type Spool = Awaited<ReturnType<typeof openSpool>>;
+
+// Posts a batch of payloads to /ingest/batch
+export type SendBatch = (batch: Payload[]) => Promise<Response>;
+
+export const httpSender = (baseUrl: string, ingestKey: string): SendBatch => (batch) =>
+  fetch(`${baseUrl.replace(/\/$/, '')}/ingest/batch`, {
+    method: 'POST',
+    headers: { 'Authorization': `Bearer ${ingestKey}`, 'Content-Type': 'application/json' },
+    body: JSON.stringify({ batch }),
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+  });
+
+// Sends the spool in batches until it is empty. Returns false, leaving the
+// rest spooled, when the server cannot be reached or refuses the request as
+// a whole, e.g. for a revoked key; entries it rejects one by one are set
+// aside so they do not hold up the rest.
+export async function flushSpool(
+  spool: Spool,
+  send: SendBatch,
+  { batchSize = DEFAULT_BATCH_SIZE, log = console.log }: { batchSize?: number; log?: (message: string) => void } = {},
+): Promise<boolean> {
+  for (;;) {
+    const entries = await spool.pending(batchSize);
+    if (entries.length === 0) return true;
+
+    let response: Response;
+    try {
+      response = await send(entries.map((entry) => entry.payload));
+    } catch (error) {
+      log(`Server unreachable: ${error instanceof Error ? error.message : error}`);
+      return false;
+    }
+    if (!response.ok) {
+      const { error } = await response.json().catch(() => ({ error: undefined }));
+      log(`Server responded ${response.status}: ${error ?? response.statusText}`);
+      return false;
+    }
+
+    const { results } = await response.json() as { results: { index: number; error?: string; duplicate?: boolean }[] };
+    let sent = 0;
+    for (const result of results) {
+      const entry = entries[result.index];
+      if (result.error) {
+        log(`Rejected ${entry.name}: ${result.error}`);
+        await spool.reject(entry.name, result.error, entry.payload);
+      } else {
+        await spool.remove(entry.name);
+        sent++;
+      }
+    }
+    log(`Forwarded ${sent} of ${entries.length} readings`);
+  }
+}
+
+// Keeps flushing the spool: straight away when a reading is added, and with
+// exponential backoff while the server is unreachable.
+export function startForwarding(
+  spool: Spool,
+  send: SendBatch,
+  options: { batchSize?: number; log?: (message: string) => void } = {},
+) {
+  const log = options.log ?? console.log;
+  let stopped = false;
+  let idle = false;
+  let wake: (() => void) | null = null;
+
+  const sleep = (ms: number) =>
+    new Promise<void>((resolve) => {
+      const id = setTimeout(resolve, ms);
+      wake = () => {
+        clearTimeout(id);
+        resolve();
+      };
+    });
+
+  const done = (async () => {
+    let delay = MIN_RETRY_MS;
+    while (!stopped) {
+      idle = await flushSpool(spool, send, options);
+      if (idle) {
+        delay = MIN_RETRY_MS;
+        await sleep(IDLE_POLL_MS);
+      } else {
+        log(`${await spool.size()} readings spooled; retrying in ${Math.round(delay / 1000)}s`);
+        await sleep(delay);
+        delay = Math.min(delay * 2, MAX_RETRY_MS);
+      }
+    }
+  })();
+
+  return {
+    // Call after adding to the spool. While backing off it waits its turn.
+    notify: () => {
+      if (idle) wake?.();
+    },
+    stop: async () => {
+      stopped = true;
+      wake?.();
+      await done;
+    },
+  };
+}
+
+// Splits a byte stream into lines, accepting \n and \r\n endings
+export async function* readLines(stream: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  let buffer = '';
+  for await (const chunk of stream.pipeThrough(new TextDecoderStream())) {
+    buffer += chunk;
+    const lines = buffer.split(/\r?\n/);
+    buffer = lines.pop()!;
+    yield* lines;
+  }
+  if (buffer) yield buffer;
+}
+
+// Sets the port to raw mode at the given baud rate with stty, then opens it
+async function openSerial(path: string, baud: number): Promise<ReadableStream<Uint8Array>> {
+  const stty = await new Deno.Command('stty', { args: ['-F', path, String(baud), 'raw', '-echo'] }).output();
+  if (!stty.success) {
+    throw new Error(`Could not configure ${path}: ${new TextDecoder().decode(stty.stderr).trim()}`);
+  }
+  return (await Deno.open(path, { read: true })).readable;
+}
+
+if (import.meta.main) {
+  const { values } = parseArgs({
+    args: Deno.args,
+    options: {
+      url: { type: 'string', default: Deno.env.get('INGEST_URL') },
+      key: { type: 'string', default: Deno.env.get('INGEST_KEY') },
+      device: { type: 'string' },
+      patient: { type: 'string' },
+      serial: { type: 'string' },
+      baud: { type: 'string', default: '115200' },
+      spool: { type: 'string', default: './gateway-spool' },
+      batch: { type: 'string', default: String(DEFAULT_BATCH_SIZE) },
+    },
+  });
+  if (!values.url || !values.key) {
+    console.error('Pass --url and --key, or set INGEST_URL and INGEST_KEY');
+    Deno.exit(1);
+  }
+
+  const spool = await openSpool(values.spool!);
+  const send = httpSender(values.url, values.key);
+  const forwarding = startForwarding(spool, send, { batchSize: Number(values.batch) });
+  const input = values.serial ? await openSerial(values.serial, Number(values.baud)) : Deno.stdin.readable;
+  console.log(`Reading from ${values.serial ?? 'stdin'}; spooling to ${values.spool}`);
+
+  for await (const line of readLines(input)) {
+    const parsed = parseLine(line, { deviceId: values.device, patientId: values.patient }, new Date());
+    if (!parsed) continue;
+    if ('error' in parsed) {
+      console.log(`Skipped line (${parsed.error}): ${line.trim()}`);
+      continue;
+    }
+    await spool.add(parsed.payload);
+    forwarding.notify();
+  }
+
+  // Input closed, e.g. a file piped to stdin: send what is left, then exit
+  await forwarding.stop();
+  if (!(await flushSpool(spool, send, { batchSize: Number(values.batch) }))) {
+    console.log(`${await spool.size()} readings left in ${values.spool}; they are sent on the next run`);
+  }
+}
@@ -0,0 +1,123 @@
+// Receives ORU^R01 messages from bedside monitors over MLLP and records their
+// vital signs through the ingestion API, so they go through the same
+// validation, device tracking and alert pipeline as any other device reading.
+// Each observation time in a message becomes one reading, sent as an entry of
+// /ingest/batch with a readingId made from the message control id, so a
+// message the monitor sends again is not recorded twice.
+//
+// The monitor is the device: OBX-18 (equipment instance), or the sending
+// application when that is empty. A reading is filed against our patient id
+// when PID-3 carries it, and otherwise against the patient the monitor is
+// paired with.
+//
+// The ACK is AA when every reading was recorded, AE listing the readings the
+// server refused, and AR when the message could not be read or the server
+// could not be reached, so the monitor sends it again.
+//
+// Run `deno run --allow-net --allow-env tools/hl7_listener.tsx` with INGEST_URL
+// (the function URL, ending in /make-server-3d5bb2df), INGEST_KEY (a device
+// ingestion key) and optionally HL7_PORT (default 2575).
+// supabase/functions/server/local.tsx runs it against the local server when
+// HL7_PORT is set.
+
+import {
+  DEFAULT_MLLP_PORT,
+  encodeAck,
+  type Hl7Application,
+  type Hl7Message,
+  Hl7ParseError,
+  type OruReading,
+  parseHl7,
+  parseOru,
+  startMllpServer,
+} from '../supabase/functions/server/hl7.tsx';
+import { type Forward, httpForward } from './mqtt_bridge.tsx';
+
+const LISTENER: Hl7Application = { application: 'PATIENT_MONITOR', facility: '' };
+
+// Device and reading ids may only hold these characters
+const safeId = (text: string) => text.replace(/[^A-Za-z0-9._-]/g, '-').slice(0, 64);
+
+// A reading in the ingestion payload format
+const toPayload = (reading: OruReading, readingId: string) => {
+  const { heartRate, systolic, diastolic, oxygenLevel, temperature, respiratoryRate } = reading.values;
+  const readings: Record<string, unknown> = {};
+  if (heartRate) readings.heartRate = heartRate;
+  if (systolic || diastolic) {
+    readings.bloodPressure = { systolic: systolic?.value, diastolic: diastolic?.value, unit: systolic?.unit ?? diastolic?.unit };
+  }
+  if (oxygenLevel) readings.spo2 = oxygenLevel;
+  if (temperature) readings.temperature = temperature;
+  if (respiratoryRate) readings.respiratoryRate = respiratoryRate;
+  return {
+    ...(reading.patientId ? { patientId: reading.patientId } : {}),
+    deviceId: safeId(reading.deviceId ?? 'hl7'),
+    readingId,
+    timestamp: reading.timestamp,
+    readings,
+  };
+};
+
+// Handles one message and returns the ACK to send back
+export function createHl7Listener(
+  forward: Forward,
+  { log = console.log, now = () => new Date() }: { log?: (message: string) => void; now?: () => Date } = {},
+) {
+  const ack = (message: Hl7Message | null, code: 'AA' | 'AE' | 'AR', errors: string[] = []) => {
+    if (code !== 'AA') log(`HL7 ${code} for message ${message?.field('MSH', 10) ?? '(unreadable)'}: ${errors.join('; ')}`);
+    return encodeAck(message, code, { from: LISTENER, now: now(), errors });
+  };
+
+  return async (text: string): Promise<string> => {
+    let message: Hl7Message | null = null;
+    let readings: OruReading[];
+    try {
+      message = parseHl7(text);
+      readings = parseOru(message).readings;
+    } catch (error) {
+      if (!(error instanceof Hl7ParseError)) throw error;
+      return ack(message, 'AR', [error.message]);
+    }
+    if (readings.length === 0) {
+      return ack(message, 'AA');
+    }
+
+    const controlId = safeId(message.field('MSH', 10) || crypto.randomUUID()).slice(0, 56);
+    const batch = readings.map((reading, index) => toPayload(reading, `hl7-${controlId}-${index}`));
+    let response: Response;
+    try {
+      response = await forward('/ingest/batch', { batch });
+    } catch (error) {
+      return ack(message, 'AR', [`Server unreachable: ${error instanceof Error ? error.message : error}`]);
+    }
+    const body = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      return ack(message, 'AR', [body.error ?? `Server responded ${response.status}`]);
+    }
+    const errors: string[] = (body.results ?? [])
+      .filter((result: { error?: string }) => result.error)
+      .map((result: { error: string }) => result.error);
+    return errors.length > 0 ? ack(message, 'AE', errors) : ack(message, 'AA');
+  };
+}
+
+export function startHl7Listener(
+  port: number,
+  forward: Forward,
+  options: { log?: (message: string) => void } = {},
+) {
+  const { log = console.log } = options;
+  const server = startMllpServer(port, createHl7Listener(forward, { log }), log);
+  log(`HL7 listener accepting ORU^R01 over MLLP on port ${server.port}`);
+  return server;
+}
+
+if (import.meta.main) {
+  const ingestUrl = Deno.env.get('INGEST_URL');
+  const ingestKey = Deno.env.get('INGEST_KEY');
+  if (!ingestUrl || !ingestKey) {
+    console.error('INGEST_URL and INGEST_KEY must be set');
+    Deno.exit(1);
+  }
+  startHl7Listener(Number(Deno.env.get('HL7_PORT') ?? DEFAULT_MLLP_PORT), httpForward(ingestUrl, ingestKey));
+}
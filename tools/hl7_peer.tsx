@@ -0,0 +1,49 @@
+// A local HL7 interface peer. Run
+// `deno run --allow-net --allow-read tools/hl7_peer.tsx peer [port]` for a peer
+// that prints every message it receives and accepts it, e.g. as the
+// destination of the outbound feed, and `hl7_peer.tsx send host:port file.hl7`
+// to send a message from a file, e.g. to the inbound listener, and print the
+// ACK.
+
+import {
+  DEFAULT_MLLP_PORT,
+  encodeAck,
+  type Hl7Message,
+  parseHl7,
+  sendMllp,
+  startMllpServer,
+} from '../supabase/functions/server/hl7.tsx';
+
+// A peer that accepts everything it is sent, for testing an interface
+// locally. onMessage sees each message as received.
+export function startLocalPeer(
+  port: number,
+  onMessage: (message: string) => void = (message) => console.log(message.replace(/\r/g, '\n')),
+) {
+  const self = { application: 'LOCAL_PEER', facility: 'LOCAL' };
+  return startMllpServer(port, async (text) => {
+    onMessage(text);
+    let message: Hl7Message | null = null;
+    try {
+      message = parseHl7(text);
+    } catch (error) {
+      return encodeAck(null, 'AR', { from: self, now: new Date(), errors: [(error as Error).message] });
+    }
+    return encodeAck(message, 'AA', { from: self, now: new Date() });
+  });
+}
+
+if (import.meta.main) {
+  const [command, target, file] = Deno.args;
+  if (command === 'peer') {
+    const { port } = startLocalPeer(Number(target ?? DEFAULT_MLLP_PORT));
+    console.log(`HL7 peer listening for MLLP on port ${port}`);
+  } else if (command === 'send' && target && file) {
+    const [host, port] = target.split(':');
+    const message = (await Deno.readTextFile(file)).replace(/\r?\n/g, '\r');
+    console.log((await sendMllp(host, Number(port ?? DEFAULT_MLLP_PORT), message)).replace(/\r/g, '\n'));
+  } else {
+    console.error('Usage: hl7_peer.tsx peer [port] | hl7_peer.tsx send host:port file.hl7');
+    Deno.exit(1);
+  }
+}
@@ -0,0 +1,186 @@
+// Bridges an MQTT broker to the ingestion API, for sensor nodes (ESP32,
+// Arduino) that publish over MQTT rather than HTTP. Messages are forwarded to
+// /ingest, so they go through the same validation, store and alert pipeline
+// as any other device reading.
+//
+//   patients/{patientId}/vitals  the sensor payload from TECHNICAL_GUIDE.md
+//   devices/{deviceId}/status    { status: 'online' | 'offline', battery?,
+//                                  firmware?, rssi?, timestamp? }, or just the
+//                                  word online/offline, e.g. as a last will
+//
+// A message the server rejects is republished to `{topic}/rejected` with the
+// reason, so a node can subscribe to its own rejections.
+//
+// Run `deno run --allow-net --allow-env tools/mqtt_bridge.tsx` with MQTT_URL,
+// INGEST_URL (the function URL, ending in /make-server-3d5bb2df) and
+// INGEST_KEY (a device ingestion key). MQTT_USERNAME and MQTT_PASSWORD are
+// passed to the broker. The bridge keeps a persistent session under
+// MQTT_CLIENT_ID, so QoS 1 messages published while it is down are delivered
+// when it reconnects. supabase/functions/server/local.tsx runs it against an
+// in-process broker when MQTT_PORT is set.
+
+import mqtt, { type IClientOptions, type MqttClient } from "npm:mqtt@5.10.1";
+import { createServer } from 'node:net';
+
+export const BRIDGE_TOPICS = ['patients/+/vitals', 'devices/+/status'];
+
+// Posts a JSON body to a path under the function's base path
+export type Forward = (path: string, body: unknown) => Promise<Response>;
+
+export type BridgeResult =
+  | { ok: true; path: string }
+  | { ok: false; error: string };
+
+const MAX_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 1000;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const parseJson = (payload: Uint8Array) => {
+  try {
+    return JSON.parse(new TextDecoder().decode(payload));
+  } catch {
+    return undefined;
+  }
+};
+
+// Maps a message to the ingestion request it stands for, or the reason it
+// cannot be forwarded. Payload contents are left to the server to validate.
+export function routeMessage(topic: string, payload: Uint8Array): { path: string; body: unknown } | { error: string } {
+  const [root, id, kind, ...rest] = topic.split('/');
+  if (!id || rest.length > 0) {
+    return { error: `Unsupported topic ${topic}` };
+  }
+
+  if (root === 'patients' && kind === 'vitals') {
+    const body = parseJson(payload);
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return { error: 'Payload must be a JSON object' };
+    }
+    if (body.patientId !== undefined && body.patientId !== id) {
+      return { error: `patientId ${body.patientId} does not match the topic` };
+    }
+    return { path: '/ingest', body: { ...body, patientId: id } };
+  }
+
+  if (root === 'devices' && kind === 'status') {
+    const text = new TextDecoder().decode(payload).trim();
+    const body = text === 'online' || text === 'offline' ? { status: text } : parseJson(payload);
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return { error: 'Payload must be a JSON object or the word online or offline' };
+    }
+    return { path: `/ingest/devices/${encodeURIComponent(id)}/status`, body };
+  }
+
+  return { error: `Unsupported topic ${topic}` };
+}
+
+// Forwards messages one at a time, in arrival order, so trend rules see a
+// patient's readings in sequence. Network errors and 5xx responses are retried
+// a few times; rejections are not.
+export function createMqttBridge(forward: Forward, log: (message: string) => void = console.log) {
+  let queue: Promise<unknown> = Promise.resolve();
+
+  const send = async (path: string, body: unknown): Promise<BridgeResult> => {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const response = await forward(path, body);
+        if (response.ok) return { ok: true, path };
+        const { error } = await response.json().catch(() => ({ error: undefined }));
+        if (response.status < 500 || attempt === MAX_ATTEMPTS) {
+          return { ok: false, error: error ?? `Server responded ${response.status}` };
+        }
+      } catch (error) {
+        if (attempt === MAX_ATTEMPTS) {
+          return { ok: false, error: `Server unreachable: ${error instanceof Error ? error.message : error}` };
+        }
+      }
+      await sleep(RETRY_DELAY_MS * attempt);
+    }
+  };
+
+  const handle = (topic: string, payload: Uint8Array): Promise<BridgeResult> => {
+    const result = queue.then(async () => {
+      const route = routeMessage(topic, payload);
+      const outcome: BridgeResult = 'error' in route ? { ok: false, error: route.error } : await send(route.path, route.body);
+      if (!outcome.ok) log(`Rejected message on ${topic}: ${outcome.error}`);
+      return outcome;
+    });
+    queue = result;
+    return result;
+  };
+
+  // Resolves once every message received so far has been handled
+  const idle = () => queue.then(() => undefined);
+
+  return { handle, idle };
+}
+
+// Forwards to a deployed server, authenticating with an ingestion key
+export const httpForward = (baseUrl: string, ingestKey: string): Forward => (path, body) =>
+  fetch(`${baseUrl.replace(/\/$/, '')}${path}`, {
+    method: 'POST',
+    headers: { 'Authorization': `Bearer ${ingestKey}`, 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+
+export async function startMqttBridge(
+  url: string,
+  forward: Forward,
+  options: IClientOptions & { log?: (message: string) => void } = {},
+): Promise<{ client: MqttClient; close: () => Promise<void> }> {
+  const { log = console.log, ...clientOptions } = options;
+  const bridge = createMqttBridge(forward, log);
+  const client = await mqtt.connectAsync(url, {
+    clientId: `patient-monitor-bridge-${crypto.randomUUID().slice(0, 8)}`,
+    ...clientOptions,
+  });
+  client.on('message', async (topic, payload) => {
+    const result = await bridge.handle(topic, payload);
+    if (!result.ok) {
+      client.publish(`${topic}/rejected`, JSON.stringify({ error: result.error }), { qos: 1 });
+    }
+  });
+  client.on('error', (error) => log(`MQTT error: ${error.message}`));
+  await client.subscribeAsync(BRIDGE_TOPICS, { qos: 1 });
+  log(`MQTT bridge subscribed to ${BRIDGE_TOPICS.join(', ')} on ${url}`);
+
+  return {
+    client,
+    close: async () => {
+      await bridge.idle();
+      await client.endAsync();
+    },
+  };
+}
+
+// An in-process broker on the given port, for local development and tests.
+// The broker is loaded here rather than at the top so the bridge and
+// httpForward do not pull it in.
+export async function startLocalBroker(port: number): Promise<{ close: () => Promise<void> }> {
+  const { default: aedes } = await import("npm:aedes@0.51.3");
+  const broker = aedes.createBroker();
+  const server = createServer(broker.handle);
+  await new Promise<void>((resolve) => server.listen(port, resolve));
+  return {
+    close: async () => {
+      await new Promise<void>((resolve) => broker.close(() => resolve()));
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    },
+  };
+}
+
+if (import.meta.main) {
+  const ingestUrl = Deno.env.get('INGEST_URL');
+  const ingestKey = Deno.env.get('INGEST_KEY');
+  if (!ingestUrl || !ingestKey) {
+    console.error('INGEST_URL and INGEST_KEY must be set');
+    Deno.exit(1);
+  }
+  await startMqttBridge(Deno.env.get('MQTT_URL') ?? 'mqtt://localhost:1883', httpForward(ingestUrl, ingestKey), {
+    clientId: Deno.env.get('MQTT_CLIENT_ID') ?? 'patient-monitor-bridge',
+    clean: false,
+    username: Deno.env.get('MQTT_USERNAME'),
+    password: Deno.env.get('MQTT_PASSWORD'),
+  });
+}
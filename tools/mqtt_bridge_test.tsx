@@ -0,0 +1,77 @@
+// Run with `deno test --allow-net --allow-env --allow-read tools/mqtt_bridge_test.tsx`
+
+import { deepStrictEqual } from 'node:assert/strict';
+import mqtt from "npm:mqtt@5.10.1";
+import { type Forward, routeMessage, startLocalBroker, startMqttBridge } from './mqtt_bridge.tsx';
+
+const PORT = 18831;
+const URL = `mqtt://127.0.0.1:${PORT}`;
+const PATIENT = '6f1c2b3a-0d4e-4f5a-8b6c-7d8e9f0a1b2c';
+
+const encode = (text: string) => new TextEncoder().encode(text);
+
+const until = async (done: () => boolean) => {
+  for (let waited = 0; !done(); waited += 20) {
+    if (waited > 5000) throw new Error('Timed out waiting for the bridge');
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+};
+
+Deno.test('routeMessage takes the patient id from the topic', () => {
+  deepStrictEqual(routeMessage(`patients/${PATIENT}/vitals`, encode('{"deviceId":"ESP-1"}')), {
+    path: '/ingest',
+    body: { deviceId: 'ESP-1', patientId: PATIENT },
+  });
+  deepStrictEqual(routeMessage(`patients/other/vitals`, encode(`{"patientId":"${PATIENT}"}`)), {
+    error: `patientId ${PATIENT} does not match the topic`,
+  });
+  deepStrictEqual(routeMessage('devices/ESP-1/status', encode('offline')), {
+    path: '/ingest/devices/ESP-1/status',
+    body: { status: 'offline' },
+  });
+  deepStrictEqual(routeMessage('patients/x/vitals/extra', encode('{}')), {
+    error: 'Unsupported topic patients/x/vitals/extra',
+  });
+});
+
+Deno.test('the bridge forwards node messages through the local broker and republishes rejections', async () => {
+  const forwarded: { path: string; body: unknown }[] = [];
+  // Stands in for the server: refuses a heart rate of 999
+  const forward: Forward = async (path, body) => {
+    forwarded.push({ path, body });
+    const refused = JSON.stringify(body).includes('"value":999');
+    return Response.json(refused ? { error: 'heartRate is out of range' } : {}, { status: refused ? 422 : 200 });
+  };
+
+  const broker = await startLocalBroker(PORT);
+  const bridge = await startMqttBridge(URL, forward, { log: () => {} });
+  const node = await mqtt.connectAsync(URL);
+  try {
+    const rejected: string[] = [];
+    node.on('message', (topic, payload) => rejected.push(`${topic} ${payload}`));
+    await node.subscribeAsync(['patients/+/vitals/rejected', 'devices/+/status/rejected'], { qos: 1 });
+
+    const reading = { deviceId: 'ESP-1', readings: { heartRate: { value: 72, unit: 'bpm' } } };
+    await node.publishAsync(`patients/${PATIENT}/vitals`, JSON.stringify(reading), { qos: 1 });
+    await node.publishAsync(`patients/${PATIENT}/vitals`, 'not json', { qos: 1 });
+    await node.publishAsync(
+      `patients/${PATIENT}/vitals`,
+      JSON.stringify({ deviceId: 'ESP-1', readings: { heartRate: { value: 999 } } }),
+      { qos: 1 },
+    );
+    await node.publishAsync('devices/ESP-1/status', 'online', { qos: 1 });
+    await until(() => forwarded.length === 3 && rejected.length === 2);
+
+    deepStrictEqual(forwarded.map(({ path }) => path), ['/ingest', '/ingest', '/ingest/devices/ESP-1/status']);
+    deepStrictEqual(forwarded[0].body, { ...reading, patientId: PATIENT });
+    deepStrictEqual(forwarded[2].body, { status: 'online' });
+    deepStrictEqual(rejected, [
+      `patients/${PATIENT}/vitals/rejected {"error":"Payload must be a JSON object"}`,
+      `patients/${PATIENT}/vitals/rejected {"error":"heartRate is out of range"}`,
+    ]);
+  } finally {
+    await node.endAsync();
+    await bridge.close();
+    await broker.close();
+  }
+});
@@ -0,0 +1,359 @@
+// Generates vital-sign streams for demos and load testing and posts them to
+// /ingest/batch, so they go through the same validation, alerts, rollups and
+// live updates as readings from a real device.
+//
+// Each patient gets a baseline of their own, drawn from a seed (their id by
+// default), with a daily rhythm (lowest around 04:00, highest around 16:00)
+// and correlated noise on top. Scenarios push the vitals away from baseline
+// over an onset period, hold for their duration, and then recover:
+//
+//   sepsis               fever, tachycardia, tachypnoea, falling BP and SpO2
+//   hypoxia              a hypoxic episode: SpO2 drops, HR and RR rise
+//   hypertensive-crisis  BP climbs past 180/120
+//   disconnect           the sensor stops sending, e.g. to show device offline alerts
+//
+//   deno run --allow-net --allow-env tools/simulator.tsx \
+//     --url https://<project>.supabase.co/functions/v1/make-server-3d5bb2df \
+//     --key pmk_... --patient <id> [--patient <id> ...] \
+//     [--interval 1m] [--backfill 12h] [--duration 2h] \
+//     [--scenario sepsis@10h] [--scenario <patient id>:hypoxia@11h30m+20m]
+//
+// A scenario is [patient id:]name@start[+duration], with start measured from
+// the beginning of the simulation; without a patient id it applies to every
+// patient. The simulation begins --backfill before now: readings up to now are
+// sent at once, so charts and analytics have history, and it then continues in
+// real time, one reading per patient every --interval, until --duration of
+// simulated time has passed or it is stopped. Durations are written like 90s,
+// 20m, 2h30m or 1d. With --dry-run the payloads are printed one per line
+// instead, which gateway.tsx accepts on stdin. INGEST_URL and INGEST_KEY can
+// stand in for --url and --key.
+
+import { parseArgs } from 'node:util';
+import { httpSender, type SendBatch } from './gateway.tsx';
+
+export type ScenarioName = 'sepsis' | 'hypoxia' | 'hypertensive-crisis' | 'disconnect';
+
+export interface Scenario {
+  name: ScenarioName;
+  // Applies to every patient when left out
+  patientId?: string;
+  startMs: number;
+  durationMs: number;
+}
+
+interface Vitals {
+  heartRate: number;
+  systolic: number;
+  diastolic: number;
+  spo2: number;
+  temperature: number;
+  respiratoryRate: number;
+}
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const BATCH_SIZE = 100;
+// Readings kept for a retry while the server is unreachable
+const MAX_PENDING = 10_000;
+
+// Offsets from baseline once a scenario is fully developed. The onset is how
+// long it takes to develop, and to recover once the duration is over.
+export const SCENARIOS: Record<ScenarioName, { onsetMs: number; durationMs: number; peak: Partial<Vitals> }> = {
+  'sepsis': {
+    onsetMs: 3 * HOUR,
+    durationMs: 12 * HOUR,
+    peak: { heartRate: 45, systolic: -35, diastolic: -22, spo2: -5, temperature: 2.2, respiratoryRate: 12 },
+  },
+  'hypoxia': {
+    onsetMs: 5 * MINUTE,
+    durationMs: 20 * MINUTE,
+    peak: { heartRate: 22, spo2: -16, respiratoryRate: 10 },
+  },
+  'hypertensive-crisis': {
+    onsetMs: 30 * MINUTE,
+    durationMs: 2 * HOUR,
+    peak: { heartRate: 12, systolic: 80, diastolic: 45 },
+  },
+  'disconnect': {
+    onsetMs: 0,
+    durationMs: 30 * MINUTE,
+    peak: {},
+  },
+};
+
+const VITALS: (keyof Vitals)[] = ['heartRate', 'systolic', 'diastolic', 'spo2', 'temperature', 'respiratoryRate'];
+
+// Size of the daily swing either side of baseline
+const CIRCADIAN: Vitals = { heartRate: 6, systolic: 8, diastolic: 5, spo2: 0, temperature: 0.3, respiratoryRate: 1 };
+
+// Standard deviation of each step of the noise, which decays towards zero so
+// consecutive readings stay close
+const NOISE: Vitals = { heartRate: 2, systolic: 4, diastolic: 3, spo2: 0.6, temperature: 0.05, respiratoryRate: 0.8 };
+const NOISE_DECAY = 0.85;
+
+const LIMITS: Record<keyof Vitals, [number, number]> = {
+  heartRate: [30, 220],
+  systolic: [60, 260],
+  diastolic: [30, 160],
+  spo2: [60, 100],
+  temperature: [33, 42.5],
+  respiratoryRate: [4, 60],
+};
+
+const DURATION = /^(?:(\d+)d)?(?:(\d+)h)?(?:(\d+)m)?(?:(\d+)s)?$/;
+
+export function parseDuration(text: string): number {
+  const match = DURATION.exec(text.trim());
+  if (!match || !text.trim()) {
+    throw new Error(`Invalid duration "${text}"; write it like 90s, 20m, 2h30m or 1d`);
+  }
+  const [, days = 0, hours = 0, minutes = 0, seconds = 0] = match;
+  return ((Number(days) * 24 + Number(hours)) * 60 + Number(minutes)) * MINUTE + Number(seconds) * 1000;
+}
+
+export function parseScenario(text: string): Scenario {
+  const match = /^(?:([^:]+):)?([a-z-]+)@([^+]+)(?:\+(.+))?$/.exec(text.trim());
+  if (!match) {
+    throw new Error(`Invalid scenario "${text}"; write it as [patient id:]name@start[+duration]`);
+  }
+  const [, patientId, name, start, duration] = match;
+  if (!(name in SCENARIOS)) {
+    throw new Error(`Unknown scenario "${name}"; use one of ${Object.keys(SCENARIOS).join(', ')}`);
+  }
+  const scenario: Scenario = {
+    name: name as ScenarioName,
+    startMs: parseDuration(start),
+    durationMs: duration ? parseDuration(duration) : SCENARIOS[name as ScenarioName].durationMs,
+  };
+  if (patientId) scenario.patientId = patientId;
+  return scenario;
+}
+
+// How far a scenario has developed at elapsed ms into the simulation, from 0
+// to 1
+const intensity = (scenario: Scenario, elapsed: number) => {
+  const t = elapsed - scenario.startMs;
+  if (t < 0) return 0;
+  const { onsetMs } = SCENARIOS[scenario.name];
+  if (onsetMs === 0) return t < scenario.durationMs ? 1 : 0;
+  const rise = Math.min(1, t / onsetMs);
+  const fall = Math.max(0, 1 - Math.max(0, t - scenario.durationMs) / onsetMs);
+  return Math.min(rise, fall);
+};
+
+// mulberry32, seeded from a hash of the text, so a patient's baseline is the
+// same on every run
+const seededRandom = (seed: string) => {
+  let state = 0;
+  for (const char of seed) state = Math.imul(state ^ char.charCodeAt(0), 2654435761);
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const round = (value: number, places = 0) => Math.round(value * 10 ** places) / 10 ** places;
+
+const clamp = (value: number, [min, max]: [number, number]) => Math.min(max, Math.max(min, value));
+
+export const simulatedDeviceId = (patientId: string) => `SIM-${patientId.replace(/[^A-Za-z0-9]/g, '').slice(0, 12)}`;
+
+// A patient's stream: call it with successive times to get a payload in the
+// TECHNICAL_GUIDE.md format, or null while the sensor is disconnected
+export function createVitalStream(patientId: string, scenarios: Scenario[], startedAt: Date, seed = patientId) {
+  const random = seededRandom(seed);
+  const gaussian = () => Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+  const baseline: Vitals = {
+    heartRate: 62 + random() * 20,
+    systolic: 108 + random() * 24,
+    diastolic: 68 + random() * 14,
+    spo2: 96 + random() * 3,
+    temperature: 36.4 + random() * 0.5,
+    respiratoryRate: 12 + random() * 5,
+  };
+  const noise: Vitals = { heartRate: 0, systolic: 0, diastolic: 0, spo2: 0, temperature: 0, respiratoryRate: 0 };
+  const own = scenarios.filter((scenario) => !scenario.patientId || scenario.patientId === patientId);
+  const deviceId = simulatedDeviceId(patientId);
+
+  return (at: Date) => {
+    const elapsed = at.getTime() - startedAt.getTime();
+    if (own.some((scenario) => scenario.name === 'disconnect' && intensity(scenario, elapsed) > 0)) {
+      return null;
+    }
+
+    const hour = at.getHours() + at.getMinutes() / 60;
+    const daily = Math.cos((2 * Math.PI * (hour - 16)) / 24);
+    const vitals = {} as Vitals;
+    for (const vital of VITALS) {
+      noise[vital] = noise[vital] * NOISE_DECAY + gaussian() * NOISE[vital];
+      const effect = own.reduce((sum, scenario) => sum + (SCENARIOS[scenario.name].peak[vital] ?? 0) * intensity(scenario, elapsed), 0);
+      vitals[vital] = clamp(baseline[vital] + CIRCADIAN[vital] * daily + effect + noise[vital], LIMITS[vital]);
+    }
+
+    const systolic = round(vitals.systolic);
+    return {
+      patientId,
+      deviceId,
+      // Derived from the time, so a reading resent after a failure is stored once
+      readingId: `${deviceId}-${at.getTime()}`,
+      timestamp: at.toISOString(),
+      readings: {
+        heartRate: { value: round(vitals.heartRate), unit: 'bpm' },
+        bloodPressure: { systolic, diastolic: Math.min(round(vitals.diastolic), systolic - 15), unit: 'mmHg' },
+        spo2: { value: round(vitals.spo2), unit: '%' },
+        temperature: { value: round(vitals.temperature, 1), unit: 'C' },
+        respiratoryRate: { value: round(vitals.respiratoryRate), unit: 'breaths/min' },
+      },
+      // Drains a point an hour from full
+      battery: Math.max(5, round(100 - elapsed / HOUR)),
+    };
+  };
+}
+
+export interface SimulationOptions {
+  patients: string[];
+  scenarios?: Scenario[];
+  intervalMs: number;
+  backfillMs?: number;
+  // Simulated time after which to stop; runs until stopped when left out
+  durationMs?: number;
+  // Prints payloads instead when left out
+  send?: SendBatch;
+  log?: (message: string) => void;
+  now?: () => Date;
+  signal?: AbortSignal;
+}
+
+export interface SimulationStats {
+  sent: number;
+  rejected: number;
+  // Alerts raised or updated by the readings
+  alerts: number;
+}
+
+// Runs the simulation and resolves with what the server made of it. Stops
+// early, without an error, when the signal is aborted; a request refused as
+// a whole, e.g. for a revoked key, ends it with an error.
+export async function runSimulation(options: SimulationOptions): Promise<SimulationStats> {
+  const { intervalMs, send, log = console.log, now = () => new Date(), signal } = options;
+  const startedAt = new Date(now().getTime() - (options.backfillMs ?? 0));
+  const endsAt = options.durationMs === undefined ? Infinity : startedAt.getTime() + options.durationMs;
+  const streams = options.patients.map((patientId) => createVitalStream(patientId, options.scenarios ?? [], startedAt));
+  const stats: SimulationStats = { sent: 0, rejected: 0, alerts: 0 };
+  let pending: Record<string, any>[] = [];
+
+  const flush = async () => {
+    while (pending.length > 0) {
+      const batch = pending.slice(0, BATCH_SIZE);
+      if (!send) {
+        batch.forEach((payload) => console.log(JSON.stringify(payload)));
+        stats.sent += batch.length;
+      } else {
+        let response: Response;
+        try {
+          response = await send(batch);
+        } catch (error) {
+          log(`Server unreachable: ${error instanceof Error ? error.message : error}`);
+          return;
+        }
+        if (response.status >= 500) {
+          log(`Server responded ${response.status}; retrying with the next readings`);
+          return;
+        }
+        const body = await response.json().catch(() => ({}));
+        if (!response.ok) {
+          throw new Error(`Server responded ${response.status}: ${body.error ?? response.statusText}`);
+        }
+        for (const result of body.results as { error?: string; alerts?: number }[]) {
+          if (result.error) {
+            if (stats.rejected++ < 10) log(`Rejected: ${result.error}`);
+          } else {
+            stats.sent++;
+            stats.alerts += result.alerts ?? 0;
+          }
+        }
+      }
+      pending = pending.slice(batch.length);
+    }
+  };
+
+  for (let at = startedAt.getTime(); at <= endsAt && !signal?.aborted; at += intervalMs) {
+    const wait = at - now().getTime();
+    if (wait > 0) {
+      await new Promise<void>((resolve) => {
+        const id = setTimeout(resolve, wait);
+        signal?.addEventListener('abort', () => {
+          clearTimeout(id);
+          resolve();
+        }, { once: true });
+      });
+      if (signal?.aborted) break;
+    }
+
+    for (const stream of streams) {
+      const payload = stream(new Date(at));
+      if (payload) pending.push(payload);
+    }
+    if (pending.length > MAX_PENDING) {
+      log(`Dropping ${pending.length - MAX_PENDING} readings the server has not taken`);
+      pending = pending.slice(-MAX_PENDING);
+    }
+    // Catching up sends full batches; in real time every reading goes at once
+    if (pending.length >= BATCH_SIZE || at + intervalMs > now().getTime()) {
+      await flush();
+    }
+  }
+  await flush();
+  return stats;
+}
+
+if (import.meta.main) {
+  const { values } = parseArgs({
+    args: Deno.args,
+    options: {
+      'url': { type: 'string', default: Deno.env.get('INGEST_URL') },
+      'key': { type: 'string', default: Deno.env.get('INGEST_KEY') },
+      'patient': { type: 'string', multiple: true, default: [] },
+      'scenario': { type: 'string', multiple: true, default: [] },
+      'interval': { type: 'string', default: '1m' },
+      'backfill': { type: 'string', default: '0s' },
+      'duration': { type: 'string' },
+      'dry-run': { type: 'boolean', default: false },
+    },
+  });
+
+  let options: SimulationOptions;
+  try {
+    if (values.patient.length === 0) {
+      throw new Error('Pass at least one --patient');
+    }
+    if (!values['dry-run'] && (!values.url || !values.key)) {
+      throw new Error('Pass --url and --key, or set INGEST_URL and INGEST_KEY');
+    }
+    const intervalMs = parseDuration(values.interval);
+    if (intervalMs < 1000) {
+      throw new Error('--interval must be at least 1s');
+    }
+    options = {
+      patients: values.patient,
+      scenarios: values.scenario.map(parseScenario),
+      intervalMs,
+      backfillMs: parseDuration(values.backfill),
+      durationMs: values.duration ? parseDuration(values.duration) : undefined,
+      send: values['dry-run'] ? undefined : httpSender(values.url!, values.key!),
+      // Keep stdout for the payloads on a dry run
+      log: values['dry-run'] ? console.error : console.log,
+    };
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    Deno.exit(1);
+  }
+
+  const controller = new AbortController();
+  Deno.addSignalListener('SIGINT', () => controller.abort());
+  const stats = await runSimulation({ ...options, signal: controller.signal });
+  options.log!(`Sent ${stats.sent} readings, ${stats.rejected} rejected, ${stats.alerts} alert updates`);
+  Deno.exit(0);
+}
@@ -1,307 +1,646 @@
-import { useState } from 'react';
-import { Button } from './ui/button';
-import { Input } from './ui/input';
-import { Label } from './ui/label';
-import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
-import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs';
-import { Heart, Activity, Stethoscope, Loader2 } from 'lucide-react';
-import { createClient } from '../utils/supabase/client';
-import { projectId, publicAnonKey } from '../utils/supabase/info';
-import { toast } from 'sonner@2.0.3';
-
-interface LoginPageProps {
-  onLogin: (user: { id: string; email: string; name: string; role: 'doctor' | 'patient' | 'family' }) => void;
+import { createClient } from './supabase/client';
+import { projectId, publicAnonKey } from './supabase/info';
+import {
+  alertPolicySchema,
+  alertSchema,
+  analyticsResultSchema,
+  array,
+  boolean,
+  deviceSchema,
+  escalationPolicySchema,
+  ingestKeySchema,
+  liveEventSchema,
+  literal,
+  number,
+  object,
+  patientSchema,
+  readingExportSchema,
+  ruleSetSchema,
+  SchemaError,
+  string,
+  unitSettingsSchema,
+  userProfileSchema,
+  vitalReadingSchema,
+  type Validator,
+} from '../supabase/functions/_shared/schemas';
+import type {
+  Alert,
+  AlertOutcome,
+  AlertPolicy,
+  AlertRule,
+  AlertSeverity,
+  AnalyticsPeriod,
+  AnalyticsResult,
+  ConditionTemplateId,
+  Consciousness,
+  Device,
+  DeviceType,
+  EscalationPolicy,
+  IngestKey,
+  LiveEvent,
+  MetricThresholds,
+  Patient,
+  ReadingExport,
+  RuleSet,
+  TemperatureUnit,
+  TrendRule,
+  UnitPreferences,
+  UnitSettings,
+  UserProfile,
+  UserRole,
+  VitalMetric,
+  VitalReading,
+} from '../supabase/functions/_shared/types';
+
+export type {
+  Alert,
+  AlertAction,
+  AlertEscalation,
+  AlertOutcome,
+  AlertPolicy,
+  AlertRule,
+  AlertSeverity,
+  AlertState,
+  AlertStateChange,
+  AnalyticsPeriod,
+  AnalyticsResult,
+  AnalyticsSeries,
+  AnalyticsStats,
+  ConditionTemplateId,
+  Consciousness,
+  Device,
+  DeviceProvenance,
+  DeviceType,
+  EscalationPolicy,
+  EscalationStep,
+  EscalationTarget,
+  EscalationTier,
+  ImportProvenance,
+  IngestKey,
+  LiveEvent,
+  MetricSummary,
+  MetricThresholds,
+  News2Parameter,
+  News2Risk,
+  News2Score,
+  Patient,
+  PatientIdentifier,
+  ReadingExport,
+  ReadingSource,
+  RuleBand,
+  RuleCondition,
+  RuleSet,
+  SeriesPoint,
+  TemperatureUnit,
+  ThresholdProfile,
+  TrendKind,
+  TrendRule,
+  UnitPreferences,
+  UnitSettings,
+  UserProfile,
+  UserRole,
+  VitalMetric,
+  VitalReading,
+} from '../supabase/functions/_shared/types';
+
+const API_BASE = `https://${projectId}.supabase.co/functions/v1/make-server-3d5bb2df`;
+
+const DEFAULT_TIMEOUT_MS = 10000;
+const DEFAULT_RETRIES = 2;
+const BASE_BACKOFF_MS = 500;
+
+// Base class for every failure raised by this module.
+export class ApiError extends Error {
+  constructor(message: string, public status?: number) {
+    super(message);
+    this.name = 'ApiError';
+  }
 }
 
-export default function LoginPage({ onLogin }: LoginPageProps) {
-  const [email, setEmail] = useState('');
-  const [password, setPassword] = useState('');
-  const [name, setName] = useState('');
-  const [selectedRole, setSelectedRole] = useState<'doctor' | 'patient' | 'family'>('patient');
-  const [isSignup, setIsSignup] = useState(false);
-  const [isLoading, setIsLoading] = useState(false);
+// 401/403: the session is missing, expired or lacks the required role.
+export class AuthError extends ApiError {
+  constructor(message: string, status: number) {
+    super(message, status);
+    this.name = 'AuthError';
+  }
+}
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    setIsLoading(true);
+// 400/404/409/422: the request itself was rejected.
+export class ValidationError extends ApiError {
+  constructor(message: string, status: number) {
+    super(message, status);
+    this.name = 'ValidationError';
+  }
+}
 
-    try {
-      const supabase = createClient();
-
-      if (isSignup) {
-        // Validation
-        if (!name.trim()) {
-          toast.error('Please enter your full name');
-          setIsLoading(false);
-          return;
-        }
-        
-        if (password.length < 6) {
-          toast.error('Password must be at least 6 characters');
-          setIsLoading(false);
-          return;
-        }
+// The server could not be reached or did not answer before the timeout.
+export class NetworkError extends ApiError {
+  constructor(message: string, cause?: unknown) {
+    super(message);
+    this.name = 'NetworkError';
+    this.cause = cause;
+  }
+}
 
-        // Call server to create user with role metadata
-        console.log('Attempting signup:', { email, name, role: selectedRole });
-        
-        const response = await fetch(`https://${projectId}.supabase.co/functions/v1/make-server-3d5bb2df/signup`, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${publicAnonKey}`
-          },
-          body: JSON.stringify({ email, password, name, role: selectedRole })
-        });
-
-        const data = await response.json();
-        console.log('Signup response:', data);
-
-        if (!response.ok) {
-          console.error('Signup error:', data.error);
-          toast.error(data.error || 'Failed to create account');
-          setIsLoading(false);
-          return;
-        }
+// 5xx responses, and responses that do not match the expected shape.
+export class ServerError extends ApiError {
+  constructor(message: string, status?: number) {
+    super(message, status);
+    this.name = 'ServerError';
+  }
+}
 
-        toast.success('Account created successfully! You can now log in.');
-        setIsSignup(false);
-        setPassword('');
-        setIsLoading(false);
-        return;
-      }
+interface RequestOptions<T> {
+  method?: 'GET' | 'POST' | 'PUT' | 'DELETE';
+  body?: unknown;
+  schema: Validator<T>;
+  timeoutMs?: number;
+  // Defaults to retrying idempotent methods only, so a POST is never replayed
+  retries?: number;
+}
 
-      // Login with Supabase
-      console.log('Attempting login:', email);
-      
-      const { data, error } = await supabase.auth.signInWithPassword({
-        email,
-        password,
-      });
-
-      if (error) {
-        console.error('Login error:', error.message);
-        
-        // Better error messages
-        if (error.message.includes('Invalid login credentials')) {
-          toast.error('Invalid email or password. Please check your credentials.');
-        } else if (error.message.includes('Email not confirmed')) {
-          toast.error('Please verify your email before logging in.');
-        } else {
-          toast.error(error.message || 'Failed to login');
-        }
-        
-        setIsLoading(false);
-        return;
-      }
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const isRetryable = (error: unknown) =>
+  error instanceof NetworkError ||
+  (error instanceof ServerError && [502, 503, 504].includes(error.status ?? 0));
+
+const getAccessToken = async () => {
+  const { data } = await createClient().auth.getSession();
+  return data.session?.access_token ?? publicAnonKey;
+};
+
+const toApiError = (status: number, message: string) => {
+  if (status === 401 || status === 403) return new AuthError(message, status);
+  if (status >= 500) return new ServerError(message, status);
+  return new ValidationError(message, status);
+};
+
+async function attempt<T>(path: string, options: RequestOptions<T>): Promise<T> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), options.timeoutMs ?? DEFAULT_TIMEOUT_MS);
 
-      if (data.user) {
-        const userName = data.user.user_metadata?.name || 'User';
-        const userRole = data.user.user_metadata?.role || 'patient';
+  let response: Response;
+  let body: string;
+  try {
+    response = await fetch(`${API_BASE}${path}`, {
+      method: options.method ?? 'GET',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${await getAccessToken()}`,
+      },
+      body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
+      signal: controller.signal,
+    });
+    // Read under the same timeout, so a response that stalls mid-body fails too
+    body = await response.text();
+  } catch (error) {
+    throw new NetworkError(
+      controller.signal.aborted ? 'The server took too long to respond' : 'Unable to reach the server',
+      error,
+    );
+  } finally {
+    clearTimeout(timer);
+  }
 
-        console.log('Login successful:', { id: data.user.id, email: data.user.email, name: userName, role: userRole });
+  let data: any = null;
+  try {
+    data = JSON.parse(body);
+  } catch {
+    // Not JSON; handled below as an error status or an unexpected response
+  }
+  if (!response.ok) {
+    // FHIR endpoints report errors as an OperationOutcome
+    const message = data?.error || data?.issue?.[0]?.diagnostics;
+    throw toApiError(response.status, message || `Request failed with status ${response.status}`);
+  }
 
-        toast.success(`Welcome back, ${userName}!`);
-        
-        onLogin({
-          id: data.user.id,
-          email: data.user.email || email,
-          name: userName,
-          role: userRole
-        });
+  try {
+    return options.schema(data);
+  } catch (error) {
+    if (error instanceof SchemaError) {
+      throw new ServerError(`Unexpected response from server (${error.message})`, response.status);
+    }
+    throw error;
+  }
+}
+
+async function request<T>(path: string, options: RequestOptions<T>): Promise<T> {
+  const method = options.method ?? 'GET';
+  const retries = options.retries ?? (method === 'POST' ? 0 : DEFAULT_RETRIES);
+
+  for (let i = 0; ; i++) {
+    try {
+      return await attempt(path, options);
+    } catch (error) {
+      if (i >= retries || !isRetryable(error)) {
+        throw error;
       }
-    } catch (error: any) {
-      console.error('Authentication error:', error);
-      toast.error(error.message || 'An unexpected error occurred');
-    } finally {
-      setIsLoading(false);
+      // Exponential backoff with jitter: ~0.5s, ~1s, ~2s...
+      await sleep(BASE_BACKOFF_MS * 2 ** i * (0.5 + Math.random()));
     }
+  }
+}
+
+// Builds a query string from the defined values, e.g. "?limit=10&status=open"
+const toQuery = (params: Record<string, string | number | undefined>) => {
+  const search = new URLSearchParams();
+  Object.entries(params).forEach(([key, value]) => {
+    if (value !== undefined && value !== '') search.set(key, String(value));
+  });
+  const query = search.toString();
+  return query ? `?${query}` : '';
+};
+
+const successSchema = object({});
+const patientsResponse = object({ patients: array(patientSchema) });
+const patientResponse = object({ patient: patientSchema });
+const vitalsResponse = object({ vitals: array(vitalReadingSchema) });
+const vitalResponse = object({ vital: vitalReadingSchema });
+const alertsResponse = object({ alerts: array(alertSchema) });
+const alertResponse = object({ alert: alertSchema });
+const ruleSetResponse = object({ ruleSet: ruleSetSchema });
+const alertPolicyResponse = object({ policy: alertPolicySchema });
+const escalationPolicyResponse = object({ policy: escalationPolicySchema });
+const unitSettingsResponse = object({ units: unitSettingsSchema });
+const deviceResponse = object({ device: deviceSchema });
+const devicesResponse = object({ devices: array(deviceSchema) });
+const ingestKeyResponse = object({ key: ingestKeySchema });
+const recordVitalResponse = object({ vital: vitalReadingSchema, alerts: array(alertSchema) });
+// Resources are passed through as they are; only the envelope is checked
+const fhirBundleResponse = object({ resourceType: literal('Bundle'), total: number });
+const importedPatientSchema = object({ id: string, name: string, source: string });
+const fhirImportResponse = object({
+  dryRun: boolean,
+  patients: object({ created: array(importedPatientSchema), matched: array(importedPatientSchema) }),
+  readings: object({ created: number, duplicates: number }),
+  unmapped: array(object({ resource: string, reason: string })),
+});
+const readingImportResponse = object({
+  dryRun: boolean,
+  created: number,
+  duplicates: number,
+  issues: array(object({ row: number, status: literal('error', 'duplicate'), message: string })),
+});
+
+export interface NewVitalReading {
+  patientId: string;
+  heartRate?: number;
+  bloodPressure?: string;
+  oxygenLevel?: number;
+  temperature?: number;
+  respiratoryRate?: number;
+  consciousness?: Consciousness;
+  supplementalOxygen?: boolean;
+  notes?: string;
+  timestamp?: string;
+  // The device the values were read from over Bluetooth, if any
+  device?: { deviceId: string; name?: string };
+}
+
+// A spreadsheet row mapped to a reading, values in stored units (°C, mmHg, %)
+export interface ImportedReadingRow {
+  row: number;
+  patientId: string;
+  timestamp: string;
+  heartRate?: number;
+  bloodPressure?: string;
+  oxygenLevel?: number;
+  temperature?: number;
+  respiratoryRate?: number;
+  notes?: string;
+}
+
+export interface ReadingImportReport {
+  dryRun: boolean;
+  created: number;
+  duplicates: number;
+  issues: { row: number; status: 'error' | 'duplicate'; message: string }[];
+}
+
+export interface VitalsRange {
+  from?: string;
+  to?: string;
+  offset?: number;
+  order?: 'asc' | 'desc';
+}
+
+export interface AlertFilters {
+  severity?: AlertSeverity;
+  // open: not yet acknowledged; unresolved: anything short of resolved
+  status?: 'open' | 'unresolved' | 'resolved';
+  from?: string;
+  to?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export const authAPI = {
+  signup: (input: { email: string; password: string; name: string; role: UserRole }) =>
+    request('/signup', { method: 'POST', body: input, schema: object({ user: userProfileSchema }) }),
+
+  me: (): Promise<{ user: UserProfile }> =>
+    request('/me', { schema: object({ user: userProfileSchema }) }),
+
+  getDoctors: (): Promise<{ doctors: UserProfile[] }> =>
+    request('/doctors', { schema: object({ doctors: array(userProfileSchema) }) }),
+};
+
+export const patientsAPI = {
+  getAll: (): Promise<{ patients: Patient[] }> =>
+    request('/patients', { schema: patientsResponse }),
+
+  get: (patientId: string): Promise<{ patient: Patient }> =>
+    request(`/patients/${patientId}`, { schema: patientResponse }),
+
+  create: (input: { name: string; email?: string; age?: number | null }): Promise<{ patient: Patient }> =>
+    request('/patients', { method: 'POST', body: input, schema: patientResponse }),
+
+  update: (patientId: string, patch: { name?: string; email?: string; age?: number | null }) =>
+    request(`/patients/${patientId}`, { method: 'PUT', body: patch, schema: patientResponse }),
+
+  remove: (patientId: string) =>
+    request(`/patients/${patientId}`, { method: 'DELETE', schema: successSchema }),
+
+  // Pass an empty doctorId to unassign
+  assignDoctor: (patientId: string, doctorId: string) =>
+    request(`/patients/${patientId}/assign`, { method: 'POST', body: { doctorId }, schema: patientResponse, retries: DEFAULT_RETRIES }),
+
+  addFamilyMember: (patientId: string, familyMemberId: string) =>
+    request(`/patients/${patientId}/family`, { method: 'POST', body: { familyMemberId }, schema: patientResponse, retries: DEFAULT_RETRIES }),
+
+  removeFamilyMember: (patientId: string, familyMemberId: string) =>
+    request(`/patients/${patientId}/family/${familyMemberId}`, { method: 'DELETE', schema: patientResponse }),
+
+  // Metrics left out of thresholds keep the default alert rules
+  setThresholds: (
+    patientId: string,
+    profile: {
+      condition: ConditionTemplateId | null;
+      thresholds: Partial<Record<VitalMetric, MetricThresholds>>;
+      spo2Scale?: 1 | 2;
+      notes?: string;
+    },
+  ): Promise<{ patient: Patient }> =>
+    request(`/patients/${patientId}/thresholds`, { method: 'PUT', body: profile, schema: patientResponse }),
+
+  clearThresholds: (patientId: string): Promise<{ patient: Patient }> =>
+    request(`/patients/${patientId}/thresholds`, { method: 'DELETE', schema: patientResponse }),
+};
+
+export const vitalsAPI = {
+  add: (reading: NewVitalReading): Promise<{ vital: VitalReading; alerts: Alert[] }> =>
+    request('/vitals', { method: 'POST', body: reading, schema: recordVitalResponse }),
+
+  // Newest first unless range.order is 'asc'
+  getForPatient: (patientId: string, limit?: number, range: VitalsRange = {}): Promise<{ vitals: VitalReading[] }> =>
+    request(`/vitals/patient/${patientId}${toQuery({ limit, ...range })}`, { schema: vitalsResponse }),
+
+  get: (patientId: string, vitalId: string): Promise<{ vital: VitalReading }> =>
+    request(`/vitals/patient/${patientId}/${vitalId}`, { schema: vitalResponse }),
+
+  update: (patientId: string, vitalId: string, reading: Omit<NewVitalReading, 'patientId' | 'timestamp' | 'device'>) =>
+    request(`/vitals/patient/${patientId}/${vitalId}`, { method: 'PUT', body: reading, schema: vitalResponse }),
+
+  remove: (patientId: string, vitalId: string) =>
+    request(`/vitals/patient/${patientId}/${vitalId}`, { method: 'DELETE', schema: successSchema }),
+
+  // Past readings from a spreadsheet; they raise no alerts. Rows that fail
+  // validation or are already recorded are reported and the rest saved, or
+  // with dryRun only reported.
+  import: (readings: ImportedReadingRow[], { source, dryRun = false }: { source?: string; dryRun?: boolean } = {}): Promise<ReadingImportReport> =>
+    request(`/vitals/import${dryRun ? '?dryRun=true' : ''}`, { method: 'POST', body: { source, readings }, schema: readingImportResponse }),
+};
+
+export const alertsAPI = {
+  getAll: (filters: AlertFilters = {}): Promise<{ alerts: Alert[] }> =>
+    request(`/alerts${toQuery({ ...filters })}`, { schema: alertsResponse }),
+
+  getForPatient: (patientId: string, filters: AlertFilters = {}): Promise<{ alerts: Alert[] }> =>
+    request(`/alerts/patient/${patientId}${toQuery({ ...filters })}`, { schema: alertsResponse }),
+
+  // Assigns the alert to doctorId, or to the current doctor when left out
+  claim: (alertId: string, doctorId?: string): Promise<{ alert: Alert }> =>
+    request(`/alerts/${alertId}/claim`, { method: 'POST', body: { doctorId }, schema: alertResponse }),
+
+  // Acknowledging twice is harmless, so this is safe to retry
+  acknowledge: (alertId: string): Promise<{ alert: Alert }> =>
+    request(`/alerts/${alertId}/acknowledge`, { method: 'POST', schema: alertResponse, retries: DEFAULT_RETRIES }),
+
+  // 0 minutes ends the snooze
+  snooze: (alertId: string, minutes: number): Promise<{ alert: Alert }> =>
+    request(`/alerts/${alertId}/snooze`, { method: 'POST', body: { minutes }, schema: alertResponse }),
+
+  resolve: (alertId: string, outcome: AlertOutcome, notes: string): Promise<{ alert: Alert }> =>
+    request(`/alerts/${alertId}/resolve`, { method: 'POST', body: { outcome, notes }, schema: alertResponse }),
+
+  remove: (alertId: string) =>
+    request(`/alerts/${alertId}`, { method: 'DELETE', schema: successSchema }),
+};
+
+export const analyticsAPI = {
+  getAggregate: (period: AnalyticsPeriod): Promise<AnalyticsResult> =>
+    request(`/analytics?period=${period}`, { schema: analyticsResultSchema }),
+
+  getForPatient: (patientId: string, period: AnalyticsPeriod): Promise<AnalyticsResult> =>
+    request(`/analytics/patient/${patientId}?period=${period}`, { schema: analyticsResultSchema }),
+
+  // Every reading in the period per patient; all patients the user can see
+  // when patientIds is left out
+  export: (period: AnalyticsPeriod, patientIds: string[] = []): Promise<ReadingExport> => {
+    const search = new URLSearchParams({ period });
+    patientIds.forEach((id) => search.append('patientId', id));
+    return request(`/analytics/export?${search}`, { schema: readingExportSchema });
+  },
+};
+
+export const rulesAPI = {
+  getActive: (): Promise<{ ruleSet: RuleSet }> =>
+    request('/rules', { schema: ruleSetResponse }),
+
+  listVersions: (): Promise<{ activeVersion: number; ruleSets: RuleSet[] }> =>
+    request('/rules/versions', { schema: object({ activeVersion: number, ruleSets: array(ruleSetSchema) }) }),
+
+  // Publishes a new version and makes it active; without trends the active
+  // version's trends are kept
+  publish: (rules: AlertRule[], notes?: string, trends?: TrendRule[]): Promise<{ ruleSet: RuleSet }> =>
+    request('/rules', { method: 'POST', body: { rules, trends, notes }, schema: ruleSetResponse }),
+
+  activate: (version: number): Promise<{ ruleSet: RuleSet }> =>
+    request(`/rules/versions/${version}/activate`, { method: 'POST', schema: ruleSetResponse, retries: DEFAULT_RETRIES }),
+
+  getPolicy: (): Promise<{ policy: AlertPolicy }> =>
+    request('/rules/policy', { schema: alertPolicyResponse }),
+
+  // Fields left out keep their current value
+  setPolicy: (policy: Partial<AlertPolicy>): Promise<{ policy: AlertPolicy }> =>
+    request('/rules/policy', { method: 'PUT', body: policy, schema: alertPolicyResponse, retries: DEFAULT_RETRIES }),
+
+  getEscalation: (): Promise<{ policy: EscalationPolicy }> =>
+    request('/rules/escalation', { schema: escalationPolicyResponse }),
+
+  setEscalation: (policy: EscalationPolicy): Promise<{ policy: EscalationPolicy }> =>
+    request('/rules/escalation', { method: 'PUT', body: policy, schema: escalationPolicyResponse, retries: DEFAULT_RETRIES }),
+};
+
+export const settingsAPI = {
+  getUnits: (): Promise<{ units: UnitSettings }> =>
+    request('/settings/units', { schema: unitSettingsResponse }),
+
+  // The signed-in user's own choice; null goes back to the organisation default
+  saveUserUnits: (units: { [K in keyof UnitPreferences]?: UnitPreferences[K] | null }): Promise<{ units: UnitSettings }> =>
+    request('/settings/units', { method: 'PUT', body: units, schema: unitSettingsResponse, retries: DEFAULT_RETRIES }),
+
+  // Doctors only
+  saveOrganisationUnits: (units: Partial<UnitPreferences>): Promise<{ units: UnitSettings }> =>
+    request('/settings/units/organisation', { method: 'PUT', body: units, schema: unitSettingsResponse, retries: DEFAULT_RETRIES }),
+};
+
+export interface FhirBundle {
+  resourceType: 'Bundle';
+  total: number;
+  entry?: { fullUrl: string; resource: { resourceType: string; id: string } & Record<string, unknown> }[];
+}
+
+export interface FhirImportReport {
+  dryRun: boolean;
+  patients: {
+    created: { id: string; name: string; source: string }[];
+    matched: { id: string; name: string; source: string }[];
   };
+  readings: { created: number; duplicates: number };
+  unmapped: { resource: string; reason: string }[];
+}
+
+export const fhirAPI = {
+  // The patient and their vital-sign Observations; start and end are
+  // inclusive dates (YYYY-MM-DD) and either may be left out
+  everything: (patientId: string, range: { start?: string; end?: string } = {}): Promise<FhirBundle> =>
+    request(`/fhir/Patient/${patientId}/$everything${toQuery(range)}`, { schema: fhirBundleResponse }),
+
+  // Doctors only. With dryRun the report says what would be imported and
+  // nothing is saved; importing the same Bundle again adds nothing new.
+  import: (bundle: unknown, dryRun = false): Promise<FhirImportReport> =>
+    request(`/fhir/import${dryRun ? '?dryRun=true' : ''}`, { method: 'POST', body: bundle, schema: fhirImportResponse }),
+};
+
+export const devicesAPI = {
+  // Doctors only; includes devices that registered themselves on first contact
+  getAll: (): Promise<{ devices: Device[] }> =>
+    request('/devices', { schema: devicesResponse }),
+
+  getForPatient: (patientId: string): Promise<{ devices: Device[] }> =>
+    request(`/devices/patient/${patientId}`, { schema: devicesResponse }),
+
+  register: (input: { id: string; type: DeviceType; name?: string; serial?: string; firmware?: string }): Promise<{ device: Device }> =>
+    request('/devices', { method: 'POST', body: input, schema: deviceResponse }),
+
+  // Fields left out keep their current value; an empty string clears them
+  update: (deviceId: string, patch: { type?: DeviceType; name?: string; serial?: string; firmware?: string }): Promise<{ device: Device }> =>
+    request(`/devices/${deviceId}`, { method: 'PUT', body: patch, schema: deviceResponse }),
+
+  pair: (deviceId: string, patientId: string): Promise<{ device: Device }> =>
+    request(`/devices/${deviceId}/pair`, { method: 'POST', body: { patientId }, schema: deviceResponse, retries: DEFAULT_RETRIES }),
+
+  unpair: (deviceId: string): Promise<{ device: Device }> =>
+    request(`/devices/${deviceId}/unpair`, { method: 'POST', schema: deviceResponse, retries: DEFAULT_RETRIES }),
+};
+
+// Keys for devices posting to /ingest; the hash never leaves the server
+export type IngestKeyInfo = Omit<IngestKey, 'keyHash'>;
 
-  return (
-    <div className="min-h-screen flex items-center justify-center p-4 bg-gradient-to-br from-sky-100 via-blue-50 to-teal-100 relative overflow-hidden">
-      {/* Animated Background Blobs */}
-      <div className="absolute inset-0 overflow-hidden pointer-events-none">
-        <div className="absolute top-20 left-10 w-72 h-72 bg-blue-400/20 rounded-full blur-3xl animate-pulse-soft"></div>
-        <div className="absolute bottom-20 right-10 w-96 h-96 bg-emerald-400/20 rounded-full blur-3xl animate-pulse-soft" style={{ animationDelay: '1s' }}></div>
-        <div className="absolute top-1/2 left-1/2 w-80 h-80 bg-cyan-400/20 rounded-full blur-3xl animate-pulse-soft" style={{ animationDelay: '2s' }}></div>
-      </div>
-      
-      {/* Version Badge */}
-      <div className="fixed top-6 right-6 z-50 bg-gradient-to-r from-blue-600 to-teal-600 text-white px-5 py-2.5 rounded-full shadow-2xl border border-white/20 backdrop-blur-sm">
-        <p className="text-sm font-semibold">v3.0 - Enhanced Healthcare UI ✨</p>
-      </div>
-      
-      <div className="w-full max-w-6xl flex gap-8 items-center">
-        {/* Left side - Branding */}
-        <div className="hidden lg:flex flex-1 flex-col gap-6 relative z-10">
-          <div className="flex items-center gap-4">
-            <div className="w-16 h-16 rounded-3xl bg-gradient-to-br from-blue-600 to-teal-600 flex items-center justify-center shadow-2xl shadow-blue-500/30 animate-fadeIn">
-              <Activity className="w-9 h-9 text-white" strokeWidth={2.5} />
-            </div>
-            <div>
-              <h1 className="text-3xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-blue-700 to-teal-600">HealthMonitor</h1>
-              <p className="text-slate-700 font-medium">Smart Digital Health Monitoring</p>
-            </div>
-          </div>
-          
-          <div className="space-y-4 mt-8 animate-slideInRight">
-            <div className="flex items-start gap-4 p-5 rounded-2xl bg-white/80 backdrop-blur-md border-2 border-blue-200/50 shadow-lg hover:shadow-xl transition-all duration-300 hover:scale-105 cursor-pointer">
-              <div className="w-12 h-12 rounded-xl bg-gradient-to-br from-blue-500 to-blue-600 flex items-center justify-center flex-shrink-0 shadow-lg shadow-blue-500/30">
-                <Heart className="w-6 h-6 text-white" strokeWidth={2.5} />
-              </div>
-              <div>
-                <h3 className="text-slate-900 font-semibold text-lg">Real-time Monitoring</h3>
-                <p className="text-slate-600 text-sm leading-relaxed">Track vital signs continuously with instant alerts</p>
-              </div>
-            </div>
-            
-            <div className="flex items-start gap-4 p-5 rounded-2xl bg-white/80 backdrop-blur-md border-2 border-emerald-200/50 shadow-lg hover:shadow-xl transition-all duration-300 hover:scale-105 cursor-pointer" style={{ animationDelay: '0.1s' }}>
-              <div className="w-12 h-12 rounded-xl bg-gradient-to-br from-emerald-500 to-emerald-600 flex items-center justify-center flex-shrink-0 shadow-lg shadow-emerald-500/30">
-                <Stethoscope className="w-6 h-6 text-white" strokeWidth={2.5} />
-              </div>
-              <div>
-                <h3 className="text-slate-900 font-semibold text-lg">Professional Care</h3>
-                <p className="text-slate-600 text-sm leading-relaxed">Connect with doctors and caregivers seamlessly</p>
-              </div>
-            </div>
-            
-            <div className="flex items-start gap-4 p-5 rounded-2xl bg-white/80 backdrop-blur-md border-2 border-cyan-200/50 shadow-lg hover:shadow-xl transition-all duration-300 hover:scale-105 cursor-pointer" style={{ animationDelay: '0.2s' }}>
-              <div className="w-12 h-12 rounded-xl bg-gradient-to-br from-cyan-500 to-cyan-600 flex items-center justify-center flex-shrink-0 shadow-lg shadow-cyan-500/30">
-                <Activity className="w-6 h-6 text-white" strokeWidth={2.5} />
-              </div>
-              <div>
-                <h3 className="text-slate-900 font-semibold text-lg">Health Analytics</h3>
-                <p className="text-slate-600 text-sm leading-relaxed">View trends and insights from your health data</p>
-              </div>
-            </div>
-          </div>
-        </div>
-
-        {/* Right side - Login Form */}
-        <div className="flex-1 max-w-md w-full relative z-10">
-          <Card className="w-full max-w-md border-2 border-slate-200 shadow-2xl bg-white/95 backdrop-blur-sm">
-            <CardHeader className="space-y-3">
-              <CardTitle className="text-3xl text-center bg-gradient-to-r from-blue-600 to-emerald-600 bg-clip-text text-transparent">
-                Patient Monitoring System
-              </CardTitle>
-              <CardDescription className="text-center text-base">
-                {isSignup ? 'Create your account to get started' : 'Sign in to access your dashboard'}
-              </CardDescription>
-            </CardHeader>
-            <CardContent>
-              <Tabs defaultValue="patient" onValueChange={(v) => setSelectedRole(v as any)} className="mb-6">
-                <TabsList className="grid w-full grid-cols-3 bg-slate-100/80 p-1.5 h-auto">
-                  <TabsTrigger value="patient" className="data-[state=active]:bg-gradient-to-r data-[state=active]:from-blue-600 data-[state=active]:to-teal-600 data-[state=active]:text-white data-[state=active]:shadow-lg py-2.5 rounded-lg font-medium transition-all">
-                    Patient
-                  </TabsTrigger>
-                  <TabsTrigger value="doctor" className="data-[state=active]:bg-gradient-to-r data-[state=active]:from-blue-600 data-[state=active]:to-teal-600 data-[state=active]:text-white data-[state=active]:shadow-lg py-2.5 rounded-lg font-medium transition-all">
-                    Doctor
-                  </TabsTrigger>
-                  <TabsTrigger value="family" className="data-[state=active]:bg-gradient-to-r data-[state=active]:from-blue-600 data-[state=active]:to-teal-600 data-[state=active]:text-white data-[state=active]:shadow-lg py-2.5 rounded-lg font-medium transition-all">
-                    Family
-                  </TabsTrigger>
-                </TabsList>
-              </Tabs>
-
-              <form onSubmit={handleSubmit} className="space-y-5">
-                {isSignup && (
-                  <div className="space-y-2.5">
-                    <Label htmlFor="name" className="text-sm font-semibold text-slate-700">Full Name</Label>
-                    <Input
-                      id="name"
-                      type="text"
-                      placeholder="John Doe"
-                      value={name}
-                      onChange={(e) => setName(e.target.value)}
-                      required
-                      className="h-12 border-2 border-slate-200 focus:border-blue-500 focus:ring-2 focus:ring-blue-200 rounded-xl bg-slate-50/50 transition-all"
-                    />
-                  </div>
-                )}
-                
-                <div className="space-y-2.5">
-                  <Label htmlFor="email" className="text-sm font-semibold text-slate-700">Email Address</Label>
-                  <Input
-                    id="email"
-                    type="email"
-                    placeholder="name@example.com"
-                    value={email}
-                    onChange={(e) => setEmail(e.target.value)}
-                    required
-                    className="h-12 border-2 border-slate-200 focus:border-blue-500 focus:ring-2 focus:ring-blue-200 rounded-xl bg-slate-50/50 transition-all"
-                  />
-                </div>
-                
-                <div className="space-y-2.5">
-                  <Label htmlFor="password" className="text-sm font-semibold text-slate-700">Password</Label>
-                  <Input
-                    id="password"
-                    type="password"
-                    placeholder="••••••••"
-                    value={password}
-                    onChange={(e) => setPassword(e.target.value)}
-                    required
-                    className="h-12 border-2 border-slate-200 focus:border-blue-500 focus:ring-2 focus:ring-blue-200 rounded-xl bg-slate-50/50 transition-all"
-                  />
-                </div>
-
-                <Button 
-                  type="submit" 
-                  disabled={isLoading}
-                  className="w-full h-12 bg-gradient-to-r from-blue-600 to-teal-600 hover:from-blue-700 hover:to-teal-700 shadow-lg hover:shadow-xl transition-all duration-300 text-base font-semibold rounded-xl disabled:opacity-50"
-                >
-                  {isLoading ? (
-                    <>
-                      <Loader2 className="w-5 h-5 mr-2 animate-spin" />
-                      {isSignup ? 'Creating Account...' : 'Logging in...'}
-                    </>
-                  ) : (
-                    isSignup ? 'Sign Up' : 'Login'
-                  )}
-                </Button>
-
-                {!isSignup && (
-                  <div className="text-center">
-                    <button
-                      type="button"
-                      className="text-sm font-medium text-blue-600 hover:text-blue-700 hover:underline transition-colors"
-                      onClick={() => alert('Password reset link would be sent to your email')}
-                    >
-                      Forgot Password?
-                    </button>
-                  </div>
-                )}
-
-                <div className="text-center pt-6 border-t-2 border-slate-100">
-                  <p className="text-sm text-slate-600">
-                    {isSignup ? 'Already have an account?' : "Don't have an account?"}{' '}
-                    <button
-                      type="button"
-                      className="font-semibold text-transparent bg-clip-text bg-gradient-to-r from-blue-600 to-teal-600 hover:from-blue-700 hover:to-teal-700 transition-all"
-                      onClick={() => {
-                        setIsSignup(!isSignup);
-                        setPassword('');
-                        setName('');
-                      }}
-                    >
-                      {isSignup ? 'Login' : 'Sign Up'}
-                    </button>
-                  </p>
-                </div>
-                
-                {!isSignup && (
-                  <div className="mt-4 p-4 bg-blue-50/80 border-2 border-blue-200/60 rounded-xl">
-                    <p className="text-xs text-slate-600 font-medium text-center">
-                      💡 <strong>First time?</strong> Create an account by clicking "Sign Up" above
-                    </p>
-                  </div>
-                )}
-              </form>
-            </CardContent>
-          </Card>
-        </div>
-      </div>
-    </div>
-  );
+export const ingestAPI = {
+  listKeys: (): Promise<{ keys: IngestKeyInfo[] }> =>
+    request('/ingest/keys', { schema: object({ keys: array(ingestKeySchema) }) }),
+
+  // The secret is returned only once, when the key is created
+  createKey: (name: string): Promise<{ key: IngestKeyInfo; secret: string }> =>
+    request('/ingest/keys', { method: 'POST', body: { name }, schema: object({ key: ingestKeySchema, secret: string }) }),
+
+  revokeKey: (keyId: string): Promise<{ key: IngestKeyInfo }> =>
+    request(`/ingest/keys/${keyId}`, { method: 'DELETE', schema: ingestKeyResponse, retries: DEFAULT_RETRIES }),
+};
+
+export type LiveStatus = 'connecting' | 'live' | 'offline';
+
+export interface LiveHandlers {
+  onEvent: (event: LiveEvent) => void;
+  // Called on every connect, including reconnects, to reload what was missed
+  onReady?: () => void;
+  onStatus?: (status: LiveStatus) => void;
 }
+
+const LIVE_MAX_BACKOFF_MS = 30000;
+
+// Splits one server-sent event into its name and data lines
+const parseEventBlock = (block: string) => {
+  let event = 'message';
+  const data: string[] = [];
+  block.split(/\r?\n/).forEach((line) => {
+    if (line.startsWith('event:')) event = line.slice(6).trim();
+    else if (line.startsWith('data:')) data.push(line.slice(5).trimStart());
+  });
+  return { event, data: data.join('\n') };
+};
+
+export const liveAPI = {
+  // Streams GET /events until the returned function is called, reconnecting
+  // with backoff whenever the connection drops. Uses fetch rather than
+  // EventSource so the session token travels in the Authorization header.
+  subscribe: ({ onEvent, onReady, onStatus }: LiveHandlers): (() => void) => {
+    const controller = new AbortController();
+    let failures = 0;
+
+    const run = async () => {
+      while (!controller.signal.aborted) {
+        onStatus?.('connecting');
+        try {
+          const response = await fetch(`${API_BASE}/events`, {
+            headers: {
+              'Accept': 'text/event-stream',
+              'Authorization': `Bearer ${await getAccessToken()}`,
+            },
+            signal: controller.signal,
+          });
+          if (!response.ok || !response.body) {
+            throw toApiError(response.status, `Event stream failed with status ${response.status}`);
+          }
+
+          const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+          let buffer = '';
+          for (;;) {
+            const { value, done } = await reader.read();
+            if (done) break;
+            const blocks = (buffer + value).split(/\r?\n\r?\n/);
+            buffer = blocks.pop() ?? '';
+            for (const block of blocks) {
+              const { event, data } = parseEventBlock(block);
+              if (event === 'ready') {
+                failures = 0;
+                onStatus?.('live');
+                onReady?.();
+              } else if (data) {
+                try {
+                  onEvent(liveEventSchema(JSON.parse(data)));
+                } catch (error) {
+                  console.error('Ignoring malformed live event:', error);
+                }
+              }
+            }
+          }
+        } catch (error) {
+          if (controller.signal.aborted) return;
+          console.error('Live updates disconnected:', error);
+        }
+        if (controller.signal.aborted) return;
+
+        onStatus?.('offline');
+        // Same backoff as request(), capped so an outage is retried twice a minute
+        await sleep(Math.min(LIVE_MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** failures++) * (0.5 + Math.random()));
+      }
+    };
+
+    run();
+    return () => controller.abort();
+  },
+};
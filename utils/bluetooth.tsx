@@ -0,0 +1,94 @@
+import { GATT_SOURCES, type GattMeasurement } from '../supabase/functions/_shared/gatt';
+
+export interface BluetoothReading {
+  measurement: GattMeasurement;
+  // Stable for this browser and device; usable as a device id
+  deviceId: string;
+  name?: string;
+  // The GATT service the measurement came from, e.g. 'Blood Pressure'
+  service: string;
+}
+
+// The parts of Web Bluetooth used here, which TypeScript's DOM types leave out
+interface GattCharacteristic extends EventTarget {
+  value?: DataView;
+  startNotifications(): Promise<GattCharacteristic>;
+}
+
+interface GattService {
+  getCharacteristic(uuid: number): Promise<GattCharacteristic>;
+}
+
+interface GattServer {
+  connect(): Promise<GattServer>;
+  disconnect(): void;
+  getPrimaryService(uuid: number): Promise<GattService>;
+}
+
+interface BluetoothDevice {
+  id: string;
+  name?: string;
+  gatt?: GattServer;
+}
+
+interface Bluetooth {
+  requestDevice(options: { filters: { services: number[] }[] }): Promise<BluetoothDevice>;
+}
+
+// Long enough to put on a cuff and take a measurement after pairing
+const MEASUREMENT_TIMEOUT_MS = 90000;
+
+// Web Bluetooth is only in Chromium browsers, and only in secure contexts
+export const isBluetoothAvailable = () => typeof navigator !== 'undefined' && 'bluetooth' in navigator;
+
+// The browser's device id is base64; device ids allow letters, digits, dots,
+// dashes and underscores only
+const toDeviceId = (id: string) => `BLE-${id.replace(/[^A-Za-z0-9]/g, '').slice(0, 60)}`;
+
+// Asks the user to pick a device offering one of the supported health
+// services, then waits for its next measurement. Cuffs and thermometers send
+// theirs once taken, so the promise can take a while to settle.
+export async function readFromDevice(): Promise<BluetoothReading> {
+  const { bluetooth } = navigator as Navigator & { bluetooth: Bluetooth };
+  const device = await bluetooth.requestDevice({
+    filters: GATT_SOURCES.map(({ service }) => ({ services: [service] }))
+  });
+  if (!device.gatt) {
+    throw new Error('The device cannot be read over Bluetooth');
+  }
+  const server = await device.gatt.connect();
+
+  try {
+    for (const source of GATT_SOURCES) {
+      const service = await server.getPrimaryService(source.service).catch(() => null);
+      if (!service) continue;
+      for (const { uuid, decode } of source.characteristics) {
+        const characteristic = await service.getCharacteristic(uuid).catch(() => null);
+        if (!characteristic) continue;
+
+        const measurement = await new Promise<GattMeasurement>((resolve, reject) => {
+          const timer = setTimeout(
+            () => reject(new Error('No measurement received; take a reading on the device and try again')),
+            MEASUREMENT_TIMEOUT_MS
+          );
+          characteristic.addEventListener('characteristicvaluechanged', () => {
+            clearTimeout(timer);
+            try {
+              resolve(decode(characteristic.value!));
+            } catch {
+              reject(new Error('The device sent a measurement that could not be read'));
+            }
+          }, { once: true });
+          characteristic.startNotifications().catch((error: Error) => {
+            clearTimeout(timer);
+            reject(error);
+          });
+        });
+        return { measurement, deviceId: toDeviceId(device.id), name: device.name || undefined, service: source.name };
+      }
+    }
+    throw new Error('The device offers none of the supported health measurements');
+  } finally {
+    server.disconnect();
+  }
+}
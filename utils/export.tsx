@@ -0,0 +1,150 @@
+import { toCsv } from './csv';
+import { fromCelsius, localizeTemperatures } from '../supabase/functions/_shared/units';
+import type { Alert, AlertSeverity, AnalyticsPeriod, ReadingExport, UnitPreferences, VitalReading } from './api';
+
+// The Vital Type choices on the Analytics page
+export type ExportMetric = 'all' | 'heartRate' | 'bloodPressure' | 'spo2' | 'temperature';
+
+type Cell = string | number | null;
+type PatientExport = ReadingExport['patients'][number];
+
+interface Column {
+  header: string;
+  // Left out when another metric is selected; shown for every metric if unset
+  metric?: ExportMetric;
+  value: (reading: VitalReading, patient: PatientExport['patient'], alerts: Alert[]) => Cell;
+}
+
+const SEVERITY_ORDER: AlertSeverity[] = ['critical', 'warning', 'info'];
+
+const bloodPressure = (reading: VitalReading) => reading.bloodPressure?.split('/').map(Number) ?? [];
+
+// Temperatures, including those in alert text, are written in the user's unit
+const columns = (units: UnitPreferences): Column[] => [
+  { header: 'Patient ID', value: (_, patient) => patient.id },
+  { header: 'Patient', value: (_, patient) => patient.name },
+  {
+    header: 'Other identifiers',
+    value: (_, patient) => patient.identifiers?.map(({ system, value }) => (system ? `${system}|${value}` : value)).join('; ') ?? ''
+  },
+  { header: 'Timestamp (UTC)', value: (reading) => reading.timestamp },
+  { header: 'Heart rate (bpm)', metric: 'heartRate', value: (reading) => reading.heartRate ?? null },
+  { header: 'Systolic (mmHg)', metric: 'bloodPressure', value: (reading) => bloodPressure(reading)[0] ?? null },
+  { header: 'Diastolic (mmHg)', metric: 'bloodPressure', value: (reading) => bloodPressure(reading)[1] ?? null },
+  { header: 'SpO₂ (%)', metric: 'spo2', value: (reading) => reading.oxygenLevel ?? null },
+  {
+    header: 'Supplemental oxygen',
+    metric: 'spo2',
+    value: (reading) => (reading.supplementalOxygen === undefined ? null : reading.supplementalOxygen ? 'yes' : 'no')
+  },
+  {
+    header: `Temperature (°${units.temperature})`,
+    metric: 'temperature',
+    value: (reading) => (reading.temperature === undefined ? null : fromCelsius(reading.temperature, units.temperature))
+  },
+  { header: 'Respiratory rate (breaths/min)', metric: 'all', value: (reading) => reading.respiratoryRate ?? null },
+  { header: 'Consciousness (ACVPU)', metric: 'all', value: (reading) => reading.consciousness ?? null },
+  { header: 'NEWS2', metric: 'all', value: (reading) => reading.news2?.total ?? null },
+  { header: 'Status', value: (reading) => reading.status },
+  { header: 'Source', value: (reading) => reading.source ?? 'manual' },
+  { header: 'Device', value: (reading) => reading.device?.deviceId ?? null },
+  {
+    header: 'Imported from',
+    value: (reading) => (reading.imported ? `${reading.imported.format}: ${reading.imported.sourceIds.join(', ')}` : null)
+  },
+  { header: 'Recorded by', value: (reading) => reading.recordedBy },
+  { header: 'Alerts', value: (_, __, alerts) => alerts.length },
+  {
+    header: 'Highest alert severity',
+    value: (_, __, alerts) => SEVERITY_ORDER.find((severity) => alerts.some((alert) => alert.severity === severity)) ?? null
+  },
+  {
+    header: 'Alert details',
+    value: (_, __, alerts) =>
+      alerts.map((alert) => `${alert.severity}: ${localizeTemperatures(alert.reason ?? alert.message, units.temperature)}`).join('; ') || null
+  },
+  { header: 'Notes', value: (reading) => reading.notes ?? null }
+];
+
+const hasMetric = (reading: VitalReading, metric: ExportMetric) => {
+  switch (metric) {
+    case 'all': return true;
+    case 'heartRate': return reading.heartRate !== undefined;
+    case 'bloodPressure': return reading.bloodPressure !== undefined;
+    case 'spo2': return reading.oxygenLevel !== undefined;
+    case 'temperature': return reading.temperature !== undefined;
+  }
+};
+
+// Alerts by the readings that raised them, or that a repeat or trend alert
+// was updated from
+const alertsByReading = (alerts: Alert[]) => {
+  const byReading = new Map<string, Alert[]>();
+  for (const alert of alerts) {
+    const ids = new Set([alert.vitalId, alert.lastVitalId, ...(alert.vitalIds ?? [])]);
+    ids.forEach((id) => id && byReading.set(id, [...(byReading.get(id) ?? []), alert]));
+  }
+  return byReading;
+};
+
+const columnsFor = (metric: ExportMetric, units: UnitPreferences) =>
+  columns(units).filter((column) => !column.metric || column.metric === metric || metric === 'all');
+
+// One row per reading holding the selected metric, oldest first
+const patientRows = ({ patient, readings, alerts }: PatientExport, selected: Column[], metric: ExportMetric): Cell[][] => {
+  const byReading = alertsByReading(alerts);
+  return readings
+    .filter((reading) => hasMetric(reading, metric))
+    .map((reading) => selected.map((column) => column.value(reading, patient, byReading.get(reading.id) ?? [])));
+};
+
+const fileName = (period: AnalyticsPeriod, extension: string) =>
+  `vitals-${period}-${new Date().toISOString().split('T')[0]}.${extension}`;
+
+const download = (blob: Blob, name: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = name;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Sheet names are at most 31 characters, without []:*?/\, and unique
+const sheetName = (name: string, used: Set<string>) => {
+  const base = name.replace(/[[\]:*?/\\]/g, ' ').trim().slice(0, 31) || 'Patient';
+  let candidate = base;
+  for (let i = 2; used.has(candidate.toLowerCase()); i++) {
+    candidate = `${base.slice(0, 31 - String(i).length - 1)} ${i}`;
+  }
+  used.add(candidate.toLowerCase());
+  return candidate;
+};
+
+// All patients in one file, one row per reading. Returns the number of rows.
+export function downloadCsv(data: ReadingExport, metric: ExportMetric, units: UnitPreferences) {
+  const selected = columnsFor(metric, units);
+  const rows = data.patients.flatMap((patient) => patientRows(patient, selected, metric));
+  const header = selected.map((column) => column.header);
+  // The byte order mark makes Excel read the file as UTF-8, for ° and SpO₂
+  download(new Blob(['\uFEFF', toCsv([header, ...rows])], { type: 'text/csv;charset=utf-8' }), fileName(data.period, 'csv'));
+  return rows.length;
+}
+
+// One sheet per patient. Returns the number of rows.
+export async function downloadXlsx(data: ReadingExport, metric: ExportMetric, units: UnitPreferences) {
+  // Dynamic import to keep bundle size smaller
+  const XLSX = await import('npm:xlsx');
+  const book = XLSX.utils.book_new();
+  const selected = columnsFor(metric, units);
+  const header = selected.map((column) => column.header);
+  const used = new Set<string>();
+  let count = 0;
+  for (const patient of data.patients) {
+    const rows = patientRows(patient, selected, metric);
+    count += rows.length;
+    XLSX.utils.book_append_sheet(book, XLSX.utils.aoa_to_sheet([header, ...rows]), sheetName(patient.patient.name, used));
+  }
+  XLSX.writeFile(book, fileName(data.period, 'xlsx'));
+  return count;
+}
@@ -0,0 +1,39 @@
+import { useEffect, useRef, useState } from 'react';
+import { liveAPI, type LiveEvent, type LiveStatus } from './api';
+
+interface LiveUpdateOptions {
+  // Polling interval while the event stream is down
+  pollMs?: number;
+  // Slower safety poll while connected, for changes pushed to another server
+  // instance
+  livePollMs?: number;
+}
+
+// Keeps a view current: applies pushed events as they arrive, reloads on
+// every (re)connect so nothing missed while disconnected is lost, and falls
+// back to polling whenever the stream is unavailable.
+export function useLiveUpdates(
+  onEvent: (event: LiveEvent) => void,
+  reload: () => void,
+  { pollMs = 30000, livePollMs = 120000 }: LiveUpdateOptions = {}
+): LiveStatus {
+  const [status, setStatus] = useState<LiveStatus>('connecting');
+  // Latest callbacks, so the subscription is not torn down on every render
+  const handlers = useRef({ onEvent, reload });
+  handlers.current = { onEvent, reload };
+
+  useEffect(() => {
+    return liveAPI.subscribe({
+      onEvent: (event) => handlers.current.onEvent(event),
+      onReady: () => handlers.current.reload(),
+      onStatus: setStatus
+    });
+  }, []);
+
+  useEffect(() => {
+    const interval = setInterval(() => handlers.current.reload(), status === 'live' ? livePollMs : pollMs);
+    return () => clearInterval(interval);
+  }, [status, pollMs, livePollMs]);
+
+  return status;
+}
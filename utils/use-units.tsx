@@ -0,0 +1,43 @@
+import { useEffect, useState } from 'react';
+import { settingsAPI, type UnitPreferences, type UnitSettings } from './api';
+import { DEFAULT_UNITS } from '../supabase/functions/_shared/units';
+
+// Shared by every mounted view, so the settings are fetched once per session
+// and a change made in Settings shows everywhere straight away
+let current: UnitSettings | null = null;
+let loading: Promise<void> | null = null;
+const listeners = new Set<(settings: UnitSettings) => void>();
+
+const load = () => {
+  loading ??= settingsAPI
+    .getUnits()
+    .then(({ units }) => setUnitSettings(units))
+    .catch((error) => {
+      console.error('Error loading unit settings:', error);
+      // Try again the next time a view mounts
+      loading = null;
+    });
+  return loading;
+};
+
+// Called after the settings are saved
+export function setUnitSettings(settings: UnitSettings) {
+  current = settings;
+  listeners.forEach((listener) => listener(settings));
+}
+
+// The units the signed-in user sees values in; readings themselves are always
+// in °C. Falls back to the defaults until the settings have loaded.
+export function useUnits(): UnitPreferences {
+  const [settings, setSettings] = useState(current);
+
+  useEffect(() => {
+    listeners.add(setSettings);
+    if (!current) load();
+    return () => {
+      listeners.delete(setSettings);
+    };
+  }, []);
+
+  return settings?.effective ?? DEFAULT_UNITS;
+}